@@ -0,0 +1,215 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * Counts the bytes per key (like a peer fingerprint) and day (UTC).
+ */
+export class DailyQuota implements db_contracts.IDailyQuota {
+    /**
+     * Stores the current day.
+     */
+    protected _day: string;
+    /**
+     * Stores the used bytes of the current day by key.
+     */
+    protected _usage: { [key: string]: number } = {};
+
+    /** @inheritdoc */
+    public add(key: string, bytes: number) {
+        this.resetIfNeeded();
+
+        key = simpleSocketHelpers.normalizeString(key);
+
+        this._usage[key] = (this._usage[key] || 0) + Math.max(0, bytes);
+    }
+
+    /**
+     * Gets or sets the maximum number of bytes per key and day. 0 or less means 'unlimited'.
+     */
+    public limit = 0;
+
+    /** @inheritdoc */
+    public remaining(key: string): number {
+        let limit = parseInt(simpleSocketHelpers.toStringSafe(this.limit).trim());
+        if (isNaN(limit) || limit <= 0) {
+            return Infinity;
+        }
+
+        this.resetIfNeeded();
+
+        key = simpleSocketHelpers.normalizeString(key);
+
+        return Math.max(0, limit - (this._usage[key] || 0));
+    }
+
+    /**
+     * Resets the usage, if a new day has been begun.
+     */
+    protected resetIfNeeded() {
+        let today = new Date().toISOString().substr(0, 10);
+        if (today !== this._day) {
+            this._day = today;
+            this._usage = {};
+        }
+    }
+}
+
+/**
+ * Measures the progress of a transfer.
+ */
+export class ProgressMeter {
+    /**
+     * Stores the number of bytes at start.
+     */
+    protected _initialBytes: number;
+    /**
+     * Stores the start time.
+     */
+    protected _startTime: number;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} name The name of the transfer.
+     * @param {string} direction The direction.
+     * @param {number} [total] The total number of bytes, if known.
+     * @param {number} [bytes] The number of bytes, that have already been transfered before.
+     */
+    constructor(name: string, direction: 'download' | 'upload', total?: number, bytes?: number) {
+        this.bytes = bytes > 0 ? bytes : 0;
+        this.direction = direction;
+        this.name = name;
+        this.total = simpleSocketHelpers.isNullOrUndefined(total) ? null : total;
+
+        this._initialBytes = this.bytes;
+        this._startTime = Date.now();
+    }
+
+    /**
+     * Gets the number of transfered bytes.
+     */
+    public bytes: number;
+
+    /**
+     * Gets the direction.
+     */
+    public readonly direction: 'download' | 'upload';
+
+    /**
+     * Gets the name of the transfer.
+     */
+    public readonly name: string;
+
+    /**
+     * Gets the total number of bytes or (null) if unknown.
+     */
+    public readonly total: number;
+
+    /**
+     * Adds transfered bytes.
+     * 
+     * @param {number} bytes The number of bytes.
+     * 
+     * @return {db_contracts.ITransferProgress} The current progress.
+     */
+    public update(bytes: number): db_contracts.ITransferProgress {
+        this.bytes += bytes;
+
+        let seconds = (Date.now() - this._startTime) / 1000;
+        let rate = seconds > 0 ? ((this.bytes - this._initialBytes) / seconds) : 0;
+
+        let eta: number = null;
+        if (null !== this.total && rate > 0) {
+            eta = Math.max(0, this.total - this.bytes) / rate;
+        }
+
+        return {
+            bytes: this.bytes,
+            direction: this.direction,
+            eta: eta,
+            name: this.name,
+            rate: rate,
+            total: this.total,
+        };
+    }
+}
+
+/**
+ * A token bucket, that limits the number of bytes per second.
+ */
+export class TokenBucket implements db_contracts.ITokenBucket {
+    /**
+     * Stores the time of the last refill.
+     */
+    protected _lastRefill: number;
+    /**
+     * Stores the available tokens (bytes). Can be negative, if bytes have been borrowed.
+     */
+    protected _tokens = 0;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {number} [rate] The initial rate, in bytes per second.
+     */
+    constructor(rate?: number) {
+        this.rate = rate > 0 ? rate : 0;
+
+        this._lastRefill = Date.now();
+    }
+
+    /** @inheritdoc */
+    public consume(bytes: number): PromiseLike<void> {
+        let me = this;
+
+        return new Promise<void>((resolve) => {
+            let rate = parseFloat(simpleSocketHelpers.toStringSafe(me.rate).trim());
+            if (isNaN(rate) || rate <= 0) {
+                resolve();  // unlimited
+                return;
+            }
+
+            // refill, but not more than one second
+            let now = Date.now();
+            me._tokens = Math.min(rate,
+                                  me._tokens + (now - me._lastRefill) * rate / 1000);
+            me._lastRefill = now;
+
+            // borrow the missing bytes
+            // and wait until they are available
+            me._tokens -= Math.max(0, bytes);
+            if (me._tokens >= 0) {
+                resolve();
+            }
+            else {
+                setTimeout(() => {
+                    resolve();
+                }, Math.ceil(-me._tokens / rate * 1000));
+            }
+        });
+    }
+
+    /**
+     * Gets or sets the rate, in bytes per second. 0 or less means 'unlimited'.
+     */
+    public rate: number;
+}
@@ -0,0 +1,223 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_messages from './messages';
+import * as events from 'events';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * The capability for channels with flow control.
+ */
+export const CAPABILITY_CHANNELS = 'channels';
+/**
+ * The number of bytes a side can send over a channel, before the other side has to allow more.
+ */
+export const CHANNEL_WINDOW = 4194304;
+
+
+/**
+ * A logical channel of a connection.
+ */
+export class Channel extends events.EventEmitter implements db_contracts.IChannel {
+    /**
+     * Stores the connection.
+     */
+    protected _connection: db_contracts.IConnection;
+    /**
+     * Stores the ID.
+     */
+    protected _id: number;
+    /**
+     * Stores if the channel has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores the number of received bytes, the remote has not been allowed to send again yet.
+     */
+    protected _unconfirmedBytes = 0;
+    /**
+     * Stores the number of bytes, that can be sent.
+     */
+    protected _window = CHANNEL_WINDOW;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {number} id The ID.
+     */
+    constructor(conn: db_contracts.IConnection, id: number) {
+        super();
+
+        this._connection = conn;
+        this._id = id;
+    }
+
+    /** @inheritdoc */
+    public close(reason?: string): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve) => {
+            if (!me.markAsClosed(reason, false)) {
+                resolve(false);
+                return;
+            }
+
+            let capabilities = me._connection.capabilities || [];
+            if (me._connection.isClosed || capabilities.indexOf(CAPABILITY_CHANNELS) < 0) {
+                resolve(true);  // remote does not know channels
+                return;
+            }
+
+            me._connection.sendMessage<db_messages.IChannelCloseMessage>({
+                type: 28,
+                channelId: me._id,
+                reason: reason,
+            }).then(() => {
+                resolve(true);
+            }, () => {
+                resolve(true);
+            });
+        });
+    }
+
+    /**
+     * Confirms received bytes and returns the number of bytes the remote can be allowed to send again.
+     * 
+     * @param {number} bytes The number of received bytes.
+     * 
+     * @return {number} The number of bytes, which is 0 if it is too early to tell the remote.
+     */
+    public confirm(bytes: number): number {
+        this._unconfirmedBytes += Math.max(0, bytes);
+        if (this._unconfirmedBytes < CHANNEL_WINDOW / 2) {
+            return 0;
+        }
+
+        let credit = this._unconfirmedBytes;
+        this._unconfirmedBytes = 0;
+
+        return credit;
+    }
+
+    /** @inheritdoc */
+    public get connection(): db_contracts.IConnection {
+        return this._connection;
+    }
+
+    /**
+     * Allows sending more bytes.
+     * 
+     * @param {number} credit The number of additional bytes.
+     */
+    public grant(credit: number) {
+        this._window += Math.max(0, credit);
+    }
+
+    /** @inheritdoc */
+    public get id(): number {
+        return this._id;
+    }
+
+    /** @inheritdoc */
+    public get isClosed(): boolean {
+        return this._isClosed;
+    }
+
+    /**
+     * Marks the channel as closed without telling the remote.
+     * 
+     * @param {string} reason The reason.
+     * @param {boolean} isRemote Closed by the remote or not.
+     * 
+     * @return {boolean} Channel has been closed by that call or not.
+     */
+    public markAsClosed(reason: string, isRemote: boolean): boolean {
+        if (this._isClosed) {
+            return false;
+        }
+        this._isClosed = true;
+
+        this.emit('close',
+                  reason, isRemote);
+
+        return true;
+    }
+
+    /** @inheritdoc */
+    public request<TReply extends db_messages.IMessage>(msg: db_messages.IMessage, timeout?: number): PromiseLike<TReply> {
+        if (this._isClosed) {
+            return Promise.reject(toClosedError(this));
+        }
+
+        msg.channel = this._id;
+
+        return this._connection.request<TReply>(msg, timeout);
+    }
+
+    /** @inheritdoc */
+    public sendMessage<TMsg extends db_messages.IMessage>(msg: TMsg): PromiseLike<Buffer> {
+        if (this._isClosed) {
+            return Promise.reject(toClosedError(this));
+        }
+
+        if (!simpleSocketHelpers.isNullOrUndefined(msg)) {
+            msg.channel = this._id;
+        }
+
+        return this._connection.sendMessage<TMsg>(msg);
+    }
+
+    /**
+     * Takes bytes from the window, if there are bytes left.
+     * 
+     * @param {number} bytes The number of bytes to send.
+     * 
+     * @return {boolean} Bytes can be sent or not.
+     */
+    public take(bytes: number): boolean {
+        if (this._window <= 0) {
+            return false;  // wait for the remote
+        }
+
+        this._window -= Math.max(0, bytes);
+        return true;
+    }
+
+    /** @inheritdoc */
+    public get window(): number {
+        return this._window;
+    }
+}
+
+
+/**
+ * Creates the error for a cancelled operation of a closed channel.
+ * 
+ * @param {db_contracts.IChannel} channel The channel.
+ * 
+ * @return {db_errors.DeliveryBoyError} The error.
+ */
+export function toClosedError(channel: db_contracts.IChannel): db_errors.DeliveryBoyError {
+    return new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Cancelled,
+                                          `Channel ${channel.id} has been closed!`);
+}
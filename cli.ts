@@ -0,0 +1,627 @@
+#!/usr/bin/env node
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as db_discovery from './discovery';
+import * as db_index from './index';
+import * as db_library from './library';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * The parsed command line.
+ */
+export interface ICommandLine {
+    /**
+     * The arguments without the options.
+     */
+    args: string[];
+    /**
+     * The options by name.
+     */
+    options: { [name: string]: string | string[] | boolean };
+}
+
+interface ICommand {
+    args: string;
+    description: string;
+    execute: (cmdLine: ICommandLine, output: Output) => PromiseLike<number>;
+    minArgs: number;
+}
+
+type Output = (humanReadable: string, json?: any) => void;
+
+
+/**
+ * Exit code: A command failed.
+ */
+export const EXIT_FAILURE = 1;
+/**
+ * Exit code: Success.
+ */
+export const EXIT_SUCCESS = 0;
+/**
+ * Exit code: Invalid command line.
+ */
+export const EXIT_USAGE = 2;
+
+// options, that have a value
+const VALUE_OPTIONS = [ 'identity', 'known-peers', 'name', 'port', 'timeout', 'unlock', 'upload-dir' ];
+
+const COMMANDS: { [name: string]: ICommand } = {
+    'get': {
+        args: '<host[:port]> <entry> [dest]',
+        description: 'Downloads a library entry (ID or path) of a remote.',
+        execute: executeGet,
+        minArgs: 2,
+    },
+    'ls': {
+        args: '<host[:port]> [path]',
+        description: 'Lists the library of a remote.',
+        execute: executeLs,
+        minArgs: 1,
+    },
+    'peers': {
+        args: '',
+        description: 'Lists the peers in the local network.',
+        execute: executePeers,
+        minArgs: 0,
+    },
+    'put': {
+        args: '<host[:port]> <file>',
+        description: 'Uploads a file to a remote.',
+        execute: executePut,
+        minArgs: 2,
+    },
+    'serve': {
+        args: '<dir...>',
+        description: 'Shares directories until interrupted.',
+        execute: executeServe,
+        minArgs: 1,
+    },
+};
+
+const USAGE_OPTIONS = `Options:
+  --discover              Announces the instance in the local network (serve).
+  --identity <file>       The file of the identity.
+  --json                  Writes JSON instead of text.
+  --known-peers <file>    The file of the known peers.
+  --name <name>           The name, that is announced in the local network.
+  --port <port>           The TCP port (serve).
+  --quiet                 Does not write progress.
+  --timeout <ms>          The time to wait for announcements (peers).
+  --unlock <share[:pwd]>  Unlocks a share of the remote before (can be repeated).
+  --upload-dir <dir>      The directory for uploads of remotes (serve).`;
+
+
+/**
+ * Parses a command line.
+ * 
+ * @param {string[]} argv The arguments, without the ones of node and the script.
+ * 
+ * @return {ICommandLine} The parsed command line.
+ */
+export function parseCommandLine(argv: string[]): ICommandLine {
+    let cmdLine: ICommandLine = {
+        args: [],
+        options: {},
+    };
+
+    argv = (argv || []).map(x => simpleSocketHelpers.toStringSafe(x));
+    for (let i = 0; i < argv.length; i++) {
+        let arg = argv[i];
+
+        if ('--' === arg) {
+            cmdLine.args = cmdLine.args.concat(argv.slice(i + 1));
+            break;
+        }
+
+        if (0 !== arg.indexOf('--')) {
+            cmdLine.args.push(arg);
+            continue;
+        }
+
+        let name = arg.substr(2);
+        let value: string | boolean = true;
+
+        let separator = name.indexOf('=');
+        if (separator > -1) {
+            value = name.substr(separator + 1);
+            name = name.substr(0, separator);
+        }
+        else if (VALUE_OPTIONS.indexOf(name) > -1 && i < argv.length - 1) {
+            value = argv[++i];
+        }
+
+        name = simpleSocketHelpers.normalizeString(name);
+
+        let existingValue = cmdLine.options[name];
+        if ('unlock' === name) {
+            cmdLine.options[name] = (<string[]>existingValue || []).concat([ simpleSocketHelpers.toStringSafe(value) ]);
+        }
+        else {
+            cmdLine.options[name] = value;
+        }
+    }
+
+    return cmdLine;
+}
+
+/**
+ * Runs the command line tool.
+ * 
+ * @param {string[]} argv The arguments, without the ones of node and the script.
+ * 
+ * @return {PromiseLike<number>} The promise with the exit code.
+ */
+export function run(argv: string[]): PromiseLike<number> {
+    let cmdLine = parseCommandLine(argv);
+    let isJson = true === cmdLine.options['json'];
+
+    let output: Output = (humanReadable, json?) => {
+        if (isJson) {
+            if (!simpleSocketHelpers.isNullOrUndefined(json)) {
+                process.stdout.write(JSON.stringify(json) + '\n');
+            }
+        }
+        else {
+            process.stdout.write(humanReadable + '\n');
+        }
+    };
+
+    let name = simpleSocketHelpers.normalizeString(cmdLine.args.shift());
+    let cmd = COMMANDS[name];
+
+    if (!cmd || true === cmdLine.options['help']) {
+        process.stderr.write(getUsage() + '\n');
+        return Promise.resolve(cmd || !name ? EXIT_SUCCESS : EXIT_USAGE);
+    }
+
+    if (cmdLine.args.length < cmd.minArgs) {
+        process.stderr.write(`Usage: delivery-boy ${name} ${cmd.args}\n`);
+        return Promise.resolve(EXIT_USAGE);
+    }
+
+    return new Promise<number>((resolve) => {
+        let fail = (err: any) => {
+            let message = simpleSocketHelpers.toStringSafe(err && err.message ? err.message : err);
+
+            if (isJson) {
+                process.stderr.write(JSON.stringify({
+                    code: err && err.code,
+                    error: message,
+                }) + '\n');
+            }
+            else {
+                process.stderr.write(`Error: ${message}\n`);
+            }
+
+            resolve(EXIT_FAILURE);
+        };
+
+        try {
+            cmd.execute(cmdLine, output).then((exitCode) => {
+                resolve(exitCode);
+            }, (err) => {
+                fail(err);
+            });
+        }
+        catch (e) {
+            fail(e);
+        }
+    });
+}
+
+
+function connectTo(client: db_index.DeliveryBoy, cmdLine: ICommandLine, address: string): PromiseLike<db_contracts.IConnection> {
+    let host = simpleSocketHelpers.toStringSafe(address).trim();
+    let port: number;
+
+    // 'host:port' or '[IPv6]:port'
+    let match = /^\[(.*)\](?::(\d+))?$/.exec(host) || /^([^:]*):(\d+)$/.exec(host);
+    if (match) {
+        host = match[1];
+        port = match[2] ? parseInt(match[2]) : undefined;
+    }
+
+    return client.connect(host, port).then((conn) => {
+        let unlocks = <string[]>cmdLine.options['unlock'] || [];
+
+        let unlockNext = (): PromiseLike<db_contracts.IConnection> => {
+            if (unlocks.length < 1) {
+                return Promise.resolve(conn);
+            }
+
+            let share = unlocks.shift();
+            let password: string;
+
+            let separator = share.indexOf(':');
+            if (separator > -1) {
+                password = share.substr(separator + 1);
+                share = share.substr(0, separator);
+            }
+
+            return conn.unlockShare(share, password).then(() => {
+                return unlockNext();
+            });
+        };
+
+        return unlockNext();
+    });
+}
+
+function createClient(cmdLine: ICommandLine): db_index.DeliveryBoy {
+    let client = new db_index.DeliveryBoy();
+
+    let identityFile = getStringOption(cmdLine, 'identity');
+    if (identityFile) {
+        client.identityFile = identityFile;
+    }
+
+    let knownPeersFile = getStringOption(cmdLine, 'known-peers');
+    if (knownPeersFile) {
+        client.knownPeersFile = knownPeersFile;
+    }
+
+    let name = getStringOption(cmdLine, 'name');
+    if (name) {
+        client.name = name;
+    }
+
+    if (true !== cmdLine.options['quiet'] && true !== cmdLine.options['json']) {
+        let lastUpdate = 0;
+
+        client.on('transfer.progress', (progress: db_contracts.ITransferProgress) => {
+            let now = Date.now();
+            let isDone = null !== progress.total && progress.bytes >= progress.total;
+
+            if (!isDone && (now - lastUpdate) < 250) {
+                return;
+            }
+            lastUpdate = now;
+
+            let status = formatBytes(progress.bytes);
+            if (null !== progress.total) {
+                let percentage = progress.total > 0 ? Math.floor(progress.bytes / progress.total * 100) : 100;
+
+                status = `${percentage}%  ${status} / ${formatBytes(progress.total)}`;
+            }
+            status += `  ${formatBytes(progress.rate)}/s`;
+            if (null !== progress.eta) {
+                status += `  ${Math.ceil(progress.eta)}s`;
+            }
+
+            process.stderr.write(`\r${progress.name}  ${status}\x1b[K` + (isDone ? '\n' : ''));
+        });
+    }
+
+    return client;
+}
+
+function executeGet(cmdLine: ICommandLine, output: Output): PromiseLike<number> {
+    let client = createClient(cmdLine);
+
+    return withConnection(client, cmdLine, (conn) => {
+        return findEntry(conn, cmdLine.args[1]).then((entry) => {
+            let dest = cmdLine.args[2] || '.';
+            if (fs.existsSync(dest) && fs.statSync(dest).isDirectory()) {
+                dest = path.join(dest, path.basename(entry.path));
+            }
+            dest = path.resolve(dest);
+
+            return new Promise<number>((resolve, reject) => {
+                let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+                let source = conn.createReadStream(entry.id);
+                let target = fs.createWriteStream(dest);
+
+                let fail = (err: any) => {
+                    source.abort();
+                    target.close();
+
+                    fs.unlink(dest, () => {
+                        completed(err);
+                    });
+                };
+
+                source.once('error', fail);
+                target.once('error', fail);
+                target.once('finish', () => {
+                    output(`${entry.path} => ${dest}`, {
+                        file: dest,
+                        id: entry.id,
+                        path: entry.path,
+                        size: entry.size,
+                    });
+
+                    completed(null, EXIT_SUCCESS);
+                });
+
+                source.pipe(target);
+            });
+        });
+    });
+}
+
+function executeLs(cmdLine: ICommandLine, output: Output): PromiseLike<number> {
+    let client = createClient(cmdLine);
+
+    return withConnection(client, cmdLine, (conn) => {
+        return listEntries(conn).then((entries) => {
+            let dir = toLibraryPath(cmdLine.args[1]);
+            if ('' !== dir) {
+                entries = entries.filter((x) => {
+                    return x.path === dir ||
+                           0 === x.path.indexOf(dir + '/');
+                });
+            }
+
+            output(entries.map((x) => {
+                return `${x.id}  ${padLeft(formatBytes(x.size), 10)}  ${new Date(x.mtime).toISOString()}  ${x.path}`;
+            }).join('\n'), entries);
+
+            return EXIT_SUCCESS;
+        });
+    });
+}
+
+function executePeers(cmdLine: ICommandLine, output: Output): PromiseLike<number> {
+    let client = createClient(cmdLine);
+
+    let timeout = parseInt(getStringOption(cmdLine, 'timeout'));
+    if (isNaN(timeout) || timeout < 0) {
+        timeout = db_discovery.DEFAULT_DISCOVERY_INTERVAL + 1000;
+    }
+
+    return client.discovery.start().then(() => {
+        return new Promise<number>((resolve) => {
+            setTimeout(() => {
+                let peers = client.discoveredPeers;
+
+                client.stop().then(() => {
+                    output(peers.map((x) => {
+                        return `${x.fingerprint}  ${x.address}:${x.port}  ${x.name}`;
+                    }).join('\n'), peers);
+
+                    resolve(EXIT_SUCCESS);
+                }, () => {
+                    resolve(EXIT_FAILURE);
+                });
+            }, timeout);
+        });
+    });
+}
+
+function executePut(cmdLine: ICommandLine, output: Output): PromiseLike<number> {
+    let client = createClient(cmdLine);
+
+    let file = path.resolve(cmdLine.args[1]);
+    let name = path.basename(file);
+
+    // fail before connecting
+    let size = fs.statSync(file).size;
+
+    return withConnection(client, cmdLine, (conn) => {
+        return new Promise<number>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            let source = fs.createReadStream(file);
+            let target = conn.createWriteStream(name);
+
+            let isFailed = false;
+            let fail = (err: any) => {
+                if (isFailed) {
+                    return;
+                }
+                isFailed = true;
+
+                source.unpipe(target);
+                source.close();
+                target.abort();  // discards the file on the remote
+
+                completed(err);
+            };
+
+            source.once('error', fail);
+            target.on('error', fail);
+            target.once('finish', () => {
+                if (isFailed) {
+                    return;  // finished by 'abort()'
+                }
+
+                output(`${file} => ${name}`, {
+                    file: file,
+                    name: name,
+                    size: size,
+                });
+
+                completed(null, EXIT_SUCCESS);
+            });
+
+            source.pipe(target);
+        });
+    });
+}
+
+function executeServe(cmdLine: ICommandLine, output: Output): PromiseLike<number> {
+    let client = createClient(cmdLine);
+
+    client.shares = cmdLine.args.map(x => path.resolve(x));
+
+    let port = getStringOption(cmdLine, 'port');
+    if (port) {
+        client.port = parseInt(port);
+    }
+
+    let uploadDir = getStringOption(cmdLine, 'upload-dir');
+    if (uploadDir) {
+        client.uploadDir = path.resolve(uploadDir);
+    }
+
+    client.on('listen.accepted', (conn: db_contracts.IConnection) => {
+        output(`Connected: ${conn.peer.fingerprint} (${conn.peer.address})`, {
+            address: conn.peer.address,
+            event: 'connected',
+            fingerprint: conn.peer.fingerprint,
+        });
+    });
+    client.on('connection.close', (conn: db_contracts.IConnection, reason: string) => {
+        output(`Disconnected: ${conn.peer ? conn.peer.fingerprint : '?'} (${reason})`, {
+            event: 'disconnected',
+            fingerprint: conn.peer ? conn.peer.fingerprint : null,
+            reason: reason,
+        });
+    });
+
+    return client.library.refresh().then((entries) => {
+        return client.start().then(() => {
+            let discover = true === cmdLine.options['discover'] ? client.discovery.start() : Promise.resolve(false);
+
+            return discover.then(() => {
+                return client.getIdentity();
+            });
+        }).then((identity) => {
+            output(`Sharing ${entries.length} entries on port ${client.port} as ${identity.fingerprint}`, {
+                entries: entries.length,
+                event: 'listening',
+                fingerprint: identity.fingerprint,
+                port: client.port,
+            });
+
+            return new Promise<number>((resolve) => {
+                let shutdown = () => {
+                    client.stop().then(() => {
+                        resolve(EXIT_SUCCESS);
+                    }, () => {
+                        resolve(EXIT_FAILURE);
+                    });
+                };
+
+                process.once('SIGINT', shutdown);
+                process.once('SIGTERM', shutdown);
+            });
+        });
+    });
+}
+
+function findEntry(conn: db_contracts.IConnection, idOrPath: string): PromiseLike<db_contracts.ILibraryEntry> {
+    let entryPath = toLibraryPath(idOrPath);
+    let id = simpleSocketHelpers.normalizeString(idOrPath);
+
+    return listEntries(conn).then((entries) => {
+        let entry = entries.filter(x => x.id === id || x.path === entryPath)[0];
+        if (!entry) {
+            throw new Error(`Entry '${idOrPath}' not found!`);
+        }
+
+        return entry;
+    });
+}
+
+function formatBytes(bytes: number): string {
+    let units = [ 'B', 'KB', 'MB', 'GB', 'TB' ];
+
+    let i = 0;
+    while (bytes >= 1024 && i < units.length - 1) {
+        bytes /= 1024;
+        i++;
+    }
+
+    return (0 === i ? bytes.toFixed(0) : bytes.toFixed(1)) + ' ' + units[i];
+}
+
+function getStringOption(cmdLine: ICommandLine, name: string): string {
+    let value = cmdLine.options[name];
+
+    return 'string' === typeof value ? value.trim() : null;
+}
+
+function getUsage(): string {
+    let commands = Object.keys(COMMANDS).sort().map((x) => {
+        let cmd = COMMANDS[x];
+
+        return `  ${x} ${cmd.args}\n      ${cmd.description}`;
+    });
+
+    return `Usage: delivery-boy <command> [options]\n\nCommands:\n${commands.join('\n')}\n\n${USAGE_OPTIONS}`;
+}
+
+function listEntries(conn: db_contracts.IConnection): PromiseLike<db_contracts.ILibraryEntry[]> {
+    let entries: db_contracts.ILibraryEntry[] = [];
+
+    let listNext = (): PromiseLike<db_contracts.ILibraryEntry[]> => {
+        return conn.listLibrary(entries.length, db_library.MAX_PAGE_SIZE).then((page) => {
+            entries = entries.concat(page.entries);
+
+            if (page.entries.length < 1 || entries.length >= page.total) {
+                return entries;
+            }
+
+            return listNext();
+        });
+    };
+
+    return listNext();
+}
+
+function padLeft(str: string, length: number): string {
+    while (str.length < length) {
+        str = ' ' + str;
+    }
+
+    return str;
+}
+
+function toLibraryPath(p: string): string {
+    return simpleSocketHelpers.toStringSafe(p).trim()
+                                             .replace(/\\/g, '/')
+                                             .replace(/^\/+|\/+$/g, '');
+}
+
+function withConnection(client: db_index.DeliveryBoy, cmdLine: ICommandLine,
+                        action: (conn: db_contracts.IConnection) => PromiseLike<number>): PromiseLike<number> {
+    return new Promise<number>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        let stopAndComplete = (err: any, exitCode?: number) => {
+            client.stop().then(() => {
+                completed(err, exitCode);
+            }, () => {
+                completed(err, EXIT_FAILURE);
+            });
+        };
+
+        connectTo(client, cmdLine, cmdLine.args[0]).then((conn) => {
+            return action(conn);
+        }).then((exitCode) => {
+            stopAndComplete(null, exitCode);
+        }, (err) => {
+            stopAndComplete(err);
+        });
+    });
+}
+
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then((exitCode) => {
+        process.exit(exitCode);
+    });
+}
@@ -17,180 +17,1729 @@
 // along with this program.  If not, see <http://www.gnu.org/licenses/>.
 
 import * as crypto from 'crypto';
+import * as db_bandwidth from './bandwidth';
+import * as db_channel from './channel';
 import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_identity from './identity';
 import * as db_messages from './messages';
+import * as db_shares from './shares';
+import * as db_streams from './streams';
+import * as db_transfer from './transfer';
 import * as events from 'events';
-import * as simpleSocket from 'node-simple-socket';
 import * as simpleSocketHelpers from 'node-simple-socket/helpers';
 
 
+/**
+ * The default time, in milliseconds, a handshake may take.
+ */
+export const DEFAULT_HANDSHAKE_TIMEOUT = 30000;
+/**
+ * The default time, in milliseconds, without messages of the remote after that a ping is sent.
+ */
+export const DEFAULT_HEARTBEAT_INTERVAL = 15000;
+/**
+ * The default time, in milliseconds, without messages of the remote after that a connection is closed.
+ */
+export const DEFAULT_IDLE_TIMEOUT = 60000;
+/**
+ * The default time, in milliseconds, to wait for the reply of a request.
+ */
+export const DEFAULT_REQUEST_TIMEOUT = 60000;
+/**
+ * The maximum number of unread messages, that are kept for 'readMessage()'.
+ */
+export const MAX_INBOX_SIZE = 100;
+/**
+ * The maximum number of channels, a remote can open over one connection.
+ */
+export const MAX_REMOTE_CHANNELS = 256;
+/**
+ * The minimum version of the protocol a remote must support.
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+/**
+ * The time, in milliseconds, a handshake nonce is remembered to detect replays.
+ */
+export const NONCE_LIFETIME = 3600000;
+/**
+ * The current version of the protocol.
+ */
+export const PROTOCOL_VERSION = 1;
+/**
+ * The version of the software.
+ */
+export const VERSION: string = require('./package.json').version;
+
+interface IPendingRead {
+    channel?: number;
+    completed: (err: any, msg?: db_messages.IMessage) => void;
+}
+
+interface IPendingWrite {
+    completed: (err: any, buffer?: Buffer) => void;
+    data: Buffer;
+}
+
+let usedNonces: { [nonce: string]: number } = {};
+
+
 /**
  * A connection.
  */
 export class Connection extends events.EventEmitter implements db_contracts.IConnection {
+    /**
+     * Stores the number of running transfers.
+     */
+    protected _activeTransfers = 0;
+    /**
+     * Stores the negotiated capabilities.
+     */
+    protected _capabilities: string[];
+    /**
+     * Stores the open channels by ID.
+     */
+    protected _channels: { [id: number]: db_channel.Channel } = {};
     /**
      * Stores the client.
      */
     protected _client: db_contracts.IClient;
+    /**
+     * Stores the download limit of that connection.
+     */
+    protected _downloadBucket = new db_bandwidth.TokenBucket();
+    /**
+     * Stores the timer for the heartbeats.
+     */
+    protected _heartbeat: NodeJS.Timer;
+    /**
+     * Stores the message handlers by type.
+     */
+    protected _handlers: { [messageType: number]: db_contracts.MessageHandler } = {};
     /**
      * Stores if handshake has been made or not.
      */
     protected _handskakeMade = false;
+    /**
+     * Stores the messages that have not been read yet.
+     */
+    protected _inbox: db_messages.IMessage[] = [];
+    /**
+     * Stores if the connection has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores if the background read loop is running or not.
+     */
+    protected _isReading = false;
+    /**
+     * Stores if data is currently written to the socket or not.
+     */
+    protected _isWriting = false;
+    /**
+     * Stores the time (milliseconds since 1970-01-01) of the last message of the remote.
+     */
+    protected _lastActivity: number;
+    /**
+     * Stores the ID of the last channel that has been opened by that side.
+     */
+    protected _lastChannelId: number;
+    /**
+     * Stores the last message ID.
+     */
+    protected _lastMessageId = 0;
+    /**
+     * Stores the identity of the remote peer.
+     */
+    protected _peer: db_contracts.IPeerIdentity;
+    /**
+     * Stores the handshake that is currently running.
+     */
+    protected _pendingHandshake: PromiseLike<boolean | null>;
+    /**
+     * Stores the negotiated protocol version.
+     */
+    protected _protocolVersion: number;
+    /**
+     * Stores the calls of 'readMessage()' that wait for a message.
+     */
+    protected _readers: IPendingRead[] = [];
+    /**
+     * Stores the software version of the remote.
+     */
+    protected _remoteVersion: string;
+    /**
+     * Stores the requests that wait for a reply, by message ID.
+     */
+    protected _requests: { [id: string]: IPendingRead } = {};
     /**
      * Stores the socket.
      */
-    protected _socket: simpleSocket.SimpleSocket;
+    protected _socket: db_contracts.ITransportSocket;
     /**
      * Stores the type.
      */
     protected _type: db_contracts.ConnectionType;
+    /**
+     * Stores the upload limit of that connection.
+     */
+    protected _uploadBucket = new db_bandwidth.TokenBucket();
+    /**
+     * Stores the IDs of the channels with unsent data, in the order they are allowed to write.
+     */
+    protected _writeOrder: number[] = [];
+    /**
+     * Stores the unsent data by channel.
+     */
+    protected _writeQueues: { [channelId: number]: IPendingWrite[] } = {};
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.ConnectionType} type The type. 
+     * @param {db_contracts.IClient} client The client.
+     * @param {db_contracts.ITransportSocket} socket The socket.
+     */
+    constructor(type: db_contracts.ConnectionType,
+                client: db_contracts.IClient,
+                socket: db_contracts.ITransportSocket) {
+        super();
+
+        let me = this;
+
+        me._type = type;
+        me._client = client;
+        me._socket = socket;
+        me._lastActivity = Date.now();
+
+        // clients use odd channel IDs, servers even ones
+        me._lastChannelId = db_contracts.ConnectionType.Client === type ? -1 : 0;
+
+        if (socket) {
+            socket.on('close', () => {
+                me.shutdown('Connection closed by remote!', true);
+            });
+            socket.on('error', (err: any) => {
+                me.emit('error.socket',
+                        err);
+            });
+        }
+
+        // heartbeats
+        me.on(16, (): db_messages.IPongMessage => {
+            return {
+                type: 17,
+            };
+        });
+
+        // remote closes connection
+        me.on(18, (msg: db_messages.IGoodbyeMessage) => {
+            me.shutdown(simpleSocketHelpers.toStringSafe(msg.reason), true);
+        });
+
+        // channels
+        me.on(28, (msg: db_messages.IChannelCloseMessage) => {
+            let channel = me._channels[msg.channelId];
+            if (channel) {
+                channel.markAsClosed(simpleSocketHelpers.toStringSafe(msg.reason), true);
+            }
+        });
+        me.on(29, (msg: db_messages.IChannelWindowMessage) => {
+            let channel = me._channels[msg.channelId];
+            if (channel) {
+                channel.grant(msg.credit);
+
+                me.flushWrites();
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public get activeTransfers(): number {
+        return this._activeTransfers;
+    }
+
+    /** @inheritdoc */
+    public get capabilities(): string[] {
+        return this._capabilities;
+    }
+
+    /** @inheritdoc */
+    public get channels(): db_contracts.IChannel[] {
+        let me = this;
+
+        return Object.keys(me._channels).map((id) => {
+            return me._channels[<any>id];
+        });
+    }
+
+    /** @inheritdoc */
+    public get client(): db_contracts.IClient {
+        return this._client;
+    }
+
+    /** @inheritdoc */
+    public close(reason?: string): PromiseLike<boolean> {
+        let me = this;
+
+        reason = simpleSocketHelpers.toStringSafe(reason);
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (me._isClosed) {
+                    completed(null, false);
+                    return;
+                }
+
+                let shutdown = () => {
+                    me.shutdown(reason, false).then(() => {
+                        completed(null, true);
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+
+                if (!me._handskakeMade) {
+                    shutdown();
+                    return;
+                }
+
+                // say goodbye
+                me.sendMessage<db_messages.IGoodbyeMessage>({
+                    type: 18,
+                    reason: reason,
+                }).then(() => {
+                    shutdown();
+                }, () => {
+                    shutdown();
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Tells the remote how many bytes it is allowed to send again over a channel.
+     * 
+     * @param {db_messages.IMessage} msg The received message.
+     * @param {number} size The size of the message, in bytes.
+     */
+    protected confirmMessage(msg: db_messages.IMessage, size: number) {
+        let me = this;
+
+        let channel = me._channels[toChannelId(msg.channel)];
+        if (!channel || !me.hasFlowControl) {
+            return;
+        }
+
+        let credit = channel.confirm(size);
+        if (credit < 1) {
+            return;
+        }
+
+        let windowMsg: db_messages.IChannelWindowMessage = {
+            type: 29,
+            channelId: channel.id,
+            credit: credit,
+        };
+
+        me.sendMessage(windowMsg).then(() => {
+        }, (err) => {
+            me.emit('error.send',
+                    err, windowMsg);
+        });
+    }
+
+    /** @inheritdoc */
+    public createContentStream(hash: string, opts?: db_contracts.IReadStreamOptions): db_contracts.IReadStream {
+        let s = new db_streams.RemoteContentStream(this, hash, opts);
+        this.trackTransfer(waitForStream(s));
+
+        return s;
+    }
+
+    /**
+     * Creates a hello message.
+     * 
+     * @param {db_contracts.ILocalIdentity} identity The identity of that instance.
+     * @param {string} nonce The nonce.
+     * 
+     * @return {db_messages.IHelloMessage} The message.
+     */
+    protected createHello(identity: db_contracts.ILocalIdentity, nonce: string): db_messages.IHelloMessage {
+        return {
+            type: 2,
+            capabilities: (this.client.capabilities || []).map(x => simpleSocketHelpers.normalizeString(x)),
+            nonce: nonce,
+            protocolVersion: PROTOCOL_VERSION,
+            publicKey: identity.publicKey,
+            version: VERSION,
+        };
+    }
+
+    /**
+     * Creates a new message ID.
+     * 
+     * @return {string} The new ID.
+     */
+    protected createMessageId(): string {
+        return `${++this._lastMessageId}`;
+    }
+
+    /** @inheritdoc */
+    public createReadStream(entryId: string, opts?: db_contracts.IReadStreamOptions): db_contracts.IReadStream {
+        let s = new db_streams.RemoteReadStream(this, entryId, opts);
+        this.trackTransfer(waitForStream(s));
+
+        return s;
+    }
+
+    /** @inheritdoc */
+    public createWriteStream(name: string, opts?: db_contracts.IWriteStreamOptions): db_contracts.IWriteStream {
+        let s = new db_streams.RemoteWriteStream(this, name, opts);
+        this.trackTransfer(waitForStream(s));
+
+        return s;
+    }
+
+    /**
+     * Dispatches a message of the remote.
+     * 
+     * @param {db_messages.IMessage} msg The (unchecked) message.
+     */
+    protected dispatchMessage(msg: db_messages.IMessage) {
+        let me = this;
+
+        me._lastActivity = Date.now();
+
+        let replyTo = 'string' === typeof msg.replyTo ? msg.replyTo : '';
+
+        let channelId = toChannelId(msg.channel);
+        if ('' === replyTo && channelId > 0 && !me._channels[channelId]) {
+            let channelErr: db_errors.DeliveryBoyError;
+            if (isLocalChannelId(me._type, channelId)) {
+                // the remote can only open channels
+                // with its own parity of IDs
+                channelErr = new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                            `Channel ${channelId} has not been opened!`);
+            }
+            else if (Object.keys(me._channels).filter(x => !isLocalChannelId(me._type, parseInt(x))).length >= MAX_REMOTE_CHANNELS) {
+                channelErr = new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                            'Too many open channels!');
+            }
+
+            if (channelErr) {
+                if (15 !== msg.type) {
+                    me.reply(msg, channelErr.toMessage());
+                }
+
+                me.emit('error.message',
+                        channelErr, msg);
+                return;
+            }
+
+            // channel opened by remote
+            me.emit('channel',
+                    me.registerChannel(channelId));
+        }
+
+        let handler: db_contracts.MessageHandler;
+        if ('' === replyTo) {
+            handler = me._handlers[msg.type];
+            if (!handler) {
+                handler = me.client.getHandler(msg.type);
+            }
+        }
+
+        let err = db_messages.validateMessage(msg);
+        if (err && handler && db_contracts.ErrorCode.UnsupportedType === err.code) {
+            err = null;  // custom message type
+        }
+
+        if ('' !== replyTo) {
+            // reply of a request?
+            let request = me._requests[replyTo];
+            if (request) {
+                delete me._requests[replyTo];
+
+                request.completed(err, msg);
+                return;
+            }
+        }
+
+        if (err) {
+            if ('' === replyTo && 15 !== msg.type) {
+                me.reply(msg, err.toMessage());
+            }
+
+            me.emit('error.message',
+                    err, msg);
+            return;
+        }
+
+        if (handler) {
+            me.invokeHandler(handler, msg);
+            return;
+        }
+
+        let reader = me._readers.shift();
+        if (reader) {
+            reader.completed(null, msg);
+            return;
+        }
+
+        if ('' !== replyTo || 15 === msg.type) {
+            return;  // never answer replies and errors
+        }
+
+        if (me._inbox.length < MAX_INBOX_SIZE) {
+            // keep for a later 'readMessage()'
+            me._inbox.push(msg);
+            return;
+        }
+
+        // nobody is interested in that message
+        me.reply(msg, new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                     `Message of type ${msg.type} could not be handled!`).toMessage());
+    }
+
+    /** @inheritdoc */
+    public get downloadLimit(): number {
+        return this._downloadBucket.rate;
+    }
+    public set downloadLimit(value: number) {
+        this._downloadBucket.rate = value;
+    }
+
+    /** @inheritdoc */
+    public drain(): PromiseLike<void> {
+        let me = this;
+
+        return new Promise<void>((resolve) => {
+            if (me._activeTransfers < 1) {
+                resolve();
+            }
+            else {
+                me.once('drain', () => {
+                    resolve();
+                });
+            }
+        });
+    }
+
+    /**
+     * Rejects the unsent data of a channel.
+     * 
+     * @param {number} channelId The ID of the channel.
+     * @param {any} err The error.
+     */
+    protected dropWrites(channelId: number, err: any) {
+        let me = this;
+
+        let queue = me._writeQueues[channelId];
+        if (!queue) {
+            return;
+        }
+
+        delete me._writeQueues[channelId];
+
+        let index = me._writeOrder.indexOf(channelId);
+        if (index > -1) {
+            me._writeOrder.splice(index, 1);
+        }
+
+        queue.forEach((write) => {
+            write.completed(err);
+        });
+    }
+
+    /**
+     * Enqueues a message for writing, so that messages are not mixed up on the socket.
+     * 
+     * @param {db_messages.IMessage} msg The message to write.
+     * 
+     * @return {PromiseLike<Buffer>} The promise.
+     */
+    protected enqueueWrite(msg: db_messages.IMessage): PromiseLike<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let channelId = toChannelId(msg.channel);
+
+                let queue = me._writeQueues[channelId];
+                if (!queue) {
+                    me._writeQueues[channelId] = queue = [];
+                    me._writeOrder.push(channelId);
+                }
+
+                queue.push({
+                    completed: completed,
+                    data: new Buffer(JSON.stringify(msg), 'utf8'),
+                });
+
+                me.flushWrites();
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Writes the next unsent data, if the socket is not busy.
+     * The channels take turns, so that a large transfer does not block the others.
+     */
+    protected flushWrites() {
+        let me = this;
+
+        if (me._isWriting) {
+            return;
+        }
+
+        let write = me.takeNextWrite();
+        if (!write) {
+            return;  // nothing to write or waiting for remote
+        }
+        me._isWriting = true;
+
+        let writeCompleted = (err: any, buffer?: Buffer) => {
+            me._isWriting = false;
+
+            write.completed(err, buffer);
+
+            me.flushWrites();
+        };
+
+        throttle(write.data.length, [ me._uploadBucket, me.client.uploadBucket ]).then(() => {
+            writePaddedData(me.socket, write.data).then((buffer) => {
+                writeCompleted(null, buffer);
+            }, (err) => {
+                writeCompleted(err);
+            });
+        }, (err) => {
+            writeCompleted(err);
+        });
+    }
+
+    /** @inheritdoc */
+    public handshake(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let tellForNoHandshake = (reason: any) => {
+                    // no handshake => no connection
+                    me.socket.end().then(() => {
+                        completed(reason);
+                    }, (err) => {
+                        completed(reason);
+                    });
+                };
+
+                me.makeHandskakeIfNeeded().then((handshakeMade) => {
+                    if (null === handshakeMade) {
+                        tellForNoHandshake(new Error('Handshake failed!'));
+                    }
+                    else {
+                        completed(null, handshakeMade);
+                    }
+                }, (err) => {
+                    tellForNoHandshake(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, a handshake may take, before the socket is closed.
+     * 0 or less waits forever.
+     */
+    public handshakeTimeout = DEFAULT_HANDSHAKE_TIMEOUT;
+
+    /**
+     * Gets if the remote supports the flow control of channels or not.
+     */
+    protected get hasFlowControl(): boolean {
+        return (this._capabilities || []).indexOf(db_channel.CAPABILITY_CHANNELS) > -1;
+    }
+
+    /** @inheritdoc */
+    public have(hashes: string[]): PromiseLike<string[]> {
+        let me = this;
+
+        return new Promise<string[]>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.request<db_messages.IAvailableContentMessage>(<db_messages.IHaveMessage>{
+                    type: 36,
+                    hashes: (hashes || []).map(x => simpleSocketHelpers.normalizeString(x)),
+                }).then((reply) => {
+                    if (37 === reply.type) {
+                        completed(null, reply.hashes || []);
+                    }
+                    else {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Unexpected reply of type ${reply.type}!`));
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, without messages of the remote after that a ping is sent.
+     * 0 or less does not send pings.
+     */
+    public heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL;
+
+    /**
+     * Gets or sets the time, in milliseconds, without messages of the remote after that the connection is closed.
+     * 0 or less keeps the connection open.
+     */
+    public idleTimeout = DEFAULT_IDLE_TIMEOUT;
+
+    /**
+     * Invokes a message handler and sends its result as reply.
+     * 
+     * @param {db_contracts.MessageHandler} handler The handler.
+     * @param {db_messages.IMessage} msg The message to handle.
+     */
+    protected invokeHandler(handler: db_contracts.MessageHandler, msg: db_messages.IMessage) {
+        let me = this;
+
+        let sendError = (err: any) => {
+            me.reply(msg, db_errors.toDeliveryBoyError(err).toMessage());
+        };
+
+        try {
+            let result = handler(msg, me);
+            if (result && 'function' === typeof (<PromiseLike<db_messages.IMessage>>result).then) {
+                (<PromiseLike<db_messages.IMessage>>result).then((reply) => {
+                    me.reply(msg, reply);
+                }, (err) => {
+                    sendError(err);
+                });
+            }
+            else {
+                me.reply(msg, <db_messages.IMessage>result);
+            }
+        }
+        catch (e) {
+            sendError(e);
+        }
+    }
+
+    /** @inheritdoc */
+    public get isClosed(): boolean {
+        return this._isClosed;
+    }
+
+    /** @inheritdoc */
+    public listLibrary(offset?: number, limit?: number): PromiseLike<db_contracts.ILibraryPage> {
+        let me = this;
+
+        return new Promise<db_contracts.ILibraryPage>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.request<db_messages.ILibraryMessage>(<db_messages.IListLibraryMessage>{
+                    type: 11,
+                    limit: limit,
+                    offset: offset,
+                }).then((reply) => {
+                    if (12 === reply.type) {
+                        completed(null, {
+                            entries: reply.entries || [],
+                            offset: reply.offset,
+                            total: reply.total,
+                        });
+                    }
+                    else {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Unexpected reply of type ${reply.type}!`));
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public listShares(): PromiseLike<db_contracts.IShareInfo[]> {
+        let me = this;
+
+        return new Promise<db_contracts.IShareInfo[]>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.request<db_messages.ISharesMessage>(<db_messages.IListSharesMessage>{
+                    type: 33,
+                }).then((reply) => {
+                    if (34 === reply.type) {
+                        completed(null, reply.shares || []);
+                    }
+                    else {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Unexpected reply of type ${reply.type}!`));
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Makes a CLIENT handshake.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    protected makeClientHandshake(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                // (1) the server introduces itself ...
+                readPaddedJSON<db_messages.IHelloMessage>(me.socket).then((serverHello) => {
+                    try {
+                        if (!isValidHello(serverHello) || isReplayedNonce(serverHello.nonce)) {
+                            completed(null, false);
+                            return;
+                        }
+
+                        let incompatibility = getIncompatibility(serverHello);
+                        if (incompatibility) {
+                            me.refuseIncompatiblePeer(incompatibility).then(() => {
+                                completed(new Error(`Incompatible peer: ${incompatibility}`));
+                            }, (err) => {
+                                completed(err);
+                            });
+                            return;
+                        }
+
+                        me.client.getIdentity().then((identity) => {
+                            try {
+                                let clientNonce = createNonce();
+
+                                let clientHello = me.createHello(identity, clientNonce);
+                                clientHello.signature = identity.sign(createHandshakeData(me.socket, 'client',
+                                                                                          serverHello.nonce, clientNonce));
+
+                                // (2) ... then the client, which proves
+                                //     that it owns its key
+                                writePaddedJSON<db_messages.IHelloMessage>(me.socket, clientHello).then(() => {
+                                    // (3) the server proves that it owns its key
+                                    readPaddedJSON<db_messages.IMessage>(me.socket).then((reply) => {
+                                        try {
+                                            if (reply && 14 === reply.type && !db_messages.validateMessage(reply)) {
+                                                completed(toIncompatibilityError(<db_messages.IIncompatibleMessage>reply));
+                                                return;
+                                            }
+
+                                            let proof = <db_messages.IHandshakeProofMessage>reply;
+
+                                            let isValidProof = proof &&
+                                                               13 === proof.type &&
+                                                               !db_messages.validateMessage(proof) &&
+                                                               db_identity.verifySignature(serverHello.publicKey,
+                                                                                           createHandshakeData(me.socket, 'server',
+                                                                                                               serverHello.nonce, clientNonce),
+                                                                                           proof.signature);
+
+                                            if (!isValidProof) {
+                                                completed(null, false);
+                                                return;
+                                            }
+
+                                            // (4) tell the server that everything is fine
+                                            writePaddedJSON<db_messages.IOKMessage>(me.socket, {
+                                                type: 1,
+                                            }).then(() => {
+                                                me.negotiate(serverHello);
+                                                me._peer = createPeerIdentity(me.socket, serverHello.publicKey);
+
+                                                completed(null, true);
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        }
+                                        catch (e) {
+                                            completed(e);
+                                        }
+                                    }, (err) => {
+                                        completed(err);
+                                    });
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            }
+                            catch (e) {
+                                completed(e);
+                            }
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Makes a handshake if needed.
+     * 
+     * @return {PromiseLike<boolean|null>} The promise.
+     */
+    protected makeHandskakeIfNeeded(): PromiseLike<boolean | null> {
+        let me = this;
+
+        if (me._handskakeMade) {
+            return Promise.resolve(false);
+        }
+
+        if (me._pendingHandshake) {
+            return me._pendingHandshake;  // already running
+        }
+
+        let handshake = me._pendingHandshake = new Promise<boolean | null>((resolve, reject) => {
+            let isCompleted = false;
+            let timeout: NodeJS.Timer;
+
+            let completed = (err: any, handshakeMade?: boolean) => {
+                if (isCompleted) {
+                    return;
+                }
+                isCompleted = true;
+
+                if (timeout) {
+                    clearTimeout(timeout);
+                }
+
+                me._pendingHandshake = null;
+
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    me._handskakeMade = handshakeMade;
+
+                    resolve(handshakeMade ? true : null);
+                }
+            };
+
+            let type = me.type;
+
+            try {
+                let handshakeTimeout = parseInt(simpleSocketHelpers.toStringSafe(me.handshakeTimeout).trim());
+                if (handshakeTimeout > 0) {
+                    // a remote that does not answer
+                    // must not keep the socket open
+                    timeout = setTimeout(() => {
+                        completed(new Error(`Handshake timed out after ${handshakeTimeout} ms!`));
+                    }, handshakeTimeout);
+                    timeout.unref();
+                }
+
+                let makeHandshake: () => PromiseLike<boolean>;
+                if (type == db_contracts.ConnectionType.Server) {
+                    // SERVER handshake
+                    makeHandshake = () => me.makeServerHandshake();
+                }
+                else if (type == db_contracts.ConnectionType.Client) {
+                    // CLIENT handshake
+                    makeHandshake = () => me.makeClientHandshake();
+                }
+
+                if (makeHandshake) {
+                    makeHandshake().then((handshakeMade) => {
+                        completed(null, handshakeMade);
+                    }, (err) => {
+                        completed(err);
+                    });
+                }
+                else {
+                    completed(new Error(`Unknown connection type ${type}`));
+                }
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+
+        return handshake;
+    }
+
+    /**
+     * Makes a SERVER handshake.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    protected makeServerHandshake(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.client.getIdentity().then((identity) => {
+                    let serverNonce = createNonce();
+
+                    // (1) the server introduces itself ...
+                    writePaddedJSON<db_messages.IHelloMessage>(me.socket,
+                                                               me.createHello(identity, serverNonce)).then((sendData) => {
+                        if (!sendData) {
+                            completed(null, false);
+                            return;
+                        }
+
+                        // (2) ... then the client, which proves
+                        //     that it owns its key
+                        readPaddedJSON<db_messages.IMessage>(me.socket).then((msg) => {
+                            try {
+                                if (msg && 14 === msg.type && !db_messages.validateMessage(msg)) {
+                                    completed(toIncompatibilityError(<db_messages.IIncompatibleMessage>msg));
+                                    return;
+                                }
+
+                                let clientHello = <db_messages.IHelloMessage>msg;
+
+                                let isValidClientHello = isValidHello(clientHello) &&
+                                                         clientHello.nonce !== serverNonce &&
+                                                         !isReplayedNonce(clientHello.nonce) &&
+                                                         db_identity.verifySignature(clientHello.publicKey,
+                                                                                     createHandshakeData(me.socket, 'client',
+                                                                                                         serverNonce, clientHello.nonce),
+                                                                                     clientHello.signature);
+
+                                if (!isValidClientHello) {
+                                    completed(null, false);
+                                    return;
+                                }
+
+                                let incompatibility = getIncompatibility(clientHello);
+                                if (incompatibility) {
+                                    me.refuseIncompatiblePeer(incompatibility).then(() => {
+                                        completed(new Error(`Incompatible peer: ${incompatibility}`));
+                                    }, (err) => {
+                                        completed(err);
+                                    });
+                                    return;
+                                }
+
+                                // (3) the server proves that it owns its key
+                                writePaddedJSON<db_messages.IHandshakeProofMessage>(me.socket, {
+                                    type: 13,
+                                    signature: identity.sign(createHandshakeData(me.socket, 'server',
+                                                                                 serverNonce, clientHello.nonce)),
+                                }).then(() => {
+                                    // (4) wait for the 'OK' of the client
+                                    readPaddedJSON<db_messages.IOKMessage>(me.socket).then((ok) => {
+                                        if (ok && 1 === ok.type) {
+                                            me.negotiate(clientHello);
+                                            me._peer = createPeerIdentity(me.socket, clientHello.publicKey);
+
+                                            completed(null, true);
+                                        }
+                                        else {
+                                            completed(null, false);
+                                        }
+                                    }, (err) => {
+                                        completed(err);
+                                    });
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            }
+                            catch (e) {
+                                completed(e);
+                            }
+                        }, (err) => {
+                            completed(err);
+                        });
+                    }, (err) => {
+                        completed(err);
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Negotiates protocol version and capabilities with the hello of the remote.
+     * 
+     * @param {db_messages.IHelloMessage} remoteHello The hello message of the remote.
+     */
+    protected negotiate(remoteHello: db_messages.IHelloMessage) {
+        let localCapabilities = (this.client.capabilities || []).map(x => simpleSocketHelpers.normalizeString(x));
+        let remoteCapabilities = (remoteHello.capabilities || []).map(x => simpleSocketHelpers.normalizeString(x));
+
+        this._protocolVersion = Math.min(PROTOCOL_VERSION, remoteHello.protocolVersion);
+        this._capabilities = localCapabilities.filter(x => remoteCapabilities.indexOf(x) > -1);
+        this._remoteVersion = simpleSocketHelpers.toStringSafe(remoteHello.version);
+    }
+
+    /** @inheritdoc */
+    public on(event: string | symbol | number, listener: Function): this {
+        if ('number' === typeof event) {
+            // message handler
+            this._handlers[<number>event] = <db_contracts.MessageHandler>listener;
+            return this;
+        }
+
+        return super.on(<string | symbol>event, listener);
+    }
+
+    /** @inheritdoc */
+    public openChannel(): db_contracts.IChannel {
+        this._lastChannelId += 2;
+
+        return this.registerChannel(this._lastChannelId);
+    }
+
+    /** @inheritdoc */
+    public get peer(): db_contracts.IPeerIdentity {
+        return this._peer;
+    }
+
+    /** @inheritdoc */
+    public get protocolVersion(): number {
+        return this._protocolVersion;
+    }
+
+    /** @inheritdoc */
+    public readMessage<TMsg extends db_messages.IMessage>(): PromiseLike<TMsg> {
+        let me = this;
+        
+        return new Promise<TMsg>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (me._inbox.length > 0) {
+                    completed(null, <TMsg>me._inbox.shift());
+                    return;
+                }
+
+                if (me._isClosed) {
+                    completed(new Error('Connection has been closed!'));
+                    return;
+                }
+
+                // register before the handshake,
+                // so no message gets lost
+                let reader: IPendingRead = {
+                    completed: completed,
+                };
+                me._readers.push(reader);
+
+                me.handshake().then(() => {
+                    // wait for message
+                }, (err) => {
+                    let index = me._readers.indexOf(reader);
+                    if (index > -1) {
+                        me._readers.splice(index, 1);
+                    }
+
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public readRange(entryId: string, offset: number, length: number): PromiseLike<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                offset = parseInt(simpleSocketHelpers.toStringSafe(offset).trim());
+                length = parseInt(simpleSocketHelpers.toStringSafe(length).trim());
+
+                if (isNaN(offset) || offset < 0 || isNaN(length) || length < 0) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                             `Invalid range ${offset} / ${length}!`));
+                    return;
+                }
+
+                // the range gets its own channel,
+                // so it does not wait for other transfers
+                let channel = me.openChannel();
+                let finished = (err: any, data?: Buffer) => {
+                    channel.close();
+
+                    completed(err, data);
+                };
+
+                let parts: Buffer[] = [];
+                let bytesRead = 0;
+
+                // large ranges are read in parts
+                let readNextPart = () => {
+                    if (bytesRead >= length) {
+                        finished(null, Buffer.concat(parts));
+                        return;
+                    }
+
+                    channel.request<db_messages.IRangeDataMessage>(<db_messages.IReadRangeMessage>{
+                        type: 26,
+                        entryId: entryId,
+                        length: Math.min(length - bytesRead, db_streams.MAX_STREAM_CHUNK_SIZE),
+                        offset: offset + bytesRead,
+                    }).then((reply) => {
+                        if (27 !== reply.type) {
+                            finished(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                    `Unexpected reply of type ${reply.type}!`));
+                            return;
+                        }
+
+                        let data = new Buffer(reply.data, 'base64');
+                        if (data.length < 1) {
+                            length = bytesRead;  // end of entry
+                        }
+
+                        parts.push(data);
+                        bytesRead += data.length;
+
+                        readNextPart();
+                    }, (err) => {
+                        finished(err);
+                    });
+                };
+
+                readNextPart();
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public receiveFile(targetDir: string, maxSize?: number): PromiseLike<db_contracts.IFileTransferResult> {
+        return this.trackTransfer(db_transfer.receiveFile(this, targetDir, maxSize));
+    }
+
+    /**
+     * Tells the remote that it is incompatible.
+     * 
+     * @param {string} reason The reason.
+     * 
+     * @return {PromiseLike<Buffer>} The promise.
+     */
+    protected refuseIncompatiblePeer(reason: string): PromiseLike<Buffer> {
+        return writePaddedJSON<db_messages.IIncompatibleMessage>(this.socket, {
+            type: 14,
+            minProtocolVersion: MIN_PROTOCOL_VERSION,
+            protocolVersion: PROTOCOL_VERSION,
+            reason: reason,
+        });
+    }
+
+    /** @inheritdoc */
+    public get remoteVersion(): string {
+        return this._remoteVersion;
+    }
+
+    /** @inheritdoc */
+    public removeListener(event: string | symbol | number, listener: Function): this {
+        if ('number' === typeof event) {
+            // message handler
+            if (this._handlers[<number>event] === listener) {
+                delete this._handlers[<number>event];
+            }
+
+            return this;
+        }
+
+        return super.removeListener(<string | symbol>event, listener);
+    }
+
+    /**
+     * Registers a new channel.
+     * 
+     * @param {number} id The ID of the channel.
+     * 
+     * @return {db_channel.Channel} The channel.
+     */
+    protected registerChannel(id: number): db_channel.Channel {
+        let me = this;
+
+        let channel = new db_channel.Channel(me, id);
+        me._channels[id] = channel;
+
+        channel.once('close', (reason: string, isRemote: boolean) => {
+            delete me._channels[id];
+
+            let err = db_channel.toClosedError(channel);
+
+            // cancel pending requests ...
+            Object.keys(me._requests).forEach((msgId) => {
+                let request = me._requests[msgId];
+                if (request.channel === id) {
+                    request.completed(err);
+                }
+            });
+
+            // ... and unsent data
+            me.dropWrites(id, err);
+
+            me.emit('channel.close',
+                    channel, reason, isRemote);
+        });
+
+        return channel;
+    }
+
+    /**
+     * Rejects all calls, that wait for a message of the remote.
+     * 
+     * @param {any} err The error.
+     */
+    protected rejectPending(err: any) {
+        let me = this;
+
+        let readers = me._readers.splice(0, me._readers.length);
+        readers.forEach((r) => {
+            r.completed(err, null);
+        });
+
+        let requests = me._requests;
+        me._requests = {};
+        Object.keys(requests).forEach((id) => {
+            requests[id].completed(err || new Error('Connection closed!'));
+        });
+    }
+
+    /**
+     * Sends the reply for a message of the remote.
+     * 
+     * @param {db_messages.IMessage} msg The message of the remote.
+     * @param {db_messages.IMessage} reply The reply.
+     */
+    protected reply(msg: db_messages.IMessage, reply: db_messages.IMessage) {
+        let me = this;
+
+        if (!reply) {
+            return;  // nothing to send
+        }
+
+        if ('string' === typeof msg.id) {
+            reply.replyTo = msg.id;
+        }
+        if (toChannelId(msg.channel) > 0) {
+            reply.channel = msg.channel;
+        }
+
+        me.sendMessage(reply).then(() => {
+        }, (err) => {
+            me.emit('error.send',
+                    err, reply);
+        });
+    }
+
+    /** @inheritdoc */
+    public request<TReply extends db_messages.IMessage>(msg: db_messages.IMessage, timeout?: number): PromiseLike<TReply> {
+        let me = this;
+
+        timeout = parseInt(simpleSocketHelpers.toStringSafe(timeout).trim());
+        if (isNaN(timeout)) {
+            timeout = DEFAULT_REQUEST_TIMEOUT;
+        }
+
+        return new Promise<TReply>((resolve, reject) => {
+            let timer: NodeJS.Timer;
+
+            let completed = (err: any, reply?: db_messages.IMessage) => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+
+                delete me._requests[msg.id];
+
+                if (err) {
+                    reject(err);
+                }
+                else if (15 === reply.type) {
+                    reject(db_errors.fromMessage(<db_messages.IErrorMessage>reply));
+                }
+                else {
+                    resolve(<TReply>reply);
+                }
+            };
+
+            try {
+                if (simpleSocketHelpers.isEmptyString(msg.id)) {
+                    msg.id = me.createMessageId();
+                }
+
+                me._requests[msg.id] = {
+                    channel: toChannelId(msg.channel),
+                    completed: completed,
+                };
+
+                if (timeout > 0) {
+                    timer = setTimeout(() => {
+                        completed(new Error(`Request ${msg.id} (type ${msg.type}) timed out!`));
+                    }, timeout);
+                }
+
+                me.sendMessage(msg).then(() => {
+                    // wait for reply
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public search(query: db_contracts.ISearchQuery): PromiseLike<db_contracts.ILibraryPage> {
+        let me = this;
+
+        if (!query) {
+            query = {};
+        }
+
+        return new Promise<db_contracts.ILibraryPage>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                me.request<db_messages.ILibraryMessage>(<db_messages.ISearchLibraryMessage>{
+                    type: 35,
+                    album: query.album,
+                    artist: query.artist,
+                    genre: query.genre,
+                    limit: query.limit,
+                    maxDuration: query.maxDuration,
+                    mime: query.mime,
+                    minDuration: query.minDuration,
+                    offset: query.offset,
+                    sortBy: query.sortBy,
+                    sortOrder: query.sortOrder,
+                    title: query.title,
+                }).then((reply) => {
+                    if (12 === reply.type) {
+                        completed(null, {
+                            entries: reply.entries || [],
+                            offset: reply.offset,
+                            total: reply.total,
+                        });
+                    }
+                    else {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Unexpected reply of type ${reply.type}!`));
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public sendFile(path: string): PromiseLike<db_contracts.IFileTransferResult> {
+        return this.trackTransfer(db_transfer.sendFile(this, path));
+    }
+
+    /** @inheritdoc */
+    public sendMessage<TMsg extends db_messages.IMessage>(msg: TMsg): PromiseLike<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (simpleSocketHelpers.isNullOrUndefined(msg)) {
+                    completed(null, <any>msg);
+                    return;
+                }
+
+                if (me._isClosed) {
+                    completed(new Error('Connection has been closed!'));
+                    return;
+                }
+
+                if (simpleSocketHelpers.isEmptyString(msg.id)) {
+                    msg.id = me.createMessageId();
+                }
+
+                me.handshake().then(() => {
+                    me.enqueueWrite(msg).then((buffer) => {
+                        completed(null, buffer);
+                    }, (err) => {
+                        completed(err);
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Closes the connection without saying goodbye.
+     * 
+     * @param {string} reason The reason.
+     * @param {boolean} isRemote Closed by the remote or not.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    protected shutdown(reason: string, isRemote: boolean): PromiseLike<void> {
+        let me = this;
+
+        return new Promise<void>((resolve) => {
+            if (me._isClosed) {
+                resolve();
+                return;
+            }
+            me._isClosed = true;
+
+            if (me._heartbeat) {
+                clearInterval(me._heartbeat);
+                me._heartbeat = null;
+            }
+
+            let err = new Error('Connection has been closed' +
+                                (reason ? `: ${reason}` : '!'));
+
+            me.rejectPending(err);
+
+            me._writeOrder.slice().forEach((channelId) => {
+                me.dropWrites(channelId, err);
+            });
+
+            me.channels.forEach((channel: db_channel.Channel) => {
+                channel.markAsClosed(reason, isRemote);
+            });
+
+            let emitClose = () => {
+                me.emit('close',
+                        reason, isRemote);
 
-    /**
-     * Initializes a new instance of that class.
-     * 
-     * @param {db_contracts.ConnectionType} type The type. 
-     * @param {db_contracts.IClient} client The client.
-     * @param {simpleSocket.SimpleSocket} socket The socket.
-     */
-    constructor(type: db_contracts.ConnectionType,
-                client: db_contracts.IClient,
-                socket: simpleSocket.SimpleSocket) {
-        super();
+                resolve();
+            };
 
-        this._type = type;
-        this._client = client;
-        this._socket = socket;
+            try {
+                me.socket.end().then(() => {
+                    emitClose();
+                }, () => {
+                    emitClose();
+                });
+            }
+            catch (e) {
+                emitClose();
+            }
+        });
     }
 
     /** @inheritdoc */
-    public get client(): db_contracts.IClient {
-        return this._client;
+    public get socket(): db_contracts.ITransportSocket {
+        return this._socket;
     }
 
     /**
-     * Makes a CLIENT handshake.
-     * 
-     * @return {PromiseLike<boolean>} The promise.
+     * Starts sending heartbeats and watching the idle time.
      */
-    protected makeClientHandshake(): PromiseLike<boolean> {
+    protected startHeartbeat() {
         let me = this;
 
-        return new Promise<boolean>((resolve, reject) => {
-            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+        if (me._heartbeat) {
+            return;
+        }
 
-            try {
-                me.socket.read().then((data) => {
-                    try {
-                        data = extractRandomBuffer(data);
+        let heartbeatInterval = parseInt(simpleSocketHelpers.toStringSafe(me.heartbeatInterval).trim());
+        let idleTimeout = parseInt(simpleSocketHelpers.toStringSafe(me.idleTimeout).trim());
 
-                        if (data) {
-                            let msg: db_messages.IHelloMessage = JSON.parse(data.toString('utf8'));
+        let checkInterval = Math.min(heartbeatInterval > 0 ? heartbeatInterval : Infinity,
+                                     idleTimeout > 0 ? idleTimeout : Infinity);
+        if (!isFinite(checkInterval)) {
+            return;
+        }
 
-                            completed(null,
-                                      msg && 2 === msg.type);
-                        }
-                        else {
-                            completed(null, false);
-                        }
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
+        me._heartbeat = setInterval(() => {
+            let idleTime = Date.now() - me._lastActivity;
+
+            if (idleTimeout > 0 && idleTime >= idleTimeout) {
+                me.emit('timeout',
+                        idleTime);
+
+                me.close('Idle timeout').then(() => {
                 }, (err) => {
-                    completed(err);
+                    me.emit('error.close',
+                            err);
                 });
             }
-            catch (e) {
-                completed(e);
+            else if (heartbeatInterval > 0 && idleTime >= heartbeatInterval) {
+                me.request<db_messages.IPongMessage>({
+                    type: 16,
+                }, idleTimeout).then(() => {
+                    // remote is alive
+                }, () => {
+                    // handled by idle timeout
+                });
             }
-        });
+        }, checkInterval);
+
+        me._heartbeat.unref();
     }
 
     /**
-     * Makes a handshake if needed.
-     * 
-     * @return {PromiseLike<boolean|null>} The promise.
+     * Starts the background loop that reads and dispatches the messages of the remote.
+     * It is started by the client, after the remote has been accepted, so no handler serves an unchecked peer.
      */
-    protected makeHandskakeIfNeeded(): PromiseLike<boolean | null> {
+    public startReading() {
         let me = this;
 
-        return new Promise<boolean | null>((resolve, reject) => {
-            if (me._handskakeMade) {
-                resolve(false);
+        if (me._isReading) {
+            return;
+        }
+        me._isReading = true;
+
+        me.startHeartbeat();
+
+        let stopReading = (err: any) => {
+            me._isReading = false;
+
+            me.rejectPending(err);
+        };
+
+        let readFailed = (err: any) => {
+            stopReading(err);
+
+            if (!me._isClosed) {
+                me.emit('error.read',
+                        err);
             }
-            else {
-                let type = me.type;
+        };
 
-                try {
-                    if (type == db_contracts.ConnectionType.Server) {
-                        // SERVER handshake
+        let readNextMessage = () => {
+            if (me._isClosed) {
+                me._isReading = false;
+                return;
+            }
 
-                        me.makeServerHandshake().then((handshakeMade) => {
-                            me._handskakeMade = handshakeMade;
+            let size = 0;
 
-                            resolve(handshakeMade ? true : null);
-                        }, (err) => {
-                            reject(err);
-                        });
-                    }
-                    else if (type == db_contracts.ConnectionType.Client) {
-                        // CLIENT handshake
-                        
-                        me.makeClientHandshake().then((handshakeMade) => {
-                            me._handskakeMade = handshakeMade;
+            readPaddedJSON<db_messages.IMessage>(me.socket, (s) => {
+                size = s;
+            }).then((msg) => {
+                if (size < 1) {
+                    stopReading(null);  // connection closed
+                    return;
+                }
 
-                            resolve(handshakeMade ? true : null);
-                        }, (err) => {
-                            reject(err);
-                        });
-                    }
-                    else {
-                        reject(new Error(`Unknown connection type ${type}`));
-                    }
+                if (!msg || 'object' !== typeof msg || Array.isArray(msg)) {
+                    readFailed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                              'Invalid message!'));
+
+                    me.close('Protocol error').then(() => {
+                    }, (err) => {
+                        me.emit('error.close',
+                                err);
+                    });
+                    return;
+                }
+
+                try {
+                    me.dispatchMessage(msg);
                 }
                 catch (e) {
-                    reject(e);
+                    me.emit('error.dispatch',
+                            e, msg);
                 }
-            }
-        });
+
+                me.confirmMessage(msg, size);
+
+                // slow down reading, if limited
+                let buckets = [ me._downloadBucket, me.client.downloadBucket ];
+                Promise.all(buckets.map(b => b && b.consume(size))).then(() => {
+                    readNextMessage();
+                }, (err) => {
+                    readFailed(err);
+                });
+            }, (err) => {
+                readFailed(err);
+            });
+        };
+
+        readNextMessage();
     }
 
-    /**
-     * Makes a SERVER handshake.
-     * 
-     * @return {PromiseLike<boolean>} The promise.
-     */
-    protected makeServerHandshake(): PromiseLike<boolean> {
+    /** @inheritdoc */
+    public subscribe(enabled = true): PromiseLike<void> {
         let me = this;
 
-        return new Promise<boolean>((resolve, reject) => {
+        return new Promise<void>((resolve, reject) => {
             let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
 
             try {
-                let helloMsg: db_messages.IHelloMessage = {
-                    type: 2,
-                };
-
-                createRandomBuffer().then((randBuff) => {
-                    try {
-                        let dataToSend = Buffer.concat([
-                            randBuff,
-                            new Buffer(JSON.stringify(helloMsg), 'utf8'),
-                        ]);
-
-                        me.socket.write(dataToSend).then((sendData) => {
-                            completed(null,
-                                      sendData && sendData.length === dataToSend.length);
-                        }, (err) => {
-                            completed(err);
-                        });
+                me.request(<db_messages.ISubscribeLibraryMessage>{
+                    type: 43,
+                    enabled: simpleSocketHelpers.toBooleanSafe(enabled, true),
+                }).then((reply) => {
+                    if (1 === reply.type) {
+                        completed(null);
                     }
-                    catch (e) {
-                        completed(e);
+                    else {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Unexpected reply of type ${reply.type}!`));
                     }
                 }, (err) => {
                     completed(err);
-                });                    
+                });
             }
             catch (e) {
                 completed(e);
@@ -198,108 +1747,114 @@ export class Connection extends events.EventEmitter implements db_contracts.ICon
         });
     }
 
-    /** @inheritdoc */
-    public readMessage<TMsg extends db_messages.IMessage>(): PromiseLike<TMsg> {
+    /**
+     * Takes the next data to write from the channel, which has its turn.
+     * 
+     * @return {IPendingWrite} The data or (null) if there is nothing that can be written.
+     */
+    protected takeNextWrite(): IPendingWrite {
         let me = this;
-        
-        return new Promise<TMsg>((resolve, reject) => {
-            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
 
-            try {
-                me.makeHandskakeIfNeeded().then((handshakeMade) => {
-                    if (null === handshakeMade) {
-                        let tellForNoHandshake = () => {
-                            completed(new Error('Handshake failed!'));
-                        };
+        for (let i = 0; i < me._writeOrder.length; i++) {
+            let channelId = me._writeOrder[i];
+            let queue = me._writeQueues[channelId];
 
-                        // no handshake => no connection
-                        me.socket.end().then(() => {
-                            tellForNoHandshake();
-                        }, (err) => {
-                            tellForNoHandshake();
-                        });
-                    }
-                    else {
-                        me.socket.read().then((data) => {
-                            try {
-                                data = extractRandomBuffer(data);
-                                if (data) {
-                                    completed(null,
-                                              JSON.parse(data.toString('utf8')));
-                                }
-                                else {
-                                    completed(null, <any>data);
-                                }
-                            }
-                            catch (e) {
-                                completed(e);
-                            }
-                        }, (err) => {
-                            completed(err);
-                        });
-                    }
-                }, (err) => {
-                    completed(err);
-                });
+            let channel = me._channels[channelId];
+            if (channel && me.hasFlowControl && !channel.take(queue[0].data.length)) {
+                continue;  // remote has to allow more data first
             }
-            catch (e) {
-                completed(e);
+
+            let write = queue.shift();
+
+            me._writeOrder.splice(i, 1);
+            if (queue.length > 0) {
+                me._writeOrder.push(channelId);  // wait for next turn
+            }
+            else {
+                delete me._writeQueues[channelId];
+            }
+
+            return write;
+        }
+
+        return null;
+    }
+
+    /**
+     * Counts a transfer as running, until it has been finished.
+     * 
+     * @param {PromiseLike<TResult>} transfer The promise of the transfer.
+     * 
+     * @return {PromiseLike<TResult>} The promise.
+     */
+    protected trackTransfer<TResult>(transfer: PromiseLike<TResult>): PromiseLike<TResult> {
+        let me = this;
+
+        ++me._activeTransfers;
+
+        let finished = () => {
+            if (--me._activeTransfers < 1) {
+                me._activeTransfers = 0;
+
+                me.emit('drain');
             }
+        };
+
+        transfer.then(() => {
+            finished();
+        }, () => {
+            finished();
         });
+
+        return transfer;
     }
 
     /** @inheritdoc */
-    public sendMessage<TMsg extends db_messages.IMessage>(msg: TMsg): PromiseLike<Buffer> {
+    public get type(): db_contracts.ConnectionType {
+        return this._type;
+    }
+
+    /** @inheritdoc */
+    public unlockShare(name: string, password?: string): PromiseLike<void> {
         let me = this;
 
-        return new Promise<Buffer>((resolve, reject) => {
+        name = simpleSocketHelpers.toStringSafe(name);
+
+        return new Promise<void>((resolve, reject) => {
             let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
 
+            let unexpectedReply = (reply: db_messages.IMessage) => {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                         `Unexpected reply of type ${reply.type}!`));
+            };
+
             try {
-                if (simpleSocketHelpers.isNullOrUndefined(msg)) {
-                    completed(null, <any>msg);
-                    return;
-                }
+                me.request<db_messages.IShareChallengeMessage>(<db_messages.IGetShareChallengeMessage>{
+                    type: 30,
+                    share: name,
+                }).then((challenge) => {
+                    if (31 !== challenge.type) {
+                        unexpectedReply(challenge);
+                        return;
+                    }
 
-                me.makeHandskakeIfNeeded().then((handshakeMade) => {
-                    try {
-                        if (null === handshakeMade) {
-                            let tellForNoHandshake = () => {
-                                completed(new Error('Handshake failed!'));
-                            };
-
-                            // no handshake => no connection
-                            me.socket.end().then(() => {
-                                tellForNoHandshake();
-                            }, (err) => {
-                                tellForNoHandshake();
-                            });
+                    // the password itself is never sent
+                    me.request(<db_messages.IUnlockShareMessage>{
+                        type: 32,
+                        response: db_shares.createUnlockResponse(password, name, challenge.nonce),
+                        share: name,
+                    }).then((reply) => {
+                        if (1 === reply.type) {
+                            completed(null);
                         }
                         else {
-                            createRandomBuffer().then((randBuff) => {
-                                try {
-                                    let dataToSend = Buffer.concat([
-                                        randBuff,
-                                        new Buffer(JSON.stringify(msg), 'utf8'),
-                                    ]);
-
-                                    me.socket.write(dataToSend).then((buffer) => {
-                                        completed(null, buffer);
-                                    }, (err) => {
-                                        completed(err);
-                                    });
-                                }
-                                catch (e) {
-                                    completed(e);
-                                }
-                            }, (err) => {
-                                completed(err);
-                            });
+                            unexpectedReply(reply);
                         }
-                    }
-                    catch (e) {
-                        completed(e);
-                    }
+                    }, (err) => {
+                        completed(err);
+                    });
+                }, (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
@@ -309,13 +1864,11 @@ export class Connection extends events.EventEmitter implements db_contracts.ICon
     }
 
     /** @inheritdoc */
-    public get socket(): simpleSocket.SimpleSocket {
-        return this._socket;
+    public get uploadLimit(): number {
+        return this._uploadBucket.rate;
     }
-
-    /** @inheritdoc */
-    public get type(): db_contracts.ConnectionType {
-        return this._type;
+    public set uploadLimit(value: number) {
+        this._uploadBucket.rate = value;
     }
 }
 
@@ -356,6 +1909,34 @@ function createRandomBuffer(): PromiseLike<Buffer> {
     });
 }
 
+function createHandshakeData(socket: db_contracts.ITransportSocket, role: string,
+                             serverNonce: string, clientNonce: string): Buffer {
+    // bind the handshake to the encrypted
+    // session of the underlying socket
+    let sessionHash = '';
+    if (socket.sessionKey) {
+        sessionHash = crypto.createHash('sha256')
+                            .update(socket.sessionKey)
+                            .digest('hex');
+    }
+
+    return new Buffer([ 'delivery-boy', role, serverNonce, clientNonce, sessionHash ].join('\n'),
+                      'utf8');
+}
+
+function createNonce(): string {
+    return crypto.randomBytes(32)
+                 .toString('hex');
+}
+
+function createPeerIdentity(socket: db_contracts.ITransportSocket, publicKey: string): db_contracts.IPeerIdentity {
+    return {
+        address: socket.remoteAddress,
+        fingerprint: db_identity.getFingerprint(publicKey),
+        publicKey: publicKey,
+    };
+}
+
 function extractRandomBuffer(buff: Buffer): Buffer {
     let realBuffer = buff;
     if (buff) {
@@ -368,3 +1949,146 @@ function extractRandomBuffer(buff: Buffer): Buffer {
 
     return realBuffer;
 }
+
+function getIncompatibility(remoteHello: db_messages.IHelloMessage): string {
+    let remoteVersion = parseInt(simpleSocketHelpers.toStringSafe(remoteHello.protocolVersion).trim());
+    if (isNaN(remoteVersion) || remoteVersion < MIN_PROTOCOL_VERSION) {
+        return `Protocol version ${MIN_PROTOCOL_VERSION} or newer is required, but remote supports ${isNaN(remoteVersion) ? 'no version' : remoteVersion}!`;
+    }
+
+    return null;
+}
+
+function isLocalChannelId(type: db_contracts.ConnectionType, id: number): boolean {
+    return (1 === id % 2) === (db_contracts.ConnectionType.Client === type);
+}
+
+function isReplayedNonce(nonce: string): boolean {
+    let now = Date.now();
+
+    // remove expired nonces
+    Object.keys(usedNonces).forEach((n) => {
+        if ((now - usedNonces[n]) > NONCE_LIFETIME) {
+            delete usedNonces[n];
+        }
+    });
+
+    if (usedNonces[nonce]) {
+        return true;
+    }
+
+    usedNonces[nonce] = now;
+    return false;
+}
+
+function isValidHello(msg: db_messages.IHelloMessage): boolean {
+    return msg &&
+           2 === msg.type &&
+           !db_messages.validateMessage(msg) &&
+           !simpleSocketHelpers.isEmptyString(msg.publicKey) &&
+           /^[0-9a-f]{64}$/.test(simpleSocketHelpers.toStringSafe(msg.nonce));
+}
+
+function readPaddedJSON<T>(socket: db_contracts.ITransportSocket, sizeReceiver?: (size: number) => void): PromiseLike<T> {
+    return new Promise<T>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            socket.read().then((data) => {
+                try {
+                    data = extractRandomBuffer(data);
+                    if (data) {
+                        if (sizeReceiver) {
+                            sizeReceiver(data.length);
+                        }
+
+                        completed(null,
+                                  JSON.parse(data.toString('utf8')));
+                    }
+                    else {
+                        completed(null, <any>data);
+                    }
+                }
+                catch (e) {
+                    completed(e);
+                }
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+function throttle(size: number, buckets: db_contracts.ITokenBucket[]): PromiseLike<any> {
+    buckets = buckets.filter(b => b && b.rate > 0);
+    if (buckets.length < 1) {
+        return Promise.resolve();  // unlimited
+    }
+
+    return Promise.all(buckets.map(b => b.consume(size)));
+}
+
+function toChannelId(val: any): number {
+    let id = parseInt(simpleSocketHelpers.toStringSafe(val).trim());
+    if (isNaN(id) || id < 0) {
+        id = 0;  // default channel
+    }
+
+    return id;
+}
+
+function toIncompatibilityError(msg: db_messages.IIncompatibleMessage): Error {
+    return new Error(`Refused by remote (protocol version ${msg.protocolVersion}, minimum ${msg.minProtocolVersion}): ` +
+                     simpleSocketHelpers.toStringSafe(msg.reason));
+}
+
+function waitForStream(s: NodeJS.EventEmitter): PromiseLike<void> {
+    return new Promise<void>((resolve) => {
+        s.once('close', () => {
+            resolve();
+        });
+        s.once('error', () => {
+            resolve();
+        });
+    });
+}
+
+function writePaddedData(socket: db_contracts.ITransportSocket, data: Buffer): PromiseLike<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            createRandomBuffer().then((randBuff) => {
+                try {
+                    let dataToSend = Buffer.concat([
+                        randBuff,
+                        data,
+                    ]);
+
+                    socket.write(dataToSend).then((sendData) => {
+                        completed(null,
+                                  sendData && sendData.length === dataToSend.length ? sendData : null);
+                    }, (err) => {
+                        completed(err);
+                    });
+                }
+                catch (e) {
+                    completed(e);
+                }
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+function writePaddedJSON<T>(socket: db_contracts.ITransportSocket, obj: T): PromiseLike<Buffer> {
+    return writePaddedData(socket,
+                           new Buffer(JSON.stringify(obj), 'utf8'));
+}
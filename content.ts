@@ -0,0 +1,583 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as crypto from 'crypto';
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_identity from './identity';
+import * as db_messages from './messages';
+import * as db_shares from './shares';
+import * as db_streams from './streams';
+import * as db_transfer from './transfer';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+import * as stream from 'stream';
+
+
+interface ICachedHash {
+    hash: string;
+    mtime: number;
+    size: number;
+}
+
+
+/**
+ * Capability: Fetching content by its ID.
+ */
+export const CAPABILITY_CONTENT = 'content';
+/**
+ * The default path of the file with the cached hashes.
+ */
+export const DEFAULT_HASH_CACHE_FILE = path.join(db_identity.DEFAULT_DATA_DIR, 'hashes.json');
+/**
+ * The maximum number of content IDs a remote can ask for at once.
+ */
+export const MAX_HAVE_HASHES = 1000;
+
+
+/**
+ * A cache for the hashes of files, that are keyed on path, size and modification time.
+ */
+export class HashCache {
+    /**
+     * Stores the path of the file.
+     */
+    protected _file: string;
+    /**
+     * Stores the cached hashes by path.
+     */
+    protected _hashes: { [file: string]: ICachedHash };
+    /**
+     * Stores if there are unsaved changes or not.
+     */
+    protected _isDirty = false;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [file] The path of the file. If not defined, the hashes are kept in memory only.
+     */
+    constructor(file?: string) {
+        this._file = simpleSocketHelpers.isEmptyString(file) ? null : file;
+    }
+
+    /**
+     * Gets the path of the underlying file.
+     */
+    public get file(): string {
+        return this._file;
+    }
+
+    /**
+     * Returns the cached hash of a file, without calculating it.
+     * 
+     * @param {string} file The path of the file.
+     * @param {number} size The current size of the file, in bytes.
+     * @param {number} mtime The current modification time of the file, in milliseconds since 1970-01-01.
+     * 
+     * @return {PromiseLike<string>} The promise with the hash (SHA-256, hex) or (null), if the file is unknown or has been changed.
+     */
+    public findHash(file: string, size: number, mtime: number): PromiseLike<string> {
+        let me = this;
+
+        file = path.resolve(file);
+
+        return new Promise<string>((resolve, reject) => {
+            me.load().then((hashes) => {
+                let cached = hashes[file];
+
+                resolve(cached && cached.size === size && cached.mtime === mtime ? cached.hash : null);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Returns the hash of a file, which is calculated, if the file is unknown or has been changed.
+     * 
+     * @param {string} file The path of the file.
+     * @param {number} size The current size of the file, in bytes.
+     * @param {number} mtime The current modification time of the file, in milliseconds since 1970-01-01.
+     * 
+     * @return {PromiseLike<string>} The promise with the hash (SHA-256, hex).
+     */
+    public getHash(file: string, size: number, mtime: number): PromiseLike<string> {
+        let me = this;
+
+        file = path.resolve(file);
+
+        return new Promise<string>((resolve, reject) => {
+            me.load().then((hashes) => {
+                let cached = hashes[file];
+                if (cached && cached.size === size && cached.mtime === mtime) {
+                    resolve(cached.hash);
+                    return;
+                }
+
+                db_transfer.hashFile(file).then((hash) => {
+                    hashes[file] = {
+                        hash: hash,
+                        mtime: mtime,
+                        size: size,
+                    };
+                    me._isDirty = true;
+
+                    resolve(hash);
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Loads the hashes from the file, if not done yet.
+     * 
+     * @return {PromiseLike<Object>} The promise with the hashes by path.
+     */
+    protected load(): PromiseLike<{ [file: string]: ICachedHash }> {
+        let me = this;
+
+        return new Promise<{ [file: string]: ICachedHash }>((resolve, reject) => {
+            if (me._hashes) {
+                resolve(me._hashes);
+                return;
+            }
+
+            let setHashes = (hashes: { [file: string]: ICachedHash }) => {
+                if (!me._hashes) {
+                    me._hashes = hashes;
+                }
+
+                resolve(me._hashes);
+            };
+
+            if (!me.file) {
+                setHashes({});
+                return;
+            }
+
+            fs.readFile(me.file, (err, data) => {
+                let hashes: { [file: string]: ICachedHash } = {};
+
+                if (err) {
+                    if ('ENOENT' !== err.code) {
+                        reject(err);
+                        return;
+                    }
+                }
+                else {
+                    try {
+                        let loadedHashes = JSON.parse(data.toString('utf8'));
+                        if (loadedHashes && 'object' === typeof loadedHashes) {
+                            hashes = loadedHashes;
+                        }
+                    }
+                    catch (e) {
+                        // the cache is rebuilt, if it is corrupt
+                    }
+                }
+
+                setHashes(hashes);
+            });
+        });
+    }
+
+    /**
+     * Removes the hashes of all files, that are not in a list.
+     * 
+     * @param {string[]} files The paths of the files to keep.
+     */
+    public prune(files: string[]) {
+        let me = this;
+
+        if (!me._hashes) {
+            return;
+        }
+
+        let filesToKeep: { [file: string]: boolean } = {};
+        (files || []).forEach((x) => {
+            filesToKeep[path.resolve(x)] = true;
+        });
+
+        Object.keys(me._hashes).filter(x => !filesToKeep[x]).forEach((x) => {
+            delete me._hashes[x];
+            me._isDirty = true;
+        });
+    }
+
+    /**
+     * Saves the hashes to the file, if there are unsaved changes.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the file has been written or not.
+     */
+    public save(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (!me.file || !me._hashes || !me._isDirty) {
+                    completed(null, false);
+                    return;
+                }
+
+                db_identity.ensureDirectory(path.dirname(me.file)).then(() => {
+                    fs.writeFile(me.file, new Buffer(JSON.stringify(me._hashes), 'utf8'), (err) => {
+                        if (err) {
+                            completed(err);
+                        }
+                        else {
+                            me._isDirty = false;
+
+                            completed(null, true);
+                        }
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+}
+
+
+/**
+ * Fetches content by its ID and writes it to a local file.
+ * 
+ * Nothing is done, if the file already has the content. Otherwise the content is copied from the
+ * own library or downloaded from the first connected peer, that has it. In both cases the data
+ * is verified against the ID, before the file is replaced.
+ * 
+ * @param {db_contracts.ILibrary} library The own library.
+ * @param {db_contracts.IConnection[]} connections The connections to the peers.
+ * @param {string} hash The content ID (SHA-256, hex).
+ * @param {string} target The path of the target file.
+ * 
+ * @return {PromiseLike<db_contracts.IFetchResult>} The promise with the result.
+ */
+export function fetchContent(library: db_contracts.ILibrary, connections: db_contracts.IConnection[],
+                             hash: string, target: string): PromiseLike<db_contracts.IFetchResult> {
+    hash = simpleSocketHelpers.normalizeString(hash);
+    target = path.resolve(simpleSocketHelpers.toStringSafe(target));
+
+    return new Promise<db_contracts.IFetchResult>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            if (!isContentId(hash)) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                         `Invalid content ID '${hash}'!`));
+                return;
+            }
+
+            let completeWith = (source: db_contracts.FetchSource, size: number, peer: db_contracts.IPeerIdentity = null) => {
+                completed(null, {
+                    hash: hash,
+                    path: target,
+                    peer: peer,
+                    size: size,
+                    source: source,
+                });
+            };
+
+            let fetchFromPeers = () => {
+                let candidates = (connections || []).filter((x) => {
+                    return !x.isClosed &&
+                           (x.capabilities || []).indexOf(CAPABILITY_CONTENT) > -1;
+                });
+
+                let lastError: any = null;
+
+                let tryNextPeer = () => {
+                    if (candidates.length < 1) {
+                        completed(lastError || new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                                              `Content '${hash}' not found!`));
+                        return;
+                    }
+
+                    let conn = candidates.shift();
+
+                    let fail = (err: any) => {
+                        lastError = err;
+
+                        tryNextPeer();
+                    };
+
+                    conn.have([ hash ]).then((hashes) => {
+                        if (hashes.indexOf(hash) < 0) {
+                            tryNextPeer();
+                            return;
+                        }
+
+                        let source = conn.createContentStream(hash);
+
+                        writeContent(source, target, hash, () => source.abort()).then((size) => {
+                            completeWith('peer', size, conn.peer);
+                        }, (err) => {
+                            fail(err);
+                        });
+                    }, (err) => {
+                        fail(err);
+                    });
+                };
+
+                tryNextPeer();
+            };
+
+            let fetchFromLibrary = () => {
+                library.findByHash(hash).then((entry) => {
+                    if (!entry) {
+                        fetchFromPeers();
+                        return;
+                    }
+
+                    library.getFile(entry.id).then((file) => {
+                        if (!file) {
+                            fetchFromPeers();
+                            return;
+                        }
+
+                        let source = fs.createReadStream(file);
+
+                        writeContent(source, target, hash, () => source.close()).then((size) => {
+                            completeWith('library', size);
+                        }, () => {
+                            fetchFromPeers();  // file has been changed since last scan
+                        });
+                    }, () => {
+                        fetchFromPeers();
+                    });
+                }, () => {
+                    fetchFromPeers();
+                });
+            };
+
+            fs.stat(target, (err, stats) => {
+                if (err || !stats.isFile()) {
+                    fetchFromLibrary();
+                    return;
+                }
+
+                db_transfer.hashFile(target).then((targetHash) => {
+                    if (targetHash === hash) {
+                        completeWith('existing', stats.size);
+                    }
+                    else {
+                        fetchFromLibrary();
+                    }
+                }, () => {
+                    fetchFromLibrary();
+                });
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Handles a request of a remote, which content is available (type 36).
+ * Only content of readable shares is reported.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IHaveMessage} msg The message.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function findContent(conn: db_contracts.IConnection, msg: db_messages.IHaveMessage): PromiseLike<db_messages.IMessage> {
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            if (msg.hashes.length > MAX_HAVE_HASHES) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                         `Not more than ${MAX_HAVE_HASHES} content IDs allowed!`));
+                return;
+            }
+
+            conn.client.library.getEntries(db_shares.createFilter(conn, true)).then((entries) => {
+                let availableHashes: { [hash: string]: boolean } = {};
+                entries.filter(x => !!x.hash).forEach((x) => {
+                    availableHashes[x.hash] = true;
+                });
+
+                let hashes: string[] = [];
+                msg.hashes.map(x => simpleSocketHelpers.normalizeString(x)).forEach((x) => {
+                    if (availableHashes[x] && hashes.indexOf(x) < 0) {
+                        hashes.push(x);
+                    }
+                });
+
+                completed(null, <db_messages.IAvailableContentMessage>{
+                    type: 37,
+                    hashes: hashes,
+                });
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Checks if a value is a valid content ID.
+ * 
+ * @param {any} hash The value to check.
+ * 
+ * @return {boolean} Is valid or not.
+ */
+export function isContentId(hash: any): boolean {
+    return 'string' === typeof hash &&
+           /^[0-9a-f]{64}$/.test(hash);
+}
+
+/**
+ * Handles a request of a remote to open a stream, that reads content by its ID (type 38).
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IFetchMessage} msg The message.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function openContentStream(conn: db_contracts.IConnection, msg: db_messages.IFetchMessage): PromiseLike<db_messages.IMessage> {
+    let hash = simpleSocketHelpers.normalizeString(msg.hash);
+
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            conn.client.library.findByHash(hash, db_shares.createFilter(conn, true)).then((entry) => {
+                if (!entry) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                             `Content '${hash}' not found!`));
+                    return;
+                }
+
+                db_streams.openReadStream(conn, {
+                    type: 19,
+                    channel: msg.channel,
+                    end: msg.end,
+                    entryId: entry.id,
+                    id: msg.id,
+                    start: msg.start,
+                }).then((reply) => {
+                    completed(null, reply);
+                }, (err) => {
+                    completed(err);
+                });
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+
+function writeContent(source: stream.Readable, target: string, hash: string, abort: () => void): PromiseLike<number> {
+    // random, so it does not collide with other writers of the target
+    let tempFile = `${target}.${crypto.randomBytes(4).toString('hex')}.part`;
+
+    return new Promise<number>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            db_identity.ensureDirectory(path.dirname(target)).then(() => {
+                let contentHash = crypto.createHash('sha256');
+                let isFailed = false;
+                let size = 0;
+
+                let output = fs.createWriteStream(tempFile);
+
+                let fail = (err: any) => {
+                    if (isFailed) {
+                        return;
+                    }
+                    isFailed = true;
+
+                    source.unpipe(output);
+                    abort();
+                    output.end();
+
+                    fs.unlink(tempFile, () => {
+                        completed(err);
+                    });
+                };
+
+                source.once('error', (err: any) => {
+                    fail(err);
+                });
+                source.on('data', (data: Buffer) => {
+                    contentHash.update(data);
+                    size += data.length;
+                });
+
+                output.once('error', (err: any) => {
+                    fail(err);
+                });
+                output.once('close', () => {
+                    if (isFailed) {
+                        return;
+                    }
+
+                    // verify before replacing the target
+                    if (contentHash.digest('hex') !== hash) {
+                        isFailed = true;
+
+                        fs.unlink(tempFile, () => {
+                            completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                     `Received data does not match content ID '${hash}'!`));
+                        });
+                        return;
+                    }
+
+                    fs.rename(tempFile, target, (err) => {
+                        if (err) {
+                            completed(err);
+                        }
+                        else {
+                            completed(null, size);
+                        }
+                    });
+                });
+
+                source.pipe(output);
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
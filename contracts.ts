@@ -17,7 +17,7 @@
 // along with this program.  If not, see <http://www.gnu.org/licenses/>.
 
 import * as db_messages from './messages';
-import * as simpleSocket from 'node-simple-socket';
+import * as stream from 'stream';
 
 
 /**
@@ -37,39 +37,939 @@ export enum ConnectionType {
 /**
  * Validates a connection.
  * 
- * @param {simpleSocket.SimpleSocket} remote The connection to validate.
+ * @param {ITransportSocket} remote The connection to validate.
  * @param {ConnectionType} type The connection type.
+ * @param {IPeerIdentity} peer The identity of the remote peer.
  * 
  * @return {ConnectionValidatorResult} The result.
  */
-export type ConnectionValidator = (remote: simpleSocket.SimpleSocket,
-                                   type: ConnectionType) => ConnectionValidatorResult;
+export type ConnectionValidator = (remote: ITransportSocket,
+                                   type: ConnectionType,
+                                   peer: IPeerIdentity) => ConnectionValidatorResult;
 
 /**
  * The result of a connection validator.
  */
 export type ConnectionValidatorResult = PromiseLike<boolean> | boolean | void;
 
+/**
+ * List of error codes.
+ */
+export enum ErrorCode {
+    /**
+     * The message type is not supported.
+     */
+    UnsupportedType = 1,
+    /**
+     * The message contains invalid data.
+     */
+    InvalidPayload = 2,
+    /**
+     * The operation is not allowed.
+     */
+    Forbidden = 3,
+    /**
+     * A resource has not been found.
+     */
+    NotFound = 4,
+    /**
+     * An internal error.
+     */
+    Internal = 5,
+    /**
+     * The operation has been cancelled.
+     */
+    Cancelled = 6,
+}
+
+/**
+ * Where fetched content comes from:
+ * 
+ * 'existing': the target file already has the content
+ * 'library': a file of the own library
+ * 'peer': a connected peer
+ */
+export type FetchSource = 'existing' | 'library' | 'peer';
+
+/**
+ * Handles a message of a remote.
+ * 
+ * @param {db_messages.IMessage} msg The message.
+ * @param {IConnection} conn The connection.
+ * 
+ * @return {MessageHandlerResult} The reply to send (if defined).
+ */
+export type MessageHandler = (msg: db_messages.IMessage, conn: IConnection) => MessageHandlerResult;
+
+/**
+ * The result of a message handler.
+ */
+export type MessageHandlerResult = PromiseLike<db_messages.IMessage> | db_messages.IMessage | void;
+
+/**
+ * A field, search results can be sorted by.
+ */
+export type SearchSortField = 'album' | 'artist' | 'duration' | 'mtime' | 'path' | 'size' | 'title' | 'year';
+
+/**
+ * What a peer can do with a share:
+ * 
+ * 'browse': list the entries only
+ * 'read': list and download the entries
+ */
+export type ShareAccess = 'browse' | 'read';
+
+/**
+ * Checks if a share is accessible.
+ * 
+ * @param {IShare} share The share.
+ * 
+ * @return {boolean} Is accessible or not.
+ */
+export type ShareFilter = (share: IShare) => boolean;
+
+/**
+ * Is invoked for each new connection of a listening transport.
+ * 
+ * @param {any} err The error (if occurred).
+ * @param {ITransportSocket} [socket] The socket of the new connection.
+ */
+export type TransportListenCallback = (err: any, socket?: ITransportSocket) => void;
+
+/**
+ * Counts bytes per key and day.
+ */
+export interface IDailyQuota {
+    /**
+     * Adds used bytes.
+     * 
+     * @param {string} key The key, like the fingerprint of a peer.
+     * @param {number} bytes The number of bytes.
+     */
+    add(key: string, bytes: number): void;
+    /**
+     * Returns the number of bytes, that can be used today.
+     * 
+     * @param {string} key The key, like the fingerprint of a peer.
+     * 
+     * @return {number} The number of bytes (Infinity if unlimited).
+     */
+    remaining(key: string): number;
+}
+
+/**
+ * An identity.
+ */
+export interface IIdentity {
+    /**
+     * Gets the fingerprint of the public key.
+     */
+    readonly fingerprint: string;
+    /**
+     * Gets the public key (PEM).
+     */
+    readonly publicKey: string;
+}
+
+/**
+ * A library with shared files.
+ */
+export interface ILibrary {
+    /**
+     * Finds an entry by its content ID.
+     * 
+     * @param {string} hash The content ID (SHA-256, hex).
+     * @param {ShareFilter} [filter] The optional filter for the shares.
+     * 
+     * @return {PromiseLike<ILibraryEntry>} The promise with the entry or (null) if not found.
+     */
+    findByHash(hash: string, filter?: ShareFilter): PromiseLike<ILibraryEntry>;
+    /**
+     * Returns all entries of the library.
+     * 
+     * @param {ShareFilter} [filter] The optional filter for the shares.
+     * 
+     * @return {PromiseLike<ILibraryEntry[]>} The promise.
+     */
+    getEntries(filter?: ShareFilter): PromiseLike<ILibraryEntry[]>;
+    /**
+     * Returns the full path of an entry.
+     * 
+     * @param {string} id The ID of the entry.
+     * 
+     * @return {PromiseLike<string>} The promise with the path or (null) if not found.
+     */
+    getFile(id: string): PromiseLike<string>;
+    /**
+     * Returns the share of an entry.
+     * 
+     * @param {string} id The ID of the entry.
+     * 
+     * @return {PromiseLike<IShare>} The promise with the share or (null) if not found.
+     */
+    getShare(id: string): PromiseLike<IShare>;
+    /**
+     * Returns the list of shares.
+     * 
+     * @return {IShare[]} The shares.
+     */
+    getShares(): IShare[];
+    /**
+     * Returns a page of entries.
+     * 
+     * @param {number} [offset] The zero based index of the first entry.
+     * @param {number} [limit] The maximum number of entries to return.
+     * @param {ShareFilter} [filter] The optional filter for the shares.
+     * 
+     * @return {PromiseLike<ILibraryPage>} The promise.
+     */
+    list(offset?: number, limit?: number, filter?: ShareFilter): PromiseLike<ILibraryPage>;
+    /**
+     * Scans the shared directories again.
+     * 
+     * @return {PromiseLike<ILibraryEntry[]>} The promise with the new entries.
+     */
+    refresh(): PromiseLike<ILibraryEntry[]>;
+    /**
+     * Searches for entries.
+     * 
+     * @param {ISearchQuery} query The query.
+     * @param {ShareFilter} [filter] The optional filter for the shares.
+     * 
+     * @return {PromiseLike<ILibraryPage>} The promise with the page of the results.
+     */
+    search(query: ISearchQuery, filter?: ShareFilter): PromiseLike<ILibraryPage>;
+}
+
+/**
+ * Changes of a library.
+ */
+export interface ILibraryChanges {
+    /**
+     * The new entries.
+     */
+    added: ILibraryEntry[];
+    /**
+     * The entries with a new size, modification time or content.
+     */
+    changed: ILibraryEntry[];
+    /**
+     * The entries, that do not exist anymore.
+     */
+    removed: ILibraryEntry[];
+}
+
+/**
+ * An entry of a library.
+ */
+export interface ILibraryEntry {
+    /**
+     * The content ID (SHA-256 of the file, hex), if available.
+     */
+    hash?: string;
+    /**
+     * The ID of the entry.
+     */
+    id: string;
+    /**
+     * The metadata of the media file, if available.
+     */
+    meta?: IMediaMetadata;
+    /**
+     * The MIME type.
+     */
+    mime: string;
+    /**
+     * The last modification time, in milliseconds since 1970-01-01.
+     */
+    mtime: number;
+    /**
+     * The path relative to the library, beginning with the name of the share.
+     */
+    path: string;
+    /**
+     * The size, in bytes.
+     */
+    size: number;
+}
+
+/**
+ * A page of library entries.
+ */
+export interface ILibraryPage {
+    /**
+     * The entries.
+     */
+    entries: ILibraryEntry[];
+    /**
+     * The zero based index of the first entry.
+     */
+    offset: number;
+    /**
+     * The total number of entries in the library.
+     */
+    total: number;
+}
+
+/**
+ * The identity of the local instance.
+ */
+export interface ILocalIdentity extends IIdentity {
+    /**
+     * Signs data with the private key.
+     * 
+     * @param {Buffer} data The data to sign.
+     * 
+     * @return {string} The signature (Base64).
+     */
+    sign(data: Buffer): string;
+}
+
+/**
+ * Metadata of a media file.
+ */
+export interface IMediaMetadata {
+    /**
+     * The album.
+     */
+    album?: string;
+    /**
+     * The artist.
+     */
+    artist?: string;
+    /**
+     * The duration, in seconds.
+     */
+    duration?: number;
+    /**
+     * The genre.
+     */
+    genre?: string;
+    /**
+     * The height of an image or video, in pixels.
+     */
+    height?: number;
+    /**
+     * The title.
+     */
+    title?: string;
+    /**
+     * The track number.
+     */
+    track?: number;
+    /**
+     * The width of an image or video, in pixels.
+     */
+    width?: number;
+    /**
+     * The year.
+     */
+    year?: number;
+}
+
+/**
+ * The identity of a remote peer.
+ */
+export interface IPeerIdentity extends IIdentity {
+    /**
+     * Gets the address of the peer.
+     */
+    readonly address: string;
+}
+
+/**
+ * A stream that reads a library entry of a remote.
+ */
+export interface IReadStream extends stream.Readable {
+    /**
+     * Stops reading and closes the stream on the remote side.
+     */
+    abort(): void;
+    /**
+     * Gets the last modification time of the file on the remote side, in milliseconds since 1970-01-01,
+     * or (null) if unknown (available after the stream has been opened).
+     */
+    readonly mtime: number;
+    /**
+     * Gets the number of bytes that can be read (available after the stream has been opened).
+     */
+    readonly size: number;
+    /**
+     * Gets the size of the whole file on the remote side, in bytes,
+     * or (null) if unknown (available after the stream has been opened).
+     */
+    readonly total: number;
+}
+
+/**
+ * Options for a stream that reads a library entry of a remote.
+ */
+export interface IReadStreamOptions {
+    /**
+     * The maximum number of bytes that are requested at once.
+     */
+    chunkSize?: number;
+    /**
+     * The zero based position of the last byte to read (inclusive).
+     */
+    end?: number;
+    /**
+     * The zero based position of the first byte to read.
+     */
+    start?: number;
+}
+
+/**
+ * A query for library entries. Texts are matched case insensitive as parts of the values.
+ */
+export interface ISearchQuery {
+    /**
+     * The album.
+     */
+    album?: string;
+    /**
+     * The artist.
+     */
+    artist?: string;
+    /**
+     * The genre.
+     */
+    genre?: string;
+    /**
+     * The maximum number of entries to return.
+     */
+    limit?: number;
+    /**
+     * The maximum duration, in seconds.
+     */
+    maxDuration?: number;
+    /**
+     * The MIME type, like 'audio/mpeg' or 'audio/*'.
+     */
+    mime?: string;
+    /**
+     * The minimum duration, in seconds.
+     */
+    minDuration?: number;
+    /**
+     * The zero based index of the first entry.
+     */
+    offset?: number;
+    /**
+     * The field to sort by. Default: 'path'
+     */
+    sortBy?: SearchSortField;
+    /**
+     * The sort order. Default: 'asc'
+     */
+    sortOrder?: 'asc' | 'desc';
+    /**
+     * The title.
+     */
+    title?: string;
+}
+
+/**
+ * A shared directory.
+ */
+export interface IShare {
+    /**
+     * What peers can do with the share. Default: 'read'
+     */
+    access?: ShareAccess;
+    /**
+     * The fingerprints and / or IP addresses of the peers, that are allowed to access the share.
+     * If not defined or empty, all peers are allowed.
+     */
+    allow?: string[];
+    /**
+     * Hides the share from peers, which have not unlocked it by its name.
+     */
+    hidden?: boolean;
+    /**
+     * The name of the share. If not defined, the name of the directory is used.
+     */
+    name?: string;
+    /**
+     * The password or token, a peer has to unlock the share with.
+     */
+    password?: string;
+    /**
+     * The path of the directory.
+     */
+    path: string;
+}
+
+/**
+ * Information about a share for a peer.
+ */
+export interface IShareInfo {
+    /**
+     * What the peer can do with the share.
+     */
+    access: ShareAccess;
+    /**
+     * Gets if the share has to be unlocked before it can be accessed.
+     */
+    isLocked: boolean;
+    /**
+     * The name.
+     */
+    name: string;
+}
+
+/**
+ * Options for stopping a client.
+ */
+export interface IStopOptions {
+    /**
+     * Wait for running transfers before closing the connections or not.
+     */
+    drain?: boolean;
+    /**
+     * The reason that is sent to the remotes.
+     */
+    reason?: string;
+}
+
+/**
+ * Limits the number of bytes per second.
+ */
+export interface ITokenBucket {
+    /**
+     * Waits until bytes can be transfered.
+     * 
+     * @param {number} bytes The number of bytes.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    consume(bytes: number): PromiseLike<void>;
+    /**
+     * Gets or sets the rate, in bytes per second. 0 or less means 'unlimited'.
+     */
+    rate: number;
+}
+
+/**
+ * The progress of a transfer.
+ */
+export interface ITransferProgress {
+    /**
+     * The number of transfered bytes.
+     */
+    bytes: number;
+    /**
+     * The direction.
+     */
+    direction: 'download' | 'upload';
+    /**
+     * The estimated remaining time, in seconds, or (null) if unknown.
+     */
+    eta: number;
+    /**
+     * The name of the transfer, like the name of the file.
+     */
+    name: string;
+    /**
+     * The average rate, in bytes per second.
+     */
+    rate: number;
+    /**
+     * The total number of bytes or (null) if unknown.
+     */
+    total: number;
+}
+
+/**
+ * A transport, that connects peers.
+ */
+export interface ITransport {
+    /**
+     * Connects to a remote.
+     * 
+     * @param {string} host The host address.
+     * @param {number} port The port.
+     * 
+     * @return {PromiseLike<ITransportSocket>} The promise with the socket.
+     */
+    connect(host: string, port: number): PromiseLike<ITransportSocket>;
+    /**
+     * Starts listening for new connections.
+     * 
+     * @param {number} port The port.
+     * @param {TransportListenCallback} callback The callback for new connections.
+     * 
+     * @return {PromiseLike<ITransportServer>} The promise with the server.
+     */
+    listen(port: number, callback: TransportListenCallback): PromiseLike<ITransportServer>;
+}
+
+/**
+ * A server of a transport, that accepts new connections.
+ */
+export interface ITransportServer {
+    /**
+     * Stops accepting new connections.
+     * 
+     * @param {Function} [callback] The callback, that is invoked after all connections have been closed.
+     */
+    close(callback?: (err?: any) => void): any;
+}
+
+/**
+ * A stream that writes a file to the upload directory of a remote.
+ */
+export interface IWriteStream extends stream.Writable {
+    /**
+     * Stops writing and discards the file on the remote side.
+     */
+    abort(): void;
+}
+
+/**
+ * Options for a stream that writes a file to a remote.
+ */
+export interface IWriteStreamOptions {
+    /**
+     * The maximum number of bytes that are sent at once.
+     */
+    chunkSize?: number;
+}
+
+/**
+ * Result of fetching content by its ID.
+ */
+export interface IFetchResult {
+    /**
+     * The content ID (SHA-256, hex).
+     */
+    readonly hash: string;
+    /**
+     * The full path of the local file.
+     */
+    readonly path: string;
+    /**
+     * The peer the content has been downloaded from or (null) if it was available locally.
+     */
+    readonly peer: IPeerIdentity;
+    /**
+     * The size of the file, in bytes.
+     */
+    readonly size: number;
+    /**
+     * Where the content comes from.
+     */
+    readonly source: FetchSource;
+}
+
+/**
+ * Result of a file transfer.
+ */
+export interface IFileTransferResult {
+    /**
+     * The SHA-256 hash of the file (hex).
+     */
+    readonly hash: string;
+    /**
+     * The name of the file.
+     */
+    readonly name: string;
+    /**
+     * The full path of the local file.
+     */
+    readonly path: string;
+    /**
+     * Gets if a partial transfer has been resumed or not.
+     */
+    readonly resumed: boolean;
+    /**
+     * The size of the file, in bytes.
+     */
+    readonly size: number;
+}
+
+/**
+ * A logical channel of a connection.
+ */
+export interface IChannel extends NodeJS.EventEmitter {
+    /**
+     * Closes the channel. Pending requests and unsent messages of the channel are cancelled.
+     * 
+     * @param {string} [reason] The reason.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the channel has been closed by that call or not.
+     */
+    close(reason?: string): PromiseLike<boolean>;
+    /**
+     * Gets the underlying connection.
+     */
+    readonly connection: IConnection;
+    /**
+     * Gets the ID of the channel.
+     */
+    readonly id: number;
+    /**
+     * Gets if the channel has been closed or not.
+     */
+    readonly isClosed: boolean;
+    /**
+     * Sends a message over that channel and waits for the reply.
+     * 
+     * @param {db_messages.IMessage} msg The message to send.
+     * @param {number} [timeout] The custom timeout, in milliseconds. 0 or less waits forever.
+     * 
+     * @return {PromiseLike<TReply>} The promise with the reply.
+     */
+    request<TReply extends db_messages.IMessage>(msg: db_messages.IMessage, timeout?: number): PromiseLike<TReply>;
+    /**
+     * Sends a message over that channel.
+     * 
+     * @param {TMsg} msg The message to send.
+     * 
+     * @return {PromiseLike<Buffer>} The promise.
+     */
+    sendMessage<TMsg extends db_messages.IMessage>(msg: TMsg): PromiseLike<Buffer>;
+    /**
+     * Gets the number of bytes, that can be sent before the remote has to allow more.
+     */
+    readonly window: number;
+}
+
 /**
  * A client.
  */
 export interface IClient extends NodeJS.EventEmitter {
+    /**
+     * Gets the capabilities of the client.
+     */
+    readonly capabilities: string[];
+    /**
+     * Gets the global limit for downloads.
+     */
+    readonly downloadBucket: ITokenBucket;
+    /**
+     * Returns the handler for a message type.
+     * 
+     * @param {number} messageType The message type.
+     * 
+     * @return {MessageHandler} The handler or (undefined) if not registered.
+     */
+    getHandler(messageType: number): MessageHandler;
+    /**
+     * Returns the identity of the client.
+     * 
+     * @return {PromiseLike<ILocalIdentity>} The promise.
+     */
+    getIdentity(): PromiseLike<ILocalIdentity>;
+    /**
+     * Gets the library with the shared files.
+     */
+    readonly library: ILibrary;
+    /**
+     * Gets the maximum number of streams, a remote can open over one connection. 0 or less means 'unlimited'.
+     */
+    readonly maxOpenStreams: number;
+    /**
+     * Gets the maximum size of a file, in bytes, a remote can write. 0 or less means 'unlimited'.
+     */
+    readonly maxUploadSize: number;
+    /**
+     * Gets the daily quota of the bytes, that are served to a peer (by fingerprint).
+     */
+    readonly quota: IDailyQuota;
+    /**
+     * Gets the global limit for uploads.
+     */
+    readonly uploadBucket: ITokenBucket;
 }
 
 /**
  * A connection.
  */
 export interface IConnection extends NodeJS.EventEmitter {
+    /**
+     * Gets the number of running transfers.
+     */
+    readonly activeTransfers: number;
+    /**
+     * Gets the capabilities both sides support (available after handshake).
+     */
+    readonly capabilities: string[];
+    /**
+     * Gets the open channels.
+     */
+    readonly channels: IChannel[];
     /**
      * Gets the client.
      */
     readonly client: IClient;
     /**
-     * Reads a message.
+     * Says goodbye to the remote and closes the connection.
+     * 
+     * @param {string} [reason] The reason.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the connection has been closed by that call or not.
+     */
+    close(reason?: string): PromiseLike<boolean>;
+    /**
+     * Creates a stream that reads content of the library of the remote by its ID.
+     * 
+     * @param {string} hash The content ID (SHA-256, hex).
+     * @param {IReadStreamOptions} [opts] The options.
+     * 
+     * @return {IReadStream} The stream.
+     */
+    createContentStream(hash: string, opts?: IReadStreamOptions): IReadStream;
+    /**
+     * Creates a stream that reads an entry of the library of the remote.
+     * 
+     * @param {string} entryId The ID of the library entry.
+     * @param {IReadStreamOptions} [opts] The options.
+     * 
+     * @return {IReadStream} The stream.
+     */
+    createReadStream(entryId: string, opts?: IReadStreamOptions): IReadStream;
+    /**
+     * Creates a stream that writes a file to the upload directory of the remote.
+     * The file is kept by the remote after the stream has been finished.
+     * 
+     * @param {string} name The name of the file.
+     * @param {IWriteStreamOptions} [opts] The options.
+     * 
+     * @return {IWriteStream} The stream.
+     */
+    createWriteStream(name: string, opts?: IWriteStreamOptions): IWriteStream;
+    /**
+     * Waits until all running transfers have been finished.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    drain(): PromiseLike<void>;
+    /**
+     * Gets or sets the download limit of that connection, in bytes per second. 0 or less means 'unlimited'.
+     */
+    downloadLimit: number;
+    /**
+     * Makes the handshake with the remote, if not done yet.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if handshake has been made by that call or not.
+     */
+    handshake(): PromiseLike<boolean>;
+    /**
+     * Gets or sets the time, in milliseconds, a handshake may take, before the socket is closed.
+     * 0 or less waits forever.
+     */
+    handshakeTimeout: number;
+    /**
+     * Asks the remote which content it has.
+     * 
+     * @param {string[]} hashes The content IDs (SHA-256, hex).
+     * 
+     * @return {PromiseLike<string[]>} The promise with the IDs the remote can provide.
+     */
+    have(hashes: string[]): PromiseLike<string[]>;
+    /**
+     * Gets or sets the time, in milliseconds, without messages of the remote after that a ping is sent.
+     * 0 or less does not send pings.
+     */
+    heartbeatInterval: number;
+    /**
+     * Gets or sets the time, in milliseconds, without messages of the remote after that the connection is closed.
+     * 0 or less keeps the connection open.
+     */
+    idleTimeout: number;
+    /**
+     * Gets if the connection has been closed or not.
+     */
+    readonly isClosed: boolean;
+    /**
+     * Lists the entries of the library of the remote.
+     * 
+     * @param {number} [offset] The zero based index of the first entry.
+     * @param {number} [limit] The maximum number of entries to return.
+     * 
+     * @return {PromiseLike<ILibraryPage>} The promise.
+     */
+    listLibrary(offset?: number, limit?: number): PromiseLike<ILibraryPage>;
+    /**
+     * Lists the shares of the remote, the peer can see.
+     * 
+     * @return {PromiseLike<IShareInfo[]>} The promise.
+     */
+    listShares(): PromiseLike<IShareInfo[]>;
+    /**
+     * Registers the handler for a message type of the remote.
+     * The handler of the connection is used before the one of the client.
+     * 
+     * @param {number} messageType The message type.
+     * @param {MessageHandler} handler The handler.
+     * 
+     * @chainable
+     */
+    on(messageType: number, handler: MessageHandler): this;
+    /** @inheritdoc */
+    on(event: string | symbol, listener: Function): this;
+    /**
+     * Opens a new channel, which shares the connection fairly with the other channels.
+     * 
+     * @return {IChannel} The new channel.
+     */
+    openChannel(): IChannel;
+    /**
+     * Gets the identity of the remote peer (available after handshake).
+     */
+    readonly peer: IPeerIdentity;
+    /**
+     * Gets the negotiated protocol version (available after handshake).
+     */
+    readonly protocolVersion: number;
+    /**
+     * Reads the next message, that is neither a reply nor handled by a message handler.
      * 
      * @return {PromiseLike<TMsg>} The promise.
      */
     readMessage<TMsg extends db_messages.IMessage>(): PromiseLike<TMsg>;
+    /**
+     * Reads a range of bytes of an entry of the library of the remote.
+     * The range ends at the end of the entry.
+     * 
+     * @param {string} entryId The ID of the library entry.
+     * @param {number} offset The zero based position of the first byte.
+     * @param {number} length The maximum number of bytes to read.
+     * 
+     * @return {PromiseLike<Buffer>} The promise with the data.
+     */
+    readRange(entryId: string, offset: number, length: number): PromiseLike<Buffer>;
+    /**
+     * Receives a file that is offered by the remote.
+     * 
+     * @param {string} targetDir The directory where the file should be stored.
+     * @param {number} [maxSize] The maximum size of the file, in bytes. 0 or less means 'unlimited'. Default: 16 GB
+     * 
+     * @return {PromiseLike<IFileTransferResult>} The promise.
+     */
+    receiveFile(targetDir: string, maxSize?: number): PromiseLike<IFileTransferResult>;
+    /**
+     * Gets the software version of the remote (available after handshake).
+     */
+    readonly remoteVersion: string;
+    /**
+     * Sends a message and waits for the reply of the remote.
+     * 
+     * @param {db_messages.IMessage} msg The message to send.
+     * @param {number} [timeout] The custom timeout, in milliseconds. 0 or less waits forever.
+     * 
+     * @return {PromiseLike<TReply>} The promise with the reply.
+     */
+    request<TReply extends db_messages.IMessage>(msg: db_messages.IMessage, timeout?: number): PromiseLike<TReply>;
+    /**
+     * Searches the library of the remote.
+     * 
+     * @param {ISearchQuery} query The query.
+     * 
+     * @return {PromiseLike<ILibraryPage>} The promise with the page of the results.
+     */
+    search(query: ISearchQuery): PromiseLike<ILibraryPage>;
     /**
      * Sends a message.
      * 
@@ -78,12 +978,76 @@ export interface IConnection extends NodeJS.EventEmitter {
      * @return {PromiseLike<Buffer>} The promise.
      */
     sendMessage<TMsg extends db_messages.IMessage>(msg: TMsg): PromiseLike<Buffer>;
+    /**
+     * Sends a file to the remote.
+     * 
+     * @param {string} path The path of the file to send.
+     * 
+     * @return {PromiseLike<IFileTransferResult>} The promise.
+     */
+    sendFile(path: string): PromiseLike<IFileTransferResult>;
     /**
      * Gets the socket.
      */
-    readonly socket: simpleSocket.SimpleSocket;
+    readonly socket: ITransportSocket;
+    /**
+     * Subscribes to the changes of the library of the remote, which are emitted as 'library.changed' event.
+     * Large changes are emitted in several events.
+     * 
+     * @param {boolean} [enabled] Subscribe (true) or unsubscribe (false). Default: (true)
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    subscribe(enabled?: boolean): PromiseLike<void>;
     /**
      * Gets the type of the connection.
      */
     readonly type: ConnectionType;
+    /**
+     * Unlocks a hidden or password protected share of the remote for that connection.
+     * 
+     * @param {string} name The name of the share.
+     * @param {string} [password] The password or token.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    unlockShare(name: string, password?: string): PromiseLike<void>;
+    /**
+     * Gets or sets the upload limit of that connection, in bytes per second. 0 or less means 'unlimited'.
+     */
+    uploadLimit: number;
+}
+
+/**
+ * A socket of a transport, that sends and receives frames.
+ */
+export interface ITransportSocket extends NodeJS.EventEmitter {
+    /**
+     * Closes the connection.
+     * 
+     * @return {PromiseLike<any>} The promise.
+     */
+    end(): PromiseLike<any>;
+    /**
+     * Reads the next frame.
+     * 
+     * @return {PromiseLike<Buffer>} The promise with the frame or (null) if the connection has been closed.
+     */
+    read(): PromiseLike<Buffer>;
+    /**
+     * Gets the address of the remote.
+     */
+    readonly remoteAddress: string;
+    /**
+     * Gets the secret of the encrypted session or (null) if the transport does not encrypt.
+     */
+    readonly sessionKey: Buffer;
+    /**
+     * Writes a frame.
+     * 
+     * @param {Buffer} data The data of the frame.
+     * 
+     * @return {PromiseLike<Buffer>} The promise with the written data.
+     */
+    write(data: Buffer): PromiseLike<Buffer>;
 }
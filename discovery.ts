@@ -0,0 +1,520 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+
+import * as dgram from 'dgram';
+import * as events from 'events';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * Provides the data, that is announced to other peers.
+ * 
+ * @return {PromiseLike<IAnnouncement>} The promise with the data.
+ */
+export type AnnouncementProvider = () => PromiseLike<IAnnouncement>;
+
+/**
+ * The data, that is announced to other peers.
+ * It contains only what is needed to connect, nothing of the library.
+ */
+export interface IAnnouncement {
+    /**
+     * The fingerprint of the identity.
+     */
+    fingerprint: string;
+    /**
+     * The (display) name.
+     */
+    name: string;
+    /**
+     * The TCP port for connections.
+     */
+    port: number;
+    /**
+     * The (highest) supported protocol version.
+     */
+    protocolVersion: number;
+}
+
+/**
+ * A peer, that has been found in the network.
+ * 
+ * The data is untrusted, because anyone in the network can announce any fingerprint.
+ * The key of the peer is verified by the handshake, when connecting.
+ */
+export interface IDiscoveredPeer extends IAnnouncement {
+    /**
+     * The IP address.
+     */
+    address: string;
+    /**
+     * The timestamp of the last announcement.
+     */
+    lastSeen: number;
+}
+
+interface IAnnouncementMessage extends IAnnouncement {
+    app: string;
+    bye?: boolean;
+}
+
+
+/**
+ * The value, that identifies an announcement of that application.
+ */
+export const ANNOUNCEMENT_APP = 'delivery-boy';
+/**
+ * The default multicast address for announcements.
+ */
+export const DEFAULT_DISCOVERY_ADDRESS = '239.255.43.79';
+/**
+ * The default time, in milliseconds, after that a peer without announcements is lost.
+ */
+export const DEFAULT_DISCOVERY_EXPIRY = 15000;
+/**
+ * The default time, in milliseconds, between two announcements.
+ */
+export const DEFAULT_DISCOVERY_INTERVAL = 5000;
+/**
+ * The default maximum number of found peers, that are kept.
+ */
+export const DEFAULT_MAX_DISCOVERED_PEERS = 256;
+/**
+ * The default UDP port for announcements.
+ */
+export const DEFAULT_DISCOVERY_PORT = 14381;
+/**
+ * The maximum length of an announced name.
+ */
+export const MAX_NAME_LENGTH = 255;
+
+
+/**
+ * Announces an instance in the local network via UDP multicast (or broadcast) and finds other ones.
+ */
+export class Discovery extends events.EventEmitter {
+    /**
+     * Stores the fingerprint of the own identity.
+     */
+    protected _fingerprint: string;
+    /**
+     * Stores the found peers by fingerprint.
+     */
+    protected _peers: { [fingerprint: string]: IDiscoveredPeer } = {};
+    /**
+     * Stores the announcement provider.
+     */
+    protected _provider: AnnouncementProvider;
+    /**
+     * Stores the running socket.
+     */
+    protected _socket: dgram.Socket;
+    /**
+     * Stores the timer for the announcements.
+     */
+    protected _timer: NodeJS.Timer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {AnnouncementProvider} provider The provider of the data to announce.
+     */
+    constructor(provider: AnnouncementProvider) {
+        super();
+
+        this._provider = provider;
+    }
+
+    /**
+     * Gets or sets the multicast address or the broadcast address (like '255.255.255.255') for announcements.
+     */
+    public address = DEFAULT_DISCOVERY_ADDRESS;
+
+    /**
+     * Sends an announcement.
+     * 
+     * @param {boolean} [bye] Tell the others that the instance leaves or not.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    protected announce(bye = false): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let socket = me._socket;
+                if (!socket) {
+                    completed(null, false);
+                    return;
+                }
+
+                me._provider().then((announcement) => {
+                    try {
+                        me._fingerprint = simpleSocketHelpers.normalizeString(announcement.fingerprint);
+
+                        let msg: IAnnouncementMessage = {
+                            app: ANNOUNCEMENT_APP,
+                            fingerprint: me._fingerprint,
+                            name: simpleSocketHelpers.toStringSafe(announcement.name).substr(0, MAX_NAME_LENGTH),
+                            port: announcement.port,
+                            protocolVersion: announcement.protocolVersion,
+                        };
+                        if (bye) {
+                            msg.bye = true;
+                        }
+
+                        let data = new Buffer(JSON.stringify(msg), 'utf8');
+
+                        socket.send(data, 0, data.length, me.getPort(), me.getAddress(), (err) => {
+                            if (err) {
+                                completed(err);
+                            }
+                            else {
+                                completed(null, true);
+                            }
+                        });
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, after that a peer without announcements is lost.
+     */
+    public expiry = DEFAULT_DISCOVERY_EXPIRY;
+
+    /**
+     * Returns the address for announcements.
+     * 
+     * @return {string} The address.
+     */
+    protected getAddress(): string {
+        let address = simpleSocketHelpers.toStringSafe(this.address).trim();
+        if ('' === address) {
+            address = DEFAULT_DISCOVERY_ADDRESS;
+        }
+
+        return address;
+    }
+
+    /**
+     * Returns the UDP port for announcements.
+     * 
+     * @return {number} The port.
+     */
+    protected getPort(): number {
+        let port = parseInt(simpleSocketHelpers.toStringSafe(this.port).trim());
+        if (isNaN(port)) {
+            port = DEFAULT_DISCOVERY_PORT;
+        }
+
+        return port;
+    }
+
+    /**
+     * Handles a received announcement.
+     * The sender is not authenticated, so the data is only a hint, where a peer can be reached.
+     * 
+     * @param {Buffer} data The received data.
+     * @param {dgram.RemoteInfo} remote The sender.
+     */
+    protected handleAnnouncement(data: Buffer, remote: dgram.RemoteInfo) {
+        let me = this;
+
+        let msg: IAnnouncementMessage;
+        try {
+            msg = JSON.parse(data.toString('utf8'));
+        }
+        catch (e) {
+            return;  // no JSON
+        }
+
+        if (!isValidAnnouncement(msg)) {
+            return;
+        }
+
+        let fingerprint = simpleSocketHelpers.normalizeString(msg.fingerprint);
+        if (fingerprint === me._fingerprint) {
+            return;  // our own announcement
+        }
+
+        let peer = me._peers[fingerprint];
+
+        if (msg.bye) {
+            // only the sender of the last announcement can say goodbye
+            if (peer && peer.address === remote.address) {
+                delete me._peers[fingerprint];
+
+                me.emit('peer.lost',
+                        peer);
+            }
+
+            return;
+        }
+
+        let isNew = !peer;
+        if (isNew) {
+            let maxPeers = parseInt(simpleSocketHelpers.toStringSafe(me.maxPeers).trim());
+            if (isNaN(maxPeers) || maxPeers < 1) {
+                maxPeers = DEFAULT_MAX_DISCOVERED_PEERS;
+            }
+
+            if (Object.keys(me._peers).length >= maxPeers) {
+                me.removeExpiredPeers();
+
+                if (Object.keys(me._peers).length >= maxPeers) {
+                    return;  // full
+                }
+            }
+        }
+
+        peer = me._peers[fingerprint] = {
+            address: remote.address,
+            fingerprint: fingerprint,
+            lastSeen: Date.now(),
+            name: msg.name,
+            port: msg.port,
+            protocolVersion: msg.protocolVersion,
+        };
+
+        if (isNew) {
+            me.emit('peer.found',
+                    peer);
+        }
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, between two announcements.
+     */
+    public interval = DEFAULT_DISCOVERY_INTERVAL;
+
+    /**
+     * Gets if the discovery is running or not.
+     */
+    public get isRunning(): boolean {
+        return !!this._socket;
+    }
+
+    /**
+     * Gets or sets the maximum number of found peers, that are kept. Announcements of further peers are ignored.
+     */
+    public maxPeers = DEFAULT_MAX_DISCOVERED_PEERS;
+
+    /**
+     * Gets the list of found peers. Their data is untrusted.
+     */
+    public get peers(): IDiscoveredPeer[] {
+        let me = this;
+
+        return Object.keys(me._peers).map((fingerprint) => {
+            return me._peers[fingerprint];
+        });
+    }
+
+    /**
+     * Gets or sets the UDP port for announcements.
+     */
+    public port = DEFAULT_DISCOVERY_PORT;
+
+    /**
+     * Removes the peers, which have not been announced for a while.
+     */
+    protected removeExpiredPeers() {
+        let me = this;
+
+        let expiry = parseInt(simpleSocketHelpers.toStringSafe(me.expiry).trim());
+        if (isNaN(expiry) || expiry < 1) {
+            expiry = DEFAULT_DISCOVERY_EXPIRY;
+        }
+
+        let now = Date.now();
+
+        Object.keys(me._peers).forEach((fingerprint) => {
+            let peer = me._peers[fingerprint];
+            if (now - peer.lastSeen < expiry) {
+                return;
+            }
+
+            delete me._peers[fingerprint];
+
+            me.emit('peer.lost',
+                    peer);
+        });
+    }
+
+    /**
+     * Starts announcing and listening for other peers.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    public start(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (me._socket) {
+                    completed(null, false);
+                    return;
+                }
+
+                let address = me.getAddress();
+
+                let interval = parseInt(simpleSocketHelpers.toStringSafe(me.interval).trim());
+                if (isNaN(interval) || interval < 1) {
+                    interval = DEFAULT_DISCOVERY_INTERVAL;
+                }
+
+                let isStarted = false;
+
+                let socket = dgram.createSocket({
+                    type: 'udp4',
+                    reuseAddr: true,
+                });
+
+                socket.on('error', (err: any) => {
+                    if (isStarted) {
+                        me.emit('error.discovery',
+                                err);
+                    }
+                    else {
+                        socket.close();
+
+                        completed(err);
+                    }
+                });
+
+                socket.on('message', (data: Buffer, remote: dgram.RemoteInfo) => {
+                    me.handleAnnouncement(data, remote);
+                });
+
+                socket.bind({ port: me.getPort() }, () => {
+                    try {
+                        if (isMulticastAddress(address)) {
+                            socket.addMembership(address);
+                            socket.setMulticastLoopback(true);  // other instances on that machine
+                        }
+                        else {
+                            socket.setBroadcast(true);
+                        }
+
+                        isStarted = true;
+                        me._socket = socket;
+
+                        let announce = () => {
+                            me.announce().then(() => {
+                            }, (err) => {
+                                me.emit('error.discovery',
+                                        err);
+                            });
+                        };
+
+                        me._timer = setInterval(() => {
+                            me.removeExpiredPeers();
+
+                            announce();
+                        }, interval);
+                        me._timer.unref();
+
+                        announce();
+
+                        completed(null, true);
+                    }
+                    catch (e) {
+                        socket.close();
+
+                        completed(e);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Stops announcing and tells the other peers that the instance leaves.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    public stop(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve) => {
+            let socket = me._socket;
+            if (!socket) {
+                resolve(false);
+                return;
+            }
+
+            if (me._timer) {
+                clearInterval(me._timer);
+                me._timer = null;
+            }
+
+            let closeSocket = () => {
+                me._socket = null;
+                me._peers = {};
+
+                socket.close(() => {
+                    resolve(true);
+                });
+            };
+
+            me.announce(true).then(() => {
+                closeSocket();
+            }, () => {
+                closeSocket();
+            });
+        });
+    }
+}
+
+
+function isMulticastAddress(address: string): boolean {
+    let firstByte = parseInt(address.split('.')[0]);
+
+    return firstByte >= 224 && firstByte <= 239;
+}
+
+function isValidAnnouncement(msg: IAnnouncementMessage): boolean {
+    let isPort = (val: any) => 'number' === typeof val && val % 1 === 0 && val > 0 && val < 65536;
+
+    return msg &&
+           'object' === typeof msg &&
+           ANNOUNCEMENT_APP === msg.app &&
+           /^[0-9a-f]{64}$/i.test(simpleSocketHelpers.toStringSafe(msg.fingerprint)) &&
+           'string' === typeof msg.name && msg.name.length <= MAX_NAME_LENGTH &&
+           isPort(msg.port) &&
+           'number' === typeof msg.protocolVersion && msg.protocolVersion % 1 === 0 &&
+           (simpleSocketHelpers.isNullOrUndefined(msg.bye) || 'boolean' === typeof msg.bye);
+}
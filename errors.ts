@@ -0,0 +1,95 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as db_messages from './messages';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * An error of the protocol.
+ */
+export class DeliveryBoyError extends Error {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.ErrorCode} code The error code.
+     * @param {string} message The error message.
+     * @param {boolean} [isRemote] The error has been sent by the remote or not.
+     */
+    constructor(code: db_contracts.ErrorCode, message: string, isRemote = false) {
+        super(message);
+
+        this.code = code;
+        this.isRemote = isRemote;
+        this.name = 'DeliveryBoyError';
+    }
+
+    /**
+     * Gets the error code.
+     */
+    public readonly code: db_contracts.ErrorCode;
+
+    /**
+     * Gets if the error has been sent by the remote or not.
+     */
+    public readonly isRemote: boolean;
+
+    /**
+     * Creates the message that sends that error to the remote.
+     * 
+     * @return {db_messages.IErrorMessage} The message.
+     */
+    public toMessage(): db_messages.IErrorMessage {
+        return {
+            type: 15,
+            code: this.code,
+            message: this.message,
+        };
+    }
+}
+
+
+/**
+ * Creates an error from an error message of the remote.
+ * 
+ * @param {db_messages.IErrorMessage} msg The message.
+ * 
+ * @return {DeliveryBoyError} The error.
+ */
+export function fromMessage(msg: db_messages.IErrorMessage): DeliveryBoyError {
+    return new DeliveryBoyError(msg.code,
+                                simpleSocketHelpers.toStringSafe(msg.message), true);
+}
+
+/**
+ * Converts an object to a DeliveryBoyError.
+ * 
+ * @param {any} err The object to convert.
+ * @param {db_contracts.ErrorCode} [code] The code to use, if 'err' is no DeliveryBoyError.
+ * 
+ * @return {DeliveryBoyError} The error.
+ */
+export function toDeliveryBoyError(err: any, code = db_contracts.ErrorCode.Internal): DeliveryBoyError {
+    if (err instanceof DeliveryBoyError) {
+        return err;
+    }
+
+    return new DeliveryBoyError(code,
+                                simpleSocketHelpers.toStringSafe(err && err.message ? err.message : err));
+}
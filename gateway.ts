@@ -0,0 +1,551 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as events from 'events';
+import * as http from 'http';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+import * as url from 'url';
+
+
+/**
+ * Provides the connection to the remote, whose library should be served.
+ * 
+ * @return {db_contracts.IConnection} The connection or (null) if not connected.
+ */
+export type ConnectionProvider = () => db_contracts.IConnection;
+
+interface IByteRange {
+    end: number;
+    start: number;
+}
+
+
+/**
+ * The default host address of a gateway.
+ */
+export const DEFAULT_GATEWAY_HOST = '127.0.0.1';
+/**
+ * The default TCP port of a gateway.
+ */
+export const DEFAULT_GATEWAY_PORT = 14380;
+/**
+ * The MIME type of entries, whose type is not trusted.
+ */
+export const UNTRUSTED_MIME = 'application/octet-stream';
+
+
+/**
+ * A HTTP server, that serves the library of a remote for media players and browsers.
+ */
+export class HttpGateway extends events.EventEmitter {
+    /**
+     * Stores the cached library entries.
+     */
+    protected _entries: db_contracts.ILibraryEntry[];
+    /**
+     * Stores the connection, whose entries are cached.
+     */
+    protected _entriesConnection: db_contracts.IConnection;
+    /**
+     * Stores the timestamp, the entries have been loaded.
+     */
+    protected _lastLoad: number;
+    /**
+     * Stores the connection provider.
+     */
+    protected _provider: ConnectionProvider;
+    /**
+     * Stores the running server.
+     */
+    protected _server: http.Server;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection|ConnectionProvider} connection The connection or the function that provides it.
+     */
+    constructor(connection: db_contracts.IConnection | ConnectionProvider) {
+        super();
+
+        if ('function' === typeof connection) {
+            this._provider = <ConnectionProvider>connection;
+        }
+        else {
+            this._provider = () => <db_contracts.IConnection>connection;
+        }
+    }
+
+    /**
+     * The time, in milliseconds, the library entries of the remote are cached.
+     */
+    public cacheTime = 10000;
+
+    /**
+     * Returns the connection to the remote.
+     * 
+     * @return {db_contracts.IConnection} The connection or (null) if not connected.
+     */
+    protected getConnection(): db_contracts.IConnection {
+        let conn = this._provider();
+        if (!conn || conn.isClosed) {
+            return null;
+        }
+
+        return conn;
+    }
+
+    /**
+     * Returns all library entries of the remote.
+     * 
+     * @param {db_contracts.IConnection} conn The connection.
+     * 
+     * @return {PromiseLike<db_contracts.ILibraryEntry[]>} The promise.
+     */
+    protected getEntries(conn: db_contracts.IConnection): PromiseLike<db_contracts.ILibraryEntry[]> {
+        let me = this;
+
+        if (me._entries && me._entriesConnection === conn && (Date.now() - me._lastLoad) < me.cacheTime) {
+            return Promise.resolve(me._entries);
+        }
+
+        return new Promise<db_contracts.ILibraryEntry[]>((resolve, reject) => {
+            let entries: db_contracts.ILibraryEntry[] = [];
+
+            let loadNextPage = () => {
+                conn.listLibrary(entries.length).then((page) => {
+                    entries = entries.concat(page.entries);
+
+                    if (page.entries.length > 0 && entries.length < page.total) {
+                        loadNextPage();
+                        return;
+                    }
+
+                    me._entries = entries;
+                    me._entriesConnection = conn;
+                    me._lastLoad = Date.now();
+
+                    resolve(entries);
+                }, (err) => {
+                    reject(err);
+                });
+            };
+
+            loadNextPage();
+        });
+    }
+
+    /**
+     * Handles a HTTP request.
+     * 
+     * @param {http.IncomingMessage} req The request.
+     * @param {http.ServerResponse} res The response.
+     */
+    protected handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        let me = this;
+
+        try {
+            // protect against DNS rebinding
+            if (!me.isAllowedHost(simpleSocketHelpers.toStringSafe(req.headers['host']))) {
+                sendError(res, 403, 'Forbidden');
+                return;
+            }
+
+            if ('GET' !== req.method && 'HEAD' !== req.method) {
+                sendError(res, 405, 'Method Not Allowed');
+                return;
+            }
+
+            let conn = me.getConnection();
+            if (!conn) {
+                sendError(res, 503, 'Not connected');
+                return;
+            }
+
+            let pathname = url.parse(req.url).pathname;
+            let parts = pathname.split('/').filter(x => '' !== x);
+
+            if (0 === parts.length) {
+                me.sendIndex(req, res, conn, /json/i.test(simpleSocketHelpers.toStringSafe(req.headers['accept'])));
+            }
+            else if (1 === parts.length && 'index.json' === parts[0]) {
+                me.sendIndex(req, res, conn, true);
+            }
+            else if ('files' === parts[0] && parts.length >= 2) {
+                me.sendEntry(req, res, conn, decodeURIComponent(parts[1]));
+            }
+            else {
+                sendError(res, 404, 'Not Found');
+            }
+        }
+        catch (e) {
+            me.emit('error.request',
+                    e, req);
+
+            sendError(res, 500, 'Internal Server Error');
+        }
+    }
+
+    /**
+     * The host address to bind to.
+     */
+    public host = DEFAULT_GATEWAY_HOST;
+
+    /**
+     * Checks if the value of a 'Host' header is allowed.
+     * If the gateway is bound to a specific address, only that address and the names of the local host are allowed.
+     * 
+     * @param {string} header The value of the header.
+     * 
+     * @return {boolean} Is allowed or not.
+     */
+    protected isAllowedHost(header: string): boolean {
+        let host = simpleSocketHelpers.normalizeString(this.host);
+        if (!host) {
+            host = DEFAULT_GATEWAY_HOST;
+        }
+
+        if ('0.0.0.0' === host || '::' === host) {
+            return true;  // bound to all interfaces
+        }
+
+        let hostname = simpleSocketHelpers.normalizeString(header);
+        if (0 === hostname.indexOf('[')) {
+            hostname = hostname.substr(1, hostname.indexOf(']') - 1);  // IPv6
+        }
+        else {
+            hostname = hostname.split(':')[0];
+        }
+
+        return [ host, '127.0.0.1', '::1', 'localhost' ].indexOf(hostname) > -1;
+    }
+
+    /**
+     * The TCP port.
+     */
+    public port = DEFAULT_GATEWAY_PORT;
+
+    /**
+     * Sends an entry of the library.
+     * 
+     * @param {http.IncomingMessage} req The request.
+     * @param {http.ServerResponse} res The response.
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {string} entryId The ID of the entry.
+     */
+    protected sendEntry(req: http.IncomingMessage, res: http.ServerResponse,
+                        conn: db_contracts.IConnection, entryId: string) {
+        let me = this;
+
+        me.getEntries(conn).then((entries) => {
+            let entry = entries.filter(x => x.id === entryId)[0];
+            if (!entry) {
+                sendError(res, 404, 'Not Found');
+                return;
+            }
+
+            let range: IByteRange = {
+                end: entry.size - 1,
+                start: 0,
+            };
+
+            let status = 200;
+            // the type is provided by the remote
+            let headers: any = {
+                'Accept-Ranges': 'bytes',
+                'Content-Type': toTrustedMime(entry.mime),
+                'X-Content-Type-Options': 'nosniff',
+            };
+
+            let rangeHeader = simpleSocketHelpers.toStringSafe(req.headers['range']).trim();
+            if ('' !== rangeHeader) {
+                let requestedRange = parseRange(rangeHeader, entry.size);
+                if (null === requestedRange) {
+                    res.writeHead(416, {
+                        'Content-Range': `bytes */${entry.size}`,
+                    });
+                    res.end();
+                    return;
+                }
+
+                if (requestedRange) {
+                    range = requestedRange;
+                    status = 206;
+                    headers['Content-Range'] = `bytes ${range.start}-${range.end}/${entry.size}`;
+                }
+            }
+
+            let length = range.end - range.start + 1;
+            headers['Content-Length'] = length;
+
+            res.writeHead(status, headers);
+
+            if ('HEAD' === req.method || length < 1) {
+                res.end();
+                return;
+            }
+
+            let stream = conn.createReadStream(entry.id, {
+                end: range.end,
+                start: range.start,
+            });
+
+            stream.once('error', (err: any) => {
+                me.emit('error.request',
+                        err, req);
+
+                res.end();
+            });
+
+            // player has stopped, e.g. for seeking
+            res.once('close', () => {
+                stream.unpipe(res);
+                stream.abort();
+            });
+
+            stream.pipe(res);
+        }, (err) => {
+            me.emit('error.request',
+                    err, req);
+
+            sendError(res, 502, 'Bad Gateway');
+        });
+    }
+
+    /**
+     * Sends the index of the library.
+     * 
+     * @param {http.IncomingMessage} req The request.
+     * @param {http.ServerResponse} res The response.
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {boolean} asJSON Send as JSON or as HTML.
+     */
+    protected sendIndex(req: http.IncomingMessage, res: http.ServerResponse,
+                        conn: db_contracts.IConnection, asJSON: boolean) {
+        let me = this;
+
+        me.getEntries(conn).then((entries) => {
+            let body: Buffer;
+            let contentType: string;
+
+            let toUrl = (entry: db_contracts.ILibraryEntry) => {
+                let name = entry.path.split('/').pop();
+
+                return `/files/${encodeURIComponent(entry.id)}/${encodeURIComponent(name)}`;
+            };
+
+            if (asJSON) {
+                body = new Buffer(JSON.stringify(entries.map(x => {
+                    return {
+                        id: x.id,
+                        mime: x.mime,
+                        mtime: x.mtime,
+                        path: x.path,
+                        size: x.size,
+                        url: toUrl(x),
+                    };
+                })), 'utf8');
+                contentType = 'application/json; charset=utf-8';
+            }
+            else {
+                let html = '<!DOCTYPE html>\n' +
+                           '<html><head><meta charset="utf-8"><title>delivery-boy</title></head><body>\n' +
+                           '<h1>Library</h1>\n' +
+                           '<ul>\n';
+                entries.forEach((x) => {
+                    html += `<li><a href="${escapeHtml(toUrl(x))}">${escapeHtml(x.path)}</a> (${escapeHtml(x.mime)}, ${x.size} bytes)</li>\n`;
+                });
+                html += '</ul>\n' +
+                        '</body></html>';
+
+                body = new Buffer(html, 'utf8');
+                contentType = 'text/html; charset=utf-8';
+            }
+
+            res.writeHead(200, {
+                'Content-Length': body.length,
+                'Content-Type': contentType,
+                'X-Content-Type-Options': 'nosniff',
+            });
+            res.end('HEAD' === req.method ? undefined : body);
+        }, (err) => {
+            me.emit('error.request',
+                    err, req);
+
+            sendError(res, 502, 'Bad Gateway');
+        });
+    }
+
+    /**
+     * Gets the underlying / running server instance.
+     */
+    public get server(): http.Server {
+        return this._server;
+    }
+
+    /**
+     * Starts the gateway.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    public start(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (me._server) {
+                    completed(null, false);
+                    return;
+                }
+
+                let host = simpleSocketHelpers.toStringSafe(me.host).trim();
+                if (!host) {
+                    host = DEFAULT_GATEWAY_HOST;
+                }
+
+                let port = parseInt(simpleSocketHelpers.toStringSafe(me.port).trim());
+                if (isNaN(port)) {
+                    port = DEFAULT_GATEWAY_PORT;
+                }
+
+                let server = http.createServer((req, res) => {
+                    me.handleRequest(req, res);
+                });
+
+                server.once('error', (err: any) => {
+                    completed(err);
+                });
+
+                server.listen(port, host, () => {
+                    me._server = server;
+
+                    completed(null, true);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Stops the gateway.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    public stop(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let oldServer = me._server;
+                if (!oldServer) {
+                    completed(null, false);
+                    return;
+                }
+
+                oldServer.close((err: any) => {
+                    if (err) {
+                        completed(err);
+                    }
+                    else {
+                        me._server = null;
+
+                        completed(null, true);
+                    }
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+}
+
+
+function escapeHtml(str: string): string {
+    return simpleSocketHelpers.toStringSafe(str).replace(/&/g, '&amp;')
+                                                .replace(/</g, '&lt;')
+                                                .replace(/>/g, '&gt;')
+                                                .replace(/"/g, '&quot;');
+}
+
+// returns (undefined) if the whole entry should be sent
+// and (null) if the range cannot be satisfied
+function parseRange(header: string, size: number): IByteRange {
+    let match = /^bytes=(\d*)-(\d*)$/i.exec(header);
+    if (!match) {
+        return undefined;  // unsupported, like multiple ranges
+    }
+
+    let start: number;
+    let end: number;
+
+    if ('' === match[1]) {
+        // suffix, like 'bytes=-500'
+        if ('' === match[2]) {
+            return undefined;
+        }
+
+        start = Math.max(0, size - parseInt(match[2]));
+        end = size - 1;
+    }
+    else {
+        start = parseInt(match[1]);
+        end = '' === match[2] ? (size - 1) : Math.min(parseInt(match[2]), size - 1);
+    }
+
+    if (start >= size || end < start) {
+        return null;
+    }
+
+    return {
+        end: end,
+        start: start,
+    };
+}
+
+function sendError(res: http.ServerResponse, statusCode: number, message: string) {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+
+    let body = new Buffer(message, 'utf8');
+
+    res.writeHead(statusCode, {
+        'Content-Length': body.length,
+        'Content-Type': 'text/plain; charset=utf-8',
+    });
+    res.end(body);
+}
+
+function toTrustedMime(mime: string): string {
+    mime = simpleSocketHelpers.normalizeString(mime);
+
+    // only media, that is not executed by a browser
+    if (/^(audio|image|video)\/[a-z0-9.+-]+$/.test(mime) && 'image/svg+xml' !== mime) {
+        return mime;
+    }
+
+    return UNTRUSTED_MIME;
+}
@@ -0,0 +1,598 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+
+import * as crypto from 'crypto';
+import * as db_contracts from './contracts';
+import * as fs from 'fs';
+import * as NodeRSA from 'node-rsa';
+import * as os from 'os';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * A known peer.
+ */
+export interface IKnownPeer {
+    /**
+     * The address of the peer.
+     */
+    address: string;
+    /**
+     * The fingerprint of the public key of the peer.
+     */
+    fingerprint: string;
+    /**
+     * The timestamp, in milliseconds since 1970-01-01, when the peer has been seen first.
+     */
+    firstSeen: number;
+    /**
+     * The timestamp, in milliseconds since 1970-01-01, when the peer has been seen last.
+     * It is written at most every 'LAST_SEEN_INTERVAL' milliseconds.
+     */
+    lastSeen: number;
+    /**
+     * Gets if the fingerprint has been pinned explicitly or has been trusted on first use.
+     */
+    pinned: boolean;
+}
+
+
+/**
+ * The default directory for the data of an instance.
+ */
+export const DEFAULT_DATA_DIR = path.join(os.homedir(), '.delivery-boy');
+/**
+ * The default path of the file with the private key.
+ */
+export const DEFAULT_IDENTITY_FILE = path.join(DEFAULT_DATA_DIR, 'identity.pem');
+/**
+ * The default size of a new key, in bits.
+ */
+export const DEFAULT_KEY_SIZE = 2048;
+/**
+ * The default path of the file with the known peers.
+ */
+export const DEFAULT_KNOWN_PEERS_FILE = path.join(DEFAULT_DATA_DIR, 'known_peers.json');
+/**
+ * The minimum time, in milliseconds, after that the 'last seen' time of a known peer is written again.
+ */
+export const LAST_SEEN_INTERVAL = 3600000;
+
+
+/**
+ * An identity (key pair).
+ */
+export class Identity implements db_contracts.ILocalIdentity {
+    /**
+     * Stores the fingerprint.
+     */
+    protected _fingerprint: string;
+    /**
+     * Stores the private key.
+     */
+    protected _privateKey: string;
+    /**
+     * Stores the public key.
+     */
+    protected _publicKey: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} privateKey The private key (PEM).
+     */
+    constructor(privateKey: string) {
+        let key = new NodeRSA(privateKey);
+
+        this._privateKey = privateKey;
+        this._publicKey = key.exportKey('pkcs8-public-pem');
+        this._fingerprint = getFingerprint(this._publicKey);
+    }
+
+    /** @inheritdoc */
+    public get fingerprint(): string {
+        return this._fingerprint;
+    }
+
+    /**
+     * Gets the private key (PEM).
+     */
+    public get privateKey(): string {
+        return this._privateKey;
+    }
+
+    /** @inheritdoc */
+    public get publicKey(): string {
+        return this._publicKey;
+    }
+
+    /** @inheritdoc */
+    public sign(data: Buffer): string {
+        return crypto.createSign('RSA-SHA256')
+                     .update(data)
+                     .sign(this._privateKey, 'base64');
+    }
+}
+
+/**
+ * A file based store of known peers.
+ */
+export class KnownPeers {
+    /**
+     * Stores the path of the file.
+     */
+    protected _file: string;
+    /**
+     * Stores the promise of the running load operation.
+     */
+    protected _loading: PromiseLike<{ [address: string]: IKnownPeer }>;
+    /**
+     * Stores the peers by address.
+     */
+    protected _peers: { [address: string]: IKnownPeer };
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} file The path of the file.
+     */
+    constructor(file: string) {
+        this._file = file;
+    }
+
+    /**
+     * Gets the path of the underlying file.
+     */
+    public get file(): string {
+        return this._file;
+    }
+
+    /**
+     * Removes a peer.
+     * 
+     * @param {string} address The address of the peer.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if peer has been removed or not.
+     */
+    public forget(address: string): PromiseLike<boolean> {
+        let me = this;
+
+        address = normalizeAddress(address);
+
+        return new Promise<boolean>((resolve, reject) => {
+            me.load().then((peers) => {
+                if (!peers[address]) {
+                    resolve(false);
+                    return;
+                }
+
+                delete peers[address];
+
+                me.save().then(() => {
+                    resolve(true);
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Returns a peer.
+     * 
+     * @param {string} address The address of the peer.
+     * 
+     * @return {PromiseLike<IKnownPeer>} The promise with the peer or (null) if unknown.
+     */
+    public get(address: string): PromiseLike<IKnownPeer> {
+        let me = this;
+
+        address = normalizeAddress(address);
+
+        return new Promise<IKnownPeer>((resolve, reject) => {
+            me.load().then((peers) => {
+                let peer = peers[address];
+
+                resolve(peer ? peer : null);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Loads the peers from the file, if not done yet.
+     * 
+     * @return {PromiseLike<Object>} The promise with the peers by address.
+     */
+    protected load(): PromiseLike<{ [address: string]: IKnownPeer }> {
+        let me = this;
+
+        if (me._peers) {
+            return Promise.resolve(me._peers);
+        }
+
+        if (me._loading) {
+            return me._loading;  // already running
+        }
+
+        me._loading = new Promise<{ [address: string]: IKnownPeer }>((resolve, reject) => {
+            fs.readFile(me.file, (err, data) => {
+                me._loading = null;
+
+                let peers: { [address: string]: IKnownPeer } = {};
+
+                if (err) {
+                    if ('ENOENT' !== err.code) {
+                        reject(err);
+                        return;
+                    }
+                }
+                else {
+                    try {
+                        let loadedPeers = JSON.parse(data.toString('utf8'));
+                        if (loadedPeers && 'object' === typeof loadedPeers) {
+                            peers = loadedPeers;
+                        }
+                    }
+                    catch (e) {
+                        reject(e);
+                        return;
+                    }
+                }
+
+                me._peers = peers;
+
+                resolve(peers);
+            });
+        });
+
+        return me._loading;
+    }
+
+    /**
+     * Pins the fingerprint of a peer explicitly.
+     * 
+     * @param {string} address The address of the peer.
+     * @param {string} fingerprint The expected fingerprint.
+     * 
+     * @return {PromiseLike<IKnownPeer>} The promise with the entry of the peer.
+     */
+    public pin(address: string, fingerprint: string): PromiseLike<IKnownPeer> {
+        let me = this;
+
+        address = normalizeAddress(address);
+        fingerprint = normalizeFingerprint(fingerprint);
+
+        return new Promise<IKnownPeer>((resolve, reject) => {
+            me.load().then((peers) => {
+                let peer = peers[address];
+                if (!peer || peer.fingerprint !== fingerprint) {
+                    peer = peers[address] = {
+                        address: address,
+                        fingerprint: fingerprint,
+                        firstSeen: null,
+                        lastSeen: null,
+                        pinned: true,
+                    };
+                }
+                else {
+                    peer.pinned = true;
+                }
+
+                me.save().then(() => {
+                    resolve(peer);
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Saves the peers to the file.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    protected save(): PromiseLike<void> {
+        let me = this;
+
+        return new Promise<void>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                ensureDirectory(path.dirname(me.file)).then(() => {
+                    fs.writeFile(me.file, new Buffer(JSON.stringify(me._peers, null, 2), 'utf8'), (err) => {
+                        completed(err);
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets or sets if unknown peers are trusted on first use or not.
+     * If (false) only pinned peers are accepted, incoming ones included.
+     */
+    public trustOnFirstUse = true;
+
+    /**
+     * Verifies the fingerprint of a peer.
+     * 
+     * Unknown peers are stored if they are trusted on first use.
+     * 
+     * @param {string} address The address of the peer.
+     * @param {string} fingerprint The fingerprint of the peer.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if peer is trusted or not.
+     */
+    public verify(address: string, fingerprint: string): PromiseLike<boolean> {
+        let me = this;
+
+        address = normalizeAddress(address);
+        fingerprint = normalizeFingerprint(fingerprint);
+
+        return new Promise<boolean>((resolve, reject) => {
+            me.load().then((peers) => {
+                let now = Date.now();
+
+                let peer = peers[address];
+                if (peer) {
+                    if (peer.fingerprint !== fingerprint) {
+                        resolve(false);  // key mismatch
+                        return;
+                    }
+
+                    let isChanged = false;
+
+                    if (simpleSocketHelpers.isNullOrUndefined(peer.firstSeen)) {
+                        peer.firstSeen = now;
+                        isChanged = true;
+                    }
+                    if (simpleSocketHelpers.isNullOrUndefined(peer.lastSeen) || (now - peer.lastSeen) >= LAST_SEEN_INTERVAL) {
+                        peer.lastSeen = now;
+                        isChanged = true;
+                    }
+
+                    if (!isChanged) {
+                        resolve(true);  // nothing to save
+                        return;
+                    }
+                }
+                else {
+                    if (!simpleSocketHelpers.toBooleanSafe(me.trustOnFirstUse, true)) {
+                        resolve(false);  // unknown
+                        return;
+                    }
+
+                    peers[address] = {
+                        address: address,
+                        fingerprint: fingerprint,
+                        firstSeen: now,
+                        lastSeen: now,
+                        pinned: false,
+                    };
+                }
+
+                me.save().then(() => {
+                    resolve(true);
+                }, (err) => {
+                    reject(err);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Verifies the fingerprint of a peer, whose address is not stable, like an incoming or relayed one.
+     * 
+     * Such a peer cannot be pinned by its address. It is trusted, if unknown peers are trusted on first use,
+     * otherwise its fingerprint must have been pinned for any address.
+     * 
+     * @param {string} fingerprint The fingerprint of the peer.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if peer is trusted or not.
+     */
+    public verifyFingerprint(fingerprint: string): PromiseLike<boolean> {
+        let me = this;
+
+        fingerprint = normalizeFingerprint(fingerprint);
+
+        return new Promise<boolean>((resolve, reject) => {
+            if (simpleSocketHelpers.toBooleanSafe(me.trustOnFirstUse, true)) {
+                resolve(true);
+                return;
+            }
+
+            me.load().then((peers) => {
+                resolve(Object.keys(peers).some((x) => {
+                    return peers[x].pinned && peers[x].fingerprint === fingerprint;
+                }));
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+}
+
+
+/**
+ * Creates a directory and its parents, if they do not exist.
+ * 
+ * @param {string} dir The path of the directory.
+ * 
+ * @return {PromiseLike<void>} The promise.
+ */
+export function ensureDirectory(dir: string): PromiseLike<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.stat(dir, (err) => {
+            if (!err) {
+                resolve();
+                return;
+            }
+
+            ensureDirectory(path.dirname(dir)).then(() => {
+                fs.mkdir(dir, (err) => {
+                    if (err && 'EEXIST' !== err.code) {
+                        reject(err);
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    });
+}
+
+/**
+ * Returns the fingerprint of a public key.
+ * 
+ * @param {string} publicKey The public key (PEM).
+ * 
+ * @return {string} The fingerprint (SHA-256 of the DER data, hex).
+ */
+export function getFingerprint(publicKey: string): string {
+    let der = new Buffer(simpleSocketHelpers.toStringSafe(publicKey).replace(/-----[^-]+-----/g, '')
+                                                                  .replace(/\s/g, ''),
+                         'base64');
+
+    return crypto.createHash('sha256')
+                 .update(der)
+                 .digest('hex');
+}
+
+/**
+ * Loads an identity from a file or creates a new one, if the file does not exist.
+ * 
+ * @param {string} [file] The path of the file with the private key.
+ * @param {number} [keySize] The size of a new key, in bits.
+ * 
+ * @return {PromiseLike<Identity>} The promise.
+ */
+export function loadIdentity(file?: string, keySize?: number): PromiseLike<Identity> {
+    file = simpleSocketHelpers.toStringSafe(file).trim();
+    if (!file) {
+        file = DEFAULT_IDENTITY_FILE;
+    }
+    file = path.resolve(file);
+
+    keySize = parseInt(simpleSocketHelpers.toStringSafe(keySize).trim());
+    if (isNaN(keySize)) {
+        keySize = DEFAULT_KEY_SIZE;
+    }
+
+    return new Promise<Identity>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            fs.readFile(file, (err, data) => {
+                try {
+                    if (!err) {
+                        completed(null,
+                                  new Identity(data.toString('utf8')));
+                        return;
+                    }
+
+                    if ('ENOENT' !== err.code) {
+                        completed(err);
+                        return;
+                    }
+
+                    // create new key
+                    let privateKey = new NodeRSA({ b: keySize }).exportKey('pkcs1-private-pem');
+
+                    ensureDirectory(path.dirname(file)).then(() => {
+                        fs.writeFile(file, new Buffer(privateKey, 'utf8'), { mode: 0o600 }, (err) => {
+                            if (err) {
+                                completed(err);
+                            }
+                            else {
+                                completed(null,
+                                          new Identity(privateKey));
+                            }
+                        });
+                    }, (err) => {
+                        completed(err);
+                    });
+                }
+                catch (e) {
+                    completed(e);
+                }
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Normalizes a fingerprint for comparison, so the notations with and without colons are equal.
+ * 
+ * @param {string} fingerprint The fingerprint.
+ * 
+ * @return {string} The normalized fingerprint.
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+    return simpleSocketHelpers.normalizeString(fingerprint).replace(/:/g, '');
+}
+
+/**
+ * Verifies a signature.
+ * 
+ * @param {string} publicKey The public key (PEM) of the signer.
+ * @param {Buffer} data The signed data.
+ * @param {string} signature The signature (Base64).
+ * 
+ * @return {boolean} Is valid or not.
+ */
+export function verifySignature(publicKey: string, data: Buffer, signature: string): boolean {
+    if (simpleSocketHelpers.isEmptyString(publicKey) || simpleSocketHelpers.isEmptyString(signature)) {
+        return false;
+    }
+
+    try {
+        return crypto.createVerify('RSA-SHA256')
+                     .update(data)
+                     .verify(publicKey, signature, 'base64');
+    }
+    catch (e) {
+        return false;  // invalid key
+    }
+}
+
+
+function normalizeAddress(address: string): string {
+    return simpleSocketHelpers.normalizeString(address);
+}
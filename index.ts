@@ -16,14 +16,74 @@
 // You should have received a copy of the GNU General Public License
 // along with this program.  If not, see <http://www.gnu.org/licenses/>.
 
+import * as db_bandwidth from './bandwidth';
+import * as db_channel from './channel';
 import * as db_connection from './connection';
+import * as db_content from './content';
 import * as db_contracts from './contracts';
+import * as db_discovery from './discovery';
+import * as db_errors from './errors';
+import * as db_gateway from './gateway';
+import * as db_identity from './identity';
+import * as db_library from './library';
+import * as db_messages from './messages';
+import * as db_queue from './queue';
+import * as db_relay from './relay';
+import * as db_shares from './shares';
+import * as db_streams from './streams';
+import * as db_swarm from './swarm';
+import * as db_sync from './sync';
+import * as db_transport from './transport';
+import * as db_watcher from './watcher';
 import * as events from 'events';
-import * as net from 'net';
-import * as simpleSocket from 'node-simple-socket';
+import * as os from 'os';
 import * as simpleSocketHelpers from 'node-simple-socket/helpers';
 
 
+/**
+ * Capability: Multiplexed channels with flow control.
+ */
+export const CAPABILITY_CHANNELS = db_channel.CAPABILITY_CHANNELS;
+/**
+ * Capability: Fetching content by its ID.
+ */
+export const CAPABILITY_CONTENT = db_content.CAPABILITY_CONTENT;
+/**
+ * Capability: Sending and receiving files.
+ */
+export const CAPABILITY_FILES = 'files';
+/**
+ * Capability: Browsing the library.
+ */
+export const CAPABILITY_LIBRARY = 'library';
+/**
+ * Capability: Reading ranges of library entries.
+ */
+export const CAPABILITY_RANGE = 'range';
+/**
+ * Capability: Connecting to peers via a relay.
+ */
+export const CAPABILITY_RELAY = db_relay.CAPABILITY_RELAY;
+/**
+ * Capability: Resuming partial file transfers.
+ */
+export const CAPABILITY_RESUME = 'resume';
+/**
+ * Capability: Searching the library by metadata.
+ */
+export const CAPABILITY_SEARCH = 'search';
+/**
+ * Capability: Listing and unlocking shares.
+ */
+export const CAPABILITY_SHARES = 'shares';
+/**
+ * Capability: Reading and writing streams.
+ */
+export const CAPABILITY_STREAMS = 'streams';
+/**
+ * Capability: Pushing changes of the library to subscribers.
+ */
+export const CAPABILITY_WATCH = db_watcher.CAPABILITY_WATCH;
 /**
  * The default TCP port.
  */
@@ -34,16 +94,300 @@ export const DEFAULT_PORT = 14379;
  * A client.
  */
 export class DeliveryBoy extends events.EventEmitter implements db_contracts.IClient {
+    /**
+     * Stores the open connections.
+     */
+    protected _connections: db_connection.Connection[] = [];
+    /**
+     * Stores the discovery service.
+     */
+    protected _discovery: db_discovery.Discovery;
+    /**
+     * Stores the global download limit.
+     */
+    protected _downloadBucket = new db_bandwidth.TokenBucket();
+    /**
+     * Stores the message handlers by type.
+     */
+    protected _handlers: { [messageType: number]: db_contracts.MessageHandler } = {};
+    /**
+     * Stores the cache for the content IDs.
+     */
+    protected _hashCache: db_content.HashCache;
+    /**
+     * Stores the identity.
+     */
+    protected _identity: PromiseLike<db_identity.Identity>;
+    /**
+     * Stores if the watcher has been started for subscribed peers or not.
+     */
+    protected _isWatchingForSubscribers = false;
+    /**
+     * Stores the known peers.
+     */
+    protected _knownPeers: db_identity.KnownPeers;
+    /**
+     * Stores the library.
+     */
+    protected _library: db_library.Library;
+    /**
+     * Stores the daily quota of the peers.
+     */
+    protected _quota = new db_bandwidth.DailyQuota();
+    /**
+     * Stores the download queue.
+     */
+    protected _queue: db_queue.DownloadQueue;
+    /**
+     * Stores the relay.
+     */
+    protected _relay: db_relay.Relay;
     /**
      * The underyling server instance.
      */
-    protected _server: net.Server;
+    protected _server: db_contracts.ITransportServer;
+    /**
+     * Stores the global upload limit.
+     */
+    protected _uploadBucket = new db_bandwidth.TokenBucket();
+    /**
+     * Stores the watcher of the library.
+     */
+    protected _watcher: db_watcher.LibraryWatcher;
+
+    /**
+     * Initializes a new instance of that class.
+     */
+    constructor() {
+        super();
+
+        let me = this;
+
+        // library requests
+        me.handle(11, (msg: db_messages.IListLibraryMessage, conn) => {
+            return me.library.list(msg.offset, msg.limit, db_shares.createFilter(conn)).then((page): db_messages.IMessage => {
+                return <db_messages.ILibraryMessage>{
+                    type: 12,
+                    entries: page.entries,
+                    offset: page.offset,
+                    total: page.total,
+                };
+            });
+        });
+
+        me.handle(35, (msg: db_messages.ISearchLibraryMessage, conn) => {
+            return me.library.search(msg, db_shares.createFilter(conn)).then((page): db_messages.IMessage => {
+                return <db_messages.ILibraryMessage>{
+                    type: 12,
+                    entries: page.entries,
+                    offset: page.offset,
+                    total: page.total,
+                };
+            });
+        });
+
+        // streams
+        me.handle(19, (msg: db_messages.IOpenReadStreamMessage, conn) => {
+            return db_streams.openReadStream(conn, msg);
+        });
+        me.handle(20, (msg: db_messages.IOpenWriteStreamMessage, conn) => {
+            return db_streams.openWriteStream(conn, msg, me.uploadDir);
+        });
+        me.handle(22, (msg: db_messages.IStreamReadMessage, conn) => {
+            return db_streams.readFromStream(conn, msg);
+        });
+        me.handle(24, (msg: db_messages.IStreamWriteMessage, conn) => {
+            return db_streams.writeToStream(conn, msg);
+        });
+        me.handle(25, (msg: db_messages.IStreamCloseMessage, conn) => {
+            return db_streams.closeStream(conn, msg);
+        });
+
+        // byte ranges
+        me.handle(26, (msg: db_messages.IReadRangeMessage, conn) => {
+            return db_streams.readEntryRange(conn, msg);
+        });
+
+        // shares
+        me.handle(30, (msg: db_messages.IGetShareChallengeMessage, conn) => {
+            return db_shares.createChallenge(conn, msg);
+        });
+        me.handle(32, (msg: db_messages.IUnlockShareMessage, conn) => {
+            return db_shares.unlockShare(conn, msg);
+        });
+        me.handle(33, (msg: db_messages.IListSharesMessage, conn) => {
+            return db_shares.listShares(conn);
+        });
+
+        // content
+        me.handle(36, (msg: db_messages.IHaveMessage, conn) => {
+            return db_content.findContent(conn, msg);
+        });
+        me.handle(38, (msg: db_messages.IFetchMessage, conn) => {
+            return db_content.openContentStream(conn, msg);
+        });
+
+        // relay
+        me.handle(39, (msg: db_messages.IRelayConnectMessage, conn) => {
+            return me.relay.open(conn, msg);
+        });
+        me.handle(40, (msg: db_messages.IRelayIncomingMessage, conn) => {
+            if (!simpleSocketHelpers.toBooleanSafe(me.acceptRelayedConnections, true)) {
+                throw new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                     'Relayed connections are not accepted!');
+            }
+
+            me.acceptConnection(new db_relay.RelaySocket(conn, msg.sessionId, false));
+
+            return <db_messages.IOKMessage>{
+                type: 1,
+            };
+        });
+        me.handle(41, (msg: db_messages.IRelayDataMessage, conn) => {
+            db_relay.receiveRelayData(conn, msg);
+        });
+        me.handle(42, (msg: db_messages.IRelayCloseMessage, conn) => {
+            db_relay.closeRelaySession(conn, msg);
+        });
+
+        // library changes
+        me.handle(43, (msg: db_messages.ISubscribeLibraryMessage, conn) => {
+            let reply = db_watcher.subscribe(conn, msg);
+
+            me.updateWatcher();
+
+            return reply;
+        });
+        me.handle(44, (msg: db_messages.ILibraryChangedMessage, conn) => {
+            conn.emit('library.changed',
+                      <db_contracts.ILibraryChanges>{
+                          added: msg.added,
+                          changed: msg.changed,
+                          removed: msg.removed,
+                      });
+        });
+    }
+
+    /**
+     * Accepts a new connection of a remote.
+     * 
+     * @param {db_contracts.ITransportSocket} socket The socket of the connection.
+     */
+    protected acceptConnection(socket: db_contracts.ITransportSocket) {
+        let me = this;
+
+        let conn = me.createConnection(db_contracts.ConnectionType.Server, socket);
+
+        let endSocket = () => {
+            socket.end().then(() => { }, () => { });
+        };
+
+        let rejectConnection = (reason: any) => {
+            socket.end().then(() => {
+                me.emit('listen.reject', 
+                        reason, socket);
+            }, (err) => {
+                me.emit('listen.reject',
+                        err, socket);
+            });
+        };
+
+        let emitEvent = (accepted: boolean) => {
+            accepted = simpleSocketHelpers.toBooleanSafe(accepted, true);
+
+            try {
+                if (accepted) {
+                    me.addConnection(conn);
+                    conn.startReading();
+
+                    me.emit('listen.accepted',
+                            conn);
+                }
+                else {
+                    // not accepted
+                    rejectConnection(null);
+                }
+            }
+            catch (e) {
+                endSocket();
+
+                me.emit('error.listen', e, 3);
+            }
+        };
+
+        conn.handshake().then(() => {
+            // the address of an incoming peer is not stable,
+            // so its key is checked against the pinned ones only
+            me.knownPeers.verifyFingerprint(conn.peer.fingerprint).then((trusted) => {
+                if (!trusted) {
+                    rejectConnection(new Error(`The key of peer '${conn.peer.fingerprint}' has not been pinned!`));
+                    return;
+                }
+
+                validateConnection(me.remoteValidator, socket, db_contracts.ConnectionType.Server, conn.peer).then((connectionAccepted) => {
+                    emitEvent(connectionAccepted);
+                }, (err) => {
+                    endSocket();
+
+                    me.emit('error.listen', err, 2);
+                });
+            }, (err) => {
+                endSocket();
+
+                me.emit('error.listen', err, 5);
+            });
+        }, (err) => {
+            me.emit('error.listen', err, 4);
+        });
+    }
+
+    /**
+     * Gets or sets if connections, that are opened via a relay, are accepted or not.
+     */
+    public acceptRelayedConnections = true;
+
+    /**
+     * Adds a connection to the list of open connections.
+     * 
+     * @param {db_connection.Connection} conn The connection to add.
+     */
+    protected addConnection(conn: db_connection.Connection) {
+        let me = this;
+
+        if (conn.isClosed) {
+            return;
+        }
+
+        me._connections.push(conn);
+
+        conn.once('close', (reason: string, isRemote: boolean) => {
+            let index = me._connections.indexOf(conn);
+            if (index > -1) {
+                me._connections.splice(index, 1);
+            }
+
+            me.updateWatcher();
+
+            me.emit('connection.close',
+                    conn, reason, isRemote);
+        });
+
+        conn.on('transfer.progress', (progress: db_contracts.ITransferProgress) => {
+            me.emit('transfer.progress',
+                    progress, conn);
+        });
+    }
+
+    /** @inheritdoc */
+    public get capabilities(): string[] {
+        return [ CAPABILITY_CHANNELS, CAPABILITY_CONTENT, CAPABILITY_FILES, CAPABILITY_LIBRARY, CAPABILITY_RANGE, CAPABILITY_RELAY, CAPABILITY_RESUME, CAPABILITY_SEARCH, CAPABILITY_SHARES, CAPABILITY_STREAMS, CAPABILITY_WATCH ];
+    }
 
     /**
      * Connects to a remote client.
      * 
      * @param string host The host IP / address. 
-     * @param number [port] The TCP port.
+     * @param number [port] The port.
      * 
      * @return {PromiseLike<db_contracts.IConnection>} The connection.
      */
@@ -64,15 +408,41 @@ export class DeliveryBoy extends events.EventEmitter implements db_contracts.ICl
             let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
 
             try {
-                simpleSocket.connect(port, host).then((newConnection) => {
+                let transport = me.transport || new db_transport.TcpTransport();
+
+                transport.connect(host, port).then((newConnection) => {
                     try {
+                        let conn = me.createConnection(db_contracts.ConnectionType.Client, newConnection);
+
+                        let rejectConnection = (reason: any) => {
+                            newConnection.end().then(() => {
+                                me.emit('connect.reject',
+                                        reason, newConnection);
+
+                                completed(reason, null);
+                            }, (err) => {
+                                me.emit('connect.reject',
+                                        err, newConnection);
+
+                                completed(err, null);
+                            });
+                        };
+
+                        let failConnection = (err: any) => {
+                            newConnection.end().then(() => {
+                                completed(err);
+                            }, () => {
+                                completed(err);
+                            });
+                        };
+
                         let emitEvent = (accepted: boolean) => {
                             accepted = simpleSocketHelpers.toBooleanSafe(accepted, true);
 
                             try {
                                 if (accepted) {
-                                    let conn = new db_connection.Connection(db_contracts.ConnectionType.Client,
-                                                                            me, newConnection);
+                                    me.addConnection(conn);
+                                    conn.startReading();
 
                                     me.emit('connect.connected',
                                             conn);
@@ -81,30 +451,39 @@ export class DeliveryBoy extends events.EventEmitter implements db_contracts.ICl
                                 }
                                 else {
                                     // not accepted
-                                    newConnection.end().then(() => {
-                                        me.emit('connect.reject',
-                                                null, newConnection);
-
-                                        completed(null, null);
-                                    }, (err) => {
-                                        me.emit('connect.reject',
-                                                err, newConnection);
-
-                                        completed(err, null);
-                                    });
+                                    rejectConnection(null);
                                 }
                             }
                             catch (e) {
                                 me.emit('error.listen', e, 3);
 
-                                completed(e);
+                                failConnection(e);
                             }
                         };
 
-                        validateConnection(me.remoteValidator, newConnection, db_contracts.ConnectionType.Client).then((connectionAccepted) => {
-                            emitEvent(connectionAccepted);
+                        conn.handshake().then(() => {
+                            let address = `${host}:${port}`;
+
+                            me.knownPeers.verify(address, conn.peer.fingerprint).then((trusted) => {
+                                if (!trusted) {
+                                    rejectConnection(new Error(`The key of peer '${address}' is unknown or does not match!`));
+                                    return;
+                                }
+
+                                validateConnection(me.remoteValidator, newConnection, db_contracts.ConnectionType.Client, conn.peer).then((connectionAccepted) => {
+                                    emitEvent(connectionAccepted);
+                                }, (err) => {
+                                    me.emit('error.connect', err, 1);
+
+                                    failConnection(err);
+                                });
+                            }, (err) => {
+                                me.emit('error.connect', err, 3);
+
+                                failConnection(err);
+                            });
                         }, (err) => {
-                            me.emit('error.connect', err, 1);
+                            me.emit('error.connect', err, 2);
 
                             completed(err);
                         });
@@ -122,11 +501,522 @@ export class DeliveryBoy extends events.EventEmitter implements db_contracts.ICl
         });
     }
 
+    /**
+     * Connects to a peer via a relay, which forwards the (end-to-end encrypted) frames only.
+     * 
+     * @param {db_contracts.IConnection} relay The connection with the relay.
+     * @param {string} fingerprint The fingerprint of the peer.
+     * 
+     * @return {PromiseLike<db_contracts.IConnection>} The connection with the peer.
+     */
+    public connectVia(relay: db_contracts.IConnection, fingerprint: string): PromiseLike<db_contracts.IConnection> {
+        let me = this;
+
+        fingerprint = db_identity.normalizeFingerprint(fingerprint);
+
+        return new Promise<db_contracts.IConnection>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let socket = new db_relay.RelaySocket(relay, db_relay.createSessionId(), true);
+
+                let rejectConnection = (reason: any) => {
+                    let err = reason;
+                    if (!err) {
+                        // rejected by validator
+                        err = new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                             `The connection with peer '${fingerprint}' has not been accepted!`);
+                    }
+
+                    socket.end().then(() => {
+                        me.emit('connect.reject',
+                                reason, socket);
+
+                        completed(err);
+                    }, () => {
+                        me.emit('connect.reject',
+                                reason, socket);
+
+                        completed(err);
+                    });
+                };
+
+                // closes the relayed session
+                let failConnection = (err: any) => {
+                    socket.end().then(() => {
+                        completed(err);
+                    }, () => {
+                        completed(err);
+                    });
+                };
+
+                relay.request<db_messages.IMessage>(<db_messages.IRelayConnectMessage>{
+                    type: 39,
+                    fingerprint: fingerprint,
+                    sessionId: socket.sessionId,
+                }).then((reply) => {
+                    if (1 !== reply.type) {
+                        rejectConnection(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                        `Unexpected reply of type ${reply.type}!`));
+                        return;
+                    }
+
+                    let conn = me.createConnection(db_contracts.ConnectionType.Client, socket);
+
+                    conn.handshake().then(() => {
+                        // the key is pinned by the fingerprint
+                        if (db_identity.normalizeFingerprint(conn.peer.fingerprint) !== fingerprint) {
+                            rejectConnection(new Error(`The key of peer '${fingerprint}' does not match!`));
+                            return;
+                        }
+
+                        me.knownPeers.verifyFingerprint(fingerprint).then((trusted) => {
+                            if (!trusted) {
+                                rejectConnection(new Error(`The key of peer '${fingerprint}' has not been pinned!`));
+                                return;
+                            }
+
+                            validateConnection(me.remoteValidator, socket, db_contracts.ConnectionType.Client, conn.peer).then((connectionAccepted) => {
+                                if (!simpleSocketHelpers.toBooleanSafe(connectionAccepted, true)) {
+                                    rejectConnection(null);
+                                    return;
+                                }
+
+                                me.addConnection(conn);
+                                conn.startReading();
+
+                                me.emit('connect.connected',
+                                        conn);
+
+                                completed(null, conn);
+                            }, (err) => {
+                                me.emit('error.connect', err, 1);
+
+                                failConnection(err);
+                            });
+                        }, (err) => {
+                            me.emit('error.connect', err, 3);
+
+                            failConnection(err);
+                        });
+                    }, (err) => {
+                        me.emit('error.connect', err, 2);
+
+                        failConnection(err);
+                    });
+                }, (err) => {
+                    failConnection(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets the number of open connections.
+     */
+    public get connectionCount(): number {
+        return this._connections.length;
+    }
+
+    /**
+     * Gets or sets the default download limit of a new connection, in bytes per second. 0 or less means 'unlimited'.
+     */
+    public connectionDownloadLimit = 0;
+
+    /**
+     * Gets the list of open connections.
+     */
+    public get connections(): db_contracts.IConnection[] {
+        return this._connections.slice();
+    }
+
+    /**
+     * Gets or sets the default upload limit of a new connection, in bytes per second. 0 or less means 'unlimited'.
+     */
+    public connectionUploadLimit = 0;
+
+    /**
+     * Creates a new connection.
+     * 
+     * @param {db_contracts.ConnectionType} type The type.
+     * @param {db_contracts.ITransportSocket} socket The socket.
+     * 
+     * @return {db_connection.Connection} The new connection.
+     */
+    protected createConnection(type: db_contracts.ConnectionType, socket: db_contracts.ITransportSocket): db_connection.Connection {
+        let conn = new db_connection.Connection(type, this, socket);
+        conn.downloadLimit = this.connectionDownloadLimit;
+        conn.handshakeTimeout = this.handshakeTimeout;
+        conn.heartbeatInterval = this.heartbeatInterval;
+        conn.idleTimeout = this.idleTimeout;
+        conn.uploadLimit = this.connectionUploadLimit;
+
+        return conn;
+    }
+
+    /**
+     * Creates a HTTP gateway, that serves the library of a connected peer.
+     * 
+     * @param {string} fingerprint The fingerprint of the peer.
+     * 
+     * @return {db_gateway.HttpGateway} The new (not started) gateway.
+     */
+    public createGateway(fingerprint: string): db_gateway.HttpGateway {
+        let me = this;
+
+        return new db_gateway.HttpGateway(() => {
+            return me.findConnections(fingerprint)[0];
+        });
+    }
+
+    /**
+     * Creates a download, that requests different pieces of content from all connected peers, that have it.
+     * 
+     * @param {string} hash The content ID (SHA-256, hex).
+     * @param {number} size The size of the content, in bytes.
+     * @param {string} target The path of the target file.
+     * 
+     * @return {db_swarm.SwarmDownload} The new (not started) download.
+     */
+    public createSwarmDownload(hash: string, size: number, target: string): db_swarm.SwarmDownload {
+        let me = this;
+
+        return new db_swarm.SwarmDownload(() => me.connections,
+                                          hash, size, target);
+    }
+
+    /**
+     * Creates a job, that mirrors a share of a peer into a local directory and can be scheduled.
+     * An open connection with the peer is reused, otherwise a new one is established for each run.
+     * 
+     * @param {string} host The host address of the peer.
+     * @param {number} port The port of the peer.
+     * @param {string} share The name of the remote share.
+     * @param {string} target The path of the target directory.
+     * 
+     * @return {db_sync.SyncJob} The new (not started) job.
+     */
+    public createSyncJob(host: string, port: number, share: string, target: string): db_sync.SyncJob {
+        let me = this;
+
+        let fingerprint: string;
+
+        return new db_sync.SyncJob(() => {
+            let conn = fingerprint ? me.findConnections(fingerprint).filter(x => !x.isClosed)[0] : null;
+            if (conn) {
+                return Promise.resolve(conn);
+            }
+
+            return me.connect(host, port).then((conn) => {
+                fingerprint = conn.peer.fingerprint;
+
+                return conn;
+            });
+        }, share, target);
+    }
+
+    /**
+     * Gets or sets the maximum number of bytes, that are served to a peer per day. 0 or less means 'unlimited'.
+     */
+    public get dailyQuota(): number {
+        return this._quota.limit;
+    }
+    public set dailyQuota(value: number) {
+        this._quota.limit = value;
+    }
+
+    /**
+     * Gets the peers, that have been found by the discovery service.
+     */
+    public get discoveredPeers(): db_discovery.IDiscoveredPeer[] {
+        return this._discovery ? this._discovery.peers : [];
+    }
+
+    /**
+     * Gets the (opt-in) discovery service, which announces that instance in the local network
+     * and finds other ones. Call its 'start()' method to enable it.
+     */
+    public get discovery(): db_discovery.Discovery {
+        let me = this;
+
+        if (!me._discovery) {
+            me._discovery = new db_discovery.Discovery(() => {
+                return me.getIdentity().then((identity) => {
+                    return {
+                        fingerprint: identity.fingerprint,
+                        name: me.name,
+                        port: me.port,
+                        protocolVersion: db_connection.PROTOCOL_VERSION,
+                    };
+                });
+            });
+
+            me._discovery.on('peer.found', (peer: db_discovery.IDiscoveredPeer) => {
+                me.emit('peer.found',
+                        peer);
+            });
+            me._discovery.on('peer.lost', (peer: db_discovery.IDiscoveredPeer) => {
+                me.emit('peer.lost',
+                        peer);
+            });
+            me._discovery.on('error.discovery', (err: any) => {
+                me.emit('error.discovery',
+                        err);
+            });
+        }
+
+        return me._discovery;
+    }
+
+    /** @inheritdoc */
+    public get downloadBucket(): db_bandwidth.TokenBucket {
+        return this._downloadBucket;
+    }
+
+    /**
+     * Gets or sets the global download limit, in bytes per second. 0 or less means 'unlimited'.
+     */
+    public get downloadLimit(): number {
+        return this._downloadBucket.rate;
+    }
+    public set downloadLimit(value: number) {
+        this._downloadBucket.rate = value;
+    }
+
+    /**
+     * Fetches content by its ID and writes it to a local file.
+     * 
+     * Nothing is done, if the file already has the content. Otherwise the content is copied from the
+     * own library or downloaded from the first connected peer, that has it, and verified against the ID.
+     * 
+     * @param {string} hash The content ID (SHA-256, hex).
+     * @param {string} target The path of the target file.
+     * 
+     * @return {PromiseLike<db_contracts.IFetchResult>} The promise with the result.
+     */
+    public fetch(hash: string, target: string): PromiseLike<db_contracts.IFetchResult> {
+        return db_content.fetchContent(this.library, this._connections,
+                                       hash, target);
+    }
+
+    /**
+     * Returns the open connections with a peer.
+     * 
+     * @param {string} fingerprint The fingerprint of the peer.
+     * 
+     * @return {db_contracts.IConnection[]} The connections.
+     */
+    public findConnections(fingerprint: string): db_contracts.IConnection[] {
+        fingerprint = db_identity.normalizeFingerprint(fingerprint);
+
+        return this._connections.filter((conn) => {
+            return conn.peer &&
+                   db_identity.normalizeFingerprint(conn.peer.fingerprint) === fingerprint;
+        });
+    }
+
+    /** @inheritdoc */
+    public getHandler(messageType: number): db_contracts.MessageHandler {
+        return this._handlers[messageType];
+    }
+
+    /**
+     * Returns the identity (key pair) of that instance.
+     * The key is loaded from 'identityFile' or created, if it does not exist.
+     * 
+     * @return {PromiseLike<db_identity.Identity>} The promise.
+     */
+    public getIdentity(): PromiseLike<db_identity.Identity> {
+        let me = this;
+
+        if (!me._identity) {
+            me._identity = db_identity.loadIdentity(me.identityFile);
+
+            me._identity.then(null, () => {
+                me._identity = null;  // try again next time
+            });
+        }
+
+        return me._identity;
+    }
+
+    /**
+     * Registers the handler for a message type, that is used by all connections.
+     * 
+     * @param {number} messageType The message type.
+     * @param {db_contracts.MessageHandler} handler The handler. (null) or (undefined) removes the current one.
+     * 
+     * @chainable
+     */
+    public handle(messageType: number, handler: db_contracts.MessageHandler): this {
+        if (handler) {
+            this._handlers[messageType] = handler;
+        }
+        else {
+            delete this._handlers[messageType];
+        }
+
+        return this;
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, the handshake with a remote may take.
+     */
+    public handshakeTimeout = db_connection.DEFAULT_HANDSHAKE_TIMEOUT;
+
+    /**
+     * Gets the cache for the content IDs of the library.
+     */
+    public get hashCache(): db_content.HashCache {
+        let me = this;
+
+        let file = simpleSocketHelpers.toStringSafe(me.hashCacheFile).trim();
+        if (!file) {
+            file = db_content.DEFAULT_HASH_CACHE_FILE;
+        }
+
+        if (!me._hashCache || me._hashCache.file !== file) {
+            me._hashCache = new db_content.HashCache(file);
+        }
+
+        return me._hashCache;
+    }
+
+    /**
+     * Gets or sets the path of the file with the cached content IDs.
+     * If not defined, the file is stored in the '.delivery-boy' folder of the home directory.
+     */
+    public hashCacheFile: string;
+
+    /**
+     * Gets or sets the time, in milliseconds, without messages of a remote after that a ping is sent.
+     */
+    public heartbeatInterval = db_connection.DEFAULT_HEARTBEAT_INTERVAL;
+
+    /**
+     * Gets or sets the path of the file with the private key.
+     * If not defined, the file is stored in the '.delivery-boy' folder of the home directory.
+     */
+    public identityFile: string;
+
+    /**
+     * Gets or sets the time, in milliseconds, without messages of a remote after that a connection is closed.
+     */
+    public idleTimeout = db_connection.DEFAULT_IDLE_TIMEOUT;
+
+    /**
+     * Gets the store of known peers.
+     * 
+     * Outgoing connections are pinned by address. Incoming and relayed peers have no stable address,
+     * so, if 'trustOnFirstUse' is disabled, they are accepted only, if their fingerprint has been pinned.
+     */
+    public get knownPeers(): db_identity.KnownPeers {
+        let me = this;
+
+        let file = simpleSocketHelpers.toStringSafe(me.knownPeersFile).trim();
+        if (!file) {
+            file = db_identity.DEFAULT_KNOWN_PEERS_FILE;
+        }
+
+        if (!me._knownPeers || me._knownPeers.file !== file) {
+            me._knownPeers = new db_identity.KnownPeers(file);
+        }
+
+        return me._knownPeers;
+    }
+
+    /**
+     * Gets or sets the path of the file with the known peers.
+     * If not defined, the file is stored in the '.delivery-boy' folder of the home directory.
+     */
+    public knownPeersFile: string;
+
+    /** @inheritdoc */
+    public get library(): db_library.Library {
+        let me = this;
+
+        if (!me._library) {
+            me._library = new db_library.Library(() => me.shares,
+                                                 () => me.hashCache);
+        }
+
+        return me._library;
+    }
+
+    /**
+     * Gets or sets the maximum number of streams, a remote can open over one connection. 0 or less means 'unlimited'.
+     */
+    public maxOpenStreams = db_streams.DEFAULT_MAX_OPEN_STREAMS;
+
+    /**
+     * Gets or sets the maximum size of a file, in bytes, a remote can write. 0 or less means 'unlimited'.
+     */
+    public maxUploadSize = db_streams.DEFAULT_MAX_UPLOAD_SIZE;
+
+    /**
+     * Gets or sets the name, that is announced by the discovery service.
+     */
+    public name = os.hostname();
+
     /**
      * The port to use.
      */
     public port = DEFAULT_PORT;
 
+    /**
+     * Gets the persistent download queue, which reconnects to the peers and retries failed downloads.
+     * Call its 'start()' method to process it.
+     */
+    public get queue(): db_queue.DownloadQueue {
+        let me = this;
+
+        if (!me._queue) {
+            let file = simpleSocketHelpers.toStringSafe(me.queueFile).trim();
+            if (!file) {
+                file = db_queue.DEFAULT_QUEUE_FILE;
+            }
+
+            me._queue = new db_queue.DownloadQueue(me, file);
+
+            [ 'queue.added', 'queue.cancelled', 'queue.completed', 'queue.failed', 'queue.paused',
+              'queue.progress', 'queue.resumed', 'queue.retry', 'queue.started', 'error.queue' ].forEach((event) => {
+                me._queue.on(event, function() {
+                    me.emit.apply(me, [ event ].concat(Array.prototype.slice.call(arguments)));
+                });
+            });
+        }
+
+        return me._queue;
+    }
+
+    /**
+     * Gets or sets the path of the file of the download queue. It is read when 'queue' is used the first time.
+     * If not defined, the file is stored in the '.delivery-boy' folder of the home directory.
+     */
+    public queueFile: string;
+
+    /** @inheritdoc */
+    public get quota(): db_bandwidth.DailyQuota {
+        return this._quota;
+    }
+
+    /**
+     * Gets the relay, which forwards sessions between connected peers.
+     * Add fingerprints to its 'allow' list to enable it.
+     */
+    public get relay(): db_relay.Relay {
+        let me = this;
+
+        if (!me._relay) {
+            me._relay = new db_relay.Relay(() => me.connections);
+        }
+
+        return me._relay;
+    }
+
     /**
      * Gets or sets the function that validates a new remote connection.
      */
@@ -135,10 +1025,15 @@ export class DeliveryBoy extends events.EventEmitter implements db_contracts.ICl
     /**
      * Gets the underlying / running server instance.
      */
-    public get server(): net.Server {
+    public get server(): db_contracts.ITransportServer {
         return this._server;
     }
 
+    /**
+     * Gets or sets the list of shared directories.
+     */
+    public shares: (db_contracts.IShare | string)[] = [];
+
     /**
      * Starts the client.
      * 
@@ -161,44 +1056,15 @@ export class DeliveryBoy extends events.EventEmitter implements db_contracts.ICl
                     port = DEFAULT_PORT;
                 }
 
-                simpleSocket.listen(port, (err, newConnection) => {
+                let transport = me.transport || new db_transport.TcpTransport();
+
+                transport.listen(port, (err, newConnection) => {
                     try {
                         if (err) {
                             me.emit('error.listen', err, 2);
                         }
                         else {
-                            let emitEvent = (accepted: boolean) => {
-                                accepted = simpleSocketHelpers.toBooleanSafe(accepted, true);
-
-                                try {
-                                    if (accepted) {
-                                        let conn = new db_connection.Connection(db_contracts.ConnectionType.Server,
-                                                                                me, newConnection);
-
-                                        me.emit('listen.accepted',
-                                                conn);
-                                    }
-                                    else {
-                                        // not accepted
-                                        newConnection.end().then(() => {
-                                            me.emit('listen.reject', 
-                                                    null, newConnection);
-                                        }, (e) => {
-                                            me.emit('listen.reject',
-                                                    err, newConnection);
-                                        });
-                                    }
-                                }
-                                catch (e) {
-                                    me.emit('error.listen', e, 3);
-                                }
-                            };
-
-                            validateConnection(me.remoteValidator, newConnection, db_contracts.ConnectionType.Server).then((connectionAccepted) => {
-                                emitEvent(connectionAccepted);
-                            }, (err) => {
-                                me.emit('error.listen', err, 2);
-                            });       
+                            me.acceptConnection(newConnection);
                         }
                     }
                     catch (e) {
@@ -219,32 +1085,88 @@ export class DeliveryBoy extends events.EventEmitter implements db_contracts.ICl
     }
 
     /**
-     * Stops the client.
+     * Stops the client and closes all connections.
+     * 
+     * @param {db_contracts.IStopOptions} [opts] The options.
      * 
      * @return {PromiseLike<boolean>} The promise.
      */
-    public stop(): PromiseLike<boolean> {
+    public stop(opts?: db_contracts.IStopOptions): PromiseLike<boolean> {
         let me = this;
+
+        if (!opts) {
+            opts = {};
+        }
+
+        let reason = simpleSocketHelpers.toStringSafe(opts.reason);
+        if ('' === reason.trim()) {
+            reason = 'Shutdown';
+        }
         
         return new Promise<boolean>((resolve, reject) => {
             let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
 
             try {
                 let oldServer = me._server;
-                if (!oldServer) {
-                    completed(null, false);
-                    return;
+                let connections = me._connections.slice();
+
+                if (me._discovery) {
+                    me._discovery.stop();
+                }
+                // the queue is saved
+                let stopQueue: PromiseLike<any> = me._queue ? me._queue.stop() : Promise.resolve();
+                if (me._watcher) {
+                    me._watcher.stop();
                 }
+                me._isWatchingForSubscribers = false;
 
-                oldServer.close((err: any) => {
-                    if (err) {
+                if (!oldServer && connections.length < 1) {
+                    stopQueue.then(() => {
+                        completed(null, false);
+                    }, (err) => {
                         completed(err);
-                    }
-                    else {
-                        me._server = null;
+                    });
+                    return;
+                }
 
-                        completed(null, true);
+                // stop accepting new connections
+                let closeServer = new Promise<void>((res, rej) => {
+                    if (!oldServer) {
+                        res();
+                        return;
                     }
+
+                    // callback is invoked
+                    // after all connections have been closed
+                    oldServer.close((err: any) => {
+                        if (err) {
+                            rej(err);
+                        }
+                        else {
+                            if (me._server === oldServer) {
+                                me._server = null;
+                            }
+
+                            res();
+                        }
+                    });
+                });
+
+                let waitForTransfers: PromiseLike<any> = Promise.resolve();
+                if (simpleSocketHelpers.toBooleanSafe(opts.drain)) {
+                    waitForTransfers = Promise.all(connections.map(c => c.drain()));
+                }
+
+                waitForTransfers.then(() => {
+                    return Promise.all(connections.map(c => c.close(reason)));
+                }).then(() => {
+                    return closeServer;
+                }).then(() => {
+                    return stopQueue;
+                }).then(() => {
+                    completed(null, true);
+                }, (err) => {
+                    completed(err);
                 });
             }
             catch (e) {
@@ -252,17 +1174,120 @@ export class DeliveryBoy extends events.EventEmitter implements db_contracts.ICl
             }
         });
     }
-}
 
+    /**
+     * Mirrors a share of a peer into a local directory (one-way).
+     * 
+     * @param {db_contracts.IConnection} conn The connection with the peer.
+     * @param {string} share The name of the remote share.
+     * @param {string} target The path of the target directory.
+     * @param {db_sync.ISyncOptions} [opts] The options.
+     * 
+     * @return {PromiseLike<db_sync.ISyncReport>} The promise with the report.
+     */
+    public sync(conn: db_contracts.IConnection, share: string, target: string,
+                opts?: db_sync.ISyncOptions): PromiseLike<db_sync.ISyncReport> {
+        if (!opts) {
+            opts = {};
+        }
+
+        let job = new db_sync.SyncJob(conn, share, target);
+        if (opts.compare) {
+            job.compare = opts.compare;
+        }
+        job.deleteRemoved = !!opts.deleteRemoved;
+        job.dryRun = !!opts.dryRun;
+
+        return job.run();
+    }
+
+    /**
+     * Gets or sets the transport for connections. Default: TCP
+     */
+    public transport: db_contracts.ITransport = new db_transport.TcpTransport();
+
+    /** @inheritdoc */
+    public get uploadBucket(): db_bandwidth.TokenBucket {
+        return this._uploadBucket;
+    }
+
+    /**
+     * Starts the watcher, if a peer has subscribed to the changes of the library,
+     * and stops it, if it has been started for the peers, that have all gone.
+     */
+    protected updateWatcher() {
+        let me = this;
+
+        let hasSubscribers = me._connections.some(x => !x.isClosed && db_watcher.isSubscribed(x));
+        if (hasSubscribers) {
+            me.watcher.start().then((hasBeenStarted) => {
+                if (hasBeenStarted) {
+                    me._isWatchingForSubscribers = true;
+                }
+            }, (err) => {
+                me.emit('error.watcher',
+                        err);
+            });
+        }
+        else if (me._isWatchingForSubscribers) {
+            me._isWatchingForSubscribers = false;
+
+            me.watcher.stop();
+        }
+    }
+
+    /**
+     * Gets or sets the directory where files, that are written by remotes, are stored.
+     * If not defined, remotes are not allowed to write files.
+     */
+    public uploadDir: string;
+
+    /**
+     * Gets or sets the global upload limit, in bytes per second. 0 or less means 'unlimited'.
+     */
+    public get uploadLimit(): number {
+        return this._uploadBucket.rate;
+    }
+    public set uploadLimit(value: number) {
+        this._uploadBucket.rate = value;
+    }
+
+    /**
+     * Gets the watcher of the shared directories, which pushes the changes of the library to subscribed peers.
+     * It is started, when the first peer subscribes, and stopped, when the last one has unsubscribed or disconnected.
+     */
+    public get watcher(): db_watcher.LibraryWatcher {
+        let me = this;
+
+        if (!me._watcher) {
+            me._watcher = new db_watcher.LibraryWatcher(me.library);
+
+            me._watcher.on('library.changed', (changes: db_contracts.ILibraryChanges) => {
+                db_watcher.notifySubscribers(me.connections, me.library.getShares(),
+                                             changes);
+
+                me.emit('library.changed',
+                        changes);
+            });
+            me._watcher.on('error.watcher', (err: any) => {
+                me.emit('error.watcher',
+                        err);
+            });
+        }
+
+        return me._watcher;
+    }
+}
 
 function validateConnection(validator: db_contracts.ConnectionValidator,
-                            socket: simpleSocket.SimpleSocket, type: db_contracts.ConnectionType): PromiseLike<boolean> {
+                            socket: db_contracts.ITransportSocket, type: db_contracts.ConnectionType,
+                            peer: db_contracts.IPeerIdentity): PromiseLike<boolean> {
     return new Promise<boolean>((resolve, reject) => {
         let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
 
         try {
             if (validator) {
-                let validatorResult = validator(socket, db_contracts.ConnectionType.Server);
+                let validatorResult = validator(socket, type, peer);
                 if (simpleSocketHelpers.isNullOrUndefined(validatorResult)) {
                     completed(null, true);
                 }
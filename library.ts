@@ -0,0 +1,632 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+
+import * as crypto from 'crypto';
+import * as db_content from './content';
+import * as db_contracts from './contracts';
+import * as db_metadata from './metadata';
+import * as fileType from 'file-type';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+interface IScanContext {
+    entries: db_contracts.ILibraryEntry[];
+    files: { [id: string]: string };
+    hashCache: db_content.HashCache;
+    previousEntries: { [id: string]: db_contracts.ILibraryEntry };
+}
+
+
+/**
+ * The default MIME type.
+ */
+export const DEFAULT_MIME = 'application/octet-stream';
+/**
+ * The default number of entries of a library page.
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+/**
+ * The number of calculated content IDs, after that the cache is saved.
+ */
+export const HASH_CACHE_SAVE_INTERVAL = 100;
+/**
+ * The maximum number of entries of a library page.
+ */
+export const MAX_PAGE_SIZE = 1000;
+
+
+/**
+ * A library of shared directories.
+ */
+export class Library implements db_contracts.ILibrary {
+    /**
+     * Stores the cached entries.
+     */
+    protected _entries: db_contracts.ILibraryEntry[];
+    /**
+     * Stores the full paths of the entries by ID.
+     */
+    protected _files: { [id: string]: string };
+    /**
+     * Stores the function that provides the cache for the content IDs.
+     */
+    protected _hashCacheProvider: () => db_content.HashCache;
+    /**
+     * Stores the promise of the running calculation of the content IDs.
+     */
+    protected _hashing: PromiseLike<number>;
+    /**
+     * Stores the timestamp of the last scan.
+     */
+    protected _lastScan: number;
+    /**
+     * Stores the function that provides the shares.
+     */
+    protected _shareProvider: () => (db_contracts.IShare | string)[];
+    /**
+     * Stores the shares of the entries by ID.
+     */
+    protected _shares: { [id: string]: db_contracts.IShare };
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {Function} shareProvider The function that provides the shares.
+     * @param {Function} [hashCacheProvider] The function that provides the cache for the content IDs.
+     */
+    constructor(shareProvider: () => (db_contracts.IShare | string)[],
+                hashCacheProvider?: () => db_content.HashCache) {
+        this._hashCacheProvider = hashCacheProvider;
+        this._shareProvider = shareProvider;
+    }
+
+    /**
+     * The time, in milliseconds, the scanned entries are cached.
+     */
+    public cacheTime = 60000;
+
+    /** @inheritdoc */
+    public findByHash(hash: string, filter?: db_contracts.ShareFilter): PromiseLike<db_contracts.ILibraryEntry> {
+        let me = this;
+
+        hash = simpleSocketHelpers.normalizeString(hash);
+
+        return new Promise<db_contracts.ILibraryEntry>((resolve, reject) => {
+            me.getEntries(filter).then((entries) => {
+                let entry = entries.filter(x => x.hash === hash)[0];
+
+                resolve(entry ? entry : null);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /** @inheritdoc */
+    public getEntries(filter?: db_contracts.ShareFilter): PromiseLike<db_contracts.ILibraryEntry[]> {
+        let me = this;
+
+        if (filter) {
+            return new Promise<db_contracts.ILibraryEntry[]>((resolve, reject) => {
+                me.getEntries().then((entries) => {
+                    resolve(entries.filter(x => filter(me._shares[x.id])));
+                }, (err) => {
+                    reject(err);
+                });
+            });
+        }
+
+        let cacheTime = parseInt(simpleSocketHelpers.toStringSafe(me.cacheTime).trim());
+        if (isNaN(cacheTime)) {
+            cacheTime = 0;
+        }
+
+        if (me._entries && (Date.now() - me._lastScan) < cacheTime) {
+            return Promise.resolve(me._entries);
+        }
+
+        return me.refresh();
+    }
+
+    /** @inheritdoc */
+    public getFile(id: string): PromiseLike<string> {
+        let me = this;
+
+        id = simpleSocketHelpers.normalizeString(id);
+
+        return new Promise<string>((resolve, reject) => {
+            me.getEntries().then(() => {
+                let file = me._files[id];
+
+                resolve(file ? file : null);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /** @inheritdoc */
+    public getShare(id: string): PromiseLike<db_contracts.IShare> {
+        let me = this;
+
+        id = simpleSocketHelpers.normalizeString(id);
+
+        return new Promise<db_contracts.IShare>((resolve, reject) => {
+            me.getEntries().then(() => {
+                let share = me._shares[id];
+
+                resolve(share ? share : null);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /** @inheritdoc */
+    public getShares(): db_contracts.IShare[] {
+        return normalizeShares(this._shareProvider());
+    }
+
+    /**
+     * Calculates the missing content IDs of the entries, one file after another.
+     * It is started in background after each scan, so listing the library never waits for it.
+     * 
+     * @return {PromiseLike<number>} The promise with the number of calculated content IDs.
+     */
+    public hashEntries(): PromiseLike<number> {
+        let me = this;
+
+        if (me._hashing) {
+            return me._hashing;  // already running
+        }
+
+        me._hashing = new Promise<number>((resolve) => {
+            let hashCache = (me._hashCacheProvider ? me._hashCacheProvider() : null) || new db_content.HashCache();
+
+            let count = 0;
+            let entries: db_contracts.ILibraryEntry[];
+            let failed: { [id: string]: boolean } = {};
+            let index = 0;
+
+            let finished = () => {
+                me._hashing = null;
+
+                hashCache.save().then(() => {
+                    resolve(count);
+                }, () => {
+                    resolve(count);  // the cache is optional
+                });
+            };
+
+            let hashNext = () => {
+                if (entries !== me._entries) {
+                    // library has been scanned again
+                    entries = me._entries || [];
+                    index = 0;
+                }
+
+                while (index < entries.length && (entries[index].hash || failed[entries[index].id])) {
+                    ++index;
+                }
+
+                if (index >= entries.length) {
+                    finished();
+                    return;
+                }
+
+                let entry = entries[index];
+
+                hashCache.getHash(me._files[entry.id], entry.size, entry.mtime).then((hash) => {
+                    entry.hash = hash;
+
+                    if (0 === (++count % HASH_CACHE_SAVE_INTERVAL)) {
+                        hashCache.save().then(() => {
+                            hashNext();
+                        }, () => {
+                            hashNext();
+                        });
+                    }
+                    else {
+                        hashNext();
+                    }
+                }, () => {
+                    failed[entry.id] = true;  // not readable
+
+                    hashNext();
+                });
+            };
+
+            hashNext();
+        });
+
+        return me._hashing;
+    }
+
+    /** @inheritdoc */
+    public list(offset?: number, limit?: number, filter?: db_contracts.ShareFilter): PromiseLike<db_contracts.ILibraryPage> {
+        let me = this;
+
+        return new Promise<db_contracts.ILibraryPage>((resolve, reject) => {
+            me.getEntries(filter).then((entries) => {
+                resolve(toPage(entries, offset, limit));
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /** @inheritdoc */
+    public refresh(): PromiseLike<db_contracts.ILibraryEntry[]> {
+        let me = this;
+
+        return new Promise<db_contracts.ILibraryEntry[]>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let entryShares: { [id: string]: db_contracts.IShare } = {};
+                let shares = me.getShares();
+
+                let context: IScanContext = {
+                    entries: [],
+                    files: {},
+                    hashCache: (me._hashCacheProvider ? me._hashCacheProvider() : null) || new db_content.HashCache(),
+                    previousEntries: {},
+                };
+
+                // unchanged files are not parsed again
+                (me._entries || []).forEach((x) => {
+                    context.previousEntries[x.id] = x;
+                });
+
+                let entries = context.entries;
+                let files = context.files;
+
+                let scanNextShare = () => {
+                    if (shares.length < 1) {
+                        entries.sort((x, y) => {
+                            return x.path < y.path ? -1 : (x.path > y.path ? 1 : 0);
+                        });
+
+                        me._entries = entries;
+                        me._files = files;
+                        me._lastScan = Date.now();
+                        me._shares = entryShares;
+
+                        let hashInBackground = () => {
+                            completed(null, entries);
+
+                            me.hashEntries();
+                        };
+
+                        context.hashCache.prune(Object.keys(files).map(x => files[x]));
+                        context.hashCache.save().then(() => {
+                            hashInBackground();
+                        }, () => {
+                            hashInBackground();  // the cache is optional
+                        });
+                        return;
+                    }
+
+                    let share = shares.shift();
+                    let firstEntry = entries.length;
+
+                    scanDirectory(share.path, share.name, context).then(() => {
+                        entries.slice(firstEntry).forEach((x) => {
+                            entryShares[x.id] = share;
+                        });
+
+                        scanNextShare();
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+
+                scanNextShare();
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public search(query: db_contracts.ISearchQuery, filter?: db_contracts.ShareFilter): PromiseLike<db_contracts.ILibraryPage> {
+        let me = this;
+
+        if (!query) {
+            query = {};
+        }
+
+        let sortBy = simpleSocketHelpers.normalizeString(query.sortBy);
+        if ([ 'album', 'artist', 'duration', 'mtime', 'path', 'size', 'title', 'year' ].indexOf(sortBy) < 0) {
+            sortBy = 'path';
+        }
+
+        let direction = 'desc' === simpleSocketHelpers.normalizeString(query.sortOrder) ? -1 : 1;
+
+        return new Promise<db_contracts.ILibraryPage>((resolve, reject) => {
+            me.getEntries(filter).then((entries) => {
+                let getValue = (entry: db_contracts.ILibraryEntry): any => {
+                    if ([ 'mtime', 'path', 'size' ].indexOf(sortBy) > -1) {
+                        return (<any>entry)[sortBy];
+                    }
+
+                    return entry.meta ? (<any>entry.meta)[sortBy] : undefined;
+                };
+
+                let results = entries.filter(x => matchesQuery(x, query));
+                results.sort((x, y) => {
+                    let valueX = getValue(x);
+                    let valueY = getValue(y);
+
+                    // entries without value are always at the end
+                    let hasX = !simpleSocketHelpers.isNullOrUndefined(valueX);
+                    let hasY = !simpleSocketHelpers.isNullOrUndefined(valueY);
+                    if (hasX !== hasY) {
+                        return hasX ? -1 : 1;
+                    }
+
+                    return direction * compareValues(valueX, valueY) ||
+                           compareValues(x.path, y.path);
+                });
+
+                resolve(toPage(results, query.offset, query.limit));
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+}
+
+
+function compareValues(x: any, y: any): number {
+    if ('string' === typeof x && 'string' === typeof y) {
+        x = x.toLowerCase();
+        y = y.toLowerCase();
+    }
+
+    return x < y ? -1 : (x > y ? 1 : 0);
+}
+
+function detectMime(file: string): PromiseLike<string> {
+    return new Promise<string>((resolve) => {
+        fs.open(file, 'r', (err, fd) => {
+            if (err) {
+                resolve(DEFAULT_MIME);
+                return;
+            }
+
+            let buff = Buffer.alloc(4100);
+            fs.read(fd, buff, 0, buff.length, 0, (err, bytesRead) => {
+                fs.close(fd, () => {
+                    let mime = DEFAULT_MIME;
+
+                    if (!err) {
+                        try {
+                            let type = fileType(buff.slice(0, bytesRead));
+                            if (type && type.mime) {
+                                mime = type.mime;
+                            }
+                        }
+                        catch (e) {
+                            mime = DEFAULT_MIME;
+                        }
+                    }
+
+                    resolve(mime);
+                });
+            });
+        });
+    });
+}
+
+function normalizeShares(shares: (db_contracts.IShare | string)[]): db_contracts.IShare[] {
+    let result: db_contracts.IShare[] = [];
+    let names: { [name: string]: boolean } = {};
+
+    (shares || []).filter(x => !simpleSocketHelpers.isNullOrUndefined(x)).forEach((x) => {
+        let share: db_contracts.IShare = 'object' === typeof x ? <db_contracts.IShare>x
+                                                                : { path: <string>x };
+
+        let dir = path.resolve(simpleSocketHelpers.toStringSafe(share.path));
+
+        let name = simpleSocketHelpers.toStringSafe(share.name).trim();
+        if (!name) {
+            name = path.basename(dir);
+        }
+
+        // make name unique
+        let uniqueName = name;
+        for (let i = 2; names[uniqueName.toLowerCase()]; i++) {
+            uniqueName = `${name} (${i})`;
+        }
+        names[uniqueName.toLowerCase()] = true;
+
+        let access: db_contracts.ShareAccess = 'browse' === simpleSocketHelpers.normalizeString(share.access) ? 'browse'
+                                                                                                               : 'read';
+
+        let allow = (share.allow || []).map(x => simpleSocketHelpers.normalizeString(x))
+                                       .filter(x => '' !== x);
+
+        let password = simpleSocketHelpers.toStringSafe(share.password);
+
+        result.push({
+            access: access,
+            allow: allow,
+            hidden: !!share.hidden,
+            name: uniqueName,
+            password: '' !== password ? password : undefined,
+            path: dir,
+        });
+    });
+
+    return result;
+}
+
+function matchesQuery(entry: db_contracts.ILibraryEntry, query: db_contracts.ISearchQuery): boolean {
+    let meta = entry.meta || {};
+
+    let texts = [ 'album', 'artist', 'genre', 'title' ].every((x) => {
+        let expected = simpleSocketHelpers.normalizeString((<any>query)[x]);
+
+        return '' === expected ||
+               simpleSocketHelpers.normalizeString((<any>meta)[x]).indexOf(expected) > -1;
+    });
+    if (!texts) {
+        return false;
+    }
+
+    // 'audio/mpeg' or 'audio/*'
+    let mime = simpleSocketHelpers.normalizeString(query.mime);
+    if ('' !== mime) {
+        let entryMime = simpleSocketHelpers.normalizeString(entry.mime);
+
+        if ('/*' === mime.substr(-2) ? 0 !== entryMime.indexOf(mime.substr(0, mime.length - 1))
+                                     : entryMime !== mime) {
+            return false;
+        }
+    }
+
+    let hasMinDuration = !simpleSocketHelpers.isNullOrUndefined(query.minDuration);
+    let hasMaxDuration = !simpleSocketHelpers.isNullOrUndefined(query.maxDuration);
+    if (hasMinDuration || hasMaxDuration) {
+        if (simpleSocketHelpers.isNullOrUndefined(meta.duration)) {
+            return false;  // unknown
+        }
+
+        if ((hasMinDuration && meta.duration < query.minDuration) ||
+            (hasMaxDuration && meta.duration > query.maxDuration)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function scanDirectory(dir: string, relativeDir: string, context: IScanContext): PromiseLike<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.readdir(dir, (err, names) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            // ignore hidden files and directories
+            names = names.filter(x => 0 !== x.indexOf('.'));
+
+            let scanNext = () => {
+                if (names.length < 1) {
+                    resolve();
+                    return;
+                }
+
+                let name = names.shift();
+                let file = path.join(dir, name);
+                let relativePath = relativeDir + '/' + name;
+
+                // symbolic links are not followed,
+                // so nothing outside of the share is published and there are no cycles
+                fs.lstat(file, (err, stats) => {
+                    if (err) {
+                        scanNext();  // ignore
+                        return;
+                    }
+
+                    if (stats.isDirectory()) {
+                        scanDirectory(file, relativePath, context).then(() => {
+                            scanNext();
+                        }, () => {
+                            scanNext();  // ignore
+                        });
+                    }
+                    else if (stats.isFile()) {
+                        let id = crypto.createHash('sha1')
+                                       .update(relativePath, 'utf8')
+                                       .digest('hex');
+
+                        let addEntry = (mime: string, meta: db_contracts.IMediaMetadata, hash: string) => {
+                            let entry: db_contracts.ILibraryEntry = {
+                                id: id,
+                                mime: mime,
+                                mtime: stats.mtime.getTime(),
+                                path: relativePath,
+                                size: stats.size,
+                            };
+                            if (hash) {
+                                entry.hash = hash;
+                            }
+                            if (meta) {
+                                entry.meta = meta;
+                            }
+
+                            context.entries.push(entry);
+                            context.files[id] = file;
+
+                            scanNext();
+                        };
+
+                        let previousEntry = context.previousEntries[id];
+                        if (previousEntry &&
+                            previousEntry.mtime === stats.mtime.getTime() && previousEntry.size === stats.size) {
+                            addEntry(previousEntry.mime, previousEntry.meta, previousEntry.hash);
+                        }
+                        else {
+                            detectMime(file).then((mime) => {
+                                db_metadata.readMetadata(file, mime).then((meta) => {
+                                    // only cached content IDs, the others are calculated in background
+                                    context.hashCache.findHash(file, stats.size, stats.mtime.getTime()).then((hash) => {
+                                        addEntry(mime, meta, hash);
+                                    }, () => {
+                                        addEntry(mime, meta, null);
+                                    });
+                                });
+                            });
+                        }
+                    }
+                    else {
+                        scanNext();
+                    }
+                });
+            };
+
+            scanNext();
+        });
+    });
+}
+
+function toPage(entries: db_contracts.ILibraryEntry[], offset: number, limit: number): db_contracts.ILibraryPage {
+    offset = parseInt(simpleSocketHelpers.toStringSafe(offset).trim());
+    if (isNaN(offset) || offset < 0) {
+        offset = 0;
+    }
+
+    limit = parseInt(simpleSocketHelpers.toStringSafe(limit).trim());
+    if (isNaN(limit) || limit < 1) {
+        limit = DEFAULT_PAGE_SIZE;
+    }
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+
+    return {
+        entries: entries.slice(offset, offset + limit),
+        offset: offset,
+        total: entries.length,
+    };
+}
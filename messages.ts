@@ -16,9 +16,25 @@
 // You should have received a copy of the GNU General Public License
 // along with this program.  If not, see <http://www.gnu.org/licenses/>.
 
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
 
 export interface IMessage {
     type: number;
+    /**
+     * The ID of the channel (0 or not defined: the default channel).
+     */
+    channel?: number;
+    /**
+     * The ID of the message.
+     */
+    id?: string;
+    /**
+     * The ID of the message this message is the reply of.
+     */
+    replyTo?: string;
 }
 
 export interface IOKMessage extends IMessage {
@@ -27,4 +43,897 @@ export interface IOKMessage extends IMessage {
 
 export interface IHelloMessage extends IMessage {
     type: 2;
+    /**
+     * The capabilities of the sender.
+     */
+    capabilities: string[];
+    /**
+     * A random value (hex) that has to be signed by the remote.
+     */
+    nonce: string;
+    /**
+     * The (highest) protocol version the sender supports.
+     */
+    protocolVersion: number;
+    /**
+     * The public key (PEM) of the sender.
+     */
+    publicKey: string;
+    /**
+     * The signature of the handshake data (client only).
+     */
+    signature?: string;
+    /**
+     * The software version of the sender.
+     */
+    version: string;
+}
+
+
+/**
+ * Offers a file to the remote (type 3).
+ */
+export interface IFileOfferMessage extends IMessage {
+    type: 3;
+    /**
+     * The size of a chunk, in bytes.
+     */
+    chunkSize: number;
+    /**
+     * The SHA-256 hash of the whole file (hex).
+     */
+    hash: string;
+    /**
+     * The name of the file.
+     */
+    name: string;
+    /**
+     * The size of the file, in bytes.
+     */
+    size: number;
+}
+
+/**
+ * Accepts a file offer (type 4).
+ */
+export interface IFileAcceptMessage extends IMessage {
+    type: 4;
+}
+
+/**
+ * Declines a file offer (type 5).
+ */
+export interface IFileDeclineMessage extends IMessage {
+    type: 5;
+    /**
+     * The reason.
+     */
+    reason?: string;
+}
+
+/**
+ * A chunk of a file (type 6).
+ */
+export interface IFileChunkMessage extends IMessage {
+    type: 6;
+    /**
+     * The data as Base64 string.
+     */
+    data: string;
+    /**
+     * The SHA-256 hash of the chunk (hex).
+     */
+    hash: string;
+    /**
+     * The zero based index of the chunk.
+     */
+    index: number;
+}
+
+/**
+ * Tells the remote that all chunks of a file have been sent (type 7).
+ */
+export interface IFileCompleteMessage extends IMessage {
+    type: 7;
+}
+
+/**
+ * Aborts a file transfer (type 8).
+ */
+export interface IFileAbortMessage extends IMessage {
+    type: 8;
+    /**
+     * The reason.
+     */
+    reason?: string;
+}
+
+/**
+ * Requests a chunk of a file again, because it was corrupted (type 9).
+ */
+export interface IFileChunkRetryMessage extends IMessage {
+    type: 9;
+    /**
+     * The zero based index of the chunk.
+     */
+    index: number;
+}
+
+/**
+ * Accepts a file offer and requests the chunks that are
+ * missing in a partial transfer (type 10).
+ */
+export interface IFileResumeMessage extends IMessage {
+    type: 10;
+    /**
+     * The bitmap (Base64) of the chunks that have already been received.
+     */
+    chunks: string;
+    /**
+     * The number of bytes that have been received in one piece from the beginning.
+     */
+    offset: number;
+}
+
+/**
+ * Requests a page of the library of the remote (type 11).
+ */
+export interface IListLibraryMessage extends IMessage {
+    type: 11;
+    /**
+     * The maximum number of entries to return.
+     */
+    limit?: number;
+    /**
+     * The zero based index of the first entry.
+     */
+    offset?: number;
+}
+
+/**
+ * A page of a library (type 12).
+ */
+export interface ILibraryMessage extends IMessage {
+    type: 12;
+    /**
+     * The entries.
+     */
+    entries: db_contracts.ILibraryEntry[];
+    /**
+     * The zero based index of the first entry.
+     */
+    offset: number;
+    /**
+     * The total number of entries in the library.
+     */
+    total: number;
+}
+
+/**
+ * Proves that the server owns its key during handshake (type 13).
+ */
+export interface IHandshakeProofMessage extends IMessage {
+    type: 13;
+    /**
+     * The signature of the handshake data.
+     */
+    signature: string;
+}
+
+/**
+ * Tells the remote during handshake that it is incompatible (type 14).
+ */
+export interface IIncompatibleMessage extends IMessage {
+    type: 14;
+    /**
+     * The minimum protocol version the sender requires.
+     */
+    minProtocolVersion: number;
+    /**
+     * The (highest) protocol version the sender supports.
+     */
+    protocolVersion: number;
+    /**
+     * The reason.
+     */
+    reason: string;
+}
+
+/**
+ * Tells the remote that a message could not be handled (type 15).
+ */
+export interface IErrorMessage extends IMessage {
+    type: 15;
+    /**
+     * The error code.
+     */
+    code: db_contracts.ErrorCode;
+    /**
+     * The error message.
+     */
+    message: string;
+}
+
+/**
+ * Checks if the remote is still alive (type 16).
+ */
+export interface IPingMessage extends IMessage {
+    type: 16;
+}
+
+/**
+ * The reply of a ping (type 17).
+ */
+export interface IPongMessage extends IMessage {
+    type: 17;
+}
+
+/**
+ * Tells the remote that the connection is closed (type 18).
+ */
+export interface IGoodbyeMessage extends IMessage {
+    type: 18;
+    /**
+     * The reason.
+     */
+    reason?: string;
+}
+
+/**
+ * Opens a stream that reads an entry of the library (type 19).
+ */
+export interface IOpenReadStreamMessage extends IMessage {
+    type: 19;
+    /**
+     * The zero based position of the last byte to read (inclusive).
+     */
+    end?: number;
+    /**
+     * The ID of the library entry.
+     */
+    entryId: string;
+    /**
+     * The zero based position of the first byte to read.
+     */
+    start?: number;
+}
+
+/**
+ * Opens a stream that writes a file to the upload directory (type 20).
+ */
+export interface IOpenWriteStreamMessage extends IMessage {
+    type: 20;
+    /**
+     * The name of the file.
+     */
+    name: string;
+}
+
+/**
+ * The reply of an opened stream (type 21).
+ */
+export interface IStreamOpenedMessage extends IMessage {
+    type: 21;
+    /**
+     * The last modification time of the file, in milliseconds since 1970-01-01 (read streams only).
+     */
+    mtime?: number;
+    /**
+     * The number of bytes that can be read (read streams only).
+     */
+    size?: number;
+    /**
+     * The ID of the stream.
+     */
+    streamId: string;
+    /**
+     * The size of the whole file, in bytes (read streams only).
+     */
+    total?: number;
+}
+
+/**
+ * Requests the next data of a read stream (type 22).
+ */
+export interface IStreamReadMessage extends IMessage {
+    type: 22;
+    /**
+     * The maximum number of bytes to read.
+     */
+    length: number;
+    /**
+     * The ID of the stream.
+     */
+    streamId: string;
+}
+
+/**
+ * Data of a read stream (type 23).
+ */
+export interface IStreamDataMessage extends IMessage {
+    type: 23;
+    /**
+     * The data as Base64 string.
+     */
+    data: string;
+    /**
+     * The end of the stream has been reached (and the stream has been closed) or not.
+     */
+    eof: boolean;
+}
+
+/**
+ * Writes data to a write stream (type 24).
+ */
+export interface IStreamWriteMessage extends IMessage {
+    type: 24;
+    /**
+     * The data as Base64 string.
+     */
+    data: string;
+    /**
+     * The ID of the stream.
+     */
+    streamId: string;
+}
+
+/**
+ * Closes a stream (type 25).
+ */
+export interface IStreamCloseMessage extends IMessage {
+    type: 25;
+    /**
+     * Keep the file of a write stream or not.
+     */
+    commit?: boolean;
+    /**
+     * The ID of the stream.
+     */
+    streamId: string;
+}
+
+/**
+ * Reads a range of bytes of an entry of the library (type 26).
+ */
+export interface IReadRangeMessage extends IMessage {
+    type: 26;
+    /**
+     * The ID of the library entry.
+     */
+    entryId: string;
+    /**
+     * The maximum number of bytes to read.
+     */
+    length: number;
+    /**
+     * The zero based position of the first byte.
+     */
+    offset: number;
+}
+
+/**
+ * A range of bytes of an entry of the library (type 27).
+ */
+export interface IRangeDataMessage extends IMessage {
+    type: 27;
+    /**
+     * The data as Base64 string.
+     */
+    data: string;
+    /**
+     * The zero based position of the first byte.
+     */
+    offset: number;
+    /**
+     * The size of the whole entry, in bytes.
+     */
+    size: number;
+}
+
+/**
+ * Closes a channel (type 28).
+ */
+export interface IChannelCloseMessage extends IMessage {
+    type: 28;
+    /**
+     * The ID of the channel to close.
+     */
+    channelId: number;
+    /**
+     * The optional reason.
+     */
+    reason?: string;
+}
+
+/**
+ * Allows the remote to send more data over a channel (type 29).
+ */
+export interface IChannelWindowMessage extends IMessage {
+    type: 29;
+    /**
+     * The ID of the channel.
+     */
+    channelId: number;
+    /**
+     * The number of additional bytes the remote is allowed to send.
+     */
+    credit: number;
+}
+
+/**
+ * Requests a challenge for unlocking a share (type 30).
+ */
+export interface IGetShareChallengeMessage extends IMessage {
+    type: 30;
+    /**
+     * The name of the share.
+     */
+    share: string;
+}
+
+/**
+ * A challenge for unlocking a share (type 31).
+ */
+export interface IShareChallengeMessage extends IMessage {
+    type: 31;
+    /**
+     * A random value (hex), that has to be signed with the password.
+     */
+    nonce: string;
+}
+
+/**
+ * Unlocks a share (type 32).
+ */
+export interface IUnlockShareMessage extends IMessage {
+    type: 32;
+    /**
+     * The HMAC (hex) of the challenge, created with the password.
+     */
+    response: string;
+    /**
+     * The name of the share.
+     */
+    share: string;
+}
+
+/**
+ * Requests the list of shares (type 33).
+ */
+export interface IListSharesMessage extends IMessage {
+    type: 33;
+}
+
+/**
+ * The list of shares (type 34).
+ */
+export interface ISharesMessage extends IMessage {
+    type: 34;
+    /**
+     * The shares.
+     */
+    shares: db_contracts.IShareInfo[];
+}
+
+/**
+ * Searches the library (type 35).
+ * The reply is a page of the library (type 12).
+ */
+export interface ISearchLibraryMessage extends IMessage, db_contracts.ISearchQuery {
+    type: 35;
+}
+
+/**
+ * Asks which content the remote has (type 36).
+ */
+export interface IHaveMessage extends IMessage {
+    type: 36;
+    /**
+     * The content IDs (SHA-256, hex).
+     */
+    hashes: string[];
+}
+
+/**
+ * The content a remote has (type 37).
+ */
+export interface IAvailableContentMessage extends IMessage {
+    type: 37;
+    /**
+     * The content IDs (SHA-256, hex).
+     */
+    hashes: string[];
+}
+
+/**
+ * Opens a stream that reads content by its ID (type 38).
+ * The reply is a stream opened message (type 21).
+ */
+export interface IFetchMessage extends IMessage {
+    type: 38;
+    /**
+     * The zero based position of the last byte to read (inclusive).
+     */
+    end?: number;
+    /**
+     * The content ID (SHA-256, hex).
+     */
+    hash: string;
+    /**
+     * The zero based position of the first byte to read.
+     */
+    start?: number;
+}
+
+/**
+ * Asks a relay to connect to a peer (type 39).
+ * The reply is an OK message (type 1).
+ */
+export interface IRelayConnectMessage extends IMessage {
+    type: 39;
+    /**
+     * The fingerprint of the peer.
+     */
+    fingerprint: string;
+    /**
+     * The ID of the session, chosen by the sender.
+     */
+    sessionId: string;
+}
+
+/**
+ * Tells a peer, that a relay has opened a session for it (type 40).
+ * The reply is an OK message (type 1).
+ */
+export interface IRelayIncomingMessage extends IMessage {
+    type: 40;
+    /**
+     * The ID of the session, chosen by the relay.
+     */
+    sessionId: string;
+}
+
+/**
+ * An (encrypted) frame of a relayed session (type 41).
+ */
+export interface IRelayDataMessage extends IMessage {
+    type: 41;
+    /**
+     * The data (Base64).
+     */
+    data: string;
+    /**
+     * The ID of the session.
+     */
+    sessionId: string;
+}
+
+/**
+ * Closes a relayed session (type 42).
+ */
+export interface IRelayCloseMessage extends IMessage {
+    type: 42;
+    /**
+     * The reason.
+     */
+    reason?: string;
+    /**
+     * The ID of the session.
+     */
+    sessionId: string;
+}
+
+/**
+ * Subscribes to the changes of the library (type 43).
+ * The reply is an OK message (type 1).
+ */
+export interface ISubscribeLibraryMessage extends IMessage {
+    type: 43;
+    /**
+     * Subscribe (true) or unsubscribe (false). Default: (true)
+     */
+    enabled?: boolean;
+}
+
+/**
+ * Changes of the library, which are sent to subscribers (type 44).
+ */
+export interface ILibraryChangedMessage extends IMessage, db_contracts.ILibraryChanges {
+    type: 44;
+}
+
+/**
+ * All messages of the protocol.
+ */
+export type Message = IOKMessage | IHelloMessage |
+                      IFileOfferMessage | IFileAcceptMessage | IFileDeclineMessage | IFileChunkMessage |
+                      IFileCompleteMessage | IFileAbortMessage | IFileChunkRetryMessage | IFileResumeMessage |
+                      IListLibraryMessage | ILibraryMessage |
+                      IHandshakeProofMessage | IIncompatibleMessage | IErrorMessage |
+                      IPingMessage | IPongMessage | IGoodbyeMessage |
+                      IOpenReadStreamMessage | IOpenWriteStreamMessage | IStreamOpenedMessage |
+                      IStreamReadMessage | IStreamDataMessage | IStreamWriteMessage | IStreamCloseMessage |
+                      IReadRangeMessage | IRangeDataMessage |
+                      IChannelCloseMessage | IChannelWindowMessage |
+                      IGetShareChallengeMessage | IShareChallengeMessage | IUnlockShareMessage |
+                      IListSharesMessage | ISharesMessage | ISearchLibraryMessage |
+                      IHaveMessage | IAvailableContentMessage | IFetchMessage |
+                      IRelayConnectMessage | IRelayIncomingMessage | IRelayDataMessage | IRelayCloseMessage |
+                      ISubscribeLibraryMessage | ILibraryChangedMessage;
+
+/**
+ * Checks the properties of a message.
+ * 
+ * @param {any} msg The message to check.
+ * 
+ * @return {string} The description of the first problem or (null) if valid.
+ */
+export type MessageValidator = (msg: any) => string;
+
+
+const VALIDATORS: { [type: number]: MessageValidator } = {
+    1: () => null,
+    2: (msg: IHelloMessage) => checkStringArray(msg, 'capabilities') ||
+                               checkString(msg, 'nonce') ||
+                               checkInteger(msg, 'protocolVersion') ||
+                               checkString(msg, 'publicKey') ||
+                               checkString(msg, 'signature', true) ||
+                               checkString(msg, 'version'),
+    3: (msg: IFileOfferMessage) => checkInteger(msg, 'chunkSize', 1) ||
+                                   checkString(msg, 'hash') ||
+                                   checkString(msg, 'name') ||
+                                   checkInteger(msg, 'size', 0),
+    4: () => null,
+    5: (msg: IFileDeclineMessage) => checkString(msg, 'reason', true),
+    6: (msg: IFileChunkMessage) => checkString(msg, 'data') ||
+                                   checkString(msg, 'hash') ||
+                                   checkInteger(msg, 'index', 0),
+    7: () => null,
+    8: (msg: IFileAbortMessage) => checkString(msg, 'reason', true),
+    9: (msg: IFileChunkRetryMessage) => checkInteger(msg, 'index', 0),
+    10: (msg: IFileResumeMessage) => checkString(msg, 'chunks') ||
+                                     checkInteger(msg, 'offset', 0),
+    11: (msg: IListLibraryMessage) => checkInteger(msg, 'limit', 0, true) ||
+                                      checkInteger(msg, 'offset', 0, true),
+    12: (msg: ILibraryMessage) => checkArray(msg, 'entries', checkLibraryEntry) ||
+                                  checkInteger(msg, 'offset', 0) ||
+                                  checkInteger(msg, 'total', 0),
+    13: (msg: IHandshakeProofMessage) => checkString(msg, 'signature'),
+    14: (msg: IIncompatibleMessage) => checkInteger(msg, 'minProtocolVersion') ||
+                                       checkInteger(msg, 'protocolVersion') ||
+                                       checkString(msg, 'reason'),
+    15: (msg: IErrorMessage) => checkInteger(msg, 'code', 1) ||
+                                checkString(msg, 'message'),
+    16: () => null,
+    17: () => null,
+    18: (msg: IGoodbyeMessage) => checkString(msg, 'reason', true),
+    19: (msg: IOpenReadStreamMessage) => checkInteger(msg, 'end', 0, true) ||
+                                         checkString(msg, 'entryId') ||
+                                         checkInteger(msg, 'start', 0, true),
+    20: (msg: IOpenWriteStreamMessage) => checkString(msg, 'name'),
+    21: (msg: IStreamOpenedMessage) => checkNumber(msg, 'mtime', true) ||
+                                       checkInteger(msg, 'size', 0, true) ||
+                                       checkString(msg, 'streamId') ||
+                                       checkInteger(msg, 'total', 0, true),
+    22: (msg: IStreamReadMessage) => checkInteger(msg, 'length', 1) ||
+                                     checkString(msg, 'streamId'),
+    23: (msg: IStreamDataMessage) => checkString(msg, 'data') ||
+                                     checkBoolean(msg, 'eof'),
+    24: (msg: IStreamWriteMessage) => checkString(msg, 'data') ||
+                                      checkString(msg, 'streamId'),
+    25: (msg: IStreamCloseMessage) => checkBoolean(msg, 'commit', true) ||
+                                      checkString(msg, 'streamId'),
+    26: (msg: IReadRangeMessage) => checkString(msg, 'entryId') ||
+                                    checkInteger(msg, 'length', 1) ||
+                                    checkInteger(msg, 'offset', 0),
+    27: (msg: IRangeDataMessage) => checkString(msg, 'data') ||
+                                    checkInteger(msg, 'offset', 0) ||
+                                    checkInteger(msg, 'size', 0),
+    28: (msg: IChannelCloseMessage) => checkInteger(msg, 'channelId', 1) ||
+                                       checkString(msg, 'reason', true),
+    29: (msg: IChannelWindowMessage) => checkInteger(msg, 'channelId', 1) ||
+                                        checkInteger(msg, 'credit', 1),
+    30: (msg: IGetShareChallengeMessage) => checkString(msg, 'share'),
+    31: (msg: IShareChallengeMessage) => checkString(msg, 'nonce'),
+    32: (msg: IUnlockShareMessage) => checkString(msg, 'response') ||
+                                      checkString(msg, 'share'),
+    33: () => null,
+    34: (msg: ISharesMessage) => checkArray(msg, 'shares', checkShareInfo),
+    35: (msg: ISearchLibraryMessage) => checkString(msg, 'album', true) ||
+                                        checkString(msg, 'artist', true) ||
+                                        checkString(msg, 'genre', true) ||
+                                        checkInteger(msg, 'limit', 0, true) ||
+                                        checkNumber(msg, 'maxDuration', true) ||
+                                        checkString(msg, 'mime', true) ||
+                                        checkNumber(msg, 'minDuration', true) ||
+                                        checkInteger(msg, 'offset', 0, true) ||
+                                        checkString(msg, 'sortBy', true) ||
+                                        checkString(msg, 'sortOrder', true) ||
+                                        checkString(msg, 'title', true),
+    36: (msg: IHaveMessage) => checkStringArray(msg, 'hashes'),
+    37: (msg: IAvailableContentMessage) => checkStringArray(msg, 'hashes'),
+    38: (msg: IFetchMessage) => checkInteger(msg, 'end', 0, true) ||
+                                checkString(msg, 'hash') ||
+                                checkInteger(msg, 'start', 0, true),
+    39: (msg: IRelayConnectMessage) => checkString(msg, 'fingerprint') ||
+                                       checkString(msg, 'sessionId'),
+    40: (msg: IRelayIncomingMessage) => checkString(msg, 'sessionId'),
+    41: (msg: IRelayDataMessage) => checkString(msg, 'data') ||
+                                    checkString(msg, 'sessionId'),
+    42: (msg: IRelayCloseMessage) => checkString(msg, 'reason', true) ||
+                                     checkString(msg, 'sessionId'),
+    43: (msg: ISubscribeLibraryMessage) => checkBoolean(msg, 'enabled', true),
+    44: (msg: ILibraryChangedMessage) => checkArray(msg, 'added', checkLibraryEntry) ||
+                                         checkArray(msg, 'changed', checkLibraryEntry) ||
+                                         checkArray(msg, 'removed', checkLibraryEntry),
+};
+
+
+/**
+ * Checks if a message type is known.
+ * 
+ * @param {number} type The type to check.
+ * 
+ * @return {boolean} Is known type or not.
+ */
+export function isKnownType(type: number): boolean {
+    return isInteger(type) &&
+           VALIDATORS.hasOwnProperty(type);
+}
+
+/**
+ * Validates a message of a remote.
+ * 
+ * @param {any} msg The message to validate.
+ * 
+ * @return {db_errors.DeliveryBoyError} The error or (null) if valid.
+ */
+export function validateMessage(msg: any): db_errors.DeliveryBoyError {
+    let problem = checkObject(msg) ||
+                  checkInteger(msg, 'type', 1) ||
+                  checkInteger(msg, 'channel', 0, true) ||
+                  checkString(msg, 'id', true) ||
+                  checkString(msg, 'replyTo', true);
+
+    if (!problem && !isKnownType(msg.type)) {
+        return new db_errors.DeliveryBoyError(db_contracts.ErrorCode.UnsupportedType,
+                                              `Unsupported message type ${msg.type}!`);
+    }
+
+    if (!problem) {
+        problem = VALIDATORS[msg.type](msg);
+    }
+
+    if (problem) {
+        return new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                              `Invalid message: ${problem}`);
+    }
+
+    return null;
+}
+
+
+function checkArray(obj: any, property: string, checkItem: (item: any) => string): string {
+    let value = obj[property];
+    if (!Array.isArray(value)) {
+        return `'${property}' must be an array!`;
+    }
+
+    for (let i = 0; i < value.length; i++) {
+        let problem = checkItem(value[i]);
+        if (problem) {
+            return `'${property}[${i}]': ${problem}`;
+        }
+    }
+
+    return null;
+}
+
+function checkBoolean(obj: any, property: string, optional = false): string {
+    let value = obj[property];
+    if (optional && simpleSocketHelpers.isNullOrUndefined(value)) {
+        return null;
+    }
+
+    if ('boolean' !== typeof value) {
+        return `'${property}' must be a boolean!`;
+    }
+
+    return null;
+}
+
+function checkInteger(obj: any, property: string, min?: number, optional = false): string {
+    let value = obj[property];
+    if (optional && simpleSocketHelpers.isNullOrUndefined(value)) {
+        return null;
+    }
+
+    if (!isInteger(value) || (!simpleSocketHelpers.isNullOrUndefined(min) && value < min)) {
+        return simpleSocketHelpers.isNullOrUndefined(min) ? `'${property}' must be an integer!`
+                                                          : `'${property}' must be an integer >= ${min}!`;
+    }
+
+    return null;
+}
+
+function checkLibraryEntry(entry: db_contracts.ILibraryEntry): string {
+    return checkObject(entry) ||
+           checkString(entry, 'hash', true) ||
+           checkString(entry, 'id') ||
+           checkMediaMetadata(entry.meta) ||
+           checkString(entry, 'mime') ||
+           checkNumber(entry, 'mtime') ||
+           checkString(entry, 'path') ||
+           checkInteger(entry, 'size', 0);
+}
+
+function checkMediaMetadata(meta: db_contracts.IMediaMetadata): string {
+    if (simpleSocketHelpers.isNullOrUndefined(meta)) {
+        return null;
+    }
+
+    let problem = checkObject(meta) ||
+                  checkString(meta, 'album', true) ||
+                  checkString(meta, 'artist', true) ||
+                  checkNumber(meta, 'duration', true) ||
+                  checkString(meta, 'genre', true) ||
+                  checkInteger(meta, 'height', 0, true) ||
+                  checkString(meta, 'title', true) ||
+                  checkInteger(meta, 'track', 0, true) ||
+                  checkInteger(meta, 'width', 0, true) ||
+                  checkInteger(meta, 'year', 0, true);
+
+    return problem ? `'meta': ${problem}` : null;
+}
+
+function checkNumber(obj: any, property: string, optional = false): string {
+    let value = obj[property];
+    if (optional && simpleSocketHelpers.isNullOrUndefined(value)) {
+        return null;
+    }
+
+    if ('number' !== typeof value || !isFinite(value)) {
+        return `'${property}' must be a number!`;
+    }
+
+    return null;
+}
+
+function checkObject(obj: any): string {
+    if (!obj || 'object' !== typeof obj || Array.isArray(obj)) {
+        return 'must be an object!';
+    }
+
+    return null;
+}
+
+function checkShareInfo(info: db_contracts.IShareInfo): string {
+    return checkObject(info) ||
+           checkString(info, 'access') ||
+           checkBoolean(info, 'isLocked') ||
+           checkString(info, 'name');
+}
+
+function checkString(obj: any, property: string, optional = false): string {
+    let value = obj[property];
+    if (optional && simpleSocketHelpers.isNullOrUndefined(value)) {
+        return null;
+    }
+
+    if ('string' !== typeof value) {
+        return `'${property}' must be a string!`;
+    }
+
+    return null;
+}
+
+function checkStringArray(obj: any, property: string): string {
+    return checkArray(obj, property, (item) => {
+        return 'string' !== typeof item ? 'must be a string!' : null;
+    });
+}
+
+function isInteger(val: any): boolean {
+    return 'number' === typeof val &&
+           isFinite(val) && 0 === val % 1;
 }
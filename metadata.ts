@@ -0,0 +1,960 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as fs from 'fs';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * Reads the metadata of an opened file.
+ * 
+ * @param {number} fd The file descriptor.
+ * @param {number} size The size of the file.
+ * 
+ * @return {PromiseLike<db_contracts.IMediaMetadata>} The promise with the metadata.
+ */
+export type MetadataParser = (fd: number, size: number) => PromiseLike<db_contracts.IMediaMetadata>;
+
+interface IAtom {
+    end: number;
+    start: number;
+    type: string;
+}
+
+interface IOggStream {
+    granule: number;
+    packets: Buffer[];
+    serial: number;
+}
+
+
+/**
+ * The genres of ID3v1, by index.
+ */
+export const ID3_GENRES = [
+    'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+    'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+    'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+    'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+    'AlternRock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+    'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+    'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes',
+    'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+/**
+ * The maximum number of bytes of a 'moov' atom, that are read.
+ */
+export const MAX_MOOV_SIZE = 33554432;
+/**
+ * The number of bytes at the beginning and at the end of an Ogg file, that are read.
+ */
+export const OGG_READ_SIZE = 131072;
+
+const ID3V2_FRAMES: { [id: string]: string } = {
+    'TAL': 'album',
+    'TALB': 'album',
+    'TCO': 'genre',
+    'TCON': 'genre',
+    'TDRC': 'year',
+    'TIT2': 'title',
+    'TLE': 'duration',
+    'TLEN': 'duration',
+    'TP1': 'artist',
+    'TPE1': 'artist',
+    'TRCK': 'track',
+    'TRK': 'track',
+    'TT2': 'title',
+    'TYE': 'year',
+    'TYER': 'year',
+};
+
+const MP4_ITEMS: { [type: string]: string } = {
+    '©ART': 'artist',
+    '©alb': 'album',
+    '©day': 'year',
+    '©gen': 'genre',
+    '©nam': 'title',
+    'gnre': 'genre',
+    'trkn': 'track',
+};
+
+const PARSERS: { [mime: string]: MetadataParser } = {
+    'audio/m4a': parseMP4,
+    'audio/mpeg': parseMP3,
+    'audio/ogg': parseOgg,
+    'audio/opus': parseOgg,
+    'audio/x-flac': parseFLAC,
+    'image/bmp': parseImage,
+    'image/gif': parseImage,
+    'image/jpeg': parseJPEG,
+    'image/png': parseImage,
+    'image/webp': parseImage,
+    'video/mp4': parseMP4,
+    'video/quicktime': parseMP4,
+    'video/x-m4v': parseMP4,
+};
+
+const VORBIS_FIELDS: { [name: string]: string } = {
+    'ALBUM': 'album',
+    'ARTIST': 'artist',
+    'DATE': 'year',
+    'GENRE': 'genre',
+    'TITLE': 'title',
+    'TRACKNUMBER': 'track',
+};
+
+
+/**
+ * Checks if metadata can be read from files of a MIME type.
+ * 
+ * @param {string} mime The MIME type.
+ * 
+ * @return {boolean} Is supported or not.
+ */
+export function isSupported(mime: string): boolean {
+    return !!PARSERS[simpleSocketHelpers.normalizeString(mime)];
+}
+
+/**
+ * Reads the metadata of a media file.
+ * 
+ * @param {string} file The path of the file.
+ * @param {string} mime The MIME type, that decides, which parser is used.
+ * 
+ * @return {PromiseLike<db_contracts.IMediaMetadata>} The promise with the metadata or (null) if there is none.
+ */
+export function readMetadata(file: string, mime: string): PromiseLike<db_contracts.IMediaMetadata> {
+    let parser = PARSERS[simpleSocketHelpers.normalizeString(mime)];
+
+    return new Promise<db_contracts.IMediaMetadata>((resolve) => {
+        if (!parser) {
+            resolve(null);
+            return;
+        }
+
+        fs.open(file, 'r', (err, fd) => {
+            if (err) {
+                resolve(null);
+                return;
+            }
+
+            let closeAndResolve = (meta: db_contracts.IMediaMetadata) => {
+                fs.close(fd, () => {
+                    resolve(normalizeMetadata(meta));
+                });
+            };
+
+            fs.fstat(fd, (err, stats) => {
+                if (err) {
+                    closeAndResolve(null);
+                    return;
+                }
+
+                try {
+                    parser(fd, stats.size).then((meta) => {
+                        closeAndResolve(meta);
+                    }, () => {
+                        closeAndResolve(null);  // broken files have no metadata
+                    });
+                }
+                catch (e) {
+                    closeAndResolve(null);
+                }
+            });
+        });
+    });
+}
+
+
+function decodeID3Text(data: Buffer): string {
+    if (data.length < 1) {
+        return '';
+    }
+
+    let encoding = data[0];
+    let text = data.slice(1);
+
+    let str: string;
+    switch (encoding) {
+        case 1:
+            // UTF-16 with BOM
+            if (text.length > 1 && 0xFE === text[0] && 0xFF === text[1]) {
+                str = swapBytes(text.slice(2)).toString('utf16le');
+            }
+            else {
+                str = text.slice(text.length > 1 && 0xFF === text[0] && 0xFE === text[1] ? 2 : 0).toString('utf16le');
+            }
+            break;
+
+        case 2:
+            // UTF-16BE
+            str = swapBytes(text).toString('utf16le');
+            break;
+
+        case 3:
+            str = text.toString('utf8');
+            break;
+
+        default:
+            str = text.toString('binary');  // ISO-8859-1
+            break;
+    }
+
+    // multiple values are separated by NULL
+    return str.split('\u0000')[0];
+}
+
+function findAtoms(buff: Buffer, start: number, end: number): IAtom[] {
+    let atoms: IAtom[] = [];
+
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = buff.readUInt32BE(offset);
+        let headerSize = 8;
+
+        if (1 === size) {
+            if (offset + 16 > end) {
+                break;
+            }
+
+            size = buff.readUInt32BE(offset + 8) * 0x100000000 + buff.readUInt32BE(offset + 12);
+            headerSize = 16;
+        }
+        else if (0 === size) {
+            size = end - offset;  // up to the end
+        }
+
+        if (size < headerSize || offset + size > end) {
+            break;
+        }
+
+        atoms.push({
+            end: offset + size,
+            start: offset + headerSize,
+            type: buff.toString('binary', offset + 4, offset + 8),
+        });
+
+        offset += size;
+    }
+
+    return atoms;
+}
+
+function findChildAtom(buff: Buffer, parent: IAtom, type: string): IAtom {
+    return findAtoms(buff, parent.start, parent.end).filter(x => x.type === type)[0];
+}
+
+function normalizeMetadata(meta: db_contracts.IMediaMetadata): db_contracts.IMediaMetadata {
+    if (!meta) {
+        return null;
+    }
+
+    let result: db_contracts.IMediaMetadata = {};
+    let hasValues = false;
+
+    [ 'album', 'artist', 'genre', 'title' ].forEach((x) => {
+        let value = simpleSocketHelpers.toStringSafe((<any>meta)[x]).trim();
+        if ('' !== value) {
+            (<any>result)[x] = value;
+            hasValues = true;
+        }
+    });
+
+    [ 'duration', 'height', 'track', 'width', 'year' ].forEach((x) => {
+        let value = parseFloat(simpleSocketHelpers.toStringSafe((<any>meta)[x]).trim());
+        if (isFinite(value) && value > 0) {
+            (<any>result)[x] = 'duration' === x ? Math.round(value * 1000) / 1000 : Math.floor(value);
+            hasValues = true;
+        }
+    });
+
+    if (result.genre) {
+        // ID3 genres like '(17)' or '17'
+        let match = /^\(?(\d+)\)?$/.exec(result.genre);
+        if (match) {
+            let genre = ID3_GENRES[parseInt(match[1])];
+            if (genre) {
+                result.genre = genre;
+            }
+            else {
+                delete result.genre;
+            }
+        }
+    }
+
+    return hasValues ? result : null;
+}
+
+function parseFLAC(fd: number, size: number): PromiseLike<db_contracts.IMediaMetadata> {
+    let meta: db_contracts.IMediaMetadata = {};
+
+    // FLAC files can begin with an ID3v2 tag
+    return readID3v2Size(fd).then((tagSize) => {
+        return readBytes(fd, tagSize, 4).then((marker) => {
+            if ('fLaC' !== marker.toString('binary')) {
+                return meta;
+            }
+
+            let readNextBlock = (offset: number): PromiseLike<db_contracts.IMediaMetadata> => {
+                return readBytes(fd, offset, 4).then((header) => {
+                    if (header.length < 4) {
+                        return meta;
+                    }
+
+                    let isLast = (header[0] & 0x80) > 0;
+                    let type = header[0] & 0x7F;
+                    let length = header.readUIntBE(1, 3);
+
+                    let next = () => {
+                        return isLast ? meta : readNextBlock(offset + 4 + length);
+                    };
+
+                    if (0 !== type && 4 !== type) {
+                        return next();  // pictures, etc.
+                    }
+
+                    return readBytes(fd, offset + 4, length).then((block) => {
+                        if (0 === type && block.length >= 18) {
+                            // STREAMINFO
+                            let sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4);
+                            let samples = (block[13] & 0x0F) * 0x100000000 + block.readUInt32BE(14);
+
+                            if (sampleRate > 0) {
+                                meta.duration = samples / sampleRate;
+                            }
+                        }
+                        else if (4 === type) {
+                            readVorbisComment(block, 0, meta);
+                        }
+
+                        return next();
+                    });
+                });
+            };
+
+            return readNextBlock(tagSize + 4);
+        });
+    });
+}
+
+function parseID3v1(fd: number, size: number, meta: db_contracts.IMediaMetadata): PromiseLike<boolean> {
+    if (size < 128) {
+        return Promise.resolve(false);
+    }
+
+    return readBytes(fd, size - 128, 128).then((tag) => {
+        if ('TAG' !== tag.toString('binary', 0, 3)) {
+            return false;
+        }
+
+        let readText = (start: number, length: number) => {
+            return tag.toString('binary', start, start + length).split('\u0000')[0].trim();
+        };
+
+        // ID3v2 has priority
+        meta.title = meta.title || readText(3, 30);
+        meta.artist = meta.artist || readText(33, 30);
+        meta.album = meta.album || readText(63, 30);
+        meta.year = meta.year || parseInt(readText(93, 4));
+        if (0 === tag[125] && tag[126] > 0) {
+            meta.track = meta.track || tag[126];  // ID3v1.1
+        }
+        if (!meta.genre && ID3_GENRES[tag[127]]) {
+            meta.genre = ID3_GENRES[tag[127]];
+        }
+
+        return true;
+    });
+}
+
+function parseID3v2(fd: number, meta: db_contracts.IMediaMetadata): PromiseLike<number> {
+    return readBytes(fd, 0, 10).then((header) => {
+        let tagSize = toID3v2Size(header);
+        if (tagSize < 1) {
+            return 0;
+        }
+
+        let version = header[3];
+        let idLength = version < 3 ? 3 : 4;
+        let headerLength = version < 3 ? 6 : 10;
+        let end = tagSize;
+
+        let start = 10;
+        let readFrames = (offset: number): PromiseLike<number> => {
+            if (offset + headerLength > end) {
+                return Promise.resolve(tagSize);
+            }
+
+            return readBytes(fd, offset, headerLength).then((frameHeader) => {
+                if (frameHeader.length < headerLength || 0 === frameHeader[0]) {
+                    return tagSize;  // padding
+                }
+
+                let id = frameHeader.toString('binary', 0, idLength);
+
+                let frameSize: number;
+                if (version < 3) {
+                    frameSize = frameHeader.readUIntBE(3, 3);
+                }
+                else if (3 === version) {
+                    frameSize = frameHeader.readUInt32BE(4);
+                }
+                else {
+                    frameSize = toSyncSafeInteger(frameHeader, 4);
+                }
+
+                if (frameSize > end - offset - headerLength) {
+                    return tagSize;  // broken frame, that exceeds the tag
+                }
+
+                let next = () => {
+                    return readFrames(offset + headerLength + frameSize);
+                };
+
+                let field = ID3V2_FRAMES[id];
+                if (!field || frameSize < 1) {
+                    return next();
+                }
+
+                return readBytes(fd, offset + headerLength, frameSize).then((data) => {
+                    let value = decodeID3Text(data).trim();
+
+                    switch (field) {
+                        case 'duration':
+                            meta.duration = parseInt(value) / 1000;  // milliseconds
+                            break;
+
+                        case 'track':
+                            meta.track = parseInt(value);  // like '3/12'
+                            break;
+
+                        case 'year':
+                            meta.year = parseInt(value.substr(0, 4));
+                            break;
+
+                        default:
+                            (<any>meta)[field] = value;
+                            break;
+                    }
+
+                    return next();
+                });
+            });
+        };
+
+        // skip extended header
+        if (version > 2 && (header[5] & 0x40)) {
+            return readBytes(fd, 10, 4).then((extHeader) => {
+                if (extHeader.length > 3) {
+                    start += 3 === version ? (4 + extHeader.readUInt32BE(0)) : toSyncSafeInteger(extHeader, 0);
+                }
+
+                return readFrames(start);
+            });
+        }
+
+        // unsynchronized frames are not supported
+        return readFrames(start);
+    });
+}
+
+function parseImage(fd: number, size: number): PromiseLike<db_contracts.IMediaMetadata> {
+    return readBytes(fd, 0, 32).then((header) => {
+        let meta: db_contracts.IMediaMetadata = {};
+
+        if (header.length >= 24 && 0x89 === header[0] && 'PNG' === header.toString('binary', 1, 4)) {
+            meta.width = header.readUInt32BE(16);
+            meta.height = header.readUInt32BE(20);
+        }
+        else if (header.length >= 10 && 'GIF8' === header.toString('binary', 0, 4)) {
+            meta.width = header.readUInt16LE(6);
+            meta.height = header.readUInt16LE(8);
+        }
+        else if (header.length >= 26 && 'BM' === header.toString('binary', 0, 2)) {
+            if (12 === header.readUInt32LE(14)) {
+                meta.width = header.readUInt16LE(18);
+                meta.height = header.readUInt16LE(20);
+            }
+            else {
+                meta.width = Math.abs(header.readInt32LE(18));
+                meta.height = Math.abs(header.readInt32LE(22));  // negative means 'top-down'
+            }
+        }
+        else if (header.length >= 30 && 'RIFF' === header.toString('binary', 0, 4) && 'WEBP' === header.toString('binary', 8, 12)) {
+            let chunk = header.toString('binary', 12, 16);
+
+            if ('VP8 ' === chunk) {
+                meta.width = header.readUInt16LE(26) & 0x3FFF;
+                meta.height = header.readUInt16LE(28) & 0x3FFF;
+            }
+            else if ('VP8L' === chunk) {
+                meta.width = 1 + (((header[22] & 0x3F) << 8) | header[21]);
+                meta.height = 1 + (((header[24] & 0x0F) << 10) | (header[23] << 2) | ((header[22] & 0xC0) >> 6));
+            }
+            else if ('VP8X' === chunk) {
+                meta.width = 1 + header.readUIntLE(24, 3);
+                meta.height = 1 + header.readUIntLE(27, 3);
+            }
+        }
+
+        return meta;
+    });
+}
+
+function parseJPEG(fd: number, size: number): PromiseLike<db_contracts.IMediaMetadata> {
+    let readNextSegment = (offset: number): PromiseLike<db_contracts.IMediaMetadata> => {
+        return readBytes(fd, offset, 9).then((segment) => {
+            if (segment.length < 9 || 0xFF !== segment[0]) {
+                return {};
+            }
+
+            let marker = segment[1];
+            if (0xFF === marker) {
+                return readNextSegment(offset + 1);  // fill byte
+            }
+
+            // SOF markers (except DHT, JPG and DAC)
+            if (marker >= 0xC0 && marker <= 0xCF && 0xC4 !== marker && 0xC8 !== marker && 0xCC !== marker) {
+                return {
+                    height: segment.readUInt16BE(5),
+                    width: segment.readUInt16BE(7),
+                };
+            }
+
+            if (0xD9 === marker || 0xDA === marker) {
+                return {};  // end of image / start of scan
+            }
+
+            return readNextSegment(offset + 2 + segment.readUInt16BE(2));
+        });
+    };
+
+    return readNextSegment(2);
+}
+
+function parseMP3(fd: number, size: number): PromiseLike<db_contracts.IMediaMetadata> {
+    let meta: db_contracts.IMediaMetadata = {};
+
+    return parseID3v2(fd, meta).then((tagSize) => {
+        return parseID3v1(fd, size, meta).then((hasID3v1) => {
+            if (meta.duration > 0) {
+                return meta;
+            }
+
+            let audioSize = size - tagSize - (hasID3v1 ? 128 : 0);
+
+            return readBytes(fd, tagSize, 4096).then((data) => {
+                meta.duration = readMPEGDuration(data, audioSize);
+
+                return meta;
+            });
+        });
+    });
+}
+
+function parseMP4(fd: number, size: number): PromiseLike<db_contracts.IMediaMetadata> {
+    let findMoov = (offset: number): PromiseLike<IAtom> => {
+        return readBytes(fd, offset, 16).then((header) => {
+            if (header.length < 8) {
+                return null;
+            }
+
+            let atomSize = header.readUInt32BE(0);
+            let headerSize = 8;
+            if (1 === atomSize) {
+                if (header.length < 16) {
+                    return null;
+                }
+
+                atomSize = header.readUInt32BE(8) * 0x100000000 + header.readUInt32BE(12);
+                headerSize = 16;
+            }
+            else if (0 === atomSize) {
+                atomSize = size - offset;  // up to the end
+            }
+
+            if (atomSize < headerSize) {
+                return null;
+            }
+
+            if ('moov' === header.toString('binary', 4, 8)) {
+                return {
+                    end: offset + atomSize,
+                    start: offset + headerSize,
+                    type: 'moov',
+                };
+            }
+
+            return findMoov(offset + atomSize);
+        });
+    };
+
+    return findMoov(0).then((moov) => {
+        let meta: db_contracts.IMediaMetadata = {};
+        if (!moov || (moov.end - moov.start) > MAX_MOOV_SIZE) {
+            return meta;
+        }
+
+        return readBytes(fd, moov.start, moov.end - moov.start).then((buff) => {
+            let root: IAtom = {
+                end: buff.length,
+                start: 0,
+                type: 'moov',
+            };
+
+            let mvhd = findChildAtom(buff, root, 'mvhd');
+            if (mvhd && (mvhd.end - mvhd.start) >= 20) {
+                let timeScale: number;
+                let duration: number;
+
+                if (1 === buff[mvhd.start]) {
+                    timeScale = buff.readUInt32BE(mvhd.start + 20);
+                    duration = buff.readUInt32BE(mvhd.start + 24) * 0x100000000 + buff.readUInt32BE(mvhd.start + 28);
+                }
+                else {
+                    timeScale = buff.readUInt32BE(mvhd.start + 12);
+                    duration = buff.readUInt32BE(mvhd.start + 16);
+                }
+
+                if (timeScale > 0) {
+                    meta.duration = duration / timeScale;
+                }
+            }
+
+            // dimensions of the first video track
+            findAtoms(buff, root.start, root.end).filter(x => 'trak' === x.type).forEach((trak) => {
+                let tkhd = findChildAtom(buff, trak, 'tkhd');
+                if (meta.width || !tkhd) {
+                    return;
+                }
+
+                let offset = tkhd.start + (1 === buff[tkhd.start] ? 88 : 76);
+                if (offset + 8 <= tkhd.end) {
+                    meta.width = buff.readUInt32BE(offset) / 65536;  // fixed point 16.16
+                    meta.height = buff.readUInt32BE(offset + 4) / 65536;
+                }
+            });
+
+            let udta = findChildAtom(buff, root, 'udta');
+            let metaAtom = udta ? findChildAtom(buff, udta, 'meta') : null;
+            if (metaAtom) {
+                // 'meta' is a full box in MP4, but not in QuickTime
+                if ('hdlr' !== buff.toString('binary', metaAtom.start + 4, metaAtom.start + 8)) {
+                    metaAtom = {
+                        end: metaAtom.end,
+                        start: metaAtom.start + 4,
+                        type: metaAtom.type,
+                    };
+                }
+
+                let ilst = findChildAtom(buff, metaAtom, 'ilst');
+                if (ilst) {
+                    findAtoms(buff, ilst.start, ilst.end).forEach((item) => {
+                        let field = MP4_ITEMS[item.type];
+                        let data = field ? findChildAtom(buff, item, 'data') : null;
+                        if (!data || (data.end - data.start) < 8) {
+                            return;
+                        }
+
+                        let value = buff.slice(data.start + 8, data.end);  // after type and locale
+                        switch (item.type) {
+                            case 'gnre':
+                                if (value.length >= 2) {
+                                    meta.genre = ID3_GENRES[value.readUInt16BE(0) - 1];
+                                }
+                                break;
+
+                            case 'trkn':
+                                if (value.length >= 4) {
+                                    meta.track = value.readUInt16BE(2);
+                                }
+                                break;
+
+                            case '©day':
+                                meta.year = parseInt(value.toString('utf8').substr(0, 4));
+                                break;
+
+                            default:
+                                (<any>meta)[field] = value.toString('utf8');
+                                break;
+                        }
+                    });
+                }
+            }
+
+            return meta;
+        });
+    });
+}
+
+function parseOgg(fd: number, size: number): PromiseLike<db_contracts.IMediaMetadata> {
+    let meta: db_contracts.IMediaMetadata = {};
+
+    return readBytes(fd, 0, OGG_READ_SIZE).then((head) => {
+        let stream = readOggPages(head, null);
+        if (!stream || stream.packets.length < 2) {
+            return meta;
+        }
+
+        let idHeader = stream.packets[0];
+        let commentHeader = stream.packets[1];
+
+        let sampleRate = 0;
+        let preSkip = 0;
+        if (idHeader.length >= 16 && '\u0001vorbis' === idHeader.toString('binary', 0, 7)) {
+            sampleRate = idHeader.readUInt32LE(12);
+
+            if ('\u0003vorbis' === commentHeader.toString('binary', 0, 7)) {
+                readVorbisComment(commentHeader, 7, meta);
+            }
+        }
+        else if (idHeader.length >= 12 && 'OpusHead' === idHeader.toString('binary', 0, 8)) {
+            sampleRate = 48000;  // always for the granule positions of Opus
+            preSkip = idHeader.readUInt16LE(10);
+
+            if ('OpusTags' === commentHeader.toString('binary', 0, 8)) {
+                readVorbisComment(commentHeader, 8, meta);
+            }
+        }
+
+        if (sampleRate < 1) {
+            return meta;
+        }
+
+        // the granule position of the last page is the number of samples
+        let tailStart = Math.max(0, size - OGG_READ_SIZE);
+        return readBytes(fd, tailStart, size - tailStart).then((tail) => {
+            let offset = tail.lastIndexOf('OggS');
+            while (offset > -1) {
+                let lastStream = readOggPages(tail.slice(offset), stream.serial);
+                if (lastStream && lastStream.granule > 0) {
+                    meta.duration = Math.max(0, lastStream.granule - preSkip) / sampleRate;
+                    break;
+                }
+
+                offset = offset > 0 ? tail.lastIndexOf('OggS', offset - 1) : -1;
+            }
+
+            return meta;
+        });
+    });
+}
+
+function readBytes(fd: number, position: number, length: number): PromiseLike<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        if (length < 1) {
+            resolve(Buffer.alloc(0));
+            return;
+        }
+
+        let buff = Buffer.alloc(length);
+        fs.read(fd, buff, 0, length, position, (err, bytesRead) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(buff.slice(0, bytesRead));
+            }
+        });
+    });
+}
+
+function readID3v2Size(fd: number): PromiseLike<number> {
+    return readBytes(fd, 0, 10).then((header) => {
+        return toID3v2Size(header);
+    });
+}
+
+function readMPEGDuration(data: Buffer, audioSize: number): number {
+    // MPEG audio layer III
+    for (let i = 0; i + 4 <= data.length; i++) {
+        if (0xFF !== data[i] || 0xE0 !== (data[i + 1] & 0xE0)) {
+            continue;
+        }
+
+        let version = (data[i + 1] >> 3) & 0x03;  // 0 = 2.5, 2 = 2, 3 = 1
+        let layer = (data[i + 1] >> 1) & 0x03;
+        let bitrateIndex = data[i + 2] >> 4;
+        let sampleRateIndex = (data[i + 2] >> 2) & 0x03;
+        let channelMode = data[i + 3] >> 6;
+
+        if (1 === version || 1 !== layer || 0 === bitrateIndex || 15 === bitrateIndex || 3 === sampleRateIndex) {
+            continue;  // invalid or no layer III
+        }
+
+        let isMPEG1 = 3 === version;
+
+        let bitrate = (isMPEG1 ? [ 0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320 ]
+                               : [ 0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160 ])[bitrateIndex] * 1000;
+        let sampleRate = [ 44100, 48000, 32000 ][sampleRateIndex] / (isMPEG1 ? 1 : (2 === version ? 2 : 4));
+        let samplesPerFrame = isMPEG1 ? 1152 : 576;
+
+        // VBR files have a 'Xing' or 'Info' header with the number of frames
+        let xingOffset = i + 4 + (isMPEG1 ? (3 === channelMode ? 17 : 32) : (3 === channelMode ? 9 : 17));
+        if (xingOffset + 12 <= data.length) {
+            let xing = data.toString('binary', xingOffset, xingOffset + 4);
+            if (('Xing' === xing || 'Info' === xing) && (data.readUInt32BE(xingOffset + 4) & 0x01)) {
+                return data.readUInt32BE(xingOffset + 8) * samplesPerFrame / sampleRate;
+            }
+        }
+
+        // assume a constant bitrate
+        return (audioSize - i) * 8 / bitrate;
+    }
+
+    return null;
+}
+
+function readOggPages(buff: Buffer, serial: number): IOggStream {
+    let stream: IOggStream = null;
+    let packet: Buffer[] = [];
+
+    let offset = 0;
+    while (offset + 27 <= buff.length && 'OggS' === buff.toString('binary', offset, offset + 4) && 0 === buff[offset + 4]) {
+        let pageSerial = buff.readUInt32LE(offset + 14);
+        let segmentCount = buff[offset + 26];
+        let dataStart = offset + 27 + segmentCount;
+        if (dataStart > buff.length) {
+            break;
+        }
+
+        if (null === serial) {
+            serial = pageSerial;  // first logical stream
+        }
+
+        let segments = buff.slice(offset + 27, dataStart);
+        let dataLength = 0;
+        for (let i = 0; i < segments.length; i++) {
+            dataLength += segments[i];
+        }
+
+        if (pageSerial === serial) {
+            if (!stream) {
+                stream = {
+                    granule: 0,
+                    packets: [],
+                    serial: serial,
+                };
+            }
+
+            // -1 means 'no packet ends on that page'
+            let granuleLow = buff.readUInt32LE(offset + 6);
+            let granuleHigh = buff.readUInt32LE(offset + 10);
+            if (0xFFFFFFFF !== granuleLow || 0xFFFFFFFF !== granuleHigh) {
+                stream.granule = granuleHigh * 0x100000000 + granuleLow;
+            }
+
+            // segments of 255 bytes continue a packet
+            let segmentStart = dataStart;
+            for (let i = 0; i < segments.length; i++) {
+                let segmentEnd = Math.min(buff.length, segmentStart + segments[i]);
+
+                packet.push(buff.slice(segmentStart, segmentEnd));
+                if (segments[i] < 255) {
+                    stream.packets.push(Buffer.concat(packet));
+                    packet = [];
+                }
+
+                segmentStart = segmentEnd;
+            }
+        }
+
+        offset = dataStart + dataLength;
+    }
+
+    return stream;
+}
+
+function readVorbisComment(buff: Buffer, offset: number, meta: db_contracts.IMediaMetadata) {
+    if (offset + 8 > buff.length) {
+        return;
+    }
+
+    let vendorLength = buff.readUInt32LE(offset);
+    offset += 4 + vendorLength;
+    if (offset + 4 > buff.length) {
+        return;
+    }
+
+    let count = buff.readUInt32LE(offset);
+    offset += 4;
+
+    for (let i = 0; i < count && offset + 4 <= buff.length; i++) {
+        let length = buff.readUInt32LE(offset);
+        offset += 4;
+
+        let comment = buff.toString('utf8', offset, Math.min(buff.length, offset + length));
+        offset += length;
+
+        let separator = comment.indexOf('=');
+        if (separator < 0) {
+            continue;
+        }
+
+        let field = VORBIS_FIELDS[comment.substr(0, separator).toUpperCase()];
+        if (!field || (<any>meta)[field]) {
+            continue;  // first value wins
+        }
+
+        let value = comment.substr(separator + 1);
+        switch (field) {
+            case 'track':
+                meta.track = parseInt(value);
+                break;
+
+            case 'year':
+                meta.year = parseInt(value.substr(0, 4));
+                break;
+
+            default:
+                (<any>meta)[field] = value;
+                break;
+        }
+    }
+}
+
+function swapBytes(buff: Buffer): Buffer {
+    let result = Buffer.alloc(buff.length - buff.length % 2);
+    for (let i = 0; i + 1 < buff.length; i += 2) {
+        result[i] = buff[i + 1];
+        result[i + 1] = buff[i];
+    }
+
+    return result;
+}
+
+function toID3v2Size(header: Buffer): number {
+    if (header.length < 10 || 'ID3' !== header.toString('binary', 0, 3)) {
+        return 0;
+    }
+
+    let size = 10 + toSyncSafeInteger(header, 6);
+    if (header[5] & 0x10) {
+        size += 10;  // footer
+    }
+
+    return size;
+}
+
+function toSyncSafeInteger(buff: Buffer, offset: number): number {
+    return ((buff[offset] & 0x7F) << 21) |
+           ((buff[offset + 1] & 0x7F) << 14) |
+           ((buff[offset + 2] & 0x7F) << 7) |
+           (buff[offset + 3] & 0x7F);
+}
@@ -0,0 +1,983 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as crypto from 'crypto';
+import * as db_bandwidth from './bandwidth';
+import * as db_content from './content';
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_identity from './identity';
+import * as db_transfer from './transfer';
+import * as events from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * The status of a queued download.
+ */
+export type QueueItemStatus = 'active' | 'cancelled' | 'completed' | 'failed' | 'paused' | 'queued';
+
+/**
+ * The client, that is used by a download queue to connect to peers.
+ */
+export interface IQueueClient {
+    /**
+     * Connects to a peer.
+     * 
+     * @param {string} host The host address.
+     * @param {number} [port] The port.
+     * 
+     * @return {PromiseLike<db_contracts.IConnection>} The promise with the connection.
+     */
+    connect(host: string, port?: number): PromiseLike<db_contracts.IConnection>;
+    /**
+     * Returns the open connections with a peer.
+     * 
+     * @param {string} fingerprint The fingerprint of the peer.
+     * 
+     * @return {db_contracts.IConnection[]} The connections.
+     */
+    findConnections(fingerprint: string): db_contracts.IConnection[];
+}
+
+/**
+ * A queued download.
+ */
+export interface IQueueItem {
+    /**
+     * The number of started attempts.
+     */
+    attempts: number;
+    /**
+     * The timestamp, in milliseconds since 1970-01-01, when the item has been added.
+     */
+    created: number;
+    /**
+     * The full path of the target file.
+     */
+    destination: string;
+    /**
+     * The ID of the library entry of the peer.
+     */
+    entryId?: string;
+    /**
+     * The message of the last error.
+     */
+    error?: string;
+    /**
+     * The fingerprint of the peer. If not defined, it is pinned on first connect.
+     */
+    fingerprint?: string;
+    /**
+     * The content ID (SHA-256, hex), which is verified after download.
+     */
+    hash?: string;
+    /**
+     * The host address of the peer.
+     */
+    host: string;
+    /**
+     * The ID of the item.
+     */
+    id: string;
+    /**
+     * The last modification time of the remote file, in milliseconds since 1970-01-01, when the download has been started.
+     */
+    mtime?: number;
+    /**
+     * The timestamp, in milliseconds since 1970-01-01, of the next attempt.
+     */
+    nextAttempt: number;
+    /**
+     * The port of the peer.
+     */
+    port: number;
+    /**
+     * The priority. Higher values are downloaded first.
+     */
+    priority: number;
+    /**
+     * The size of the remote file, in bytes, when the download has been started.
+     */
+    size?: number;
+    /**
+     * The status.
+     */
+    status: QueueItemStatus;
+}
+
+/**
+ * A request for a download queue.
+ */
+export interface IQueueRequest {
+    /**
+     * The path of the target file.
+     */
+    destination: string;
+    /**
+     * The ID of the library entry of the peer. Required, if 'hash' is not defined.
+     */
+    entryId?: string;
+    /**
+     * The expected fingerprint of the peer.
+     */
+    fingerprint?: string;
+    /**
+     * The content ID (SHA-256, hex). Required, if 'entryId' is not defined.
+     */
+    hash?: string;
+    /**
+     * The host address of the peer.
+     */
+    host: string;
+    /**
+     * The port of the peer.
+     */
+    port?: number;
+    /**
+     * The priority. Higher values are downloaded first. Default: 0
+     */
+    priority?: number;
+}
+
+
+/**
+ * The default number of downloads, that run at the same time.
+ */
+export const DEFAULT_MAX_ACTIVE_DOWNLOADS = 2;
+/**
+ * The default number of attempts, before a download fails.
+ */
+export const DEFAULT_MAX_ATTEMPTS = 5;
+/**
+ * The default maximum time, in milliseconds, between two attempts.
+ */
+export const DEFAULT_MAX_RETRY_DELAY = 300000;
+/**
+ * The default path of the file of the download queue.
+ */
+export const DEFAULT_QUEUE_FILE = path.join(db_identity.DEFAULT_DATA_DIR, 'queue.json');
+/**
+ * The default time, in milliseconds, before the first retry. It is doubled for each further one.
+ */
+export const DEFAULT_RETRY_DELAY = 1000;
+
+
+/**
+ * A persistent queue of downloads, which are retried with exponential backoff.
+ */
+export class DownloadQueue extends events.EventEmitter {
+    /**
+     * Stores the functions that abort the running downloads by item ID.
+     */
+    protected _active: { [id: string]: () => void } = {};
+    /**
+     * Stores the client.
+     */
+    protected _client: IQueueClient;
+    /**
+     * Stores the path of the file.
+     */
+    protected _file: string;
+    /**
+     * Stores if the queue is running or not.
+     */
+    protected _isRunning = false;
+    /**
+     * Stores the items.
+     */
+    protected _items: IQueueItem[];
+    /**
+     * Stores the promise of the last save operation.
+     */
+    protected _saving: PromiseLike<void> = Promise.resolve();
+    /**
+     * Stores the timer for the next retry.
+     */
+    protected _timer: NodeJS.Timer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {IQueueClient} client The client, that connects to the peers.
+     * @param {string} file The path of the file.
+     */
+    constructor(client: IQueueClient, file: string) {
+        super();
+
+        this._client = client;
+        this._file = file;
+    }
+
+    /**
+     * Adds a download.
+     * 
+     * @param {IQueueRequest} request The request.
+     * 
+     * @return {PromiseLike<IQueueItem>} The promise with the new item.
+     */
+    public add(request: IQueueRequest): PromiseLike<IQueueItem> {
+        let me = this;
+
+        return new Promise<IQueueItem>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let invalid = (problem: string) => {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                             problem));
+                };
+
+                if (!request) {
+                    invalid('No request defined!');
+                    return;
+                }
+
+                let destination = simpleSocketHelpers.toStringSafe(request.destination).trim();
+                let entryId = simpleSocketHelpers.toStringSafe(request.entryId).trim();
+                let hash = simpleSocketHelpers.normalizeString(request.hash);
+                let host = simpleSocketHelpers.toStringSafe(request.host).trim();
+
+                let port = parseInt(simpleSocketHelpers.toStringSafe(request.port).trim());
+                let priority = parseInt(simpleSocketHelpers.toStringSafe(request.priority).trim());
+
+                if (!destination) {
+                    invalid('No destination defined!');
+                    return;
+                }
+                if (!entryId && !hash) {
+                    invalid('Neither an entry ID nor a content ID defined!');
+                    return;
+                }
+                if (hash && !db_content.isContentId(hash)) {
+                    invalid(`Invalid content ID '${hash}'!`);
+                    return;
+                }
+                if (!host) {
+                    invalid('No host defined!');
+                    return;
+                }
+
+                me.load().then((items) => {
+                    let item: IQueueItem = {
+                        attempts: 0,
+                        created: Date.now(),
+                        destination: path.resolve(destination),
+                        entryId: entryId || undefined,
+                        fingerprint: simpleSocketHelpers.normalizeString(request.fingerprint) || undefined,
+                        hash: hash || undefined,
+                        host: host,
+                        id: crypto.randomBytes(8).toString('hex'),
+                        nextAttempt: 0,
+                        port: isNaN(port) ? null : port,
+                        priority: isNaN(priority) ? 0 : priority,
+                        status: 'queued',
+                    };
+
+                    items.push(item);
+
+                    me.save().then(() => {
+                        me.emit('queue.added',
+                                item);
+
+                        me.schedule();
+
+                        completed(null, item);
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Cancels a download and removes its partial file.
+     * 
+     * @param {string} id The ID of the item.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the download has been cancelled or not.
+     */
+    public cancel(id: string): PromiseLike<boolean> {
+        let me = this;
+
+        return me.changeStatus(id, [ 'active', 'failed', 'paused', 'queued' ], 'cancelled', 'queue.cancelled', (item) => {
+            if (!me._active[item.id]) {
+                fs.unlink(getTempFile(item), () => { });
+            }
+        });
+    }
+
+    /**
+     * Changes the status of an item.
+     * 
+     * @param {string} id The ID of the item.
+     * @param {QueueItemStatus[]} from The allowed current states.
+     * @param {QueueItemStatus} to The new status.
+     * @param {string} event The event to emit.
+     * @param {Function} [action] The optional action to invoke after the status has been changed.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the status has been changed or not.
+     */
+    protected changeStatus(id: string, from: QueueItemStatus[], to: QueueItemStatus, event: string,
+                           action?: (item: IQueueItem) => void): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            me.load().then((items) => {
+                let item = items.filter(x => x.id === id)[0];
+                if (!item || from.indexOf(item.status) < 0) {
+                    resolve(false);
+                    return;
+                }
+
+                let abort = me._active[item.id];
+                if (abort && 'active' === item.status) {
+                    --item.attempts;  // does not count
+                }
+
+                item.status = to;
+
+                if (action) {
+                    action(item);
+                }
+                if (abort) {
+                    abort();
+                }
+
+                me.save().then(() => {
+                    me.emit(event,
+                            item);
+
+                    me.schedule();
+
+                    resolve(true);
+                });
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Runs a download.
+     * 
+     * @param {IQueueItem} item The item.
+     */
+    protected download(item: IQueueItem) {
+        let me = this;
+
+        let isAborted = false;
+        let isFailed = false;
+        let isFinished = false;
+        let stream: db_contracts.IReadStream;
+        let tempFile = getTempFile(item);
+
+        me._active[item.id] = () => {
+            isAborted = true;
+
+            if (stream) {
+                stream.abort();
+            }
+        };
+
+        let finish = (err: any, size?: number) => {
+            if (isFinished) {
+                return;
+            }
+            isFinished = true;
+
+            delete me._active[item.id];
+
+            if ('active' !== item.status) {
+                // paused, cancelled or stopped
+                if ('cancelled' === item.status) {
+                    fs.unlink(tempFile, () => { });
+                }
+
+                me.schedule();
+                return;
+            }
+
+            if (err) {
+                item.error = simpleSocketHelpers.toStringSafe(err && err.message ? err.message : err);
+
+                let maxAttempts = parseInt(simpleSocketHelpers.toStringSafe(me.maxAttempts).trim());
+                if (isNaN(maxAttempts) || maxAttempts < 1) {
+                    maxAttempts = DEFAULT_MAX_ATTEMPTS;
+                }
+
+                let isPermanent = err instanceof db_errors.DeliveryBoyError &&
+                                  (db_contracts.ErrorCode.Forbidden === err.code || db_contracts.ErrorCode.NotFound === err.code);
+
+                if (isPermanent || item.attempts >= maxAttempts) {
+                    item.status = 'failed';
+
+                    me.save();
+                    me.emit('queue.failed',
+                            item, err);
+                }
+                else {
+                    let delay = Math.min(toPositiveNumber(me.retryDelay, DEFAULT_RETRY_DELAY) * Math.pow(2, item.attempts - 1),
+                                         toPositiveNumber(me.maxRetryDelay, DEFAULT_MAX_RETRY_DELAY));
+
+                    item.nextAttempt = Date.now() + delay;
+                    item.status = 'queued';
+
+                    me.save();
+                    me.emit('queue.retry',
+                            item, err, delay);
+                }
+            }
+            else {
+                delete item.error;
+                item.status = 'completed';
+
+                me.save();
+                me.emit('queue.completed',
+                        item, size);
+            }
+
+            me.schedule();
+        };
+
+        ++item.attempts;
+        item.status = 'active';
+
+        me.save();
+        me.emit('queue.started',
+                item);
+
+        me.getConnection(item).then((conn) => {
+            db_identity.ensureDirectory(path.dirname(item.destination)).then(() => {
+                fs.stat(tempFile, (err, stats) => {
+                    if (isAborted) {
+                        finish(null);
+                        return;
+                    }
+
+                    // continue a partial download
+                    let start = !err && stats.isFile() ? stats.size : 0;
+
+                    let opts: db_contracts.IReadStreamOptions = {
+                        start: start,
+                    };
+
+                    stream = item.hash ? conn.createContentStream(item.hash, opts)
+                                       : conn.createReadStream(item.entryId, opts);
+
+                    let meter: db_bandwidth.ProgressMeter;
+                    let output = fs.createWriteStream(tempFile, {
+                        flags: start > 0 ? 'a' : 'w',
+                    });
+
+                    let fail = (err: any, discardPartialFile: boolean) => {
+                        // set before 'output' is closed,
+                        // so an incomplete file is never moved to the destination
+                        isFailed = true;
+
+                        stream.unpipe(output);
+                        stream.abort();
+                        output.end();
+
+                        if (discardPartialFile) {
+                            // start again with the next attempt
+                            fs.unlink(tempFile, () => {
+                                finish(err);
+                            });
+                        }
+                        else {
+                            finish(err);
+                        }
+                    };
+
+                    stream.once('open', (streamId: string, size: number) => {
+                        if (start > 0 && !simpleSocketHelpers.isNullOrUndefined(item.size) &&
+                            (stream.total !== item.size || stream.mtime !== item.mtime)) {
+                            fail(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                'The remote file has been changed!'), true);
+                            return;
+                        }
+
+                        if (0 === start) {
+                            item.mtime = stream.mtime;
+                            item.size = stream.total;
+
+                            me.save();
+                        }
+
+                        meter = new db_bandwidth.ProgressMeter(path.basename(item.destination), 'download',
+                                                               start + size, start);
+                    });
+                    stream.on('data', (data: Buffer) => {
+                        if (meter) {
+                            me.emit('queue.progress',
+                                    item, meter.update(data.length));
+                        }
+                    });
+                    stream.once('error', (err: any) => {
+                        if (isFailed) {
+                            return;
+                        }
+
+                        // an invalid range means, that the remote file has been changed
+                        fail(err, start > 0 && err instanceof db_errors.DeliveryBoyError && db_contracts.ErrorCode.InvalidPayload === err.code);
+                    });
+
+                    output.once('error', (err: any) => {
+                        if (isFailed) {
+                            return;
+                        }
+                        isFailed = true;
+
+                        stream.abort();
+
+                        finish(err);
+                    });
+                    output.once('close', () => {
+                        if (isFailed) {
+                            // completed by 'fail()' or the 'error' handler
+                            return;
+                        }
+                        if (isAborted || isFinished) {
+                            finish(null);
+                            return;
+                        }
+
+                        let size = meter ? meter.bytes : start;
+                        if (!simpleSocketHelpers.isNullOrUndefined(item.size) && size !== item.size) {
+                            fs.unlink(tempFile, () => {
+                                finish(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                      `Received ${size} of ${item.size} bytes!`));
+                            });
+                            return;
+                        }
+
+                        let moveToDestination = () => {
+                            fs.rename(tempFile, item.destination, (err) => {
+                                finish(err, size);
+                            });
+                        };
+
+                        if (!item.hash) {
+                            moveToDestination();
+                            return;
+                        }
+
+                        db_transfer.hashFile(tempFile).then((hash) => {
+                            if (hash === item.hash) {
+                                moveToDestination();
+                            }
+                            else {
+                                fs.unlink(tempFile, () => {
+                                    finish(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                          `Received data does not match content ID '${item.hash}'!`));
+                                });
+                            }
+                        }, (err) => {
+                            finish(err);
+                        });
+                    });
+
+                    stream.pipe(output);
+                });
+            }, (err) => {
+                finish(err);
+            });
+        }, (err) => {
+            finish(err);
+        });
+    }
+
+    /**
+     * Gets the path of the underlying file.
+     */
+    public get file(): string {
+        return this._file;
+    }
+
+    /**
+     * Returns an item.
+     * 
+     * @param {string} id The ID of the item.
+     * 
+     * @return {PromiseLike<IQueueItem>} The promise with the item or (null) if not found.
+     */
+    public get(id: string): PromiseLike<IQueueItem> {
+        let me = this;
+
+        return new Promise<IQueueItem>((resolve, reject) => {
+            me.load().then((items) => {
+                let item = items.filter(x => x.id === id)[0];
+
+                resolve(item ? item : null);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Returns the connection with the peer of an item.
+     * 
+     * @param {IQueueItem} item The item.
+     * 
+     * @return {PromiseLike<db_contracts.IConnection>} The promise with the connection.
+     */
+    protected getConnection(item: IQueueItem): PromiseLike<db_contracts.IConnection> {
+        let me = this;
+
+        return new Promise<db_contracts.IConnection>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                if (item.fingerprint) {
+                    let conn = me._client.findConnections(item.fingerprint).filter(x => !x.isClosed)[0];
+                    if (conn) {
+                        completed(null, conn);
+                        return;
+                    }
+                }
+
+                me._client.connect(item.host, item.port).then((conn) => {
+                    try {
+                        if (!conn) {
+                            // rejected by the validator
+                            completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                                     `The connection with '${item.host}' has not been accepted!`));
+                            return;
+                        }
+
+                        let fingerprint = simpleSocketHelpers.normalizeString(conn.peer.fingerprint);
+
+                        if (!item.fingerprint) {
+                            item.fingerprint = fingerprint;  // pin
+                        }
+                        else if (item.fingerprint !== fingerprint) {
+                            let unexpectedPeer = () => {
+                                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                                         `'${item.host}' is not the expected peer!`));
+                            };
+
+                            conn.close('Unexpected peer').then(() => {
+                                unexpectedPeer();
+                            }, () => {
+                                unexpectedPeer();
+                            });
+                            return;
+                        }
+
+                        completed(null, conn);
+                    }
+                    catch (e) {
+                        completed(e);
+                    }
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Returns all items.
+     * 
+     * @return {PromiseLike<IQueueItem[]>} The promise with the items.
+     */
+    public getItems(): PromiseLike<IQueueItem[]> {
+        return this.load().then((items) => {
+            return items.slice();
+        });
+    }
+
+    /**
+     * Gets if the queue is running or not.
+     */
+    public get isRunning(): boolean {
+        return this._isRunning;
+    }
+
+    /**
+     * Loads the items from the file, if not done yet.
+     * 
+     * @return {PromiseLike<IQueueItem[]>} The promise with the items.
+     */
+    protected load(): PromiseLike<IQueueItem[]> {
+        let me = this;
+
+        return new Promise<IQueueItem[]>((resolve, reject) => {
+            if (me._items) {
+                resolve(me._items);
+                return;
+            }
+
+            fs.readFile(me.file, (err, data) => {
+                let items: IQueueItem[] = [];
+
+                if (err) {
+                    if ('ENOENT' !== err.code) {
+                        reject(err);
+                        return;
+                    }
+                }
+                else {
+                    try {
+                        let loadedItems = JSON.parse(data.toString('utf8'));
+                        if (Array.isArray(loadedItems)) {
+                            items = loadedItems;
+                        }
+                    }
+                    catch (e) {
+                        reject(e);
+                        return;
+                    }
+                }
+
+                if (!me._items) {
+                    // downloads, that have been interrupted
+                    items.filter(x => 'active' === x.status).forEach((x) => {
+                        x.status = 'queued';
+                    });
+
+                    me._items = items;
+                }
+
+                resolve(me._items);
+            });
+        });
+    }
+
+    /**
+     * Gets or sets the number of downloads, that run at the same time.
+     */
+    public maxActive = DEFAULT_MAX_ACTIVE_DOWNLOADS;
+
+    /**
+     * Gets or sets the number of attempts, before a download fails.
+     */
+    public maxAttempts = DEFAULT_MAX_ATTEMPTS;
+
+    /**
+     * Gets or sets the maximum time, in milliseconds, between two attempts.
+     */
+    public maxRetryDelay = DEFAULT_MAX_RETRY_DELAY;
+
+    /**
+     * Pauses a download. The partial file is kept, so the download can be continued later.
+     * 
+     * @param {string} id The ID of the item.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the download has been paused or not.
+     */
+    public pause(id: string): PromiseLike<boolean> {
+        return this.changeStatus(id, [ 'active', 'queued' ], 'paused', 'queue.paused');
+    }
+
+    /**
+     * Resumes a paused or failed download.
+     * 
+     * @param {string} id The ID of the item.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the download has been resumed or not.
+     */
+    public resume(id: string): PromiseLike<boolean> {
+        return this.changeStatus(id, [ 'failed', 'paused' ], 'queued', 'queue.resumed', (item) => {
+            item.attempts = 0;
+            item.nextAttempt = 0;
+        });
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, before the first retry. It is doubled for each further one.
+     */
+    public retryDelay = DEFAULT_RETRY_DELAY;
+
+    /**
+     * Saves the items to the file.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    protected save(): PromiseLike<void> {
+        let me = this;
+
+        // one after another
+        me._saving = me._saving.then(() => {
+            return new Promise<void>((resolve) => {
+                let tempFile = me.file + '.tmp';
+
+                let fail = (err: any) => {
+                    me.emit('error.queue',
+                            err);
+
+                    resolve();
+                };
+
+                db_identity.ensureDirectory(path.dirname(me.file)).then(() => {
+                    fs.writeFile(tempFile, new Buffer(JSON.stringify(me._items || [], null, 2), 'utf8'), (err) => {
+                        if (err) {
+                            fail(err);
+                            return;
+                        }
+
+                        fs.rename(tempFile, me.file, (err) => {
+                            if (err) {
+                                fail(err);
+                            }
+                            else {
+                                resolve();
+                            }
+                        });
+                    });
+                }, (err) => {
+                    fail(err);
+                });
+            });
+        });
+
+        return me._saving;
+    }
+
+    /**
+     * Starts the next downloads, if possible.
+     */
+    protected schedule() {
+        let me = this;
+
+        if (!me._isRunning || !me._items) {
+            return;
+        }
+
+        if (me._timer) {
+            clearTimeout(me._timer);
+            me._timer = null;
+        }
+
+        let maxActive = parseInt(simpleSocketHelpers.toStringSafe(me.maxActive).trim());
+        if (isNaN(maxActive) || maxActive < 1) {
+            maxActive = DEFAULT_MAX_ACTIVE_DOWNLOADS;
+        }
+
+        let now = Date.now();
+
+        let waitingItems = me._items.filter(x => 'queued' === x.status);
+        waitingItems.sort((x, y) => {
+            return (y.priority - x.priority) ||
+                   (x.created - y.created);
+        });
+
+        waitingItems.filter(x => x.nextAttempt <= now).forEach((x) => {
+            if (Object.keys(me._active).length < maxActive) {
+                me.download(x);
+            }
+        });
+
+        // wake up for the next retry
+        // (keeps the process alive until 'stop()' is called)
+        let nextAttempt = Math.min.apply(null, waitingItems.filter(x => 'queued' === x.status && x.nextAttempt > now)
+                                                           .map(x => x.nextAttempt));
+        if (isFinite(nextAttempt)) {
+            me._timer = setTimeout(() => {
+                me._timer = null;
+
+                me.schedule();
+            }, nextAttempt - now);
+        }
+    }
+
+    /**
+     * Starts processing the queue.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    public start(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            me.load().then(() => {
+                if (me._isRunning) {
+                    resolve(false);
+                    return;
+                }
+                me._isRunning = true;
+
+                me.schedule();
+
+                resolve(true);
+            }, (err) => {
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Stops processing the queue. Running downloads are aborted and continued after the next start.
+     * 
+     * @return {PromiseLike<boolean>} The promise.
+     */
+    public stop(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve) => {
+            if (!me._isRunning) {
+                resolve(false);
+                return;
+            }
+            me._isRunning = false;
+
+            if (me._timer) {
+                clearTimeout(me._timer);
+                me._timer = null;
+            }
+
+            (me._items || []).filter(x => !!me._active[x.id]).forEach((x) => {
+                --x.attempts;  // does not count
+                x.status = 'queued';
+
+                me._active[x.id]();
+            });
+
+            me.save().then(() => {
+                resolve(true);
+            });
+        });
+    }
+}
+
+
+function getTempFile(item: IQueueItem): string {
+    // the ID keeps it apart from other writers of the destination,
+    // and is the same for all attempts
+    return `${item.destination}.${item.id}.part`;
+}
+
+function toPositiveNumber(val: any, defaultValue: number): number {
+    let num = parseFloat(simpleSocketHelpers.toStringSafe(val).trim());
+    if (isNaN(num) || num < 0) {
+        num = defaultValue;
+    }
+
+    return num;
+}
@@ -0,0 +1,771 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as crypto from 'crypto';
+import * as db_bandwidth from './bandwidth';
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_identity from './identity';
+import * as db_messages from './messages';
+import * as events from 'events';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+interface IPendingFrameRead {
+    completed: (err: any, frame?: Buffer) => void;
+}
+
+interface IRelayEndpoint {
+    close: (reason: string) => void;
+    receive: (data: string) => void;
+}
+
+interface IRelayLeg {
+    conn: db_contracts.IConnection;
+    pending: number;
+    queue: PromiseLike<any>;
+    sessionId: string;
+}
+
+interface IRelaySession {
+    isClosed: boolean;
+    legs: IRelayLeg[];
+}
+
+
+/**
+ * Capability: Connecting to peers via a relay.
+ */
+export const CAPABILITY_RELAY = 'relay';
+/**
+ * The default maximum number of bytes of a relayed session, that are waiting to be forwarded or read.
+ */
+export const DEFAULT_MAX_RELAY_PENDING = 16777216;
+/**
+ * The default maximum number of sessions, a relay forwards at the same time.
+ */
+export const DEFAULT_MAX_RELAY_SESSIONS = 16;
+/**
+ * The elliptic curve for the key exchange between the endpoints of a relayed session.
+ */
+export const RELAY_KEY_CURVE = 'prime256v1';
+
+let endpoints = new WeakMap<db_contracts.IConnection, { [sessionId: string]: IRelayEndpoint }>();
+
+
+/**
+ * Forwards sessions between peers, that cannot reach each other directly.
+ * 
+ * The relay only sees encrypted frames, because the endpoints exchange their own keys.
+ */
+export class Relay {
+    /**
+     * Stores the bandwidth limit.
+     */
+    protected _bucket = new db_bandwidth.TokenBucket();
+    /**
+     * Stores the function that provides the open connections.
+     */
+    protected _provider: () => db_contracts.IConnection[];
+    /**
+     * Stores the open sessions.
+     */
+    protected _sessions: IRelaySession[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {Function} provider The function that provides the open connections.
+     */
+    constructor(provider: () => db_contracts.IConnection[]) {
+        this._provider = provider;
+    }
+
+    /**
+     * Gets or sets the fingerprints of the peers, that are allowed to use the relay. '*' allows all peers.
+     * If empty, the relay is disabled.
+     */
+    public allow: string[] = [];
+
+    /**
+     * Closes a session.
+     * 
+     * @param {IRelaySession} session The session.
+     * @param {IRelayLeg} from The leg, that has closed the session or (null) if closed by the relay.
+     * @param {string} reason The reason.
+     */
+    protected closeSession(session: IRelaySession, from: IRelayLeg, reason: string) {
+        let me = this;
+
+        if (session.isClosed) {
+            return;
+        }
+        session.isClosed = true;
+
+        let index = me._sessions.indexOf(session);
+        if (index > -1) {
+            me._sessions.splice(index, 1);
+        }
+
+        session.legs.forEach((x) => {
+            unregisterEndpoint(x.conn, x.sessionId);
+
+            if (x === from || x.conn.isClosed) {
+                return;
+            }
+
+            x.queue = x.queue.then(() => {
+                return x.conn.sendMessage(<db_messages.IRelayCloseMessage>{
+                    type: 42,
+                    reason: reason,
+                    sessionId: x.sessionId,
+                });
+            }).then(null, () => {
+                // ignore
+            });
+        });
+    }
+
+    /**
+     * Checks if a peer is allowed to use the relay.
+     * 
+     * @param {string} fingerprint The fingerprint of the peer.
+     * 
+     * @return {boolean} Is allowed or not.
+     */
+    public isAllowed(fingerprint: string): boolean {
+        fingerprint = db_identity.normalizeFingerprint(fingerprint);
+
+        return (this.allow || []).map(x => db_identity.normalizeFingerprint(x)).some((x) => {
+            return '*' === x || ('' !== x && x === fingerprint);
+        });
+    }
+
+    /**
+     * Gets or sets the bandwidth limit for all sessions, in bytes per second. 0 or less means 'unlimited'.
+     */
+    public get limit(): number {
+        return this._bucket.rate;
+    }
+    public set limit(value: number) {
+        this._bucket.rate = value;
+    }
+
+    /**
+     * Gets or sets the maximum number of bytes per leg of a session, that are waiting to be forwarded.
+     * If exceeded, because a peer does not keep up, the session is closed. 0 or less means 'unlimited'.
+     */
+    public maxPending = DEFAULT_MAX_RELAY_PENDING;
+
+    /**
+     * Gets or sets the maximum number of sessions, that are forwarded at the same time.
+     */
+    public maxSessions = DEFAULT_MAX_RELAY_SESSIONS;
+
+    /**
+     * Handles the request of a peer to connect to another one (type 39).
+     * 
+     * @param {db_contracts.IConnection} conn The connection with the requesting peer.
+     * @param {db_messages.IRelayConnectMessage} msg The message.
+     * 
+     * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+     */
+    public open(conn: db_contracts.IConnection, msg: db_messages.IRelayConnectMessage): PromiseLike<db_messages.IMessage> {
+        let me = this;
+
+        return new Promise<db_messages.IMessage>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let requester = db_identity.normalizeFingerprint(conn.peer ? conn.peer.fingerprint : null);
+                let fingerprint = db_identity.normalizeFingerprint(msg.fingerprint);
+
+                // both endpoints need to be allowed
+                if (!me.isAllowed(requester) || !me.isAllowed(fingerprint)) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                             `Relaying to peer '${fingerprint}' is not allowed!`));
+                    return;
+                }
+
+                let maxSessions = parseInt(simpleSocketHelpers.toStringSafe(me.maxSessions).trim());
+                if (isNaN(maxSessions)) {
+                    maxSessions = DEFAULT_MAX_RELAY_SESSIONS;
+                }
+
+                if (me._sessions.length >= maxSessions) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                             'Too many relayed sessions!'));
+                    return;
+                }
+
+                let target = (me._provider() || []).filter((x) => {
+                    return x !== conn && !x.isClosed && x.peer &&
+                           db_identity.normalizeFingerprint(x.peer.fingerprint) === fingerprint;
+                })[0];
+                if (!target) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                             `Peer '${fingerprint}' is not connected!`));
+                    return;
+                }
+
+                let session: IRelaySession = {
+                    isClosed: false,
+                    legs: [{
+                        conn: conn,
+                        pending: 0,
+                        queue: Promise.resolve(),
+                        sessionId: msg.sessionId,
+                    }, {
+                        conn: target,
+                        pending: 0,
+                        queue: Promise.resolve(),
+                        sessionId: createSessionId(),
+                    }],
+                };
+
+                let registered = session.legs.filter((x, i) => {
+                    let other = session.legs[1 - i];
+
+                    return registerEndpoint(x.conn, x.sessionId, {
+                        close: (reason) => {
+                            me.closeSession(session, x, reason);
+                        },
+                        receive: (data) => {
+                            me.forward(session, other, data);
+                        },
+                    });
+                });
+                if (registered.length < session.legs.length) {
+                    registered.forEach((x) => {
+                        unregisterEndpoint(x.conn, x.sessionId);
+                    });
+
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                             `Session '${msg.sessionId}' already exists!`));
+                    return;
+                }
+
+                me._sessions.push(session);
+
+                target.request<db_messages.IMessage>(<db_messages.IRelayIncomingMessage>{
+                    type: 40,
+                    sessionId: session.legs[1].sessionId,
+                }).then((reply) => {
+                    if (1 !== reply.type) {
+                        me.closeSession(session, null, 'Rejected');
+
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Unexpected reply of type ${reply.type}!`));
+                        return;
+                    }
+
+                    if (session.isClosed) {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Cancelled,
+                                                                 'Session has been closed!'));
+                        return;
+                    }
+
+                    completed(null, <db_messages.IOKMessage>{
+                        type: 1,
+                    });
+                }, (err) => {
+                    me.closeSession(session, null, 'Rejected');
+
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Forwards a frame to a leg of a session.
+     * 
+     * @param {IRelaySession} session The session.
+     * @param {IRelayLeg} to The leg.
+     * @param {string} data The data (Base64).
+     */
+    protected forward(session: IRelaySession, to: IRelayLeg, data: string) {
+        let me = this;
+
+        let size = Buffer.byteLength(data, 'base64');
+
+        let maxPending = parseInt(simpleSocketHelpers.toStringSafe(me.maxPending).trim());
+        if (isNaN(maxPending)) {
+            maxPending = DEFAULT_MAX_RELAY_PENDING;
+        }
+
+        to.pending += size;
+        if (maxPending > 0 && to.pending > maxPending) {
+            me.closeSession(session, null, 'Too much pending data!');
+            return;
+        }
+
+        to.queue = to.queue.then(() => {
+            return me._bucket.consume(size);
+        }).then(() => {
+            if (session.isClosed) {
+                return;
+            }
+
+            return to.conn.sendMessage(<db_messages.IRelayDataMessage>{
+                type: 41,
+                data: data,
+                sessionId: to.sessionId,
+            });
+        }).then(() => {
+            to.pending -= size;
+        }, () => {
+            me.closeSession(session, null, 'Could not forward data!');
+        });
+    }
+
+    /**
+     * Gets the number of open sessions.
+     */
+    public get sessionCount(): number {
+        return this._sessions.length;
+    }
+}
+
+/**
+ * A socket, that sends and receives frames through a relay.
+ * 
+ * The frames are encrypted with keys, that are exchanged between the endpoints (ECDH).
+ * Because the handshake of a connection is bound to the session key, a relay, that replaces the
+ * exchanged keys, is detected.
+ */
+export class RelaySocket extends events.EventEmitter implements db_contracts.ITransportSocket {
+    /**
+     * Stores the connection with the relay.
+     */
+    protected _connection: db_contracts.IConnection;
+    /**
+     * Stores the key pair for the key exchange.
+     */
+    protected _ecdh: crypto.ECDH;
+    /**
+     * Stores the number of bytes of the received frames, that have not been read yet.
+     */
+    protected _frameBytes = 0;
+    /**
+     * Stores the received frames, that have not been read yet.
+     */
+    protected _frames: Buffer[] = [];
+    /**
+     * Stores if the own public key has been sent or not.
+     */
+    protected _hasSentKey = false;
+    /**
+     * Stores if the socket has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores if that endpoint has requested the session or not.
+     */
+    protected _isInitiator: boolean;
+    /**
+     * Stores the function that marks the key exchange as finished.
+     */
+    protected _keysExchanged: () => void;
+    /**
+     * Stores the pending reads.
+     */
+    protected _pendingReads: IPendingFrameRead[] = [];
+    /**
+     * Stores the number of received frames.
+     */
+    protected _receiveCounter = 0;
+    /**
+     * Stores the key for received frames.
+     */
+    protected _receiveKey: Buffer;
+    /**
+     * Stores the number of sent frames.
+     */
+    protected _sendCounter = 0;
+    /**
+     * Stores the key for sent frames.
+     */
+    protected _sendKey: Buffer;
+    /**
+     * Stores the queue of outgoing frames, which starts after the key exchange.
+     */
+    protected _sendQueue: PromiseLike<any>;
+    /**
+     * Stores the ID of the session.
+     */
+    protected _sessionId: string;
+    /**
+     * Stores the key of the session.
+     */
+    protected _sessionKey: Buffer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection} conn The connection with the relay.
+     * @param {string} sessionId The ID of the session.
+     * @param {boolean} isInitiator That endpoint has requested the session or not.
+     */
+    constructor(conn: db_contracts.IConnection, sessionId: string, isInitiator: boolean) {
+        super();
+
+        let me = this;
+
+        me._connection = conn;
+        me._ecdh = crypto.createECDH(RELAY_KEY_CURVE);
+        me._ecdh.generateKeys();
+        me._isInitiator = isInitiator;
+        me._sendQueue = new Promise<void>((resolve) => {
+            me._keysExchanged = resolve;
+        });
+        me._sessionId = sessionId;
+
+        this.remoteAddress = `relay:${conn.socket ? conn.socket.remoteAddress : ''}`;
+
+        let isRegistered = registerEndpoint(conn, sessionId, {
+            close: () => {
+                me.close();
+            },
+            receive: (data) => {
+                me.receive(data);
+            },
+        });
+        if (!isRegistered) {
+            throw new Error(`Session '${sessionId}' already exists!`);
+        }
+    }
+
+    /**
+     * Closes that socket only.
+     */
+    protected close() {
+        let me = this;
+
+        if (me._isClosed) {
+            return;
+        }
+        me._isClosed = true;
+
+        unregisterEndpoint(me._connection, me._sessionId);
+
+        // frames, that have been received before, can still be read
+        if (me._frames.length < 1) {
+            me._pendingReads.splice(0).forEach((x) => {
+                x.completed(null, null);
+            });
+        }
+
+        me._keysExchanged();  // fail pending writes
+
+        me.emit('close');
+    }
+
+    /** @inheritdoc */
+    public end(): PromiseLike<any> {
+        let me = this;
+
+        return new Promise<any>((resolve) => {
+            if (me._isClosed) {
+                resolve();
+                return;
+            }
+
+            let sendClose = () => {
+                return me._connection.sendMessage(<db_messages.IRelayCloseMessage>{
+                    type: 42,
+                    sessionId: me._sessionId,
+                }).then(null, () => {
+                    // ignore
+                });
+            };
+
+            // after the frames, that have been written before
+            if (me._sendKey) {
+                me._sendQueue = me._sendQueue.then(sendClose);
+            }
+            else {
+                sendClose();
+            }
+
+            me.close();
+
+            resolve();
+        });
+    }
+
+    /**
+     * Gets or sets the maximum number of bytes of received frames, that have not been read yet.
+     * If exceeded, the socket is closed. 0 or less means 'unlimited'.
+     */
+    public maxPending = DEFAULT_MAX_RELAY_PENDING;
+
+    /** @inheritdoc */
+    public read(): PromiseLike<Buffer> {
+        let me = this;
+
+        me.sendKey();
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            if (me._frames.length > 0) {
+                let frame = me._frames.shift();
+                me._frameBytes -= frame.length;
+
+                completed(null, frame);
+            }
+            else if (me._isClosed) {
+                completed(null, null);
+            }
+            else {
+                me._pendingReads.push({
+                    completed: completed,
+                });
+            }
+        });
+    }
+
+    /**
+     * Receives a frame from the other endpoint.
+     * 
+     * @param {string} data The data (Base64).
+     */
+    protected receive(data: string) {
+        let me = this;
+
+        if (me._isClosed) {
+            return;
+        }
+
+        let frame = new Buffer(data, 'base64');
+
+        // the first frame is the public key
+        if (!me._receiveKey) {
+            try {
+                let secret = me._ecdh.computeSecret(frame);
+
+                let deriveKey = (label: string) => {
+                    return crypto.createHash('sha256')
+                                 .update(secret)
+                                 .update(label)
+                                 .digest();
+                };
+
+                me._receiveKey = deriveKey(me._isInitiator ? 'responder' : 'initiator');
+                me._sendKey = deriveKey(me._isInitiator ? 'initiator' : 'responder');
+                me._sessionKey = deriveKey('session');
+            }
+            catch (e) {
+                me.end();  // invalid key
+                return;
+            }
+
+            me._keysExchanged();
+            return;
+        }
+
+        let plainFrame: Buffer;
+        try {
+            let decipher = crypto.createDecipheriv('aes-256-gcm', me._receiveKey, createIV(me._receiveCounter++));
+            decipher.setAuthTag(frame.slice(frame.length - 16));
+
+            plainFrame = Buffer.concat([ decipher.update(frame.slice(0, frame.length - 16)), decipher.final() ]);
+        }
+        catch (e) {
+            me.end();  // manipulated
+            return;
+        }
+
+        let pending = me._pendingReads.shift();
+        if (pending) {
+            pending.completed(null, plainFrame);
+        }
+        else {
+            let maxPending = parseInt(simpleSocketHelpers.toStringSafe(me.maxPending).trim());
+            if (isNaN(maxPending)) {
+                maxPending = DEFAULT_MAX_RELAY_PENDING;
+            }
+
+            if (maxPending > 0 && me._frameBytes + plainFrame.length > maxPending) {
+                me.end();  // reader does not keep up
+                return;
+            }
+
+            me._frames.push(plainFrame);
+            me._frameBytes += plainFrame.length;
+        }
+    }
+
+    /** @inheritdoc */
+    public readonly remoteAddress: string;
+
+    /**
+     * Sends the own public key to the other endpoint, if not done yet.
+     */
+    protected sendKey() {
+        let me = this;
+
+        if (me._hasSentKey || me._isClosed) {
+            return;
+        }
+        me._hasSentKey = true;
+
+        me._connection.sendMessage(<db_messages.IRelayDataMessage>{
+            type: 41,
+            data: me._ecdh.getPublicKey().toString('base64'),
+            sessionId: me._sessionId,
+        }).then(null, () => {
+            me.close();
+        });
+    }
+
+    /**
+     * Gets the ID of the session.
+     */
+    public get sessionId(): string {
+        return this._sessionId;
+    }
+
+    /** @inheritdoc */
+    public get sessionKey(): Buffer {
+        return this._sessionKey;
+    }
+
+    /** @inheritdoc */
+    public write(data: Buffer): PromiseLike<Buffer> {
+        let me = this;
+
+        me.sendKey();
+
+        return new Promise<Buffer>((resolve, reject) => {
+            if (me._isClosed) {
+                reject(new Error('Socket is closed!'));
+                return;
+            }
+
+            me._sendQueue = me._sendQueue.then(() => {
+                if (!me._sendKey) {
+                    reject(new Error('Socket is closed!'));
+                    return;
+                }
+
+                let cipher = crypto.createCipheriv('aes-256-gcm', me._sendKey, createIV(me._sendCounter++));
+                let encryptedFrame = Buffer.concat([ cipher.update(data), cipher.final(), cipher.getAuthTag() ]);
+
+                return me._connection.sendMessage(<db_messages.IRelayDataMessage>{
+                    type: 41,
+                    data: encryptedFrame.toString('base64'),
+                    sessionId: me._sessionId,
+                }).then(() => {
+                    resolve(data);
+                }, (err) => {
+                    reject(err);
+                });
+            }).then(null, (err) => {
+                reject(err);
+            });
+        });
+    }
+}
+
+
+/**
+ * Handles the closing of a relayed session (type 42).
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IRelayCloseMessage} msg The message.
+ */
+export function closeRelaySession(conn: db_contracts.IConnection, msg: db_messages.IRelayCloseMessage) {
+    let endpoint = getEndpoint(conn, msg.sessionId);
+    if (endpoint) {
+        endpoint.close(simpleSocketHelpers.toStringSafe(msg.reason));
+    }
+}
+
+/**
+ * Creates a new (random) ID for a relayed session.
+ * 
+ * @return {string} The new ID.
+ */
+export function createSessionId(): string {
+    return crypto.randomBytes(16)
+                 .toString('hex');
+}
+
+/**
+ * Handles a frame of a relayed session (type 41).
+ * Frames of unknown sessions are ignored.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IRelayDataMessage} msg The message.
+ */
+export function receiveRelayData(conn: db_contracts.IConnection, msg: db_messages.IRelayDataMessage) {
+    let endpoint = getEndpoint(conn, msg.sessionId);
+    if (endpoint) {
+        endpoint.receive(msg.data);
+    }
+}
+
+
+function createIV(counter: number): Buffer {
+    let iv = Buffer.alloc(12);
+    iv.writeUInt32BE(Math.floor(counter / 0x100000000), 4);
+    iv.writeUInt32BE(counter % 0x100000000, 8);
+
+    return iv;
+}
+
+function getEndpoint(conn: db_contracts.IConnection, sessionId: string): IRelayEndpoint {
+    let connEndpoints = endpoints.get(conn);
+    if (!connEndpoints || !connEndpoints.hasOwnProperty(sessionId)) {
+        return null;
+    }
+
+    return connEndpoints[sessionId];
+}
+
+function registerEndpoint(conn: db_contracts.IConnection, sessionId: string, endpoint: IRelayEndpoint): boolean {
+    let connEndpoints = endpoints.get(conn);
+    if (!connEndpoints) {
+        endpoints.set(conn, connEndpoints = {});
+
+        conn.once('close', () => {
+            Object.keys(connEndpoints).forEach((x) => {
+                connEndpoints[x].close('Connection has been closed');
+            });
+        });
+    }
+
+    if (connEndpoints.hasOwnProperty(sessionId)) {
+        return false;
+    }
+
+    connEndpoints[sessionId] = endpoint;
+    return true;
+}
+
+function unregisterEndpoint(conn: db_contracts.IConnection, sessionId: string) {
+    let connEndpoints = endpoints.get(conn);
+    if (connEndpoints) {
+        delete connEndpoints[sessionId];
+    }
+}
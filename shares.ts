@@ -0,0 +1,255 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as crypto from 'crypto';
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_identity from './identity';
+import * as db_messages from './messages';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * The number of random bytes of a share challenge.
+ */
+export const CHALLENGE_SIZE = 32;
+
+let pendingChallenges = new WeakMap<db_contracts.IConnection, { [share: string]: string }>();
+let unlockedShares = new WeakMap<db_contracts.IConnection, { [share: string]: boolean }>();
+
+
+/**
+ * Creates a challenge for unlocking a share for a connection.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IGetShareChallengeMessage} msg The message.
+ * 
+ * @return {db_messages.IShareChallengeMessage} The reply.
+ */
+export function createChallenge(conn: db_contracts.IConnection, msg: db_messages.IGetShareChallengeMessage): db_messages.IShareChallengeMessage {
+    let nonce = crypto.randomBytes(CHALLENGE_SIZE).toString('hex');
+
+    // also for unknown shares, so names of hidden shares do not leak
+    let challenges = pendingChallenges.get(conn);
+    if (!challenges) {
+        pendingChallenges.set(conn, challenges = {});
+    }
+    challenges[toShareKey(msg.share)] = nonce;
+
+    return {
+        type: 31,
+        nonce: nonce,
+    };
+}
+
+/**
+ * Creates a filter, that checks if a connection can access a share.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {boolean} [requireRead] Entries must be downloadable or not.
+ * 
+ * @return {db_contracts.ShareFilter} The filter.
+ */
+export function createFilter(conn: db_contracts.IConnection, requireRead = false): db_contracts.ShareFilter {
+    return (share) => {
+        if (!share || !isAllowed(conn, share) || isLocked(conn, share)) {
+            return false;
+        }
+
+        return !requireRead || 'browse' !== share.access;
+    };
+}
+
+/**
+ * Creates the response for a share challenge.
+ * 
+ * @param {string} password The password or token of the share.
+ * @param {string} share The name of the share.
+ * @param {string} nonce The nonce of the challenge.
+ * 
+ * @return {string} The response (hex).
+ */
+export function createUnlockResponse(password: string, share: string, nonce: string): string {
+    return crypto.createHmac('sha256', simpleSocketHelpers.toStringSafe(password))
+                 .update(`${toShareKey(share)}\n${simpleSocketHelpers.toStringSafe(nonce)}`, 'utf8')
+                 .digest('hex');
+}
+
+/**
+ * Returns the full path of a library entry, a connection is allowed to download.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {string} entryId The ID of the entry.
+ * 
+ * @return {PromiseLike<string>} The promise with the path or (null) if not found.
+ */
+export function getReadableFile(conn: db_contracts.IConnection, entryId: string): PromiseLike<string> {
+    return new Promise<string>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            let library = conn.client.library;
+
+            library.getShare(entryId).then((share) => {
+                // entries of shares, the peer cannot see, do not exist for it
+                if (!createFilter(conn)(share)) {
+                    completed(null, null);
+                    return;
+                }
+
+                if (!createFilter(conn, true)(share)) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                             `Entry '${entryId}' cannot be downloaded!`));
+                    return;
+                }
+
+                library.getFile(entryId).then((file) => {
+                    completed(null, file);
+                }, (err) => {
+                    completed(err);
+                });
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Lists the shares, a connection can see.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * 
+ * @return {db_messages.ISharesMessage} The reply.
+ */
+export function listShares(conn: db_contracts.IConnection): db_messages.ISharesMessage {
+    let shares = conn.client.library.getShares().filter((x) => {
+        return isAllowed(conn, x) &&
+               !(x.hidden && isLocked(conn, x));
+    });
+
+    return {
+        type: 34,
+        shares: shares.map((x) => {
+            return {
+                access: x.access,
+                isLocked: isLocked(conn, x),
+                name: x.name,
+            };
+        }),
+    };
+}
+
+/**
+ * Unlocks a share for a connection.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IUnlockShareMessage} msg The message.
+ * 
+ * @return {db_messages.IMessage} The reply.
+ */
+export function unlockShare(conn: db_contracts.IConnection, msg: db_messages.IUnlockShareMessage): db_messages.IMessage {
+    let key = toShareKey(msg.share);
+
+    // a challenge can only be used once
+    let challenges = pendingChallenges.get(conn) || {};
+    let nonce = challenges[key];
+    delete challenges[key];
+
+    let share = conn.client.library.getShares().filter(x => toShareKey(x.name) === key)[0];
+
+    let isValid = false;
+    if (share && isAllowed(conn, share)) {
+        if (share.password) {
+            if (nonce) {
+                let expected = Buffer.from(createUnlockResponse(share.password, share.name, nonce), 'utf8');
+                let response = Buffer.from(simpleSocketHelpers.normalizeString(msg.response), 'utf8');
+
+                isValid = expected.length === response.length &&
+                          crypto.timingSafeEqual(expected, response);
+            }
+        }
+        else {
+            isValid = true;  // hidden shares without password are unlocked by their name
+        }
+    }
+
+    if (!isValid) {
+        // same error for all cases, so names of hidden shares do not leak
+        throw new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                             'Share cannot be unlocked!');
+    }
+
+    let unlocked = unlockedShares.get(conn);
+    if (!unlocked) {
+        unlockedShares.set(conn, unlocked = {});
+    }
+    unlocked[key] = true;
+
+    return <db_messages.IOKMessage>{
+        type: 1,
+    };
+}
+
+
+function isAllowed(conn: db_contracts.IConnection, share: db_contracts.IShare): boolean {
+    let allow = share.allow || [];
+    if (allow.length < 1) {
+        return true;
+    }
+
+    let peer = conn.peer;
+    if (!peer) {
+        return false;
+    }
+
+    let fingerprint = db_identity.normalizeFingerprint(peer.fingerprint);
+
+    // 'host:port' => 'host'
+    let host = simpleSocketHelpers.normalizeString(peer.address);
+    let separator = host.lastIndexOf(':');
+    if (separator > -1) {
+        host = host.substr(0, separator);
+    }
+    if (0 === host.indexOf('::ffff:')) {
+        host = host.substr(7);  // IPv4 mapped address
+    }
+
+    return allow.some((x) => {
+        x = simpleSocketHelpers.normalizeString(x);
+
+        return '' !== x &&
+               (db_identity.normalizeFingerprint(x) === fingerprint || x === host);
+    });
+}
+
+function isLocked(conn: db_contracts.IConnection, share: db_contracts.IShare): boolean {
+    if (!share.hidden && !share.password) {
+        return false;
+    }
+
+    let unlocked = unlockedShares.get(conn) || {};
+    return !unlocked[toShareKey(share.name)];
+}
+
+function toShareKey(name: string): string {
+    return simpleSocketHelpers.normalizeString(name);
+}
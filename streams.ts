@@ -0,0 +1,1093 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as crypto from 'crypto';
+import * as db_bandwidth from './bandwidth';
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_messages from './messages';
+import * as db_shares from './shares';
+import * as db_transfer from './transfer';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+import * as stream from 'stream';
+
+
+interface IOpenStream {
+    channel: number;
+    end: number;
+    fd: number;
+    file: string;
+    position: number;
+    tempFile?: string;
+}
+
+
+/**
+ * The default maximum number of streams, a remote can open over one connection.
+ */
+export const DEFAULT_MAX_OPEN_STREAMS = 64;
+/**
+ * The default maximum size of a file, in bytes, a remote can write.
+ */
+export const DEFAULT_MAX_UPLOAD_SIZE = 4294967296;
+/**
+ * The maximum number of bytes of a stream, that are sent at once.
+ */
+export const MAX_STREAM_CHUNK_SIZE = 1048576;
+
+let lastStreamId = 0;
+let openStreams = new WeakMap<db_contracts.IConnection, { [streamId: string]: IOpenStream }>();
+
+
+/**
+ * A stream that reads an entry of the library of a remote.
+ */
+export class RemoteReadStream extends stream.Readable implements db_contracts.IReadStream {
+    /**
+     * Stores the channel.
+     */
+    protected _channel: db_contracts.IChannel;
+    /**
+     * Stores the connection.
+     */
+    protected _connection: db_contracts.IConnection;
+    /**
+     * Stores the ID of the library entry.
+     */
+    protected _entryId: string;
+    /**
+     * Stores if the stream has been aborted or not.
+     */
+    protected _isAborted = false;
+    /**
+     * Stores the meter for the progress.
+     */
+    protected _meter: db_bandwidth.ProgressMeter;
+    /**
+     * Stores the last modification time of the file on the remote side.
+     */
+    protected _mtime: number;
+    /**
+     * Stores the promise of the open operation.
+     */
+    protected _opening: PromiseLike<string>;
+    /**
+     * Stores the options.
+     */
+    protected _options: db_contracts.IReadStreamOptions;
+    /**
+     * Stores the number of bytes that can be read.
+     */
+    protected _size: number;
+    /**
+     * Stores the ID of the stream on the remote side.
+     */
+    protected _streamId: string;
+    /**
+     * Stores the size of the whole file on the remote side.
+     */
+    protected _total: number;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {string} entryId The ID of the library entry.
+     * @param {db_contracts.IReadStreamOptions} [opts] The options.
+     */
+    constructor(conn: db_contracts.IConnection, entryId: string, opts?: db_contracts.IReadStreamOptions) {
+        super({
+            highWaterMark: toChunkSize(opts ? opts.chunkSize : null),
+        });
+
+        this._channel = conn.openChannel();
+        this._connection = conn;
+        this._entryId = simpleSocketHelpers.toStringSafe(entryId);
+        this._options = opts || {};
+    }
+
+    /** @inheritdoc */
+    public _destroy(err: any, callback: (err: any) => void) {
+        this.closeRemote().then(() => {
+            callback(err);
+        });
+    }
+
+    /** @inheritdoc */
+    public _read(size: number) {
+        let me = this;
+
+        me.open().then((streamId) => {
+            return me._channel.request<db_messages.IStreamDataMessage>(<db_messages.IStreamReadMessage>{
+                type: 22,
+                length: Math.min(Math.max(size, 1), MAX_STREAM_CHUNK_SIZE),
+                streamId: streamId,
+            }).then((reply) => {
+                if (me._isAborted) {
+                    return;
+                }
+
+                if (reply.eof) {
+                    me._streamId = null;  // closed by remote
+                }
+
+                let data = new Buffer(reply.data, 'base64');
+                if (data.length > 0) {
+                    me._connection.emit('transfer.progress',
+                                        me._meter.update(data.length));
+
+                    me.push(data);
+                }
+
+                if (reply.eof) {
+                    me.push(null);
+
+                    me.closeRemote();
+                }
+            });
+        }).then(null, (err) => {
+            me.closeRemote();
+
+            if (!me._isAborted) {
+                me.emit('error', err);
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public abort() {
+        if (this._isAborted) {
+            return;
+        }
+        this._isAborted = true;
+
+        this.closeRemote();
+        this.push(null);
+    }
+
+    /**
+     * Closes the stream on the remote side, if it has not been read to the end, and the channel.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    protected closeRemote(): PromiseLike<void> {
+        let me = this;
+
+        let streamId = me._streamId;
+        me._streamId = null;
+
+        return new Promise<void>((resolve) => {
+            let closeChannel = () => {
+                me._channel.close().then(() => {
+                    resolve();
+                }, () => {
+                    resolve();
+                });
+            };
+
+            if (!streamId) {
+                closeChannel();
+                return;
+            }
+
+            me._channel.sendMessage<db_messages.IStreamCloseMessage>({
+                type: 25,
+                streamId: streamId,
+            }).then(() => {
+                closeChannel();
+            }, () => {
+                closeChannel();
+            });
+        });
+    }
+
+    /**
+     * Creates the message that opens the stream on the remote side.
+     * 
+     * @return {db_messages.IMessage} The message.
+     */
+    protected createOpenMessage(): db_messages.IMessage {
+        return <db_messages.IOpenReadStreamMessage>{
+            type: 19,
+            end: this._options.end,
+            entryId: this._entryId,
+            start: this._options.start,
+        };
+    }
+
+    /** @inheritdoc */
+    public get mtime(): number {
+        return this._mtime;
+    }
+
+    /**
+     * Opens the stream on the remote side, if not done yet.
+     * 
+     * @return {PromiseLike<string>} The promise with the ID of the stream.
+     */
+    protected open(): PromiseLike<string> {
+        let me = this;
+
+        if (!me._opening) {
+            me._opening = me._channel.request<db_messages.IStreamOpenedMessage>(me.createOpenMessage()).then((reply) => {
+                if (21 !== reply.type) {
+                    throw new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                         `Unexpected reply of type ${reply.type}!`);
+                }
+
+                me._meter = new db_bandwidth.ProgressMeter(me._entryId, 'download', reply.size);
+                me._mtime = simpleSocketHelpers.isNullOrUndefined(reply.mtime) ? null : reply.mtime;
+                me._size = reply.size;
+                me._streamId = reply.streamId;
+                me._total = simpleSocketHelpers.isNullOrUndefined(reply.total) ? null : reply.total;
+
+                if (me._isAborted) {
+                    me.closeRemote();
+                }
+
+                me.emit('open',
+                        reply.streamId, reply.size);
+
+                return reply.streamId;
+            });
+        }
+
+        return me._opening;
+    }
+
+    /**
+     * Gets the number of bytes that can be read (available after the stream has been opened).
+     */
+    public get size(): number {
+        return this._size;
+    }
+
+    /** @inheritdoc */
+    public get total(): number {
+        return this._total;
+    }
+}
+
+/**
+ * A stream that reads content of the library of a remote by its ID.
+ */
+export class RemoteContentStream extends RemoteReadStream {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {string} hash The content ID (SHA-256, hex), which is also used as entry ID.
+     * @param {db_contracts.IReadStreamOptions} [opts] The options.
+     */
+    constructor(conn: db_contracts.IConnection, hash: string, opts?: db_contracts.IReadStreamOptions) {
+        super(conn, simpleSocketHelpers.normalizeString(hash), opts);
+    }
+
+    /** @inheritdoc */
+    protected createOpenMessage(): db_messages.IMessage {
+        return <db_messages.IFetchMessage>{
+            type: 38,
+            end: this._options.end,
+            hash: this._entryId,
+            start: this._options.start,
+        };
+    }
+}
+
+/**
+ * A stream that writes a file to the upload directory of a remote.
+ */
+export class RemoteWriteStream extends stream.Writable implements db_contracts.IWriteStream {
+    /**
+     * Stores the channel.
+     */
+    protected _channel: db_contracts.IChannel;
+    /**
+     * Stores the maximum number of bytes that are sent at once.
+     */
+    protected _chunkSize: number;
+    /**
+     * Stores the connection.
+     */
+    protected _connection: db_contracts.IConnection;
+    /**
+     * Stores if the stream has been aborted or not.
+     */
+    protected _isAborted: boolean;
+    /**
+     * Stores the meter for the progress.
+     */
+    protected _meter: db_bandwidth.ProgressMeter;
+    /**
+     * Stores the name of the file.
+     */
+    protected _name: string;
+    /**
+     * Stores the promise of the open operation.
+     */
+    protected _opening: PromiseLike<string>;
+    /**
+     * Stores the ID of the stream on the remote side.
+     */
+    protected _streamId: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {string} name The name of the file.
+     * @param {db_contracts.IWriteStreamOptions} [opts] The options.
+     */
+    constructor(conn: db_contracts.IConnection, name: string, opts?: db_contracts.IWriteStreamOptions) {
+        if (!opts) {
+            opts = {};
+        }
+
+        let chunkSize = toChunkSize(opts.chunkSize);
+
+        super({
+            highWaterMark: chunkSize,
+        });
+
+        this._channel = conn.openChannel();
+        this._chunkSize = chunkSize;
+        this._connection = conn;
+        this._isAborted = false;
+        this._name = simpleSocketHelpers.toStringSafe(name);
+        this._meter = new db_bandwidth.ProgressMeter(this._name, 'upload');
+    }
+
+    /** @inheritdoc */
+    public _destroy(err: any, callback: (err: any) => void) {
+        this.closeRemote().then(() => {
+            callback(err);
+        });
+    }
+
+    /** @inheritdoc */
+    public _final(callback: (err?: any) => void) {
+        let me = this;
+
+        if (me._isAborted) {
+            callback();  // file has been discarded
+            return;
+        }
+
+        me.open().then((streamId) => {
+            return me._channel.request<db_messages.IOKMessage>(<db_messages.IStreamCloseMessage>{
+                type: 25,
+                commit: true,
+                streamId: streamId,
+            }).then(() => {
+                me._streamId = null;
+                me._channel.close();
+
+                callback();
+            });
+        }).then(null, (err) => {
+            callback(err);
+        });
+    }
+
+    /** @inheritdoc */
+    public _write(chunk: any, encoding: string, callback: (err?: any) => void) {
+        let me = this;
+
+        let data: Buffer = Buffer.isBuffer(chunk) ? chunk : new Buffer(chunk, encoding);
+
+        me.open().then((streamId) => {
+            // the remote confirms each part,
+            // so the stream waits for it
+            let sendNextPart = (offset: number): PromiseLike<void> => {
+                if (offset >= data.length) {
+                    return Promise.resolve();
+                }
+
+                let part = data.slice(offset, offset + me._chunkSize);
+
+                return me._channel.request<db_messages.IOKMessage>(<db_messages.IStreamWriteMessage>{
+                    type: 24,
+                    data: part.toString('base64'),
+                    streamId: streamId,
+                }).then(() => {
+                    me._connection.emit('transfer.progress',
+                                        me._meter.update(part.length));
+
+                    return sendNextPart(offset + part.length);
+                });
+            };
+
+            return sendNextPart(0);
+        }).then(() => {
+            callback();
+        }, (err) => {
+            callback(me._isAborted ? null : err);
+        });
+    }
+
+    /** @inheritdoc */
+    public abort() {
+        if (this._isAborted) {
+            return;
+        }
+        this._isAborted = true;
+
+        this.closeRemote();
+        this.end();
+    }
+
+    /**
+     * Discards the file on the remote side, if it has not been committed yet, and closes the channel.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    protected closeRemote(): PromiseLike<void> {
+        let me = this;
+
+        let streamId = me._streamId;
+        me._streamId = null;
+
+        return new Promise<void>((resolve) => {
+            let closeChannel = () => {
+                me._channel.close().then(() => {
+                    resolve();
+                }, () => {
+                    resolve();
+                });
+            };
+
+            if (!streamId) {
+                closeChannel();
+                return;
+            }
+
+            me._channel.sendMessage<db_messages.IStreamCloseMessage>({
+                type: 25,
+                commit: false,
+                streamId: streamId,
+            }).then(() => {
+                closeChannel();
+            }, () => {
+                closeChannel();
+            });
+        });
+    }
+
+    /**
+     * Opens the stream on the remote side, if not done yet.
+     * 
+     * @return {PromiseLike<string>} The promise with the ID of the stream.
+     */
+    protected open(): PromiseLike<string> {
+        let me = this;
+
+        if (!me._opening) {
+            me._opening = me._channel.request<db_messages.IStreamOpenedMessage>(<db_messages.IOpenWriteStreamMessage>{
+                type: 20,
+                name: me._name,
+            }).then((reply) => {
+                if (21 !== reply.type) {
+                    throw new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                         `Unexpected reply of type ${reply.type}!`);
+                }
+
+                me._streamId = reply.streamId;
+
+                if (me._isAborted) {
+                    me.closeRemote();
+                }
+
+                me.emit('open',
+                        reply.streamId);
+
+                return reply.streamId;
+            });
+        }
+
+        return me._opening;
+    }
+}
+
+
+/**
+ * Closes a stream that has been opened by the remote.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IStreamCloseMessage} msg The message of the remote.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function closeStream(conn: db_contracts.IConnection, msg: db_messages.IStreamCloseMessage): PromiseLike<db_messages.IMessage> {
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            let s = unregisterStream(conn, msg.streamId);
+
+            releaseStream(s, simpleSocketHelpers.toBooleanSafe(msg.commit)).then(() => {
+                completed(null, <db_messages.IOKMessage>{
+                    type: 1,
+                });
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Opens a stream that reads an entry of the library for the remote.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IOpenReadStreamMessage} msg The message of the remote.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function openReadStream(conn: db_contracts.IConnection, msg: db_messages.IOpenReadStreamMessage): PromiseLike<db_messages.IMessage> {
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            db_shares.getReadableFile(conn, msg.entryId).then((file) => {
+                if (!file) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                             `Entry '${msg.entryId}' not found!`));
+                    return;
+                }
+
+                fs.open(file, 'r', (err, fd) => {
+                    if (err) {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                                 `Entry '${msg.entryId}' not found!`));
+                        return;
+                    }
+
+                    fs.fstat(fd, (err, stats) => {
+                        let closeAndFail = (err: any) => {
+                            fs.close(fd, () => {
+                                completed(err);
+                            });
+                        };
+
+                        if (err) {
+                            closeAndFail(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                                        'Could not read file!'));
+                            return;
+                        }
+
+                        let start = simpleSocketHelpers.isNullOrUndefined(msg.start) ? 0 : msg.start;
+                        let end = simpleSocketHelpers.isNullOrUndefined(msg.end) ? (stats.size - 1) : Math.min(msg.end, stats.size - 1);
+
+                        if (start > stats.size || end < (start - 1)) {
+                            closeAndFail(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                        `Invalid range ${start} - ${msg.end} for a size of ${stats.size} bytes!`));
+                            return;
+                        }
+
+                        let s: IOpenStream = {
+                            channel: msg.channel || 0,
+                            end: end + 1,
+                            fd: fd,
+                            file: file,
+                            position: start,
+                        };
+
+                        let streamId = registerStream(conn, s);
+                        if (!streamId) {
+                            failTooManyStreams(s, completed);
+                            return;
+                        }
+
+                        completed(null, <db_messages.IStreamOpenedMessage>{
+                            type: 21,
+                            mtime: stats.mtime.getTime(),
+                            size: end + 1 - start,
+                            streamId: streamId,
+                            total: stats.size,
+                        });
+                    });
+                });
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Opens a stream that writes a file for the remote.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IOpenWriteStreamMessage} msg The message of the remote.
+ * @param {string} uploadDir The directory where the file is stored. If not defined, uploads are not allowed.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function openWriteStream(conn: db_contracts.IConnection, msg: db_messages.IOpenWriteStreamMessage,
+                                uploadDir: string): PromiseLike<db_messages.IMessage> {
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            uploadDir = simpleSocketHelpers.toStringSafe(uploadDir).trim();
+            if (!uploadDir) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                         'Uploads are not allowed!'));
+                return;
+            }
+
+            let name = path.basename(msg.name.trim());
+            if (!name || '.' === name || '..' === name) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                         'Invalid file name!'));
+                return;
+            }
+
+            let file = path.join(path.resolve(uploadDir), name);
+
+            fs.exists(file, (exists) => {
+                if (exists) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                             `File '${name}' already exists!`));
+                    return;
+                }
+
+                let tempFile = `${file}.${crypto.randomBytes(4).toString('hex')}.part`;
+
+                fs.open(tempFile, 'w', (err, fd) => {
+                    if (err) {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                                 'Could not create file!'));
+                        return;
+                    }
+
+                    let s: IOpenStream = {
+                        channel: msg.channel || 0,
+                        end: null,
+                        fd: fd,
+                        file: file,
+                        position: 0,
+                        tempFile: tempFile,
+                    };
+
+                    let streamId = registerStream(conn, s);
+                    if (!streamId) {
+                        failTooManyStreams(s, completed);
+                        return;
+                    }
+
+                    completed(null, <db_messages.IStreamOpenedMessage>{
+                        type: 21,
+                        streamId: streamId,
+                    });
+                });
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Reads a range of bytes of an entry of the library for the remote.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IReadRangeMessage} msg The message of the remote.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function readEntryRange(conn: db_contracts.IConnection, msg: db_messages.IReadRangeMessage): PromiseLike<db_messages.IMessage> {
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            if (msg.length > MAX_STREAM_CHUNK_SIZE) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                         `Cannot read more than ${MAX_STREAM_CHUNK_SIZE} bytes at once!`));
+                return;
+            }
+
+            let quota = getRemainingQuota(conn);
+            if (quota < 1) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                         'Daily quota exceeded!'));
+                return;
+            }
+
+            db_shares.getReadableFile(conn, msg.entryId).then((file) => {
+                if (!file) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                             `Entry '${msg.entryId}' not found!`));
+                    return;
+                }
+
+                fs.open(file, 'r', (err, fd) => {
+                    if (err) {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                                 `Entry '${msg.entryId}' not found!`));
+                        return;
+                    }
+
+                    let closeAndComplete = (err: any, reply?: db_messages.IRangeDataMessage) => {
+                        fs.close(fd, () => {
+                            completed(err, reply);
+                        });
+                    };
+
+                    fs.fstat(fd, (err, stats) => {
+                        if (err) {
+                            closeAndComplete(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                                            'Could not read file!'));
+                            return;
+                        }
+
+                        if (msg.offset > stats.size) {
+                            closeAndComplete(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                            `Offset ${msg.offset} is out of range (size: ${stats.size} bytes)!`));
+                            return;
+                        }
+
+                        // the range ends at the end of the file
+                        let buff = Buffer.alloc(Math.min(msg.length, stats.size - msg.offset, quota));
+
+                        let sendData = (bytesRead: number) => {
+                            addToQuota(conn, bytesRead);
+
+                            closeAndComplete(null, {
+                                type: 27,
+                                data: buff.slice(0, bytesRead).toString('base64'),
+                                offset: msg.offset,
+                                size: stats.size,
+                            });
+                        };
+
+                        if (buff.length < 1) {
+                            sendData(0);
+                            return;
+                        }
+
+                        fs.read(fd, buff, 0, buff.length, msg.offset, (err, bytesRead) => {
+                            if (err) {
+                                closeAndComplete(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                                                'Could not read file!'));
+                            }
+                            else {
+                                sendData(bytesRead);
+                            }
+                        });
+                    });
+                });
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Reads the next data of a stream for the remote.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IStreamReadMessage} msg The message of the remote.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function readFromStream(conn: db_contracts.IConnection, msg: db_messages.IStreamReadMessage): PromiseLike<db_messages.IMessage> {
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            let s = getStream(conn, msg.streamId);
+            if (!s || s.tempFile) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                         `Read stream '${msg.streamId}' not found!`));
+                return;
+            }
+
+            let quota = getRemainingQuota(conn);
+            if (quota < 1 && s.position < s.end) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                         'Daily quota exceeded!'));
+                return;
+            }
+
+            let buff = Buffer.alloc(Math.max(0, Math.min(msg.length, MAX_STREAM_CHUNK_SIZE, s.end - s.position, quota)));
+
+            let sendData = (data: Buffer) => {
+                addToQuota(conn, data.length);
+
+                s.position += data.length;
+
+                let eof = s.position >= s.end;
+
+                let reply: db_messages.IStreamDataMessage = {
+                    type: 23,
+                    data: data.toString('base64'),
+                    eof: eof,
+                };
+
+                if (eof) {
+                    unregisterStream(conn, msg.streamId);
+
+                    releaseStream(s, false).then(() => {
+                        completed(null, reply);
+                    }, () => {
+                        completed(null, reply);
+                    });
+                }
+                else {
+                    completed(null, reply);
+                }
+            };
+
+            if (buff.length < 1) {
+                sendData(buff);
+                return;
+            }
+
+            fs.read(s.fd, buff, 0, buff.length, s.position, (err, bytesRead) => {
+                if (err) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                             'Could not read file!'));
+                    return;
+                }
+
+                if (bytesRead < 1) {
+                    s.end = s.position;  // file has been truncated
+                }
+
+                sendData(buff.slice(0, bytesRead));
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Writes data to a stream for the remote.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.IStreamWriteMessage} msg The message of the remote.
+ * 
+ * @return {PromiseLike<db_messages.IMessage>} The promise with the reply.
+ */
+export function writeToStream(conn: db_contracts.IConnection, msg: db_messages.IStreamWriteMessage): PromiseLike<db_messages.IMessage> {
+    return new Promise<db_messages.IMessage>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            let s = getStream(conn, msg.streamId);
+            if (!s || !s.tempFile) {
+                completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                         `Write stream '${msg.streamId}' not found!`));
+                return;
+            }
+
+            let data = new Buffer(msg.data, 'base64');
+
+            let maxSize = getMaxUploadSize(conn);
+            if (maxSize > 0 && s.position + data.length > maxSize) {
+                // discard the file
+                unregisterStream(conn, msg.streamId);
+
+                releaseStream(s, false).then(() => {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                             `File is too big (maximum ${maxSize} bytes)!`));
+                });
+                return;
+            }
+
+            fs.write(s.fd, data, 0, data.length, s.position, (err) => {
+                if (err) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                             'Could not write file!'));
+                    return;
+                }
+
+                s.position += data.length;
+
+                completed(null, <db_messages.IOKMessage>{
+                    type: 1,
+                });
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+
+function addToQuota(conn: db_contracts.IConnection, bytes: number) {
+    if (conn.client.quota && conn.peer) {
+        conn.client.quota.add(conn.peer.fingerprint, bytes);
+    }
+}
+
+function failTooManyStreams(s: IOpenStream, completed: (err: any) => void) {
+    releaseStream(s, false).then(() => {
+        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                 'Too many open streams!'));
+    });
+}
+
+function getMaxOpenStreams(conn: db_contracts.IConnection): number {
+    let max = parseInt(simpleSocketHelpers.toStringSafe(conn.client.maxOpenStreams).trim());
+    if (isNaN(max)) {
+        max = DEFAULT_MAX_OPEN_STREAMS;
+    }
+
+    return max;
+}
+
+function getMaxUploadSize(conn: db_contracts.IConnection): number {
+    let max = parseInt(simpleSocketHelpers.toStringSafe(conn.client.maxUploadSize).trim());
+    if (isNaN(max)) {
+        max = DEFAULT_MAX_UPLOAD_SIZE;
+    }
+
+    return max;
+}
+
+function getRemainingQuota(conn: db_contracts.IConnection): number {
+    if (conn.client.quota && conn.peer) {
+        return conn.client.quota.remaining(conn.peer.fingerprint);
+    }
+
+    return Infinity;
+}
+
+function getStream(conn: db_contracts.IConnection, streamId: string): IOpenStream {
+    let streams = openStreams.get(conn);
+    if (streams && streams.hasOwnProperty(streamId)) {
+        return streams[streamId];
+    }
+
+    return null;
+}
+
+function registerStream(conn: db_contracts.IConnection, s: IOpenStream): string {
+    let streams = openStreams.get(conn);
+    if (!streams) {
+        openStreams.set(conn, streams = {});
+
+        // release all streams of
+        // a closed connection
+        conn.once('close', () => {
+            openStreams.delete(conn);
+
+            Object.keys(streams).forEach((id) => {
+                releaseStream(streams[id], false);
+            });
+        });
+
+        // ... or channel
+        conn.on('channel.close', (channel: db_contracts.IChannel) => {
+            Object.keys(streams).filter((id) => {
+                return streams[id].channel === channel.id;
+            }).forEach((id) => {
+                releaseStream(unregisterStream(conn, id), false);
+            });
+        });
+    }
+
+    let maxStreams = getMaxOpenStreams(conn);
+    if (maxStreams > 0 && Object.keys(streams).length >= maxStreams) {
+        return null;
+    }
+
+    let streamId = `${++lastStreamId}`;
+    streams[streamId] = s;
+
+    return streamId;
+}
+
+function releaseStream(s: IOpenStream, commit: boolean): PromiseLike<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (!s) {
+            resolve();
+            return;
+        }
+
+        fs.close(s.fd, () => {
+            if (!s.tempFile) {
+                resolve();  // read stream
+                return;
+            }
+
+            if (!commit) {
+                fs.unlink(s.tempFile, () => {
+                    resolve();
+                });
+                return;
+            }
+
+            fs.exists(s.file, (exists) => {
+                if (exists) {
+                    fs.unlink(s.tempFile, () => {
+                        reject(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Forbidden,
+                                                              `File '${path.basename(s.file)}' already exists!`));
+                    });
+                    return;
+                }
+
+                fs.rename(s.tempFile, s.file, (err) => {
+                    if (err) {
+                        reject(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Internal,
+                                                              'Could not save file!'));
+                    }
+                    else {
+                        resolve();
+                    }
+                });
+            });
+        });
+    });
+}
+
+function toChunkSize(val: any): number {
+    let chunkSize = parseInt(simpleSocketHelpers.toStringSafe(val).trim());
+    if (isNaN(chunkSize) || chunkSize < 1) {
+        chunkSize = db_transfer.DEFAULT_CHUNK_SIZE;
+    }
+
+    return Math.min(chunkSize, MAX_STREAM_CHUNK_SIZE);
+}
+
+function unregisterStream(conn: db_contracts.IConnection, streamId: string): IOpenStream {
+    let s = getStream(conn, streamId);
+    if (s) {
+        delete openStreams.get(conn)[streamId];
+    }
+
+    return s;
+}
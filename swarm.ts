@@ -0,0 +1,690 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as crypto from 'crypto';
+import * as db_bandwidth from './bandwidth';
+import * as db_content from './content';
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_identity from './identity';
+import * as db_transfer from './transfer';
+import * as events from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * Provides the connections, that can be used by a swarm download.
+ * 
+ * @return {db_contracts.IConnection[]} The connections.
+ */
+export type ConnectionsProvider = () => db_contracts.IConnection[];
+
+interface IAssignment {
+    peer: IPeerState;
+    piece: number;
+    stream: db_contracts.IReadStream;
+    timer: NodeJS.Timer;
+}
+
+interface IPeerState {
+    bytes: number;
+    conn: db_contracts.IConnection;
+    failures: number;
+    isDropped: boolean;
+    pieces: number;
+}
+
+/**
+ * What a peer has contributed to a swarm download.
+ */
+export interface ISwarmContribution {
+    /**
+     * The number of bytes.
+     */
+    readonly bytes: number;
+    /**
+     * The peer.
+     */
+    readonly peer: db_contracts.IPeerIdentity;
+    /**
+     * The number of pieces.
+     */
+    readonly pieces: number;
+}
+
+/**
+ * Result of a swarm download.
+ */
+export interface ISwarmDownloadResult {
+    /**
+     * The content ID (SHA-256, hex).
+     */
+    readonly hash: string;
+    /**
+     * The full path of the local file.
+     */
+    readonly path: string;
+    /**
+     * The peers, that have contributed pieces.
+     */
+    readonly peers: ISwarmContribution[];
+    /**
+     * The size of the file, in bytes.
+     */
+    readonly size: number;
+}
+
+
+/**
+ * The default number of pieces, that are requested from a peer at the same time.
+ */
+export const DEFAULT_MAX_PIECES_PER_PEER = 2;
+/**
+ * The default size of a piece, in bytes.
+ */
+export const DEFAULT_PIECE_SIZE = 1048576;
+/**
+ * The default time, in milliseconds, a peer has to deliver a piece, before it is requested from another one.
+ */
+export const DEFAULT_PIECE_TIMEOUT = 30000;
+/**
+ * The number of failed pieces after that a peer is not used anymore.
+ */
+export const MAX_PEER_FAILURES = 3;
+
+
+/**
+ * Downloads content from all connected peers, that have it, at the same time.
+ */
+export class SwarmDownload extends events.EventEmitter {
+    /**
+     * Stores the connections, that have already been asked for the content.
+     */
+    protected _askedConnections: db_contracts.IConnection[] = [];
+    /**
+     * Stores the pieces, that are currently requested.
+     */
+    protected _assignments: IAssignment[] = [];
+    /**
+     * Stores the function that completes the running download.
+     */
+    protected _completed: (err: any, result?: ISwarmDownloadResult) => void;
+    /**
+     * Stores the descriptor of the temporary file.
+     */
+    protected _fd: number;
+    /**
+     * Stores the content ID.
+     */
+    protected _hash: string;
+    /**
+     * Stores which pieces have been written.
+     */
+    protected _isDone: boolean[];
+    /**
+     * Stores the last error of a peer.
+     */
+    protected _lastError: any;
+    /**
+     * Stores the meter for the progress.
+     */
+    protected _meter: db_bandwidth.ProgressMeter;
+    /**
+     * Stores the number of peers, that are currently asked for the content.
+     */
+    protected _pendingQueries = 0;
+    /**
+     * Stores the peers, that have the content.
+     */
+    protected _peers: IPeerState[] = [];
+    /**
+     * Stores the size of a piece.
+     */
+    protected _pieceSize: number;
+    /**
+     * Stores the connection provider.
+     */
+    protected _provider: ConnectionsProvider;
+    /**
+     * Stores the pieces, that have not been requested yet.
+     */
+    protected _queue: number[];
+    /**
+     * Stores the number of pieces, that have not been written yet.
+     */
+    protected _remainingPieces: number;
+    /**
+     * Stores the promise of the running download.
+     */
+    protected _running: PromiseLike<ISwarmDownloadResult>;
+    /**
+     * Stores the size of the content.
+     */
+    protected _size: number;
+    /**
+     * Stores the path of the target file.
+     */
+    protected _target: string;
+    /**
+     * Stores the path of the temporary file, which has a random suffix, so it does not collide with other writers of the target.
+     */
+    protected _tempFile: string;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection[]|ConnectionsProvider} connections The connections or the function that provides them.
+     * @param {string} hash The content ID (SHA-256, hex).
+     * @param {number} size The size of the content, in bytes.
+     * @param {string} target The path of the target file.
+     */
+    constructor(connections: db_contracts.IConnection[] | ConnectionsProvider,
+                hash: string, size: number, target: string) {
+        super();
+
+        if ('function' === typeof connections) {
+            this._provider = <ConnectionsProvider>connections;
+        }
+        else {
+            this._provider = () => <db_contracts.IConnection[]>connections;
+        }
+
+        this._hash = simpleSocketHelpers.normalizeString(hash);
+        this._size = size;
+        this._target = path.resolve(simpleSocketHelpers.toStringSafe(target));
+        this._tempFile = `${this._target}.${crypto.randomBytes(4).toString('hex')}.part`;
+    }
+
+    /**
+     * Aborts the download.
+     */
+    public abort() {
+        this.complete(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Cancelled,
+                                                     'Download has been aborted!'));
+    }
+
+    /**
+     * Requests a piece from a peer.
+     * 
+     * @param {IPeerState} peer The peer.
+     * @param {number} piece The index of the piece.
+     */
+    protected assign(peer: IPeerState, piece: number) {
+        let me = this;
+
+        let start = piece * me._pieceSize;
+        let end = Math.min(me._size, start + me._pieceSize) - 1;
+
+        let chunks: Buffer[] = [];
+        let length = 0;
+
+        let assignment: IAssignment = {
+            peer: peer,
+            piece: piece,
+            stream: peer.conn.createContentStream(me._hash, {
+                end: end,
+                start: start,
+            }),
+            timer: null,
+        };
+
+        let timeout = parseInt(simpleSocketHelpers.toStringSafe(me.pieceTimeout).trim());
+        if (isNaN(timeout) || timeout < 1) {
+            timeout = DEFAULT_PIECE_TIMEOUT;
+        }
+
+        assignment.timer = setTimeout(() => {
+            if (me.release(assignment, true)) {
+                me.fail(peer, new db_errors.DeliveryBoyError(db_contracts.ErrorCode.Cancelled,
+                                                             `Piece ${piece} has not been delivered within ${timeout} ms!`));
+            }
+        }, timeout);
+
+        assignment.stream.on('data', (data: Buffer) => {
+            chunks.push(data);
+            length += data.length;
+        });
+        assignment.stream.once('error', (err: any) => {
+            if (me.release(assignment, false)) {
+                me.fail(peer, err);
+            }
+        });
+        assignment.stream.once('end', () => {
+            if (me._assignments.indexOf(assignment) < 0) {
+                return;  // aborted
+            }
+
+            if (length !== (end + 1 - start)) {
+                me.release(assignment, false);
+
+                me.fail(peer, new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                             `Piece ${piece} has ${length} instead of ${end + 1 - start} bytes!`));
+                return;
+            }
+
+            me._isDone[piece] = true;
+
+            // the piece is not needed from other peers anymore
+            me._assignments.filter(x => x.piece === piece).forEach((x) => {
+                me.release(x, x !== assignment);
+            });
+
+            fs.write(me._fd, Buffer.concat(chunks, length), 0, length, start, (err) => {
+                if (err) {
+                    me.complete(err);
+                    return;
+                }
+
+                peer.bytes += length;
+                ++peer.pieces;
+                --me._remainingPieces;
+
+                me.emit('piece.complete',
+                        piece, peer.conn);
+                me.emit('transfer.progress',
+                        me._meter.update(length));
+
+                me.schedule();
+            });
+        });
+
+        me._assignments.push(assignment);
+    }
+
+    /**
+     * Completes the running download.
+     * 
+     * @param {any} err The error, if failed.
+     * @param {ISwarmDownloadResult} [result] The result, if succeeded.
+     */
+    protected complete(err: any, result?: ISwarmDownloadResult) {
+        let me = this;
+
+        let completed = me._completed;
+        if (!completed) {
+            return;
+        }
+        me._completed = null;
+
+        me._assignments.slice().forEach((x) => {
+            me.release(x, true);
+        });
+
+        let fd = me._fd;
+        me._fd = null;
+
+        let closeFile = (callback: () => void) => {
+            if (simpleSocketHelpers.isNullOrUndefined(fd)) {
+                callback();
+            }
+            else {
+                fs.close(fd, () => {
+                    callback();
+                });
+            }
+        };
+
+        closeFile(() => {
+            if (err) {
+                fs.unlink(me.tempFile, () => {
+                    completed(err);
+                });
+            }
+            else {
+                completed(null, result);
+            }
+        });
+    }
+
+    /**
+     * Handles a piece, that has not been delivered by a peer.
+     * 
+     * @param {IPeerState} peer The peer.
+     * @param {any} err The error.
+     */
+    protected fail(peer: IPeerState, err: any) {
+        let me = this;
+
+        me._lastError = err;
+
+        if (!peer.isDropped && (peer.conn.isClosed || ++peer.failures >= MAX_PEER_FAILURES)) {
+            peer.isDropped = true;
+
+            me.emit('peer.dropped',
+                    peer.conn, err);
+        }
+
+        me.schedule();
+    }
+
+    /**
+     * Asks all new connections, if they have the content.
+     */
+    protected findPeers() {
+        let me = this;
+
+        let connections = (me._provider() || []).filter((x) => {
+            return x && !x.isClosed &&
+                   me._askedConnections.indexOf(x) < 0 &&
+                   (x.capabilities || []).indexOf(db_content.CAPABILITY_CONTENT) > -1;
+        });
+
+        connections.forEach((conn) => {
+            me._askedConnections.push(conn);
+            ++me._pendingQueries;
+
+            conn.have([ me._hash ]).then((hashes) => {
+                --me._pendingQueries;
+
+                if (hashes.indexOf(me._hash) > -1) {
+                    me._peers.push({
+                        bytes: 0,
+                        conn: conn,
+                        failures: 0,
+                        isDropped: false,
+                        pieces: 0,
+                    });
+
+                    me.emit('peer.found',
+                            conn);
+                }
+
+                me.schedule();
+            }, (err) => {
+                --me._pendingQueries;
+                me._lastError = err;
+
+                me.schedule();
+            });
+        });
+    }
+
+    /**
+     * Writes the verified file to the target.
+     */
+    protected finish() {
+        let me = this;
+
+        let fd = me._fd;
+        me._fd = null;
+
+        fs.close(fd, (err) => {
+            if (err) {
+                me.complete(err);
+                return;
+            }
+
+            db_transfer.hashFile(me.tempFile).then((hash) => {
+                if (hash !== me._hash) {
+                    me.complete(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                               `Received data does not match content ID '${me._hash}'!`));
+                    return;
+                }
+
+                fs.rename(me.tempFile, me._target, (err) => {
+                    if (err) {
+                        me.complete(err);
+                        return;
+                    }
+
+                    me.complete(null, {
+                        hash: me._hash,
+                        path: me._target,
+                        peers: me._peers.filter(x => x.pieces > 0).map((x) => {
+                            return {
+                                bytes: x.bytes,
+                                peer: x.conn.peer,
+                                pieces: x.pieces,
+                            };
+                        }),
+                        size: me._size,
+                    });
+                });
+            }, (err) => {
+                me.complete(err);
+            });
+        });
+    }
+
+    /**
+     * Gets the content ID.
+     */
+    public get hash(): string {
+        return this._hash;
+    }
+
+    /**
+     * Gets or sets the number of pieces, that are requested from a peer at the same time.
+     */
+    public maxPiecesPerPeer = DEFAULT_MAX_PIECES_PER_PEER;
+
+    /**
+     * Returns the next piece for a peer.
+     * 
+     * @param {IPeerState} peer The peer.
+     * 
+     * @return {number} The index of the piece or (null) if there is nothing to do.
+     */
+    protected nextPiece(peer: IPeerState): number {
+        let me = this;
+
+        if (me._queue.length > 0) {
+            return me._queue.shift();
+        }
+
+        // at the end the oldest pending pieces are also
+        // requested from idle peers, so a slow peer does not delay the download
+        let pending = me._assignments.filter((x) => {
+            return x.peer !== peer &&
+                   1 === me._assignments.filter(y => y.piece === x.piece).length;
+        })[0];
+
+        return pending ? pending.piece : null;
+    }
+
+    /**
+     * Gets or sets the size of a piece, in bytes.
+     */
+    public pieceSize = DEFAULT_PIECE_SIZE;
+
+    /**
+     * Gets or sets the time, in milliseconds, a peer has to deliver a piece, before it is requested from another one.
+     */
+    public pieceTimeout = DEFAULT_PIECE_TIMEOUT;
+
+    /**
+     * Removes an assignment and puts its piece back into the queue, if needed.
+     * 
+     * @param {IAssignment} assignment The assignment.
+     * @param {boolean} abort Abort the stream or not.
+     * 
+     * @return {boolean} Assignment was active or not.
+     */
+    protected release(assignment: IAssignment, abort: boolean): boolean {
+        let me = this;
+
+        let index = me._assignments.indexOf(assignment);
+        if (index < 0) {
+            return false;
+        }
+        me._assignments.splice(index, 1);
+
+        clearTimeout(assignment.timer);
+
+        if (abort) {
+            assignment.stream.abort();
+        }
+
+        let piece = assignment.piece;
+        if (me._isDone && !me._isDone[piece] &&
+            me._queue.indexOf(piece) < 0 && !me._assignments.some(x => x.piece === piece)) {
+            me._queue.unshift(piece);
+        }
+
+        return true;
+    }
+
+    /**
+     * Requests pieces from all peers, that have capacity.
+     */
+    protected schedule() {
+        let me = this;
+
+        if (!me._completed || simpleSocketHelpers.isNullOrUndefined(me._fd)) {
+            return;  // not running or finishing
+        }
+
+        if (me._remainingPieces < 1) {
+            me.finish();
+            return;
+        }
+
+        me.findPeers();
+
+        let maxPiecesPerPeer = parseInt(simpleSocketHelpers.toStringSafe(me.maxPiecesPerPeer).trim());
+        if (isNaN(maxPiecesPerPeer) || maxPiecesPerPeer < 1) {
+            maxPiecesPerPeer = DEFAULT_MAX_PIECES_PER_PEER;
+        }
+
+        let peers = me._peers.filter((x) => {
+            return !x.isDropped && !x.conn.isClosed;
+        });
+
+        // one piece per peer and round
+        let hasAssigned = true;
+        while (hasAssigned) {
+            hasAssigned = false;
+
+            peers.forEach((x) => {
+                if (me._assignments.filter(y => y.peer === x).length >= maxPiecesPerPeer) {
+                    return;
+                }
+
+                let piece = me.nextPiece(x);
+                if (null !== piece) {
+                    me.assign(x, piece);
+                    hasAssigned = true;
+                }
+            });
+        }
+
+        if (me._assignments.length < 1 && me._pendingQueries < 1) {
+            me.complete(me._lastError ||
+                        new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                       `No connected peer has content '${me._hash}'!`));
+        }
+    }
+
+    /**
+     * Gets the size of the content, in bytes.
+     */
+    public get size(): number {
+        return this._size;
+    }
+
+    /**
+     * Starts the download, if not done yet.
+     * 
+     * @return {PromiseLike<ISwarmDownloadResult>} The promise with the result.
+     */
+    public start(): PromiseLike<ISwarmDownloadResult> {
+        let me = this;
+
+        if (!me._running) {
+            me._running = new Promise<ISwarmDownloadResult>((resolve, reject) => {
+                let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+                try {
+                    if (!db_content.isContentId(me._hash)) {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Invalid content ID '${me._hash}'!`));
+                        return;
+                    }
+
+                    if ('number' !== typeof me._size || !isFinite(me._size) || me._size < 0 || 0 !== me._size % 1) {
+                        completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                 `Invalid size ${me._size}!`));
+                        return;
+                    }
+
+                    let pieceSize = parseInt(simpleSocketHelpers.toStringSafe(me.pieceSize).trim());
+                    if (isNaN(pieceSize) || pieceSize < 1) {
+                        pieceSize = DEFAULT_PIECE_SIZE;
+                    }
+
+                    let pieceCount = Math.ceil(me._size / pieceSize);
+
+                    me._completed = completed;
+                    me._isDone = [];
+                    me._meter = new db_bandwidth.ProgressMeter(me._hash, 'download', me._size);
+                    me._pieceSize = pieceSize;
+                    me._queue = [];
+                    me._remainingPieces = pieceCount;
+                    for (let i = 0; i < pieceCount; i++) {
+                        me._isDone.push(false);
+                        me._queue.push(i);
+                    }
+
+                    db_identity.ensureDirectory(path.dirname(me._target)).then(() => {
+                        fs.open(me.tempFile, 'w', (err, fd) => {
+                            if (err) {
+                                me.complete(err);
+                                return;
+                            }
+
+                            if (!me._completed) {
+                                // aborted
+                                fs.close(fd, () => {
+                                    fs.unlink(me.tempFile, () => { });
+                                });
+                                return;
+                            }
+
+                            me._fd = fd;
+
+                            me.schedule();
+                        });
+                    }, (err) => {
+                        me.complete(err);
+                    });
+                }
+                catch (e) {
+                    completed(e);
+                }
+            });
+        }
+
+        return me._running;
+    }
+
+    /**
+     * Gets the path of the target file.
+     */
+    public get target(): string {
+        return this._target;
+    }
+
+    /**
+     * Gets the path of the temporary file, the pieces are written to.
+     */
+    protected get tempFile(): string {
+        return this._tempFile;
+    }
+}
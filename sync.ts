@@ -0,0 +1,824 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as db_errors from './errors';
+import * as db_identity from './identity';
+import * as db_library from './library';
+import * as db_transfer from './transfer';
+import * as events from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * Provides the connection, that is used by a sync job.
+ * 
+ * @return {PromiseLike<db_contracts.IConnection>} The promise with the connection.
+ */
+export type ConnectionProvider = () => PromiseLike<db_contracts.IConnection>;
+
+/**
+ * Defines how remote and local files are compared.
+ * 
+ * 'hash': By size and content ID, if the remote provides it.
+ * 'mtime': By size and last modification time.
+ */
+export type SyncCompareMode = 'hash' | 'mtime';
+
+/**
+ * The reason of a sync action.
+ */
+export type SyncReason = 'changed' | 'new' | 'removed';
+
+interface ILocalFile {
+    file: string;
+    mtime: number;
+    size: number;
+}
+
+/**
+ * An action of a sync plan.
+ */
+export interface ISyncAction {
+    /**
+     * The remote library entry, if the file is downloaded.
+     */
+    entry?: db_contracts.ILibraryEntry;
+    /**
+     * The path relative to the target directory.
+     */
+    path: string;
+    /**
+     * The reason.
+     */
+    reason: SyncReason;
+    /**
+     * The size of the file, in bytes.
+     */
+    size: number;
+    /**
+     * The type.
+     */
+    type: 'delete' | 'download';
+}
+
+/**
+ * An action of a sync, that has failed.
+ */
+export interface ISyncError {
+    /**
+     * The error message.
+     */
+    message: string;
+    /**
+     * The path relative to the target directory.
+     */
+    path: string;
+}
+
+/**
+ * Options for a sync.
+ */
+export interface ISyncOptions {
+    /**
+     * Defines how remote and local files are compared. Default: 'mtime'
+     */
+    compare?: SyncCompareMode;
+    /**
+     * Delete local files, that do not exist in the share anymore, or not. Default: (false)
+     */
+    deleteRemoved?: boolean;
+    /**
+     * Only create the plan or not. Default: (false)
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * The report of a sync.
+ */
+export interface ISyncReport {
+    /**
+     * The planned actions.
+     */
+    actions: ISyncAction[];
+    /**
+     * The number of downloaded bytes.
+     */
+    bytes: number;
+    /**
+     * The number of deleted files.
+     */
+    deleted: number;
+    /**
+     * The number of downloaded files.
+     */
+    downloaded: number;
+    /**
+     * Only the plan has been created or not.
+     */
+    dryRun: boolean;
+    /**
+     * The actions, that have failed.
+     */
+    errors: ISyncError[];
+    /**
+     * The timestamp, in milliseconds since 1970-01-01, when the sync has been finished.
+     */
+    finished: number;
+    /**
+     * The name of the remote share.
+     */
+    share: string;
+    /**
+     * The timestamp, in milliseconds since 1970-01-01, when the sync has been started.
+     */
+    started: number;
+    /**
+     * The path of the target directory.
+     */
+    target: string;
+    /**
+     * The number of files, that are up-to-date.
+     */
+    unchanged: number;
+}
+
+
+/**
+ * The default time, in milliseconds, between two runs of a scheduled sync.
+ */
+export const DEFAULT_SYNC_INTERVAL = 900000;
+/**
+ * The maximum difference, in milliseconds, between two modification times, that are treated as equal.
+ * Some file systems store them with a precision of 2 seconds only.
+ */
+export const MTIME_TOLERANCE = 2000;
+
+
+/**
+ * Mirrors a share of a peer into a local directory (one-way).
+ */
+export class SyncJob extends events.EventEmitter {
+    /**
+     * Stores the function that provides the connection.
+     */
+    protected _provider: ConnectionProvider;
+    /**
+     * Stores the promise of the running sync.
+     */
+    protected _running: PromiseLike<ISyncReport>;
+    /**
+     * Stores the name of the remote share.
+     */
+    protected _share: string;
+    /**
+     * Stores the path of the target directory.
+     */
+    protected _target: string;
+    /**
+     * Stores the timer of the schedule.
+     */
+    protected _timer: NodeJS.Timer;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_contracts.IConnection|ConnectionProvider} connection The connection or the function that provides it.
+     * @param {string} share The name of the remote share.
+     * @param {string} target The path of the target directory.
+     */
+    constructor(connection: db_contracts.IConnection | ConnectionProvider,
+                share: string, target: string) {
+        super();
+
+        if ('function' === typeof connection) {
+            this._provider = <ConnectionProvider>connection;
+        }
+        else {
+            this._provider = () => Promise.resolve(<db_contracts.IConnection>connection);
+        }
+
+        this._share = simpleSocketHelpers.toStringSafe(share).trim();
+        this._target = path.resolve(simpleSocketHelpers.toStringSafe(target));
+    }
+
+    /**
+     * Gets or sets how remote and local files are compared.
+     */
+    public compare: SyncCompareMode = 'mtime';
+
+    /**
+     * Creates the plan.
+     * 
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {ISyncReport} report The report to update.
+     * 
+     * @return {PromiseLike<ISyncAction[]>} The promise with the actions.
+     */
+    protected createPlan(conn: db_contracts.IConnection, report: ISyncReport): PromiseLike<ISyncAction[]> {
+        let me = this;
+
+        let compareByHash = 'hash' === me.compare;
+        let deleteRemoved = !!me.deleteRemoved;
+
+        return new Promise<ISyncAction[]>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                Promise.all<any>([ listRemoteFiles(conn, me.share),
+                                   listLocalFiles(me.target) ]).then((results) => {
+                    let remoteFiles: { [path: string]: db_contracts.ILibraryEntry } = results[0];
+                    let localFiles: { [path: string]: ILocalFile } = results[1];
+
+                    let actions: ISyncAction[] = [];
+
+                    let remotePaths = Object.keys(remoteFiles).sort();
+
+                    let compareNext = () => {
+                        if (remotePaths.length < 1) {
+                            if (deleteRemoved) {
+                                Object.keys(localFiles).sort().filter(x => !remoteFiles[x]).forEach((x) => {
+                                    actions.push({
+                                        path: x,
+                                        reason: 'removed',
+                                        size: localFiles[x].size,
+                                        type: 'delete',
+                                    });
+                                });
+                            }
+
+                            completed(null, actions);
+                            return;
+                        }
+
+                        let relativePath = remotePaths.shift();
+                        let entry = remoteFiles[relativePath];
+                        let localFile = localFiles[relativePath];
+
+                        let addDownload = (reason: SyncReason) => {
+                            actions.push({
+                                entry: entry,
+                                path: relativePath,
+                                reason: reason,
+                                size: entry.size,
+                                type: 'download',
+                            });
+
+                            compareNext();
+                        };
+
+                        if (!localFile) {
+                            addDownload('new');
+                            return;
+                        }
+
+                        if (localFile.size !== entry.size) {
+                            addDownload('changed');
+                            return;
+                        }
+
+                        if (compareByHash && entry.hash) {
+                            db_transfer.hashFile(localFile.file).then((hash) => {
+                                if (hash === entry.hash) {
+                                    ++report.unchanged;
+
+                                    compareNext();
+                                }
+                                else {
+                                    addDownload('changed');
+                                }
+                            }, () => {
+                                addDownload('changed');
+                            });
+                            return;
+                        }
+
+                        if (Math.abs(localFile.mtime - entry.mtime) > MTIME_TOLERANCE) {
+                            addDownload('changed');
+                            return;
+                        }
+
+                        ++report.unchanged;
+
+                        compareNext();
+                    };
+
+                    compareNext();
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets or sets if local files, that do not exist in the share anymore, should be deleted or not.
+     */
+    public deleteRemoved = false;
+
+    /**
+     * Deletes a local file and its empty parent directories.
+     * 
+     * @param {ISyncAction} action The action.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    protected deleteFile(action: ISyncAction): PromiseLike<void> {
+        let me = this;
+
+        return new Promise<void>((resolve, reject) => {
+            let file = me.toLocalFile(action.path);
+
+            fs.unlink(file, (err) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                let removeEmptyDirectory = (dir: string) => {
+                    if (dir === me.target || 0 !== dir.indexOf(me.target + path.sep)) {
+                        resolve();
+                        return;
+                    }
+
+                    fs.rmdir(dir, (err) => {
+                        if (err) {
+                            resolve();  // not empty
+                        }
+                        else {
+                            removeEmptyDirectory(path.dirname(dir));
+                        }
+                    });
+                };
+
+                removeEmptyDirectory(path.dirname(file));
+            });
+        });
+    }
+
+    /**
+     * Downloads a file to a temporary file and replaces the local one with it.
+     * 
+     * @param {db_contracts.IConnection} conn The connection.
+     * @param {ISyncAction} action The action.
+     * 
+     * @return {PromiseLike<void>} The promise.
+     */
+    protected downloadFile(conn: db_contracts.IConnection, action: ISyncAction): PromiseLike<void> {
+        let me = this;
+
+        return new Promise<void>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let file = me.toLocalFile(action.path);
+                let entry = action.entry;
+
+                // hidden, so it is ignored by the next scan
+                let tempFile = path.join(path.dirname(file),
+                                         '.' + path.basename(file) + '.sync');
+
+                let fail = (err: any) => {
+                    fs.unlink(tempFile, () => {
+                        completed(err);
+                    });
+                };
+
+                db_identity.ensureDirectory(path.dirname(file)).then(() => {
+                    let isFailed = false;
+
+                    let stream = conn.createReadStream(entry.id);
+                    let output = fs.createWriteStream(tempFile);
+
+                    stream.once('error', (err: any) => {
+                        isFailed = true;
+
+                        stream.unpipe(output);
+                        output.end();
+
+                        fail(err);
+                    });
+
+                    output.once('error', (err: any) => {
+                        isFailed = true;
+
+                        stream.abort();
+
+                        fail(err);
+                    });
+                    output.once('close', () => {
+                        if (isFailed) {
+                            return;
+                        }
+
+                        let verify: PromiseLike<boolean>;
+                        if (entry.hash) {
+                            verify = db_transfer.hashFile(tempFile).then((hash) => {
+                                return hash === entry.hash;
+                            });
+                        }
+                        else {
+                            verify = Promise.resolve(true);
+                        }
+
+                        verify.then((isValid) => {
+                            if (!isValid) {
+                                fail(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.InvalidPayload,
+                                                                    `Received data does not match content ID '${entry.hash}'!`));
+                                return;
+                            }
+
+                            // keep the remote time, so the file is not downloaded again
+                            let mtime = entry.mtime / 1000;
+
+                            fs.utimes(tempFile, mtime, mtime, (err) => {
+                                if (err) {
+                                    fail(err);
+                                    return;
+                                }
+
+                                fs.rename(tempFile, file, (err) => {
+                                    if (err) {
+                                        fail(err);
+                                    }
+                                    else {
+                                        completed(null);
+                                    }
+                                });
+                            });
+                        }, (err) => {
+                            fail(err);
+                        });
+                    });
+
+                    stream.pipe(output);
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets or sets if only the plan should be created or not.
+     */
+    public dryRun = false;
+
+    /**
+     * Gets or sets the time, in milliseconds, between two runs of a scheduled sync.
+     */
+    public interval = DEFAULT_SYNC_INTERVAL;
+
+    /**
+     * Gets if the sync is scheduled or not.
+     */
+    public get isScheduled(): boolean {
+        return !!this._timer;
+    }
+
+    /**
+     * Runs the sync. If it is already running, the promise of the current run is returned.
+     * 
+     * @return {PromiseLike<ISyncReport>} The promise with the report.
+     */
+    public run(): PromiseLike<ISyncReport> {
+        let me = this;
+
+        if (me._running) {
+            return me._running;
+        }
+
+        me._running = new Promise<ISyncReport>((resolve, reject) => {
+            let report: ISyncReport = {
+                actions: [],
+                bytes: 0,
+                deleted: 0,
+                downloaded: 0,
+                dryRun: !!me.dryRun,
+                errors: [],
+                finished: null,
+                share: me.share,
+                started: Date.now(),
+                target: me.target,
+                unchanged: 0,
+            };
+
+            let completed = (err: any) => {
+                me._running = null;
+
+                report.finished = Date.now();
+
+                if (err) {
+                    me.emit('sync.failed',
+                            err);
+
+                    reject(err);
+                }
+                else {
+                    me.emit('sync.completed',
+                            report);
+
+                    resolve(report);
+                }
+            };
+
+            me.emit('sync.started');
+
+            try {
+                me._provider().then((conn) => {
+                    me.createPlan(conn, report).then((actions) => {
+                        report.actions = actions;
+
+                        if (report.dryRun) {
+                            completed(null);
+                            return;
+                        }
+
+                        let remainingActions = actions.slice();
+
+                        let executeNext = () => {
+                            if (remainingActions.length < 1) {
+                                completed(null);
+                                return;
+                            }
+
+                            let action = remainingActions.shift();
+
+                            let execute: PromiseLike<void>;
+                            if ('delete' === action.type) {
+                                execute = me.deleteFile(action);
+                            }
+                            else {
+                                execute = me.downloadFile(conn, action);
+                            }
+
+                            execute.then(() => {
+                                if ('delete' === action.type) {
+                                    ++report.deleted;
+                                }
+                                else {
+                                    ++report.downloaded;
+                                    report.bytes += action.size;
+                                }
+
+                                me.emit('sync.action',
+                                        action);
+
+                                executeNext();
+                            }, (err) => {
+                                report.errors.push({
+                                    message: simpleSocketHelpers.toStringSafe(err && err.message ? err.message : err),
+                                    path: action.path,
+                                });
+
+                                me.emit('sync.action',
+                                        action, err);
+
+                                executeNext();
+                            });
+                        };
+
+                        executeNext();
+                    }, (err) => {
+                        completed(err);
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+
+        return me._running;
+    }
+
+    /**
+     * Gets the name of the remote share.
+     */
+    public get share(): string {
+        return this._share;
+    }
+
+    /**
+     * Runs the sync now and then every 'interval' milliseconds, until 'stop()' is called.
+     * 
+     * @return {boolean} Has been scheduled or not.
+     */
+    public start(): boolean {
+        let me = this;
+
+        if (me._timer) {
+            return false;
+        }
+
+        let interval = parseInt(simpleSocketHelpers.toStringSafe(me.interval).trim());
+        if (isNaN(interval) || interval < 1) {
+            interval = DEFAULT_SYNC_INTERVAL;
+        }
+
+        let runNext = () => {
+            let scheduleNext = () => {
+                if (me._timer) {
+                    me._timer = setTimeout(runNext, interval);
+                }
+            };
+
+            // errors are emitted as 'sync.failed'
+            me.run().then(scheduleNext, scheduleNext);
+        };
+
+        me._timer = setTimeout(runNext, 0);
+
+        return true;
+    }
+
+    /**
+     * Stops the schedule. A running sync is finished.
+     * 
+     * @return {boolean} Has been stopped or not.
+     */
+    public stop(): boolean {
+        let me = this;
+
+        if (!me._timer) {
+            return false;
+        }
+
+        clearTimeout(me._timer);
+        me._timer = null;
+
+        return true;
+    }
+
+    /**
+     * Gets the path of the target directory.
+     */
+    public get target(): string {
+        return this._target;
+    }
+
+    /**
+     * Returns the full local path of a file.
+     * 
+     * @param {string} relativePath The path relative to the target directory.
+     * 
+     * @return {string} The full path.
+     */
+    protected toLocalFile(relativePath: string): string {
+        return path.join(this.target, relativePath);
+    }
+}
+
+
+function listLocalFiles(dir: string): PromiseLike<{ [path: string]: ILocalFile }> {
+    let files: { [path: string]: ILocalFile } = {};
+
+    let scanDirectory = (dir: string, relativeDir: string): PromiseLike<void> => {
+        return new Promise<void>((resolve, reject) => {
+            fs.readdir(dir, (err, names) => {
+                if (err) {
+                    if ('ENOENT' === err.code && !relativeDir) {
+                        resolve();  // nothing synced yet
+                    }
+                    else {
+                        reject(err);
+                    }
+                    return;
+                }
+
+                // ignore hidden files and directories
+                names = names.filter(x => 0 !== x.indexOf('.'));
+
+                let scanNext = () => {
+                    if (names.length < 1) {
+                        resolve();
+                        return;
+                    }
+
+                    let name = names.shift();
+                    let file = path.join(dir, name);
+                    let relativePath = relativeDir ? (relativeDir + '/' + name) : name;
+
+                    fs.stat(file, (err, stats) => {
+                        if (err) {
+                            reject(err);
+                            return;
+                        }
+
+                        if (stats.isDirectory()) {
+                            scanDirectory(file, relativePath).then(() => {
+                                scanNext();
+                            }, (err) => {
+                                reject(err);
+                            });
+                            return;
+                        }
+
+                        if (stats.isFile()) {
+                            files[relativePath] = {
+                                file: file,
+                                mtime: stats.mtime.getTime(),
+                                size: stats.size,
+                            };
+                        }
+
+                        scanNext();
+                    });
+                };
+
+                scanNext();
+            });
+        });
+    };
+
+    return scanDirectory(dir, '').then(() => {
+        return files;
+    });
+}
+
+function listRemoteFiles(conn: db_contracts.IConnection, share: string): PromiseLike<{ [path: string]: db_contracts.ILibraryEntry }> {
+    return new Promise<{ [path: string]: db_contracts.ILibraryEntry }>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            conn.listShares().then((shares) => {
+                // never treat a missing share as an empty one,
+                // otherwise all local files would be deleted
+                let info = shares.filter(x => x.name === share)[0];
+                if (!info || info.isLocked) {
+                    completed(new db_errors.DeliveryBoyError(db_contracts.ErrorCode.NotFound,
+                                                             `Share '${share}' not available!`));
+                    return;
+                }
+
+                let files: { [path: string]: db_contracts.ILibraryEntry } = {};
+                let prefix = share + '/';
+
+                let listNext = (offset: number) => {
+                    conn.listLibrary(offset, db_library.MAX_PAGE_SIZE).then((page) => {
+                        page.entries.forEach((x) => {
+                            if (0 !== x.path.indexOf(prefix)) {
+                                return;
+                            }
+
+                            let relativePath = x.path.substr(prefix.length);
+
+                            // do not write outside the target directory
+                            let isValid = relativePath.split('/').every((y) => {
+                                return '' !== y && '.' !== y && '..' !== y &&
+                                       y.indexOf('\\') < 0;
+                            });
+
+                            if (isValid) {
+                                files[relativePath] = x;
+                            }
+                        });
+
+                        let nextOffset = page.offset + page.entries.length;
+                        if (page.entries.length < 1 || nextOffset >= page.total) {
+                            completed(null, files);
+                        }
+                        else {
+                            listNext(nextOffset);
+                        }
+                    }, (err) => {
+                        completed(err);
+                    });
+                };
+
+                listNext(0);
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
@@ -0,0 +1,156 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_bandwidth from '../bandwidth';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('bandwidth', () => {
+    describe('TokenBucket', () => {
+        it('should wait until the bytes are available', () => {
+            let bucket = new db_bandwidth.TokenBucket(100000);
+            let start = Date.now();
+
+            return bucket.consume(50000).then(() => {
+                assert.ok(Date.now() - start >= 450);
+            });
+        });
+
+        it('should not wait, if unlimited', () => {
+            let bucket = new db_bandwidth.TokenBucket();
+            let start = Date.now();
+
+            return bucket.consume(100000000).then(() => {
+                assert.ok(Date.now() - start < 100);
+            });
+        });
+    });
+
+    describe('DailyQuota', () => {
+        it('should count the bytes per key', () => {
+            let quota = new db_bandwidth.DailyQuota();
+            quota.limit = 1000;
+
+            quota.add('Peer1', 600);
+
+            assert.equal(quota.remaining('peer1'), 400);
+            assert.equal(quota.remaining('peer2'), 1000);
+
+            quota.add('peer1', 600);
+
+            assert.equal(quota.remaining('peer1'), 0);
+        });
+
+        it('should be unlimited without a limit', () => {
+            let quota = new db_bandwidth.DailyQuota();
+            quota.add('peer1', 600);
+
+            assert.equal(quota.remaining('peer1'), Infinity);
+        });
+    });
+
+    describe('connection', () => {
+        let client: db_index.DeliveryBoy;
+        let conn: db_contracts.IConnection;
+        let content: Buffer;
+        let dir: string;
+        let entryId: string;
+        let server: db_index.DeliveryBoy;
+
+        beforeEach(() => {
+            dir = helpers.createTempDir();
+
+            fs.mkdirSync(path.join(dir, 'share'));
+
+            content = crypto.randomBytes(200 * 1024);
+            fs.writeFileSync(path.join(dir, 'share', 'file.bin'), content);
+
+            let transport = new db_transport.MemoryTransport();
+
+            return helpers.createInstance(dir, 'server', transport).then((instance) => {
+                server = instance;
+                server.port = 1;
+                server.shares = [ path.join(dir, 'share') ];
+
+                return helpers.createInstance(dir, 'client', transport);
+            }).then((instance) => {
+                client = instance;
+
+                return server.start();
+            }).then(() => {
+                return client.connect('server', 1);
+            }).then((newConn) => {
+                conn = newConn;
+
+                return conn.listLibrary();
+            }).then((page) => {
+                entryId = page.entries[0].id;
+            });
+        });
+
+        afterEach(() => {
+            return client.stop().then(() => {
+                return server.stop();
+            }).then(() => {
+                helpers.removeDir(dir);
+            });
+        });
+
+        it('should limit the upload rate and report the progress', () => {
+            server.uploadLimit = 100 * 1024;  // the bucket allows a burst of one second
+
+            let progress: db_contracts.ITransferProgress[] = [];
+            client.on('transfer.progress', (p: db_contracts.ITransferProgress) => {
+                progress.push(p);
+            });
+
+            let start = Date.now();
+
+            return helpers.readToEnd(conn.createReadStream(entryId, { chunkSize: 32 * 1024 })).then((data) => {
+                assert.ok(data.equals(content));
+                assert.ok(Date.now() - start >= 1000);
+
+                let last = progress[progress.length - 1];
+                assert.equal(last.bytes, content.length);
+                assert.equal(last.direction, 'download');
+                assert.equal(last.total, content.length);
+            });
+        });
+
+        it('should stop serving a peer, that has exceeded its daily quota', () => {
+            server.dailyQuota = 1000;
+
+            return conn.readRange(entryId, 0, 1000).then((data) => {
+                assert.ok(data.equals(content.slice(0, 1000)));
+
+                return conn.readRange(entryId, 1000, 10);
+            }).then(() => {
+                assert.fail(null, null, 'The read should have been rejected!', null);
+            }, (err) => {
+                assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+            });
+        });
+    });
+});
@@ -0,0 +1,134 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as db_connection from '../connection';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as helpers from './helpers';
+
+
+describe('channels', () => {
+    let client: db_index.DeliveryBoy;
+    let conn: db_contracts.IConnection;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+
+            // answers after some time
+            server.handle(100, () => {
+                return helpers.sleep(100).then(() => {
+                    return {
+                        type: 1,
+                    };
+                });
+            });
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        }).then(() => {
+            return client.connect('server', 1);
+        }).then((newConn) => {
+            conn = newConn;
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    it('should open channels with odd IDs on the client side', () => {
+        let first = conn.openChannel();
+        let second = conn.openChannel();
+
+        assert.equal(first.id % 2, 1);
+        assert.equal(second.id, first.id + 2);
+        assert.equal(conn.channels.length, 2);
+    });
+
+    it('should handle requests of several channels', () => {
+        let channels = [ conn.openChannel(), conn.openChannel(), conn.openChannel() ];
+
+        return Promise.all(channels.map(x => x.request({ type: 100 }))).then((replies) => {
+            replies.forEach((x) => {
+                assert.equal(x.type, 1);
+            });
+        });
+    });
+
+    it('should cancel the pending requests of a closed channel', () => {
+        let channel = conn.openChannel();
+
+        let pending = channel.request({ type: 100 });
+        channel.close();
+
+        return pending.then(() => {
+            assert.fail(null, null, 'The request should have been cancelled!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Cancelled);
+            assert.equal(conn.channels.length, 0);
+        });
+    });
+
+    it('should reject a channel ID of the wrong side', () => {
+        return conn.request({
+            type: 100,
+            channel: 2,  // IDs of the server are even
+        }).then(() => {
+            assert.fail(null, null, 'The request should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.InvalidPayload);
+        });
+    });
+
+    it('should limit the number of channels, a remote can open', () => {
+        let channels: db_contracts.IChannel[] = [];
+        for (let i = 0; i <= db_connection.MAX_REMOTE_CHANNELS; i++) {
+            channels.push(conn.openChannel());
+        }
+
+        return Promise.all(channels.map((x) => {
+            return x.request({ type: 100 }).then(() => {
+                return null;
+            }, (err) => {
+                return err;
+            });
+        })).then((errors) => {
+            let rejected = errors.filter(x => x);
+
+            assert.equal(rejected.length, 1);
+            assert.equal(rejected[0].code, db_contracts.ErrorCode.Forbidden);
+        });
+    });
+});
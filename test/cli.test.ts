@@ -0,0 +1,170 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_cli from '../cli';
+import * as db_identity from '../identity';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+const TEST_PORT = 24379;
+
+
+describe('cli', () => {
+    describe('parseCommandLine()', () => {
+        it('should separate arguments and options', () => {
+            let cmdLine = db_cli.parseCommandLine([ 'get', '--port', '1234', 'host', '--json', '--name=Test', 'entry' ]);
+
+            assert.deepEqual(cmdLine.args, [ 'get', 'host', 'entry' ]);
+            assert.deepEqual(cmdLine.options, {
+                json: true,
+                name: 'Test',
+                port: '1234',
+            });
+        });
+
+        it('should collect repeated unlocks', () => {
+            let cmdLine = db_cli.parseCommandLine([ 'ls', 'host', '--unlock', 'a:pwd', '--unlock', 'b' ]);
+
+            assert.deepEqual(cmdLine.options['unlock'], [ 'a:pwd', 'b' ]);
+        });
+
+        it('should take everything after -- as arguments', () => {
+            let cmdLine = db_cli.parseCommandLine([ 'put', 'host', '--', '--file' ]);
+
+            assert.deepEqual(cmdLine.args, [ 'put', 'host', '--file' ]);
+            assert.deepEqual(cmdLine.options, {});
+        });
+    });
+
+    describe('run()', () => {
+        let content: Buffer;
+        let dir: string;
+        let server: db_index.DeliveryBoy;
+
+        beforeEach(() => {
+            dir = helpers.createTempDir();
+
+            fs.mkdirSync(path.join(dir, 'share'));
+            fs.mkdirSync(path.join(dir, 'upload'));
+
+            content = crypto.randomBytes(100 * 1024);
+            fs.writeFileSync(path.join(dir, 'share', 'file.bin'), content);
+            fs.writeFileSync(path.join(dir, 'local.bin'), content);
+
+            return helpers.createInstance(dir, 'server', new db_transport.MemoryTransport()).then((instance) => {
+                server = instance;
+                server.port = TEST_PORT;
+                server.shares = [ path.join(dir, 'share') ];
+                server.transport = new db_transport.TcpTransport();
+                server.uploadDir = path.join(dir, 'upload');
+
+                return db_identity.loadIdentity(path.join(dir, 'cli.pem'), helpers.TEST_KEY_SIZE);
+            }).then(() => {
+                return server.start();
+            });
+        });
+
+        afterEach(() => {
+            return server.stop().then(() => {
+                helpers.removeDir(dir);
+            });
+        });
+
+        // runs the tool and returns the exit code and the output
+        let run = (...args: string[]): PromiseLike<[ number, string ]> => {
+            let stdout = '';
+
+            let oldStdoutWrite = process.stdout.write;
+            let oldStderrWrite = process.stderr.write;
+            let restore = () => {
+                process.stdout.write = oldStdoutWrite;
+                process.stderr.write = oldStderrWrite;
+            };
+
+            process.stdout.write = <any>((chunk: any) => {
+                stdout += chunk;
+                return true;
+            });
+            process.stderr.write = <any>(() => true);
+
+            return db_cli.run(args.concat([ '--identity', path.join(dir, 'cli.pem'),
+                                            '--known-peers', path.join(dir, 'cli.peers.json'),
+                                            '--json' ])).then((exitCode) => {
+                restore();
+
+                return <[ number, string ]>[ exitCode, stdout ];
+            }, (err) => {
+                restore();
+
+                throw err;
+            });
+        };
+
+        it('should fail with an unknown command or missing arguments', () => {
+            return run('unknown').then((result) => {
+                assert.equal(result[0], db_cli.EXIT_USAGE);
+
+                return run('get', `127.0.0.1:${TEST_PORT}`);
+            }).then((result) => {
+                assert.equal(result[0], db_cli.EXIT_USAGE);
+            });
+        });
+
+        it('should list the library of a remote', () => {
+            return run('ls', `127.0.0.1:${TEST_PORT}`).then((result) => {
+                assert.equal(result[0], db_cli.EXIT_SUCCESS);
+
+                let entries: any[] = JSON.parse(result[1]);
+                assert.deepEqual(entries.map(x => x.path), [ 'share/file.bin' ]);
+            });
+        });
+
+        it('should download an entry by its path', () => {
+            return run('get', `127.0.0.1:${TEST_PORT}`, 'share/file.bin', path.join(dir, 'downloaded.bin')).then((result) => {
+                assert.equal(result[0], db_cli.EXIT_SUCCESS);
+                assert.ok(fs.readFileSync(path.join(dir, 'downloaded.bin')).equals(content));
+            });
+        });
+
+        it('should upload a file', () => {
+            return run('put', `127.0.0.1:${TEST_PORT}`, path.join(dir, 'local.bin')).then((result) => {
+                assert.equal(result[0], db_cli.EXIT_SUCCESS);
+                assert.ok(fs.readFileSync(path.join(dir, 'upload', 'local.bin')).equals(content));
+            });
+        });
+
+        it('should discard a failed upload on the remote', () => {
+            server.maxUploadSize = 1024;
+
+            return run('put', `127.0.0.1:${TEST_PORT}`, path.join(dir, 'local.bin')).then((result) => {
+                assert.equal(result[0], db_cli.EXIT_FAILURE);
+                assert.equal(result[1], '');
+
+                return helpers.sleep(200);
+            }).then(() => {
+                assert.deepEqual(fs.readdirSync(path.join(dir, 'upload')), []);
+            });
+        });
+    });
+});
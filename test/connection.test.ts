@@ -0,0 +1,185 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_messages from '../messages';
+import * as db_transport from '../transport';
+import * as helpers from './helpers';
+
+
+interface IEchoMessage extends db_messages.IMessage {
+    value: number;
+}
+
+
+describe('connection', () => {
+    let client: db_index.DeliveryBoy;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+    let transport: db_transport.MemoryTransport;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    it('should connect and verify the key of the remote', () => {
+        return Promise.all([ client.connect('server', 1), server.getIdentity(), helpers.waitFor(server, 'listen.accepted') ]).then((results) => {
+            let conn = <db_contracts.IConnection>results[0];
+            let identity = results[1];
+
+            assert.equal(conn.peer.fingerprint, identity.fingerprint);
+            assert.equal(client.connectionCount, 1);
+            assert.equal(server.connectionCount, 1);
+        });
+    });
+
+    it('should not connect, if the client rejects the remote', () => {
+        client.remoteValidator = () => false;
+
+        return client.connect('server', 1).then((conn) => {
+            assert.equal(conn, null);
+            assert.equal(client.connectionCount, 0);
+        });
+    });
+
+    it('should not serve a peer, that has been rejected by the server', () => {
+        let handled = 0;
+
+        server.remoteValidator = () => false;
+        server.handle(100, () => {
+            ++handled;
+        });
+
+        return Promise.all([ client.connect('server', 1), helpers.waitFor(server, 'listen.reject') ]).then((results) => {
+            let conn = <db_contracts.IConnection>results[0];
+
+            return conn.sendMessage({
+                type: 100,
+            }).then(() => { }, () => {
+                // connection may have been closed
+            });
+        }).then(() => {
+            return helpers.sleep(100);
+        }).then(() => {
+            assert.equal(handled, 0);
+            assert.equal(server.connectionCount, 0);
+        });
+    });
+
+    it('should close the connection, if the remote sends an invalid message', () => {
+        return Promise.all([ client.connect('server', 1), helpers.waitFor(server, 'listen.accepted') ]).then((results) => {
+            let clientConn = <db_contracts.IConnection>results[0];
+            let serverConn = <db_contracts.IConnection>results[1][0];
+
+            let closed = helpers.waitFor(serverConn, 'close');
+
+            // a JSON 'null' without padding
+            return clientConn.socket.write(Buffer.concat([ new Buffer([ 0 ]), new Buffer('null', 'utf8') ])).then(() => {
+                return closed;
+            });
+        }).then(() => {
+            assert.equal(server.connectionCount, 0);
+        });
+    });
+
+    it('should close the socket of a remote, that does not make a handshake', () => {
+        server.handshakeTimeout = 200;
+
+        let failed = helpers.waitFor(server, 'error.listen');
+
+        return transport.connect('server', 1).then((socket) => {
+            // skip the hello of the server
+            let closed = socket.read().then(() => {
+                return socket.read();
+            });
+
+            return Promise.all([ failed, closed ]);
+        }).then((results) => {
+            let err = results[0][0];
+            let frame = results[1];
+
+            assert.ok(/timed out/.test(err.message));
+            assert.equal(frame, null);
+            assert.equal(server.connectionCount, 0);
+        });
+    });
+
+    it('should pass the replies of concurrent requests to their senders', () => {
+        // the replies are sent in reverse order
+        server.handle(100, (msg: IEchoMessage) => {
+            return helpers.sleep(200 - msg.value * 10).then(() => {
+                return <IEchoMessage>{
+                    type: 1,
+                    value: msg.value,
+                };
+            });
+        });
+
+        return client.connect('server', 1).then((conn) => {
+            let requests: PromiseLike<IEchoMessage>[] = [];
+            for (let i = 0; i < 20; i++) {
+                requests.push(conn.request<IEchoMessage>(<IEchoMessage>{
+                    type: 100,
+                    value: i,
+                }));
+            }
+
+            return Promise.all(requests);
+        }).then((replies) => {
+            replies.forEach((x, i) => {
+                assert.equal(x.type, 1);
+                assert.equal(x.value, i);
+            });
+        });
+    });
+
+    it('should reject a request of an unsupported type', () => {
+        return client.connect('server', 1).then((conn) => {
+            return conn.request({
+                type: 999,
+            });
+        }).then(() => {
+            assert.fail(null, null, 'The request should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.UnsupportedType);
+        });
+    });
+});
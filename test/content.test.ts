@@ -0,0 +1,202 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_content from '../content';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('content', () => {
+    let client: db_index.DeliveryBoy;
+    let content: Buffer;
+    let dir: string;
+    let hash: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        content = crypto.randomBytes(200 * 1024);
+        hash = crypto.createHash('sha256').update(content).digest('hex');
+
+        fs.mkdirSync(path.join(dir, 'share'));
+        fs.writeFileSync(path.join(dir, 'share', 'file.bin'), content);
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+            server.shares = [ path.join(dir, 'share') ];
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.library.getEntries();
+        }).then(() => {
+            return server.library.hashEntries();
+        }).then(() => {
+            return server.start();
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    it('should check content IDs', () => {
+        assert.equal(db_content.isContentId(hash), true);
+        assert.equal(db_content.isContentId(hash.toUpperCase()), false);
+        assert.equal(db_content.isContentId(hash.substr(1)), false);
+        assert.equal(db_content.isContentId(null), false);
+    });
+
+    it('should cache hashes by path, size and modification time', () => {
+        let file = path.join(dir, 'share', 'file.bin');
+        let cache = new db_content.HashCache(path.join(dir, 'test.hashes.json'));
+
+        return cache.findHash(file, content.length, 1000).then((cachedHash) => {
+            assert.strictEqual(cachedHash, null);
+
+            return cache.getHash(file, content.length, 1000);
+        }).then((newHash) => {
+            assert.equal(newHash, hash);
+
+            return cache.save();
+        }).then((isSaved) => {
+            assert.equal(isSaved, true);
+
+            let loadedCache = new db_content.HashCache(cache.file);
+
+            return Promise.all([
+                loadedCache.findHash(file, content.length, 1000),
+                loadedCache.findHash(file, content.length, 2000),
+                loadedCache.findHash(file, content.length + 1, 1000),
+            ]);
+        }).then((hashes) => {
+            assert.deepEqual(hashes, [ hash, null, null ]);
+        });
+    });
+
+    it('should report only available content', () => {
+        let unknownHash = crypto.createHash('sha256').update('unknown').digest('hex');
+
+        return client.connect('server', 1).then((conn) => {
+            return conn.have([ unknownHash, hash.toUpperCase(), hash ]);
+        }).then((hashes) => {
+            assert.deepEqual(hashes, [ hash ]);
+        });
+    });
+
+    it('should reject too many content IDs', () => {
+        let hashes: string[] = [];
+        for (let i = 0; i <= db_content.MAX_HAVE_HASHES; i++) {
+            hashes.push(hash);
+        }
+
+        return client.connect('server', 1).then((conn) => {
+            return conn.have(hashes);
+        }).then(() => {
+            assert.fail(null, null, 'Request should fail!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.InvalidPayload);
+        });
+    });
+
+    it('should fetch content from a peer', () => {
+        let target = path.join(dir, 'download', 'file.bin');
+
+        let conn: db_contracts.IConnection;
+
+        return client.connect('server', 1).then((c) => {
+            conn = c;
+
+            return client.fetch(hash, target);
+        }).then((result) => {
+            assert.equal(result.source, 'peer');
+            assert.equal(result.size, content.length);
+            assert.equal(result.peer.fingerprint, conn.peer.fingerprint);
+            assert.ok(fs.readFileSync(target).equals(content));
+
+            // does nothing, if the target is up-to-date
+            return client.fetch(hash, target);
+        }).then((result) => {
+            assert.equal(result.source, 'existing');
+        });
+    });
+
+    it('should copy content from the own library', () => {
+        let target = path.join(dir, 'copy.bin');
+
+        return server.fetch(hash, target).then((result) => {
+            assert.equal(result.source, 'library');
+            assert.strictEqual(result.peer, null);
+            assert.ok(fs.readFileSync(target).equals(content));
+        });
+    });
+
+    it('should fail with unknown or invalid content IDs', () => {
+        let unknownHash = crypto.createHash('sha256').update('unknown').digest('hex');
+
+        return client.connect('server', 1).then(() => {
+            return client.fetch(unknownHash, path.join(dir, 'unknown.bin'));
+        }).then(() => {
+            assert.fail(null, null, 'Fetch should fail!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.NotFound);
+
+            return client.fetch('invalid', path.join(dir, 'invalid.bin'));
+        }).then(() => {
+            assert.fail(null, null, 'Fetch should fail!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.InvalidPayload);
+            assert.equal(fs.existsSync(path.join(dir, 'unknown.bin')), false);
+        });
+    });
+
+    it('should reject content, that does not match its ID', () => {
+        let file = path.join(dir, 'share', 'file.bin');
+        let stats = fs.statSync(file);
+        let target = path.join(dir, 'download', 'file.bin');
+
+        // same size and modification time, so the entry keeps its old ID
+        fs.writeFileSync(file, crypto.randomBytes(content.length));
+        fs.utimesSync(file, stats.atime, stats.mtime);
+
+        return client.connect('server', 1).then(() => {
+            return client.fetch(hash, target);
+        }).then(() => {
+            assert.fail(null, null, 'Fetch should fail!', null);
+        }, (err) => {
+            assert.ok(err);
+            assert.equal(fs.existsSync(target), false);
+            assert.deepEqual(fs.readdirSync(path.dirname(target)), []);
+        });
+    });
+});
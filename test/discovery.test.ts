@@ -0,0 +1,130 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_discovery from '../discovery';
+import * as helpers from './helpers';
+
+
+class TestDiscovery extends db_discovery.Discovery {
+    constructor() {
+        super(() => Promise.resolve(null));
+    }
+
+    public receive(msg: any, address: string) {
+        let data = new Buffer(JSON.stringify(msg), 'utf8');
+
+        this.handleAnnouncement(data, {
+            address: address,
+            family: 'IPv4',
+            port: db_discovery.DEFAULT_DISCOVERY_PORT,
+        });
+    }
+}
+
+
+describe('discovery', () => {
+    let discovery: TestDiscovery;
+
+    beforeEach(() => {
+        discovery = new TestDiscovery();
+    });
+
+    let createAnnouncement = (bye?: boolean): any => {
+        return {
+            app: db_discovery.ANNOUNCEMENT_APP,
+            bye: bye,
+            fingerprint: crypto.randomBytes(32).toString('hex'),
+            name: 'peer',
+            port: 14379,
+            protocolVersion: 1,
+        };
+    };
+
+    it('should find a peer, that announces itself', () => {
+        let found: db_discovery.IDiscoveredPeer[] = [];
+        discovery.on('peer.found', (peer: db_discovery.IDiscoveredPeer) => {
+            found.push(peer);
+        });
+
+        let announcement = createAnnouncement();
+        discovery.receive(announcement, '192.168.1.10');
+        discovery.receive(announcement, '192.168.1.10');
+
+        assert.equal(found.length, 1);
+        assert.equal(discovery.peers.length, 1);
+        assert.equal(discovery.peers[0].address, '192.168.1.10');
+        assert.equal(discovery.peers[0].fingerprint, announcement.fingerprint);
+        assert.equal(discovery.peers[0].port, 14379);
+    });
+
+    it('should ignore invalid announcements', () => {
+        let otherApp = createAnnouncement();
+        otherApp.app = 'other-app';
+
+        let invalidPort = createAnnouncement();
+        invalidPort.port = 70000;
+
+        let longName = createAnnouncement();
+        longName.name = new Array(db_discovery.MAX_NAME_LENGTH + 2).join('x');
+
+        [ otherApp, invalidPort, longName, 'no object' ].forEach((x) => {
+            discovery.receive(x, '192.168.1.10');
+        });
+
+        assert.equal(discovery.peers.length, 0);
+    });
+
+    it('should accept a goodbye only from the announced address', () => {
+        let announcement = createAnnouncement();
+        discovery.receive(announcement, '192.168.1.10');
+
+        let bye = JSON.parse(JSON.stringify(announcement));
+        bye.bye = true;
+
+        discovery.receive(bye, '192.168.1.66');
+        assert.equal(discovery.peers.length, 1);
+
+        discovery.receive(bye, '192.168.1.10');
+        assert.equal(discovery.peers.length, 0);
+    });
+
+    it('should keep not more than the maximum number of peers', () => {
+        discovery.maxPeers = 3;
+
+        for (let i = 0; i < 5; i++) {
+            discovery.receive(createAnnouncement(), `192.168.1.${i + 1}`);
+        }
+
+        assert.deepEqual(discovery.peers.map(x => x.address), [ '192.168.1.1', '192.168.1.2', '192.168.1.3' ]);
+    });
+
+    it('should make room for new peers by removing the expired ones', () => {
+        discovery.expiry = 1;
+        discovery.maxPeers = 1;
+
+        discovery.receive(createAnnouncement(), '192.168.1.1');
+
+        return helpers.sleep(10).then(() => {
+            discovery.receive(createAnnouncement(), '192.168.1.2');
+
+            assert.deepEqual(discovery.peers.map(x => x.address), [ '192.168.1.2' ]);
+        });
+    });
+});
@@ -0,0 +1,169 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as db_contracts from '../contracts';
+import * as db_gateway from '../gateway';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as http from 'http';
+import * as path from 'path';
+
+
+interface IResponse {
+    body: Buffer;
+    headers: any;
+    statusCode: number;
+}
+
+
+describe('gateway', () => {
+    let client: db_index.DeliveryBoy;
+    let content: Buffer;
+    let dir: string;
+    let gateway: db_gateway.HttpGateway;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'share'));
+
+        // a PNG header
+        content = Buffer.concat([ new Buffer([ 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A ]), new Buffer(1000) ]);
+        fs.writeFileSync(path.join(dir, 'share', 'image.png'), content);
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+            server.shares = [ path.join(dir, 'share') ];
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        }).then(() => {
+            return client.connect('server', 1);
+        }).then((conn) => {
+            gateway = client.createGateway(conn.peer.fingerprint);
+            gateway.port = 0;
+
+            return gateway.start();
+        });
+    });
+
+    afterEach(() => {
+        return gateway.stop().then(() => {
+            return client.stop();
+        }).then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    let request = (urlPath: string, headers?: any, method = 'GET', target = gateway): PromiseLike<IResponse> => {
+        return new Promise<IResponse>((resolve, reject) => {
+            let req = http.request({
+                headers: headers,
+                host: '127.0.0.1',
+                method: method,
+                path: urlPath,
+                port: target.server.address().port,
+            }, (res) => {
+                helpers.readToEnd(res).then((body) => {
+                    resolve({
+                        body: body,
+                        headers: res.headers,
+                        statusCode: res.statusCode,
+                    });
+                }, (err) => {
+                    reject(err);
+                });
+            });
+
+            req.once('error', (err: any) => {
+                reject(err);
+            });
+            req.end();
+        });
+    };
+
+    let getFileUrl = (): PromiseLike<string> => {
+        return request('/index.json').then((res) => {
+            return JSON.parse(res.body.toString('utf8'))[0].url;
+        });
+    };
+
+    it('should serve an entry of the remote', () => {
+        return getFileUrl().then((fileUrl) => {
+            return request(fileUrl);
+        }).then((res) => {
+            assert.equal(res.statusCode, 200);
+            assert.equal(res.headers['content-type'], 'image/png');
+            assert.equal(res.headers['x-content-type-options'], 'nosniff');
+            assert.ok(res.body.equals(content));
+        });
+    });
+
+    it('should serve a range of an entry', () => {
+        return getFileUrl().then((fileUrl) => {
+            return request(fileUrl, { 'Range': 'bytes=4-11' });
+        }).then((res) => {
+            assert.equal(res.statusCode, 206);
+            assert.equal(res.headers['content-range'], `bytes 4-11/${content.length}`);
+            assert.ok(res.body.equals(content.slice(4, 12)));
+        });
+    });
+
+    it('should reject requests for other hosts', () => {
+        return request('/index.json', { 'Host': 'attacker.example:14380' }).then((res) => {
+            assert.equal(res.statusCode, 403);
+        });
+    });
+
+    it('should not send a MIME type of the remote, that is not trusted', () => {
+        let conn = <db_contracts.IConnection><any>{
+            isClosed: false,
+            listLibrary: () => Promise.resolve(<db_contracts.ILibraryPage>{
+                entries: [ { id: 'evil', mime: 'text/html', mtime: 0, path: 'share/evil.html', size: 5 } ],
+                offset: 0,
+                total: 1,
+            }),
+        };
+
+        let otherGateway = new db_gateway.HttpGateway(conn);
+        otherGateway.port = 0;
+
+        return otherGateway.start().then(() => {
+            return request('/files/evil/evil.html', null, 'HEAD', otherGateway).then((res) => {
+                return otherGateway.stop().then(() => {
+                    return res;
+                });
+            });
+        }).then((res) => {
+            assert.equal(res.statusCode, 200);
+            assert.equal(res.headers['content-type'], db_gateway.UNTRUSTED_MIME);
+        });
+    });
+});
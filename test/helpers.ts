@@ -0,0 +1,141 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_identity from '../identity';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+
+/**
+ * The size of the test keys, in bits, which is small for fast tests.
+ */
+export const TEST_KEY_SIZE = 1024;
+
+
+/**
+ * Creates an instance, that stores all of its files in a directory.
+ * The key is created by 'createIdentity()', if it does not exist.
+ * 
+ * @param {string} dir The directory.
+ * @param {string} name The name of the instance, which is the prefix of its files.
+ * @param {db_transport.MemoryTransport} transport The transport, that is shared by all instances of a test.
+ * 
+ * @return {PromiseLike<db_index.DeliveryBoy>} The promise with the instance.
+ */
+export function createInstance(dir: string, name: string, transport: db_transport.MemoryTransport): PromiseLike<db_index.DeliveryBoy> {
+    let client = new db_index.DeliveryBoy();
+    client.hashCacheFile = path.join(dir, `${name}.hashes.json`);
+    client.identityFile = path.join(dir, `${name}.pem`);
+    client.knownPeersFile = path.join(dir, `${name}.peers.json`);
+    client.queueFile = path.join(dir, `${name}.queue.json`);
+    client.transport = transport;
+
+    return db_identity.loadIdentity(client.identityFile, TEST_KEY_SIZE).then(() => {
+        return client;
+    });
+}
+
+/**
+ * Creates a new and empty temp directory.
+ * 
+ * @return {string} The path of the directory.
+ */
+export function createTempDir(): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), 'delivery-boy-test-'));
+}
+
+/**
+ * Reads a stream to its end.
+ * 
+ * @param {NodeJS.ReadableStream} stream The stream.
+ * 
+ * @return {PromiseLike<Buffer>} The promise with the data.
+ */
+export function readToEnd(stream: NodeJS.ReadableStream): PromiseLike<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        let chunks: Buffer[] = [];
+
+        stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+        });
+        stream.once('end', () => {
+            resolve(Buffer.concat(chunks));
+        });
+        stream.once('error', (err: any) => {
+            reject(err);
+        });
+    });
+}
+
+/**
+ * Removes a directory with all of its content.
+ * 
+ * @param {string} dir The directory.
+ */
+export function removeDir(dir: string) {
+    if (!fs.existsSync(dir)) {
+        return;
+    }
+
+    fs.readdirSync(dir).forEach((x) => {
+        let file = path.join(dir, x);
+
+        if (fs.lstatSync(file).isDirectory()) {
+            removeDir(file);
+        }
+        else {
+            fs.unlinkSync(file);
+        }
+    });
+
+    fs.rmdirSync(dir);
+}
+
+/**
+ * Waits some time.
+ * 
+ * @param {number} ms The time, in milliseconds.
+ * 
+ * @return {PromiseLike<void>} The promise.
+ */
+export function sleep(ms: number): PromiseLike<void> {
+    return new Promise<void>((resolve) => {
+        setTimeout(() => {
+            resolve();
+        }, ms);
+    });
+}
+
+/**
+ * Waits for an event.
+ * 
+ * @param {NodeJS.EventEmitter} emitter The object, that emits the event.
+ * @param {string} event The name of the event.
+ * 
+ * @return {PromiseLike<any[]>} The promise with the arguments of the event.
+ */
+export function waitFor(emitter: NodeJS.EventEmitter, event: string): PromiseLike<any[]> {
+    return new Promise<any[]>((resolve) => {
+        emitter.once(event, (...args: any[]) => {
+            resolve(args);
+        });
+    });
+}
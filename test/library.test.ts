@@ -0,0 +1,87 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('library', () => {
+    let client: db_index.DeliveryBoy;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'music'));
+        fs.mkdirSync(path.join(dir, 'music', 'album'));
+        fs.writeFileSync(path.join(dir, 'music', 'album', 'track.bin'), new Buffer([ 1, 2, 3 ]));
+        fs.writeFileSync(path.join(dir, 'music', 'cover.png'), new Buffer([ 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0, 0, 0, 0 ]));
+        fs.mkdirSync(path.join(dir, 'videos'));
+        fs.writeFileSync(path.join(dir, 'videos', 'clip.bin'), new Buffer(10));
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+            server.shares = [ path.join(dir, 'music'), path.join(dir, 'videos') ];
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    it('should list the files of all shares of the remote', () => {
+        return client.connect('server', 1).then((conn) => {
+            return conn.listLibrary();
+        }).then((page) => {
+            assert.equal(page.offset, 0);
+            assert.equal(page.total, 3);
+            assert.deepEqual(page.entries.map(x => x.path), [ 'music/album/track.bin', 'music/cover.png', 'videos/clip.bin' ]);
+            assert.deepEqual(page.entries.map(x => x.size), [ 3, 12, 10 ]);
+            assert.equal(page.entries[1].mime, 'image/png');
+        });
+    });
+
+    it('should list the library page by page', () => {
+        return client.connect('server', 1).then((conn) => {
+            return Promise.all([ conn.listLibrary(0, 2), conn.listLibrary(2, 2) ]);
+        }).then((pages) => {
+            assert.deepEqual(pages[0].entries.map(x => x.path), [ 'music/album/track.bin', 'music/cover.png' ]);
+            assert.equal(pages[0].total, 3);
+            assert.deepEqual(pages[1].entries.map(x => x.path), [ 'videos/clip.bin' ]);
+            assert.equal(pages[1].offset, 2);
+        });
+    });
+});
@@ -0,0 +1,188 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_metadata from '../metadata';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+// creates an ID3v2.3 tag from frames
+function createID3v2Tag(frames: Buffer[], size?: number): Buffer {
+    let body = Buffer.concat(frames);
+    if (arguments.length < 2) {
+        size = body.length;
+    }
+
+    let header = Buffer.from([ 0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 0 ]);
+    header[6] = (size >> 21) & 0x7F;
+    header[7] = (size >> 14) & 0x7F;
+    header[8] = (size >> 7) & 0x7F;
+    header[9] = size & 0x7F;
+
+    return Buffer.concat([ header, body ]);
+}
+
+// creates an ID3v2.3 text frame with ISO-8859-1 encoding
+function createTextFrame(id: string, text: string, size?: number): Buffer {
+    let data = Buffer.concat([ Buffer.from([ 0 ]), Buffer.from(text, 'binary') ]);
+    if (arguments.length < 3) {
+        size = data.length;
+    }
+
+    let header = Buffer.alloc(10);
+    header.write(id, 0, 4, 'binary');
+    header.writeUInt32BE(size, 4);
+
+    return Buffer.concat([ header, data ]);
+}
+
+
+describe('metadata', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+    });
+
+    afterEach(() => {
+        helpers.removeDir(dir);
+    });
+
+    // writes a fixture and reads its metadata
+    let read = (data: Buffer, mime: string) => {
+        let file = path.join(dir, 'fixture');
+        fs.writeFileSync(file, data);
+
+        return db_metadata.readMetadata(file, mime);
+    };
+
+    it('should read the frames of an ID3v2 tag', () => {
+        let tag = createID3v2Tag([
+            createTextFrame('TIT2', 'A Title'),
+            createTextFrame('TPE1', 'An Artist'),
+            createTextFrame('TRCK', '3/12'),
+            createTextFrame('TYER', '1999'),
+            createTextFrame('TLEN', '61500'),
+            createTextFrame('TCON', '(17)'),
+        ]);
+
+        return read(Buffer.concat([ tag, Buffer.alloc(1024) ]), 'audio/mpeg').then((meta) => {
+            assert.deepEqual(meta, {
+                artist: 'An Artist',
+                duration: 61.5,
+                genre: 'Rock',
+                title: 'A Title',
+                track: 3,
+                year: 1999,
+            });
+        });
+    });
+
+    it('should read an ID3v1 tag', () => {
+        let tag = Buffer.alloc(128);
+        tag.write('TAG', 0, 3, 'binary');
+        tag.write('Old Title', 3, 30, 'binary');
+        tag.write('Old Artist', 33, 30, 'binary');
+        tag[126] = 7;
+        tag[127] = 8;
+
+        return read(Buffer.concat([ Buffer.alloc(1024), tag ]), 'audio/mpeg').then((meta) => {
+            assert.equal(meta.title, 'Old Title');
+            assert.equal(meta.artist, 'Old Artist');
+            assert.equal(meta.track, 7);
+            assert.equal(meta.genre, 'Jazz');
+        });
+    });
+
+    it('should stop at a frame, that exceeds the tag', () => {
+        let tag = createID3v2Tag([
+            createTextFrame('TIT2', 'A Title'),
+            createTextFrame('TPE1', 'An Artist', 0xFFFFFFF0),
+            createTextFrame('TALB', 'An Album'),
+        ]);
+
+        return read(Buffer.concat([ tag, Buffer.alloc(1024) ]), 'audio/mpeg').then((meta) => {
+            assert.equal(meta.title, 'A Title');
+            assert.strictEqual(meta.artist, undefined);
+            assert.strictEqual(meta.album, undefined);
+        });
+    });
+
+    it('should handle a truncated file', () => {
+        // the tag claims 1 MB, but the file ends within the second frame
+        let tag = createID3v2Tag([
+            createTextFrame('TIT2', 'A Title'),
+            createTextFrame('TPE1', 'An Artist', 1000),
+        ], 1048576);
+
+        return read(tag.slice(0, tag.length - 3), 'audio/mpeg').then((meta) => {
+            assert.equal(meta.title, 'A Title');
+            assert.equal(meta.artist, 'An Art');
+
+            return read(tag.slice(0, 12), 'audio/mpeg');
+        }).then((meta) => {
+            assert.strictEqual(meta, null);
+        });
+    });
+
+    it('should read the dimensions of images', () => {
+        let png = Buffer.alloc(32);
+        Buffer.from([ 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A ]).copy(png);
+        png.writeUInt32BE(640, 16);
+        png.writeUInt32BE(480, 20);
+
+        return read(png, 'image/png').then((meta) => {
+            assert.deepEqual(meta, { height: 480, width: 640 });
+
+            return read(png.slice(0, 20), 'image/png');
+        }).then((meta) => {
+            assert.strictEqual(meta, null);
+        });
+    });
+
+    it('should return no metadata for broken or unsupported files', () => {
+        let garbage = crypto.randomBytes(4096);
+        garbage.write('ID3', 0, 3, 'binary');  // looks like a tag, but is none
+
+        let mimes = [ 'audio/m4a', 'audio/mpeg', 'audio/ogg', 'audio/x-flac', 'image/jpeg', 'video/mp4' ];
+
+        let next = (): PromiseLike<void> => {
+            let mime = mimes.shift();
+            if (!mime) {
+                return Promise.resolve();
+            }
+
+            return read(garbage, mime).then((meta) => {
+                assert.ok(null === meta || 'object' === typeof meta, mime);
+
+                return next();
+            });
+        };
+
+        return next().then(() => {
+            assert.equal(db_metadata.isSupported('text/plain'), false);
+
+            return read(garbage, 'text/plain');
+        }).then((meta) => {
+            assert.strictEqual(meta, null);
+        });
+    });
+});
@@ -0,0 +1,146 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_queue from '../queue';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('queue', () => {
+    let client: db_index.DeliveryBoy;
+    let content: Buffer;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'share'));
+        fs.mkdirSync(path.join(dir, 'download'));
+
+        content = crypto.randomBytes(600 * 1024);
+        fs.writeFileSync(path.join(dir, 'share', 'file.bin'), content);
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+            server.shares = [ path.join(dir, 'share') ];
+            server.uploadLimit = 200000;  // slow enough for pausing
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+            client.queue.retryDelay = 100;
+
+            return server.start();
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    let addDownload = (): PromiseLike<db_queue.IQueueItem> => {
+        return client.connect('server', 1).then((conn) => {
+            return conn.listLibrary();
+        }).then((page) => {
+            return client.queue.add({
+                destination: path.join(dir, 'download', 'file.bin'),
+                entryId: page.entries[0].id,
+                host: 'server',
+                port: 1,
+            });
+        });
+    };
+
+    let pauseAfterFirstBytes = (item: db_queue.IQueueItem): PromiseLike<db_queue.IQueueItem> => {
+        client.queue.start();
+
+        return helpers.sleep(1000).then(() => {
+            return client.queue.pause(item.id);
+        }).then(() => {
+            let partialSize = fs.statSync(path.join(dir, 'download', `file.bin.${item.id}.part`)).size;
+
+            assert.ok(partialSize > 0);
+            assert.ok(partialSize < content.length);
+
+            return item;
+        });
+    };
+
+    it('should resume a paused download', () => {
+        let retries = 0;
+        client.on('queue.retry', () => {
+            ++retries;
+        });
+
+        return addDownload().then((item) => {
+            return pauseAfterFirstBytes(item);
+        }).then((item) => {
+            let completed = helpers.waitFor(client, 'queue.completed');
+
+            return client.queue.resume(item.id).then(() => {
+                return completed;
+            });
+        }).then((args) => {
+            let item = <db_queue.IQueueItem>args[0];
+
+            assert.equal(item.status, 'completed');
+            assert.equal(item.size, content.length);
+            assert.equal(retries, 0);
+            assert.ok(fs.readFileSync(path.join(dir, 'download', 'file.bin')).equals(content));
+            assert.ok(!fs.existsSync(path.join(dir, 'download', `file.bin.${item.id}.part`)));
+        });
+    });
+
+    it('should start again, if the remote file has been changed', () => {
+        let retryErrors: any[] = [];
+        client.on('queue.retry', (item: db_queue.IQueueItem, err: any) => {
+            retryErrors.push(err);
+        });
+
+        return addDownload().then((item) => {
+            return pauseAfterFirstBytes(item);
+        }).then((item) => {
+            let mtime = new Date(Date.now() + 60000);
+            fs.utimesSync(path.join(dir, 'share', 'file.bin'), mtime, mtime);
+
+            let completed = helpers.waitFor(client, 'queue.completed');
+
+            return client.queue.resume(item.id).then(() => {
+                return completed;
+            });
+        }).then(() => {
+            assert.equal(retryErrors.length, 1);
+            assert.equal(retryErrors[0].code, db_contracts.ErrorCode.InvalidPayload);
+            assert.ok(fs.readFileSync(path.join(dir, 'download', 'file.bin')).equals(content));
+        });
+    });
+});
@@ -0,0 +1,113 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_streams from '../streams';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('range', () => {
+    let client: db_index.DeliveryBoy;
+    let conn: db_contracts.IConnection;
+    let content: Buffer;
+    let dir: string;
+    let entryId: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'share'));
+
+        // bigger than one part of a range
+        content = crypto.randomBytes(db_streams.MAX_STREAM_CHUNK_SIZE + 4096);
+        fs.writeFileSync(path.join(dir, 'share', 'media.bin'), content);
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+            server.shares = [ path.join(dir, 'share') ];
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        }).then(() => {
+            return client.connect('server', 1);
+        }).then((newConn) => {
+            conn = newConn;
+
+            return conn.listLibrary();
+        }).then((page) => {
+            entryId = page.entries[0].id;
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    it('should read a range inside an entry', () => {
+        return conn.readRange(entryId, 1000, 500).then((data) => {
+            assert.ok(data.equals(content.slice(1000, 1500)));
+        });
+    });
+
+    it('should end a range at the end of an entry', () => {
+        return conn.readRange(entryId, content.length - 100, 1000).then((data) => {
+            assert.ok(data.equals(content.slice(content.length - 100)));
+        });
+    });
+
+    it('should read a large range in several parts', () => {
+        return conn.readRange(entryId, 10, content.length).then((data) => {
+            assert.ok(data.equals(content.slice(10)));
+        });
+    });
+
+    it('should reject an offset behind the end of an entry', () => {
+        return conn.readRange(entryId, content.length + 1, 10).then(() => {
+            assert.fail(null, null, 'The range should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.InvalidPayload);
+        });
+    });
+
+    it('should stream a range of an entry', () => {
+        let s = conn.createReadStream(entryId, { end: 199999, start: 100000 });
+
+        return helpers.readToEnd(s).then((data) => {
+            assert.equal(s.size, 100000);
+            assert.equal(s.total, content.length);
+            assert.ok(data.equals(content.slice(100000, 200000)));
+        });
+    });
+});
@@ -0,0 +1,134 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('relay', () => {
+    let content: Buffer;
+    let dir: string;
+    let peer: db_index.DeliveryBoy;
+    let peerFingerprint: string;
+    let relay: db_index.DeliveryBoy;
+    let relayConnection: db_contracts.IConnection;
+    let requester: db_index.DeliveryBoy;
+    let requesterFingerprint: string;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'share'));
+
+        content = crypto.randomBytes(300 * 1024);
+        fs.writeFileSync(path.join(dir, 'share', 'file.bin'), content);
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'relay', transport).then((instance) => {
+            relay = instance;
+            relay.port = 1;
+
+            return helpers.createInstance(dir, 'peer', transport);
+        }).then((instance) => {
+            peer = instance;
+            peer.shares = [ path.join(dir, 'share') ];
+
+            return helpers.createInstance(dir, 'requester', transport);
+        }).then((instance) => {
+            requester = instance;
+
+            return relay.start();
+        }).then(() => {
+            return Promise.all([ requester.connect('relay', 1), peer.connect('relay', 1) ]);
+        }).then((connections) => {
+            relayConnection = connections[0];
+
+            return Promise.all([ requester.getIdentity(), peer.getIdentity() ]);
+        }).then((identities) => {
+            requesterFingerprint = identities[0].fingerprint;
+            peerFingerprint = identities[1].fingerprint;
+        });
+    });
+
+    afterEach(() => {
+        return requester.stop().then(() => {
+            return peer.stop();
+        }).then(() => {
+            return relay.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    it('should not forward sessions of peers, that are not allowed', () => {
+        return requester.connectVia(relayConnection, peerFingerprint).then(() => {
+            assert.fail(null, null, 'The session should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+            assert.equal(relay.relay.sessionCount, 0);
+        });
+    });
+
+    it('should connect peers end-to-end and close the session with the connection', () => {
+        relay.relay.allow = [ requesterFingerprint, peerFingerprint ];
+
+        let conn: db_contracts.IConnection;
+
+        return requester.connectVia(relayConnection, peerFingerprint).then((c) => {
+            conn = c;
+
+            assert.equal(conn.peer.fingerprint, peerFingerprint);
+            assert.equal(relay.relay.sessionCount, 1);
+
+            return conn.listLibrary();
+        }).then((page) => {
+            return helpers.readToEnd(conn.createReadStream(page.entries[0].id));
+        }).then((data) => {
+            assert.ok(data.equals(content));
+
+            return conn.close('done');
+        }).then(() => {
+            return helpers.sleep(200);
+        }).then(() => {
+            assert.equal(relay.relay.sessionCount, 0);
+        });
+    });
+
+    it('should close the session, if the peer has been rejected', () => {
+        relay.relay.allow = [ '*' ];
+        requester.remoteValidator = () => false;
+
+        return requester.connectVia(relayConnection, peerFingerprint).then(() => {
+            assert.fail(null, null, 'The connection should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+
+            return helpers.sleep(200);
+        }).then(() => {
+            assert.equal(relay.relay.sessionCount, 0);
+            assert.equal(requester.connectionCount, 1);  // the relay only
+        });
+    });
+});
@@ -5,7 +5,7 @@ let client1 = new deliveryBoy.DeliveryBoy();
 
 client1.on('listen.accepted', (conn: db_contracts.IConnection) => {
     conn.sendMessage({
-        type: 3,
+        type: 1,
     }).then((buff) => {
         if (buff) {
 
@@ -0,0 +1,140 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('shares', () => {
+    let client: db_index.DeliveryBoy;
+    let conn: db_contracts.IConnection;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        [ 'browse', 'friends', 'hidden', 'others', 'public', 'secret' ].forEach((x) => {
+            fs.mkdirSync(path.join(dir, x));
+            fs.writeFileSync(path.join(dir, x, 'file.bin'), new Buffer(x, 'utf8'));
+        });
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return client.getIdentity();
+        }).then((identity) => {
+            server.shares = [
+                { access: 'browse', path: path.join(dir, 'browse') },
+                { allow: [ identity.fingerprint ], path: path.join(dir, 'friends') },
+                { hidden: true, path: path.join(dir, 'hidden') },
+                { allow: [ new Array(65).join('0') ], path: path.join(dir, 'others') },
+                path.join(dir, 'public'),
+                { password: 's3cret', path: path.join(dir, 'secret') },
+            ];
+
+            return server.start();
+        }).then(() => {
+            return client.connect('server', 1);
+        }).then((newConn) => {
+            conn = newConn;
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    let listPaths = (): PromiseLike<string[]> => {
+        return conn.listLibrary().then((page) => {
+            return page.entries.map(x => x.path);
+        });
+    };
+
+    it('should list only the shares, the peer can see', () => {
+        return conn.listShares().then((shares) => {
+            assert.deepEqual(shares.map(x => x.name).sort(), [ 'browse', 'friends', 'public', 'secret' ]);
+            assert.equal(shares.filter(x => 'secret' === x.name)[0].isLocked, true);
+            assert.equal(shares.filter(x => 'browse' === x.name)[0].access, 'browse');
+        });
+    });
+
+    it('should list only the entries of allowed and unlocked shares', () => {
+        return listPaths().then((paths) => {
+            assert.deepEqual(paths, [ 'browse/file.bin', 'friends/file.bin', 'public/file.bin' ]);
+        });
+    });
+
+    it('should unlock a hidden share by its name', () => {
+        return conn.unlockShare('hidden').then(() => {
+            return listPaths();
+        }).then((paths) => {
+            assert.ok(paths.indexOf('hidden/file.bin') > -1);
+        });
+    });
+
+    it('should unlock a share only with the right password', () => {
+        return conn.unlockShare('secret', 'wrong').then(() => {
+            assert.fail(null, null, 'The share should not have been unlocked!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+
+            return conn.unlockShare('secret', 's3cret');
+        }).then(() => {
+            return listPaths();
+        }).then((paths) => {
+            assert.ok(paths.indexOf('secret/file.bin') > -1);
+        });
+    });
+
+    it('should not unlock a share of other peers', () => {
+        return conn.unlockShare('others').then(() => {
+            assert.fail(null, null, 'The share should not have been unlocked!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+        });
+    });
+
+    it('should not download entries of a share, that can only be browsed', () => {
+        return conn.listLibrary().then((page) => {
+            let entry = page.entries.filter(x => 'browse/file.bin' === x.path)[0];
+
+            return conn.readRange(entry.id, 0, 10);
+        }).then(() => {
+            assert.fail(null, null, 'The download should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+        });
+    });
+});
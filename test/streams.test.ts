@@ -0,0 +1,168 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_messages from '../messages';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('streams', () => {
+    let client: db_index.DeliveryBoy;
+    let content: Buffer;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'share'));
+        fs.mkdirSync(path.join(dir, 'upload'));
+
+        content = crypto.randomBytes(200 * 1024);
+        fs.writeFileSync(path.join(dir, 'share', 'file.bin'), content);
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+            server.shares = [ path.join(dir, 'share') ];
+            server.uploadDir = path.join(dir, 'upload');
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    let connectAndList = (): PromiseLike<[ db_contracts.IConnection, db_contracts.ILibraryEntry ]> => {
+        return client.connect('server', 1).then((conn) => {
+            return conn.listLibrary().then((page) => {
+                return <[ db_contracts.IConnection, db_contracts.ILibraryEntry ]>[ conn, page.entries[0] ];
+            });
+        });
+    };
+
+    let writeTo = (target: db_contracts.IWriteStream, data: Buffer): PromiseLike<void> => {
+        return new Promise<void>((resolve, reject) => {
+            target.once('error', (err: any) => {
+                reject(err);
+            });
+            target.once('finish', () => {
+                resolve();
+            });
+
+            target.end(data);
+        });
+    };
+
+    it('should read an entry of the remote', () => {
+        return connectAndList().then((results) => {
+            let conn = results[0];
+            let entry = results[1];
+
+            return helpers.readToEnd(conn.createReadStream(entry.id, { chunkSize: 16 * 1024 }));
+        }).then((data) => {
+            assert.ok(data.equals(content));
+        });
+    });
+
+    it('should write a file to the upload directory of the remote', () => {
+        return client.connect('server', 1).then((conn) => {
+            return writeTo(conn.createWriteStream('uploaded.bin', { chunkSize: 16 * 1024 }), content);
+        }).then(() => {
+            assert.ok(fs.readFileSync(path.join(dir, 'upload', 'uploaded.bin')).equals(content));
+            assert.deepEqual(fs.readdirSync(path.join(dir, 'upload')), [ 'uploaded.bin' ]);
+        });
+    });
+
+    it('should discard the file of an aborted write stream', () => {
+        return client.connect('server', 1).then((conn) => {
+            let target = conn.createWriteStream('aborted.bin');
+
+            let opened = helpers.waitFor(target, 'open');
+            target.write(content.slice(0, 1024));
+
+            return opened.then(() => {
+                target.abort();
+
+                return helpers.waitFor(target, 'finish');
+            });
+        }).then(() => {
+            return helpers.sleep(200);
+        }).then(() => {
+            assert.deepEqual(fs.readdirSync(path.join(dir, 'upload')), []);
+        });
+    });
+
+    it('should reject a file, that is bigger than the upload limit', () => {
+        server.maxUploadSize = 100 * 1024;
+
+        return client.connect('server', 1).then((conn) => {
+            return writeTo(conn.createWriteStream('big.bin', { chunkSize: 16 * 1024 }), content);
+        }).then(() => {
+            assert.fail(null, null, 'The upload should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+        }).then(() => {
+            assert.deepEqual(fs.readdirSync(path.join(dir, 'upload')), []);
+        });
+    });
+
+    it('should reject streams above the limit of a connection', () => {
+        server.maxOpenStreams = 2;
+
+        return connectAndList().then((results) => {
+            let conn = results[0];
+            let entry = results[1];
+
+            let openStream = () => {
+                return conn.request<db_messages.IStreamOpenedMessage>(<db_messages.IOpenReadStreamMessage>{
+                    type: 19,
+                    entryId: entry.id,
+                });
+            };
+
+            return openStream().then(() => {
+                return openStream();
+            }).then(() => {
+                return openStream();
+            });
+        }).then(() => {
+            assert.fail(null, null, 'The third stream should have been rejected!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Forbidden);
+        });
+    });
+});
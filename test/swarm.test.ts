@@ -0,0 +1,211 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+const PIECE_SIZE = 16 * 1024;
+
+
+describe('swarm', () => {
+    let client: db_index.DeliveryBoy;
+    let content: Buffer;
+    let dir: string;
+    let hash: string;
+    let servers: db_index.DeliveryBoy[];
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        content = crypto.randomBytes(200 * 1024);
+        hash = crypto.createHash('sha256').update(content).digest('hex');
+
+        fs.mkdirSync(path.join(dir, 'share'));
+        fs.writeFileSync(path.join(dir, 'share', 'concert.bin'), content);
+        fs.mkdirSync(path.join(dir, 'empty'));
+
+        let transport = new db_transport.MemoryTransport();
+
+        servers = [];
+
+        // the first two peers have the content, the third one not
+        let createServer = (name: string, port: number, share: string) => {
+            return helpers.createInstance(dir, name, transport).then((instance) => {
+                instance.port = port;
+                instance.shares = [ path.join(dir, share) ];
+
+                servers.push(instance);
+
+                return instance.library.getEntries();
+            }).then(() => {
+                return servers[port - 1].library.hashEntries();
+            });
+        };
+
+        return createServer('server1', 1, 'share').then(() => {
+            return createServer('server2', 2, 'share');
+        }).then(() => {
+            return createServer('server3', 3, 'empty');
+        }).then(() => {
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return Promise.all(servers.map(x => x.stop()));
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    // starts the servers and connects the client to them
+    let connect = () => {
+        return Promise.all(servers.map(x => x.start())).then(() => {
+            return Promise.all(servers.map((x, i) => client.connect('server', i + 1)));
+        });
+    };
+
+    it('should download the pieces from all peers, that have the content', () => {
+        let connections: db_contracts.IConnection[];
+        let target = path.join(dir, 'download', 'concert.bin');
+
+        return connect().then((conns) => {
+            connections = conns;
+
+            let download = client.createSwarmDownload(hash, content.length, target);
+            download.pieceSize = PIECE_SIZE;
+
+            return download.start();
+        }).then((result) => {
+            assert.equal(result.hash, hash);
+            assert.equal(result.path, target);
+            assert.equal(result.size, content.length);
+            assert.ok(fs.readFileSync(target).equals(content));
+            assert.deepEqual(fs.readdirSync(path.dirname(target)), [ 'concert.bin' ]);
+
+            assert.deepEqual(result.peers.map(x => x.peer.fingerprint).sort(),
+                             [ connections[0].peer.fingerprint, connections[1].peer.fingerprint ].sort());
+            assert.equal(result.peers.map(x => x.pieces).reduce((x, y) => x + y), Math.ceil(content.length / PIECE_SIZE));
+            assert.equal(result.peers.map(x => x.bytes).reduce((x, y) => x + y), content.length);
+        });
+    });
+
+    it('should not wait for a slow peer', () => {
+        let target = path.join(dir, 'concert.bin');
+
+        // a piece would take 16 seconds
+        servers[1].connectionUploadLimit = 1024;
+
+        let connections: db_contracts.IConnection[];
+        let startTime: number;
+
+        return connect().then((conns) => {
+            connections = conns;
+
+            let download = client.createSwarmDownload(hash, content.length, target);
+            download.pieceSize = PIECE_SIZE;
+            download.pieceTimeout = 300;
+
+            startTime = Date.now();
+
+            return download.start();
+        }).then((result) => {
+            assert.ok(Date.now() - startTime < 5000);
+            assert.ok(fs.readFileSync(target).equals(content));
+            assert.deepEqual(result.peers.map(x => x.peer.fingerprint), [ connections[0].peer.fingerprint ]);
+        });
+    });
+
+    it('should continue, if a peer disconnects', () => {
+        let target = path.join(dir, 'concert.bin');
+
+        return connect().then((conns) => {
+            let download = client.createSwarmDownload(hash, content.length, target);
+            download.pieceSize = PIECE_SIZE;
+            download.once('piece.complete', () => {
+                conns[1].close();
+            });
+
+            return download.start();
+        }).then((result) => {
+            assert.ok(fs.readFileSync(target).equals(content));
+        });
+    });
+
+    it('should fail, if no peer has the content', () => {
+        let target = path.join(dir, 'unknown.bin');
+        let unknownHash = crypto.createHash('sha256').update('unknown').digest('hex');
+
+        return connect().then(() => {
+            return client.createSwarmDownload(unknownHash, 1024, target).start();
+        }).then(() => {
+            assert.fail(null, null, 'Download should fail!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.NotFound);
+            assert.deepEqual(fs.readdirSync(dir).filter(x => 0 === x.indexOf('unknown.bin')), []);
+        });
+    });
+
+    it('should fail, if the content does not match the size', () => {
+        let target = path.join(dir, 'concert.bin');
+
+        return connect().then(() => {
+            let download = client.createSwarmDownload(hash, content.length + 1, target);
+            download.pieceSize = PIECE_SIZE;
+
+            return download.start();
+        }).then(() => {
+            assert.fail(null, null, 'Download should fail!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.InvalidPayload);
+            assert.deepEqual(fs.readdirSync(dir).filter(x => 0 === x.indexOf('concert.bin')), []);
+        });
+    });
+
+    it('should be abortable', () => {
+        let target = path.join(dir, 'concert.bin');
+
+        return connect().then(() => {
+            let download = client.createSwarmDownload(hash, content.length, target);
+            download.pieceSize = PIECE_SIZE;
+            download.once('piece.complete', () => {
+                download.abort();
+            });
+
+            return download.start();
+        }).then(() => {
+            assert.fail(null, null, 'Download should fail!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.Cancelled);
+
+            return helpers.sleep(100);
+        }).then(() => {
+            assert.deepEqual(fs.readdirSync(dir).filter(x => 0 === x.indexOf('concert.bin')), []);
+        });
+    });
+});
@@ -0,0 +1,221 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_sync from '../sync';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('sync', () => {
+    let client: db_index.DeliveryBoy;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+    let target: string;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+        target = path.join(dir, 'mirror');
+
+        fs.mkdirSync(path.join(dir, 'music'));
+        fs.mkdirSync(path.join(dir, 'music', 'album'));
+        fs.writeFileSync(path.join(dir, 'music', 'album', 'track1.bin'), new Buffer('Track 1'));
+        fs.writeFileSync(path.join(dir, 'music', 'album', 'track2.bin'), new Buffer('Track 2'));
+        fs.writeFileSync(path.join(dir, 'music', 'single.bin'), new Buffer('Single'));
+        fs.mkdirSync(path.join(dir, 'videos'));
+        fs.writeFileSync(path.join(dir, 'videos', 'clip.bin'), new Buffer('Clip'));
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+            server.shares = [ path.join(dir, 'music'), path.join(dir, 'videos') ];
+
+            return server.library.getEntries();
+        }).then(() => {
+            return server.library.hashEntries();
+        }).then(() => {
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    // writes a local file with the modification time of its remote counterpart
+    let writeLocalFile = (relativePath: string, data: string, remoteFile?: string) => {
+        let file = path.join(target, relativePath);
+        fs.writeFileSync(file, new Buffer(data));
+
+        if (remoteFile) {
+            let stats = fs.statSync(path.join(dir, 'music', remoteFile));
+            fs.utimesSync(file, stats.atime, stats.mtime);
+        }
+    };
+
+    it('should only create a plan in dry run mode', () => {
+        return client.connect('server', 1).then((conn) => {
+            return client.sync(conn, 'music', target, { dryRun: true });
+        }).then((report) => {
+            assert.equal(report.dryRun, true);
+            assert.equal(report.share, 'music');
+            assert.equal(report.target, target);
+            assert.deepEqual(report.actions.map(x => [ x.type, x.reason, x.path, x.size ]), [
+                [ 'download', 'new', 'album/track1.bin', 7 ],
+                [ 'download', 'new', 'album/track2.bin', 7 ],
+                [ 'download', 'new', 'single.bin', 6 ],
+            ]);
+            assert.equal(report.downloaded, 0);
+            assert.equal(fs.existsSync(target), false);
+        });
+    });
+
+    it('should mirror a share', () => {
+        let conn: db_contracts.IConnection;
+
+        return client.connect('server', 1).then((c) => {
+            conn = c;
+
+            return client.sync(conn, 'music', target);
+        }).then((report) => {
+            assert.equal(report.downloaded, 3);
+            assert.equal(report.bytes, 20);
+            assert.deepEqual(report.errors, []);
+            assert.ok(report.finished >= report.started);
+
+            assert.equal(fs.readFileSync(path.join(target, 'album', 'track1.bin'), 'utf8'), 'Track 1');
+            assert.equal(fs.readFileSync(path.join(target, 'single.bin'), 'utf8'), 'Single');
+            assert.deepEqual(fs.readdirSync(path.join(target, 'album')), [ 'track1.bin', 'track2.bin' ]);
+
+            // the remote time is kept
+            assert.equal(Math.floor(fs.statSync(path.join(target, 'single.bin')).mtime.getTime() / 1000),
+                         Math.floor(fs.statSync(path.join(dir, 'music', 'single.bin')).mtime.getTime() / 1000));
+
+            return client.sync(conn, 'music', target);
+        }).then((report) => {
+            assert.deepEqual(report.actions, []);
+            assert.equal(report.unchanged, 3);
+        });
+    });
+
+    it('should download changed files and optionally delete removed ones', () => {
+        let conn: db_contracts.IConnection;
+
+        fs.mkdirSync(target);
+        fs.mkdirSync(path.join(target, 'old'));
+        writeLocalFile('single.bin', 'Old single');
+        writeLocalFile('old/removed.bin', 'Removed');
+
+        return client.connect('server', 1).then((c) => {
+            conn = c;
+
+            return client.sync(conn, 'music', target);
+        }).then((report) => {
+            assert.deepEqual(report.actions.filter(x => 'single.bin' === x.path).map(x => x.reason), [ 'changed' ]);
+            assert.equal(fs.readFileSync(path.join(target, 'single.bin'), 'utf8'), 'Single');
+            assert.equal(fs.existsSync(path.join(target, 'old', 'removed.bin')), true);
+
+            return client.sync(conn, 'music', target, { deleteRemoved: true });
+        }).then((report) => {
+            assert.deepEqual(report.actions.map(x => [ x.type, x.reason, x.path ]), [
+                [ 'delete', 'removed', 'old/removed.bin' ],
+            ]);
+            assert.equal(report.deleted, 1);
+
+            // including the empty directory
+            assert.equal(fs.existsSync(path.join(target, 'old')), false);
+        });
+    });
+
+    it('should compare by content ID', () => {
+        let conn: db_contracts.IConnection;
+
+        // same size and time, but other content
+        fs.mkdirSync(target);
+        writeLocalFile('single.bin', 'SINGLE', 'single.bin');
+
+        return client.connect('server', 1).then((c) => {
+            conn = c;
+
+            return client.sync(conn, 'music', target, { dryRun: true });
+        }).then((report) => {
+            assert.equal(report.actions.filter(x => 'single.bin' === x.path).length, 0);
+
+            return client.sync(conn, 'music', target, { compare: 'hash', dryRun: true });
+        }).then((report) => {
+            assert.deepEqual(report.actions.filter(x => 'single.bin' === x.path).map(x => x.reason), [ 'changed' ]);
+        });
+    });
+
+    it('should not delete anything, if the share is not available', () => {
+        fs.mkdirSync(target);
+        writeLocalFile('single.bin', 'Single');
+
+        return client.connect('server', 1).then((conn) => {
+            return client.sync(conn, 'unknown', target, { deleteRemoved: true });
+        }).then(() => {
+            assert.fail(null, null, 'Sync should fail!', null);
+        }, (err) => {
+            assert.equal(err.code, db_contracts.ErrorCode.NotFound);
+            assert.equal(fs.existsSync(path.join(target, 'single.bin')), true);
+        });
+    });
+
+    it('should run a scheduled job', () => {
+        let job = client.createSyncJob('server', 1, 'videos', target);
+        job.interval = 50;
+
+        let reports: db_sync.ISyncReport[] = [];
+        job.on('sync.completed', (report: db_sync.ISyncReport) => {
+            reports.push(report);
+        });
+
+        assert.equal(job.start(), true);
+        assert.equal(job.start(), false);
+        assert.equal(job.isScheduled, true);
+
+        return helpers.waitFor(job, 'sync.completed').then(() => {
+            return helpers.waitFor(job, 'sync.completed');
+        }).then(() => {
+            assert.equal(job.stop(), true);
+            assert.equal(job.isScheduled, false);
+
+            assert.equal(reports[0].downloaded, 1);
+            assert.equal(reports[1].downloaded, 0);
+            assert.equal(reports[1].unchanged, 1);
+            assert.equal(fs.readFileSync(path.join(target, 'clip.bin'), 'utf8'), 'Clip');
+
+            // the connection is reused
+            assert.equal(client.connections.length, 1);
+        });
+    });
+});
@@ -0,0 +1,173 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_messages from '../messages';
+import * as db_transfer from '../transfer';
+import * as db_transport from '../transport';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+describe('transfer', () => {
+    let client: db_index.DeliveryBoy;
+    let dir: string;
+    let server: db_index.DeliveryBoy;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'inbox'));
+
+        let transport = new db_transport.MemoryTransport();
+
+        return helpers.createInstance(dir, 'server', transport).then((instance) => {
+            server = instance;
+            server.port = 1;
+
+            return helpers.createInstance(dir, 'client', transport);
+        }).then((instance) => {
+            client = instance;
+
+            return server.start();
+        });
+    });
+
+    afterEach(() => {
+        return client.stop().then(() => {
+            return server.stop();
+        }).then(() => {
+            helpers.removeDir(dir);
+        });
+    });
+
+    let writeFile = (name: string, size: number): Buffer => {
+        let content = crypto.randomBytes(size);
+        fs.writeFileSync(path.join(dir, name), content);
+
+        return content;
+    };
+
+    it('should send a file to the remote', () => {
+        let content = writeFile('file.bin', 300 * 1024 + 17);
+
+        return Promise.all([ client.connect('server', 1), helpers.waitFor(server, 'listen.accepted') ]).then((results) => {
+            let clientConn = <db_contracts.IConnection>results[0];
+            let serverConn = <db_contracts.IConnection>results[1][0];
+
+            return Promise.all([ clientConn.sendFile(path.join(dir, 'file.bin')),
+                                 serverConn.receiveFile(path.join(dir, 'inbox')) ]);
+        }).then((results) => {
+            let sent = results[0];
+            let received = results[1];
+
+            assert.equal(received.hash, sent.hash);
+            assert.equal(received.name, 'file.bin');
+            assert.equal(received.resumed, false);
+            assert.equal(received.size, content.length);
+            assert.ok(fs.readFileSync(path.join(dir, 'inbox', 'file.bin')).equals(content));
+            assert.ok(!fs.existsSync(path.join(dir, 'inbox', 'file.bin.part')));
+        });
+    });
+
+    it('should resume a partial transfer', () => {
+        let content = writeFile('file.bin', 300 * 1024 + 17);
+
+        // the first two chunks have already been received
+        let partial = crypto.randomBytes(content.length);
+        content.copy(partial, 0, 0, 2 * db_transfer.DEFAULT_CHUNK_SIZE);
+        fs.writeFileSync(path.join(dir, 'inbox', 'file.bin.part'), partial);
+
+        return db_transfer.hashFile(path.join(dir, 'file.bin')).then((hash) => {
+            return db_transfer.savePartialTransfer(path.join(dir, 'inbox', 'file.bin.part.json'), {
+                chunks: new Buffer([ 3 ]).toString('base64'),
+                chunkSize: db_transfer.DEFAULT_CHUNK_SIZE,
+                hash: hash,
+                name: 'file.bin',
+                offset: 2 * db_transfer.DEFAULT_CHUNK_SIZE,
+                size: content.length,
+            });
+        }).then(() => {
+            return Promise.all([ client.connect('server', 1), helpers.waitFor(server, 'listen.accepted') ]);
+        }).then((results) => {
+            let clientConn = <db_contracts.IConnection>results[0];
+            let serverConn = <db_contracts.IConnection>results[1][0];
+
+            return Promise.all([ clientConn.sendFile(path.join(dir, 'file.bin')),
+                                 serverConn.receiveFile(path.join(dir, 'inbox')) ]);
+        }).then((results) => {
+            assert.equal(results[0].resumed, true);
+            assert.equal(results[1].resumed, true);
+            assert.ok(fs.readFileSync(path.join(dir, 'inbox', 'file.bin')).equals(content));
+            assert.ok(!fs.existsSync(path.join(dir, 'inbox', 'file.bin.part.json')));
+        });
+    });
+
+    it('should decline an offer with too many chunks', () => {
+        return Promise.all([ client.connect('server', 1), helpers.waitFor(server, 'listen.accepted') ]).then((results) => {
+            let clientConn = <db_contracts.IConnection>results[0];
+            let serverConn = <db_contracts.IConnection>results[1][0];
+
+            let receiving = serverConn.receiveFile(path.join(dir, 'inbox'), 0).then(() => {
+                assert.fail(null, null, 'The offer should have been declined!', null);
+            }, (err) => {
+                assert.ok(/Too many chunks/.test(err.message));
+            });
+
+            return Promise.all([ clientConn.request<db_messages.IFileDeclineMessage>(<db_messages.IFileOfferMessage>{
+                type: 3,
+                chunkSize: 1,
+                hash: '00',
+                name: 'huge.bin',
+                size: Math.pow(2, 50),
+            }), receiving ]);
+        }).then((results) => {
+            let reply = results[0];
+
+            assert.equal(reply.type, 5);
+            assert.ok(!fs.existsSync(path.join(dir, 'inbox', 'huge.bin.part')));
+        });
+    });
+
+    it('should decline a file, that is too big', () => {
+        writeFile('file.bin', 64 * 1024);
+
+        return Promise.all([ client.connect('server', 1), helpers.waitFor(server, 'listen.accepted') ]).then((results) => {
+            let clientConn = <db_contracts.IConnection>results[0];
+            let serverConn = <db_contracts.IConnection>results[1][0];
+
+            let receiving = serverConn.receiveFile(path.join(dir, 'inbox'), 1024).then(() => {
+                assert.fail(null, null, 'The file should have been declined!', null);
+            }, (err) => {
+                assert.ok(/too big/.test(err.message));
+            });
+
+            return Promise.all([ clientConn.sendFile(path.join(dir, 'file.bin')).then(() => {
+                assert.fail(null, null, 'The sender should have been rejected!', null);
+            }, (err) => {
+                assert.ok(/declined/.test(err.message));
+            }), receiving ]);
+        }).then(() => {
+            assert.ok(!fs.existsSync(path.join(dir, 'inbox', 'file.bin')));
+        });
+    });
+});
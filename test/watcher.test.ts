@@ -0,0 +1,239 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as assert from 'assert';
+import * as db_contracts from '../contracts';
+import * as db_index from '../index';
+import * as db_library from '../library';
+import * as db_transport from '../transport';
+import * as db_watcher from '../watcher';
+import * as fs from 'fs';
+import * as helpers from './helpers';
+import * as path from 'path';
+
+
+class TestWatcher extends db_watcher.LibraryWatcher {
+    public checks = 0;
+
+    public check() {
+        ++this.checks;
+
+        super.check();
+    }
+
+    // polls without watching the directories
+    public poll() {
+        this._isRunning = true;
+
+        this.startPolling();
+    }
+
+    public touch() {
+        this.trigger();
+    }
+}
+
+
+describe('watcher', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = helpers.createTempDir();
+
+        fs.mkdirSync(path.join(dir, 'music'));
+        fs.writeFileSync(path.join(dir, 'music', 'track1.bin'), new Buffer('Track 1'));
+        fs.writeFileSync(path.join(dir, 'music', 'track2.bin'), new Buffer('Track 2'));
+    });
+
+    afterEach(() => {
+        helpers.removeDir(dir);
+    });
+
+    describe('LibraryWatcher', () => {
+        let watcher: TestWatcher;
+
+        beforeEach(() => {
+            watcher = new TestWatcher(new db_library.Library(() => [ path.join(dir, 'music') ]));
+        });
+
+        afterEach(() => {
+            watcher.stop();
+        });
+
+        // checks the library and returns the changes or (null)
+        let check = (): PromiseLike<db_contracts.ILibraryChanges> => {
+            return new Promise<db_contracts.ILibraryChanges>((resolve) => {
+                let changes: db_contracts.ILibraryChanges = null;
+
+                let onChanged = (c: db_contracts.ILibraryChanges) => {
+                    changes = c;
+                };
+                watcher.on('library.changed', onChanged);
+
+                watcher.check();
+
+                helpers.sleep(200).then(() => {
+                    watcher.removeListener('library.changed', onChanged);
+
+                    resolve(changes);
+                });
+            });
+        };
+
+        it('should report added, changed and removed entries', () => {
+            return check().then((changes) => {
+                assert.strictEqual(changes, null);  // the snapshot
+
+                fs.writeFileSync(path.join(dir, 'music', 'track3.bin'), new Buffer('Track 3'));
+                fs.writeFileSync(path.join(dir, 'music', 'track1.bin'), new Buffer('Track 1, remastered'));
+                fs.unlinkSync(path.join(dir, 'music', 'track2.bin'));
+
+                return check();
+            }).then((changes) => {
+                assert.deepEqual(changes.added.map(x => x.path), [ 'music/track3.bin' ]);
+                assert.deepEqual(changes.changed.map(x => x.path), [ 'music/track1.bin' ]);
+                assert.deepEqual(changes.removed.map(x => x.path), [ 'music/track2.bin' ]);
+
+                return check();
+            }).then((changes) => {
+                assert.strictEqual(changes, null);
+            });
+        });
+
+        it('should debounce file system events', () => {
+            watcher.delay = 50;
+            watcher.poll();
+
+            let checks = watcher.checks;
+
+            for (let i = 0; i < 5; i++) {
+                watcher.touch();
+            }
+
+            return helpers.sleep(200).then(() => {
+                assert.equal(watcher.checks, checks + 1);
+            });
+        });
+
+        it('should poll the directories', () => {
+            watcher.pollInterval = 50;
+            watcher.poll();
+
+            assert.equal(watcher.isPolling, true);
+            assert.equal(watcher.isRunning, true);
+
+            return helpers.sleep(200).then(() => {
+                fs.writeFileSync(path.join(dir, 'music', 'track3.bin'), new Buffer('Track 3'));
+
+                return helpers.waitFor(watcher, 'library.changed');
+            }).then((args) => {
+                let changes: db_contracts.ILibraryChanges = args[0];
+                assert.deepEqual(changes.added.map(x => x.path), [ 'music/track3.bin' ]);
+
+                assert.equal(watcher.stop(), true);
+                assert.equal(watcher.isPolling, false);
+                assert.equal(watcher.isRunning, false);
+            });
+        });
+    });
+
+    describe('subscriptions', () => {
+        let client: db_index.DeliveryBoy;
+        let server: db_index.DeliveryBoy;
+
+        beforeEach(() => {
+            fs.mkdirSync(path.join(dir, 'secret'));
+
+            let transport = new db_transport.MemoryTransport();
+
+            return helpers.createInstance(dir, 'server', transport).then((instance) => {
+                server = instance;
+                server.port = 1;
+                server.shares = [ path.join(dir, 'music'), { path: path.join(dir, 'secret'), password: 'pwd' } ];
+                server.watcher.delay = 50;
+
+                return helpers.createInstance(dir, 'client', transport);
+            }).then((instance) => {
+                client = instance;
+
+                return server.start();
+            });
+        });
+
+        afterEach(() => {
+            return client.stop().then(() => {
+                return server.stop();
+            });
+        });
+
+        it('should push the changes of the library to subscribers', () => {
+            let conn: db_contracts.IConnection;
+
+            return client.connect('server', 1).then((c) => {
+                conn = c;
+
+                return conn.subscribe();
+            }).then(() => {
+                assert.equal(server.watcher.isRunning, true);
+
+                return helpers.sleep(300);  // the snapshot
+            }).then(() => {
+                // changes of locked shares are not visible
+                fs.writeFileSync(path.join(dir, 'secret', 'hidden.bin'), new Buffer('Hidden'));
+                fs.writeFileSync(path.join(dir, 'music', 'track3.bin'), new Buffer('Track 3'));
+
+                server.watcher.check();
+
+                return helpers.waitFor(conn, 'library.changed');
+            }).then((args) => {
+                let changes: db_contracts.ILibraryChanges = args[0];
+
+                assert.deepEqual(changes.added.map(x => x.path), [ 'music/track3.bin' ]);
+                assert.deepEqual(changes.changed, []);
+                assert.deepEqual(changes.removed, []);
+            });
+        });
+
+        it('should stop the watcher, when the last subscriber has gone', () => {
+            let conn: db_contracts.IConnection;
+
+            return client.connect('server', 1).then((c) => {
+                conn = c;
+
+                return conn.subscribe();
+            }).then(() => {
+                assert.equal(server.watcher.isRunning, true);
+
+                return conn.subscribe(false);
+            }).then(() => {
+                assert.equal(server.watcher.isRunning, false);
+
+                return conn.subscribe();
+            }).then(() => {
+                assert.equal(server.watcher.isRunning, true);
+
+                let closed = helpers.waitFor(server, 'connection.close');
+                conn.close();
+
+                return closed;
+            }).then(() => {
+                assert.equal(server.watcher.isRunning, false);
+            });
+        });
+    });
+});
@@ -0,0 +1,902 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as crypto from 'crypto';
+import * as db_bandwidth from './bandwidth';
+import * as db_contracts from './contracts';
+import * as db_messages from './messages';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+
+
+/**
+ * A record of a partial (incomplete) transfer.
+ */
+export interface IPartialTransfer {
+    /**
+     * The bitmap (Base64) of the chunks that have already been received.
+     */
+    chunks: string;
+    /**
+     * The size of a chunk, in bytes.
+     */
+    chunkSize: number;
+    /**
+     * The expected SHA-256 hash of the whole file (hex).
+     */
+    hash: string;
+    /**
+     * The name of the file.
+     */
+    name: string;
+    /**
+     * The number of bytes that have been received in one piece from the beginning.
+     */
+    offset: number;
+    /**
+     * The size of the file, in bytes.
+     */
+    size: number;
+}
+
+
+/**
+ * The default size of a file chunk, in bytes.
+ */
+export const DEFAULT_CHUNK_SIZE = 65536;
+/**
+ * The default maximum size of a received file, in bytes.
+ */
+export const DEFAULT_MAX_FILE_SIZE = 17179869184;
+/**
+ * The maximum number of chunks of a file.
+ */
+export const MAX_CHUNK_COUNT = 1048576;
+/**
+ * The maximum number of times a corrupted chunk is requested again.
+ */
+export const MAX_CHUNK_RETRIES = 3;
+/**
+ * The maximum size of a file chunk, in bytes, so a chunk always fits into one message.
+ */
+export const MAX_CHUNK_SIZE = 4194304;
+/**
+ * The number of received chunks after that the record of a partial transfer is saved.
+ */
+export const PARTIAL_TRANSFER_SAVE_INTERVAL = 16;
+
+
+/**
+ * Calculates the SHA-256 hash of a file.
+ * 
+ * @param {string} file The path of the file.
+ * 
+ * @return {PromiseLike<string>} The promise with the hash (hex).
+ */
+export function hashFile(file: string): PromiseLike<string> {
+    return new Promise<string>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            let hash = crypto.createHash('sha256');
+
+            let stream = fs.createReadStream(file);
+            stream.once('error', (err: any) => {
+                completed(err);
+            });
+            stream.on('data', (data: Buffer) => {
+                hash.update(data);
+            });
+            stream.once('end', () => {
+                completed(null, hash.digest('hex'));
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Loads the record of a partial transfer.
+ * 
+ * @param {string} file The path of the record file.
+ * 
+ * @return {PromiseLike<IPartialTransfer>} The promise with the record or (null) if not found or invalid.
+ */
+export function loadPartialTransfer(file: string): PromiseLike<IPartialTransfer> {
+    return new Promise<IPartialTransfer>((resolve, reject) => {
+        try {
+            fs.readFile(file, (err, data) => {
+                let record: IPartialTransfer = null;
+
+                if (!err) {
+                    try {
+                        record = JSON.parse(data.toString('utf8'));
+                    }
+                    catch (e) {
+                        record = null;  // invalid data
+                    }
+                }
+
+                if (!record || 'object' !== typeof record) {
+                    record = null;
+                }
+
+                resolve(record);
+            });
+        }
+        catch (e) {
+            reject(e);
+        }
+    });
+}
+
+/**
+ * Receives a file that is offered by the remote.
+ * 
+ * If a partial transfer of the same file exists in the target directory
+ * the transfer is resumed.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {string} targetDir The directory where the file should be stored.
+ * @param {number} [maxSize] The maximum size of the file, in bytes. 0 or less means 'unlimited'.
+ * 
+ * @return {PromiseLike<db_contracts.IFileTransferResult>} The promise.
+ */
+export function receiveFile(conn: db_contracts.IConnection, targetDir: string, maxSize?: number): PromiseLike<db_contracts.IFileTransferResult> {
+    maxSize = parseInt(simpleSocketHelpers.toStringSafe(maxSize).trim());
+    if (isNaN(maxSize)) {
+        maxSize = DEFAULT_MAX_FILE_SIZE;
+    }
+
+    return new Promise<db_contracts.IFileTransferResult>((resolve, reject) => {
+        let bitmap: Buffer;
+        let chunkSize: number;
+        let currentMessage: db_messages.IMessage;
+        let discardTempFile = false;
+        let fd: number;
+        let hash: string;
+        let name: string;
+        let recordFile: string;
+        let size: number;
+        let tempFile: string;
+
+        let createRecord = (): IPartialTransfer => {
+            return {
+                chunks: bitmap.toString('base64'),
+                chunkSize: chunkSize,
+                hash: hash,
+                name: name,
+                offset: getContiguousOffset(bitmap, chunkSize, size),
+                size: size,
+            };
+        };
+
+        let completed = (err: any, result?: db_contracts.IFileTransferResult) => {
+            let finished = () => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(result);
+                }
+            };
+
+            // keep partial data for a later
+            // resume or remove it
+            let cleanup = () => {
+                if (!err || !tempFile) {
+                    finished();
+                }
+                else if (discardTempFile) {
+                    fs.unlink(tempFile, () => {
+                        fs.unlink(recordFile, () => {
+                            finished();
+                        });
+                    });
+                }
+                else {
+                    savePartialTransfer(recordFile, createRecord()).then(() => {
+                        finished();
+                    }, () => {
+                        finished();
+                    });
+                }
+            };
+
+            if (simpleSocketHelpers.isNullOrUndefined(fd)) {
+                cleanup();
+            }
+            else {
+                let fdToClose = fd;
+                fd = null;
+
+                fs.close(fdToClose, () => {
+                    cleanup();
+                });
+            }
+        };
+
+        // answers the message of the remote
+        // that is currently handled
+        let sendReply = (msg: db_messages.IMessage): PromiseLike<Buffer> => {
+            if (currentMessage) {
+                msg.replyTo = currentMessage.id;
+            }
+
+            return conn.sendMessage(msg);
+        };
+
+        // sends a message and rejects
+        // the promise with a specific error
+        let failWith = (msg: db_messages.IFileAbortMessage | db_messages.IFileDeclineMessage) => {
+            let err = new Error(msg.reason);
+
+            sendReply(msg).then(() => {
+                completed(err);
+            }, () => {
+                completed(err);
+            });
+        };
+
+        try {
+            targetDir = path.resolve(simpleSocketHelpers.toStringSafe(targetDir));
+
+            conn.readMessage<db_messages.IMessage>().then((msg) => {
+                currentMessage = msg;
+
+                try {
+                    if (!msg || 3 !== msg.type) {
+                        failWith({
+                            type: 8,
+                            reason: 'Expected a file offer!',
+                        });
+                        return;
+                    }
+
+                    let offer = <db_messages.IFileOfferMessage>msg;
+
+                    name = path.basename(simpleSocketHelpers.toStringSafe(offer.name).trim());
+                    size = parseInt(simpleSocketHelpers.toStringSafe(offer.size).trim());
+                    chunkSize = parseInt(simpleSocketHelpers.toStringSafe(offer.chunkSize).trim());
+                    hash = simpleSocketHelpers.normalizeString(offer.hash);
+
+                    if (!name || '.' === name || '..' === name) {
+                        failWith({
+                            type: 5,
+                            reason: 'Invalid file name!',
+                        });
+                        return;
+                    }
+
+                    if (isNaN(size) || size < 0 || isNaN(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE || !hash) {
+                        failWith({
+                            type: 5,
+                            reason: 'Invalid file offer!',
+                        });
+                        return;
+                    }
+
+                    if (maxSize > 0 && size > maxSize) {
+                        failWith({
+                            type: 5,
+                            reason: `File is too big (maximum ${maxSize} bytes)!`,
+                        });
+                        return;
+                    }
+
+                    let chunkCount = Math.ceil(size / chunkSize);
+                    if (chunkCount > MAX_CHUNK_COUNT) {
+                        failWith({
+                            type: 5,
+                            reason: `Too many chunks (maximum ${MAX_CHUNK_COUNT})!`,
+                        });
+                        return;
+                    }
+
+                    let targetFile = path.join(targetDir, name);
+
+                    let receiveChunks = (resumed: boolean) => {
+                        let meter = new db_bandwidth.ProgressMeter(name, 'download',
+                                                                   size, countBytes(bitmap, chunkCount, chunkSize, size));
+                        let retries: { [index: number]: number } = {};
+                        let unsavedChunks = 0;
+
+                        let sendOKAndReadNext = () => {
+                            sendReply(<db_messages.IOKMessage>{
+                                type: 1,
+                            }).then(() => {
+                                readNextMessage();
+                            }, (err) => {
+                                completed(err);
+                            });
+                        };
+
+                        let finishFile = () => {
+                            let missingChunks = chunkCount - countChunks(bitmap, chunkCount);
+                            if (missingChunks > 0) {
+                                failWith({
+                                    type: 8,
+                                    reason: `${missingChunks} of ${chunkCount} chunks are missing!`,
+                                });
+                                return;
+                            }
+
+                            let fdToClose = fd;
+                            fd = null;
+
+                            fs.close(fdToClose, (err) => {
+                                if (err) {
+                                    completed(err);
+                                    return;
+                                }
+
+                                hashFile(tempFile).then((fileHash) => {
+                                    if (fileHash !== hash) {
+                                        discardTempFile = true;
+
+                                        failWith({
+                                            type: 8,
+                                            reason: 'Hash of file does not match!',
+                                        });
+                                        return;
+                                    }
+
+                                    fs.rename(tempFile, targetFile, (err) => {
+                                        if (err) {
+                                            completed(err);
+                                            return;
+                                        }
+
+                                        tempFile = null;
+
+                                        let result: db_contracts.IFileTransferResult = {
+                                            hash: fileHash,
+                                            name: name,
+                                            path: targetFile,
+                                            resumed: resumed,
+                                            size: size,
+                                        };
+
+                                        fs.unlink(recordFile, () => {
+                                            sendReply(<db_messages.IOKMessage>{
+                                                type: 1,
+                                            }).then(() => {
+                                                completed(null, result);
+                                            }, (err) => {
+                                                completed(err);
+                                            });
+                                        });
+                                    });
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            });
+                        };
+
+                        let receiveChunk = (chunk: db_messages.IFileChunkMessage) => {
+                            let index = parseInt(simpleSocketHelpers.toStringSafe(chunk.index).trim());
+                            if (isNaN(index) || index < 0 || index >= chunkCount) {
+                                failWith({
+                                    type: 8,
+                                    reason: `Invalid chunk index ${chunk.index}!`,
+                                });
+                                return;
+                            }
+
+                            let offset = index * chunkSize;
+
+                            let data = new Buffer(simpleSocketHelpers.toStringSafe(chunk.data), 'base64');
+                            if (data.length !== Math.min(chunkSize, size - offset) ||
+                                hashBuffer(data) !== simpleSocketHelpers.normalizeString(chunk.hash)) {
+                                // corrupted => request again
+
+                                retries[index] = (retries[index] || 0) + 1;
+                                if (retries[index] > MAX_CHUNK_RETRIES) {
+                                    failWith({
+                                        type: 8,
+                                        reason: `Chunk ${index} is corrupted!`,
+                                    });
+                                }
+                                else {
+                                    sendReply(<db_messages.IFileChunkRetryMessage>{
+                                        type: 9,
+                                        index: index,
+                                    }).then(() => {
+                                        readNextMessage();
+                                    }, (err) => {
+                                        completed(err);
+                                    });
+                                }
+
+                                return;
+                            }
+
+                            fs.write(fd, data, 0, data.length, offset, (err) => {
+                                if (err) {
+                                    failWith({
+                                        type: 8,
+                                        reason: 'Could not write file!',
+                                    });
+                                    return;
+                                }
+
+                                setChunk(bitmap, index);
+
+                                conn.emit('transfer.progress',
+                                          meter.update(data.length));
+
+                                if (++unsavedChunks < PARTIAL_TRANSFER_SAVE_INTERVAL) {
+                                    sendOKAndReadNext();
+                                    return;
+                                }
+
+                                unsavedChunks = 0;
+                                savePartialTransfer(recordFile, createRecord()).then(() => {
+                                    sendOKAndReadNext();
+                                }, (err) => {
+                                    completed(err);
+                                });
+                            });
+                        };
+
+                        let readNextMessage = () => {
+                            conn.readMessage<db_messages.IMessage>().then((msg) => {
+                                currentMessage = msg;
+
+                                try {
+                                    if (!msg) {
+                                        completed(new Error('Connection closed!'));
+                                        return;
+                                    }
+
+                                    switch (msg.type) {
+                                        case 6:
+                                            // chunk
+                                            receiveChunk(<db_messages.IFileChunkMessage>msg);
+                                            break;
+
+                                        case 7:
+                                            // complete
+                                            finishFile();
+                                            break;
+
+                                        case 8:
+                                            // aborted by sender
+                                            completed(toTransferError(msg));
+                                            break;
+
+                                        default:
+                                            failWith({
+                                                type: 8,
+                                                reason: `Unexpected message type ${msg.type}!`,
+                                            });
+                                            break;
+                                    }
+                                }
+                                catch (e) {
+                                    completed(e);
+                                }
+                            }, (err) => {
+                                completed(err);
+                            });
+                        };
+
+                        let reply: db_messages.IMessage;
+                        if (resumed) {
+                            reply = <db_messages.IFileResumeMessage>{
+                                type: 10,
+                                chunks: bitmap.toString('base64'),
+                                offset: getContiguousOffset(bitmap, chunkSize, size),
+                            };
+                        }
+                        else {
+                            reply = <db_messages.IFileAcceptMessage>{
+                                type: 4,
+                            };
+                        }
+
+                        sendReply(reply).then(() => {
+                            readNextMessage();
+                        }, (err) => {
+                            completed(err);
+                        });
+                    };
+
+                    // opens the temp file and starts
+                    // receiving the chunks
+                    let openTempFile = (record: IPartialTransfer) => {
+                        let partFile = targetFile + '.part';
+
+                        fs.open(partFile, record ? 'r+' : 'w', (err, newFD) => {
+                            if (err) {
+                                failWith({
+                                    type: 5,
+                                    reason: 'Could not create file!',
+                                });
+                                return;
+                            }
+
+                            fd = newFD;
+                            tempFile = partFile;
+
+                            try {
+                                bitmap = Buffer.alloc(Math.ceil(chunkCount / 8));
+                                if (record) {
+                                    new Buffer(record.chunks, 'base64').copy(bitmap);
+                                }
+
+                                receiveChunks(!!record);
+                            }
+                            catch (e) {
+                                discardTempFile = true;  // no valid bitmap to save
+
+                                completed(e);
+                            }
+                        });
+                    };
+
+                    fs.exists(targetFile, (exists) => {
+                        if (exists) {
+                            failWith({
+                                type: 5,
+                                reason: `File '${name}' already exists!`,
+                            });
+                            return;
+                        }
+
+                        recordFile = targetFile + '.part.json';
+
+                        loadPartialTransfer(recordFile).then((record) => {
+                            let canResume = record &&
+                                            record.hash === hash &&
+                                            record.size === size &&
+                                            record.chunkSize === chunkSize &&
+                                            'string' === typeof record.chunks;
+
+                            if (!canResume) {
+                                openTempFile(null);
+                                return;
+                            }
+
+                            fs.exists(targetFile + '.part', (partFileExists) => {
+                                openTempFile(partFileExists ? record : null);
+                            });
+                        }, (err) => {
+                            completed(err);
+                        });
+                    });
+                }
+                catch (e) {
+                    completed(e);
+                }
+            }, (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Saves the record of a partial transfer.
+ * 
+ * @param {string} file The path of the record file.
+ * @param {IPartialTransfer} record The record to save.
+ * 
+ * @return {PromiseLike<void>} The promise.
+ */
+export function savePartialTransfer(file: string, record: IPartialTransfer): PromiseLike<void> {
+    return new Promise<void>((resolve, reject) => {
+        let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+        try {
+            fs.writeFile(file, new Buffer(JSON.stringify(record), 'utf8'), (err) => {
+                completed(err);
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+/**
+ * Sends a file to the remote.
+ * 
+ * If the remote has a partial transfer of the file, only the missing chunks are sent.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {string} file The path of the file to send.
+ * @param {number} [chunkSize] The custom chunk size, in bytes (maximum: 'MAX_CHUNK_SIZE').
+ * 
+ * @return {PromiseLike<db_contracts.IFileTransferResult>} The promise.
+ */
+export function sendFile(conn: db_contracts.IConnection, file: string, chunkSize?: number): PromiseLike<db_contracts.IFileTransferResult> {
+    chunkSize = parseInt(simpleSocketHelpers.toStringSafe(chunkSize).trim());
+    if (isNaN(chunkSize) || chunkSize < 1) {
+        chunkSize = DEFAULT_CHUNK_SIZE;
+    }
+    chunkSize = Math.min(chunkSize, MAX_CHUNK_SIZE);
+
+    return new Promise<db_contracts.IFileTransferResult>((resolve, reject) => {
+        let fd: number;
+
+        let completed = (err: any, result?: db_contracts.IFileTransferResult) => {
+            let finished = () => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(result);
+                }
+            };
+
+            if (simpleSocketHelpers.isNullOrUndefined(fd)) {
+                finished();
+            }
+            else {
+                fs.close(fd, () => {
+                    finished();
+                });
+            }
+        };
+
+        // sends a message and waits for
+        // the reply of the remote
+        let sendAndReadReply = (msg: db_messages.IMessage, onReply: (reply: db_messages.IMessage) => void,
+                                timeout?: number) => {
+            conn.request<db_messages.IMessage>(msg, timeout).then((reply) => {
+                try {
+                    onReply(reply);
+                }
+                catch (e) {
+                    completed(e);
+                }
+            }, (err) => {
+                completed(err);
+            });
+        };
+
+        try {
+            file = path.resolve(simpleSocketHelpers.toStringSafe(file));
+
+            fs.stat(file, (err, stats) => {
+                if (err) {
+                    completed(err);
+                    return;
+                }
+
+                if (!stats.isFile()) {
+                    completed(new Error(`'${file}' is no file!`));
+                    return;
+                }
+
+                let size = stats.size;
+
+                // use bigger chunks for big files
+                chunkSize = Math.max(chunkSize, Math.ceil(size / MAX_CHUNK_COUNT));
+                if (chunkSize > MAX_CHUNK_SIZE) {
+                    completed(new Error(`'${file}' is too big!`));
+                    return;
+                }
+
+                let chunkCount = Math.ceil(size / chunkSize);
+
+                hashFile(file).then((hash) => {
+                    fs.open(file, 'r', (err, newFD) => {
+                        if (err) {
+                            completed(err);
+                            return;
+                        }
+
+                        fd = newFD;
+
+                        let sendChunks = (receivedChunks: Buffer, resumed: boolean) => {
+                            let meter = new db_bandwidth.ProgressMeter(path.basename(file), 'upload',
+                                                                       size, countBytes(receivedChunks, chunkCount, chunkSize, size));
+
+                            let result: db_contracts.IFileTransferResult = {
+                                hash: hash,
+                                name: path.basename(file),
+                                path: file,
+                                resumed: resumed,
+                                size: size,
+                            };
+
+                            let sendComplete = () => {
+                                sendAndReadReply(<db_messages.IFileCompleteMessage>{
+                                    type: 7,
+                                }, (reply) => {
+                                    if (reply && 1 === reply.type) {
+                                        completed(null, result);
+                                    }
+                                    else {
+                                        completed(toTransferError(reply));
+                                    }
+                                }, 0);  // remote has to verify the whole file
+                            };
+
+                            let sendNextChunk = (index: number) => {
+                                // skip chunks the remote already has
+                                while (index < chunkCount && isChunkSet(receivedChunks, index)) {
+                                    ++index;
+                                }
+
+                                if (index >= chunkCount) {
+                                    sendComplete();
+                                    return;
+                                }
+
+                                let offset = index * chunkSize;
+
+                                let buff = Buffer.alloc(Math.min(chunkSize, size - offset));
+                                fs.read(fd, buff, 0, buff.length, offset, (err, bytesRead) => {
+                                    if (err) {
+                                        completed(err);
+                                        return;
+                                    }
+
+                                    if (bytesRead !== buff.length) {
+                                        completed(new Error(`Could not read chunk ${index} of '${file}'!`));
+                                        return;
+                                    }
+
+                                    let chunk: db_messages.IFileChunkMessage = {
+                                        type: 6,
+                                        data: buff.toString('base64'),
+                                        hash: hashBuffer(buff),
+                                        index: index,
+                                    };
+
+                                    let sendChunk = () => {
+                                        sendAndReadReply(chunk, (reply) => {
+                                            if (reply && 1 === reply.type) {
+                                                conn.emit('transfer.progress',
+                                                          meter.update(buff.length));
+
+                                                sendNextChunk(index + 1);
+                                            }
+                                            else if (reply && 9 === reply.type &&
+                                                     (<db_messages.IFileChunkRetryMessage>reply).index === index) {
+                                                // remote received corrupted data
+                                                sendChunk();
+                                            }
+                                            else {
+                                                completed(toTransferError(reply));
+                                            }
+                                        });
+                                    };
+
+                                    sendChunk();
+                                });
+                            };
+
+                            sendNextChunk(0);
+                        };
+
+                        let offer: db_messages.IFileOfferMessage = {
+                            type: 3,
+                            chunkSize: chunkSize,
+                            hash: hash,
+                            name: path.basename(file),
+                            size: size,
+                        };
+
+                        sendAndReadReply(offer, (reply) => {
+                            let emptyBitmap = Buffer.alloc(Math.ceil(chunkCount / 8));
+
+                            if (reply && 4 === reply.type) {
+                                sendChunks(emptyBitmap, false);
+                            }
+                            else if (reply && 10 === reply.type) {
+                                let receivedChunks = new Buffer(simpleSocketHelpers.toStringSafe((<db_messages.IFileResumeMessage>reply).chunks),
+                                                                'base64');
+
+                                if (receivedChunks.length !== emptyBitmap.length) {
+                                    completed(new Error('Invalid chunk bitmap for resume!'));
+                                }
+                                else {
+                                    sendChunks(receivedChunks, true);
+                                }
+                            }
+                            else {
+                                completed(toTransferError(reply));
+                            }
+                        });
+                    });
+                }, (err) => {
+                    completed(err);
+                });
+            });
+        }
+        catch (e) {
+            completed(e);
+        }
+    });
+}
+
+
+function countBytes(bitmap: Buffer, chunkCount: number, chunkSize: number, size: number): number {
+    let bytes = 0;
+    for (let i = 0; i < chunkCount; i++) {
+        if (isChunkSet(bitmap, i)) {
+            bytes += Math.min(chunkSize, size - i * chunkSize);
+        }
+    }
+
+    return bytes;
+}
+
+function countChunks(bitmap: Buffer, chunkCount: number): number {
+    let count = 0;
+    for (let i = 0; i < chunkCount; i++) {
+        if (isChunkSet(bitmap, i)) {
+            ++count;
+        }
+    }
+
+    return count;
+}
+
+function getContiguousOffset(bitmap: Buffer, chunkSize: number, size: number): number {
+    let index = 0;
+    while (index * chunkSize < size && isChunkSet(bitmap, index)) {
+        ++index;
+    }
+
+    return Math.min(index * chunkSize, size);
+}
+
+function hashBuffer(data: Buffer): string {
+    return crypto.createHash('sha256')
+                 .update(data)
+                 .digest('hex');
+}
+
+function isChunkSet(bitmap: Buffer, index: number): boolean {
+    return 0 !== (bitmap[Math.floor(index / 8)] & (1 << (index % 8)));
+}
+
+function setChunk(bitmap: Buffer, index: number) {
+    bitmap[Math.floor(index / 8)] |= 1 << (index % 8);
+}
+
+function toTransferError(msg: db_messages.IMessage): Error {
+    if (!msg) {
+        return new Error('Connection closed!');
+    }
+
+    switch (msg.type) {
+        case 5:
+            return new Error('File has been declined: ' +
+                             simpleSocketHelpers.toStringSafe((<db_messages.IFileDeclineMessage>msg).reason));
+
+        case 8:
+            return new Error('Transfer has been aborted: ' +
+                             simpleSocketHelpers.toStringSafe((<db_messages.IFileAbortMessage>msg).reason));
+    }
+
+    return new Error(`Unexpected message type ${msg.type}!`);
+}
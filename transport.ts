@@ -0,0 +1,482 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as events from 'events';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as simpleSocket from 'node-simple-socket';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+interface IPendingFrameRead {
+    completed: (err: any, frame?: Buffer) => void;
+}
+
+
+/**
+ * An in-memory socket, that is connected with another one in the same process.
+ */
+export class MemorySocket extends events.EventEmitter implements db_contracts.ITransportSocket {
+    /**
+     * Stores the received frames, that have not been read yet.
+     */
+    protected _frames: Buffer[] = [];
+    /**
+     * Stores if the socket has been closed or not.
+     */
+    protected _isClosed = false;
+    /**
+     * Stores the pending reads.
+     */
+    protected _pendingReads: IPendingFrameRead[] = [];
+    /**
+     * Stores the other end.
+     */
+    protected _remote: MemorySocket;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} remoteAddress The address of the remote.
+     */
+    constructor(remoteAddress: string) {
+        super();
+
+        this.remoteAddress = remoteAddress;
+    }
+
+    /**
+     * Closes that socket only.
+     */
+    protected close() {
+        let me = this;
+
+        if (me._isClosed) {
+            return;
+        }
+        me._isClosed = true;
+
+        // frames, that have been received before, can still be read
+        if (me._frames.length < 1) {
+            me._pendingReads.splice(0).forEach((x) => {
+                x.completed(null, null);
+            });
+        }
+
+        me.emit('close');
+    }
+
+    /** @inheritdoc */
+    public end(): PromiseLike<any> {
+        let me = this;
+
+        return new Promise<any>((resolve) => {
+            let remote = me._remote;
+
+            me.close();
+            if (remote) {
+                // let the remote read, what has been written before
+                setImmediate(() => {
+                    remote.close();
+                });
+            }
+
+            resolve();
+        });
+    }
+
+    /**
+     * Gets if the socket has been closed or not.
+     */
+    public get isClosed(): boolean {
+        return this._isClosed;
+    }
+
+    /**
+     * Connects two sockets with each other.
+     * 
+     * @param {MemorySocket} x The first socket.
+     * @param {MemorySocket} y The second socket.
+     */
+    public static pair(x: MemorySocket, y: MemorySocket) {
+        x._remote = y;
+        y._remote = x;
+    }
+
+    /** @inheritdoc */
+    public read(): PromiseLike<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            if (me._frames.length > 0) {
+                completed(null, me._frames.shift());
+            }
+            else if (me._isClosed) {
+                completed(null, null);
+            }
+            else {
+                me._pendingReads.push({
+                    completed: completed,
+                });
+            }
+        });
+    }
+
+    /**
+     * Receives a frame from the remote.
+     * 
+     * @param {Buffer} frame The frame.
+     */
+    protected receive(frame: Buffer) {
+        if (this._isClosed) {
+            return;
+        }
+
+        let pending = this._pendingReads.shift();
+        if (pending) {
+            pending.completed(null, frame);
+        }
+        else {
+            this._frames.push(frame);
+        }
+    }
+
+    /** @inheritdoc */
+    public readonly remoteAddress: string;
+
+    /** @inheritdoc */
+    public get sessionKey(): Buffer {
+        return null;  // nothing leaves the process
+    }
+
+    /** @inheritdoc */
+    public write(data: Buffer): PromiseLike<Buffer> {
+        let me = this;
+
+        return new Promise<Buffer>((resolve, reject) => {
+            let remote = me._remote;
+            if (me._isClosed || !remote) {
+                reject(new Error('Socket is closed!'));
+                return;
+            }
+
+            // copy, so the sender cannot change the data later
+            let frame = Buffer.from(data);
+
+            // deliver asynchronously, like a real network
+            setImmediate(() => {
+                remote.receive(frame);
+            });
+
+            resolve(data);
+        });
+    }
+}
+
+/**
+ * A transport, that connects instances in the same process, e.g. for deterministic tests.
+ * All instances, that should reach each other, have to use the same object.
+ */
+export class MemoryTransport implements db_contracts.ITransport {
+    /**
+     * Stores the last client port.
+     */
+    protected _lastClientPort = 0;
+    /**
+     * Stores the listening callbacks by port.
+     */
+    protected _servers: { [port: number]: db_contracts.TransportListenCallback } = {};
+
+    /** @inheritdoc */
+    public connect(host: string, port: number): PromiseLike<db_contracts.ITransportSocket> {
+        let me = this;
+
+        return new Promise<db_contracts.ITransportSocket>((resolve, reject) => {
+            let callback = me._servers[port];
+            if (!callback) {
+                reject(new Error(`Nothing is listening on port ${port}!`));
+                return;
+            }
+
+            let sockets = createMemoryPair(`memory:${++me._lastClientPort}`, `memory:${port}`);
+
+            setImmediate(() => {
+                callback(null, sockets[1]);
+            });
+
+            resolve(sockets[0]);
+        });
+    }
+
+    /** @inheritdoc */
+    public listen(port: number, callback: db_contracts.TransportListenCallback): PromiseLike<db_contracts.ITransportServer> {
+        let me = this;
+
+        return new Promise<db_contracts.ITransportServer>((resolve, reject) => {
+            if (me._servers[port]) {
+                reject(new Error(`Port ${port} is already in use!`));
+                return;
+            }
+
+            me._servers[port] = callback;
+
+            resolve({
+                close: (cb?: (err?: any) => void) => {
+                    if (me._servers[port] === callback) {
+                        delete me._servers[port];
+                    }
+
+                    if (cb) {
+                        setImmediate(() => {
+                            cb();
+                        });
+                    }
+                },
+            });
+        });
+    }
+}
+
+/**
+ * A transport socket, that wraps a (encrypted) simple socket.
+ */
+export class SimpleSocketTransportSocket extends events.EventEmitter implements db_contracts.ITransportSocket {
+    /**
+     * Stores the wrapped socket.
+     */
+    protected _socket: simpleSocket.SimpleSocket;
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {simpleSocket.SimpleSocket} socket The socket to wrap.
+     * @param {string} [remoteAddress] The custom address of the remote.
+     */
+    constructor(socket: simpleSocket.SimpleSocket, remoteAddress?: string) {
+        super();
+
+        let me = this;
+
+        if (simpleSocketHelpers.isNullOrUndefined(remoteAddress) && socket.socket) {
+            remoteAddress = `${socket.socket.remoteAddress}:${socket.socket.remotePort}`;
+        }
+
+        this._socket = socket;
+        this.remoteAddress = simpleSocketHelpers.isNullOrUndefined(remoteAddress) ? null : remoteAddress;
+
+        socket.on('close', () => {
+            me.emit('close');
+        });
+        socket.on('error', (err: any) => {
+            me.emit('error',
+                    err);
+        });
+    }
+
+    /** @inheritdoc */
+    public end(): PromiseLike<any> {
+        return this._socket.end();
+    }
+
+    /** @inheritdoc */
+    public read(): PromiseLike<Buffer> {
+        return this._socket.read();
+    }
+
+    /** @inheritdoc */
+    public readonly remoteAddress: string;
+
+    /** @inheritdoc */
+    public get sessionKey(): Buffer {
+        return this._socket.password;
+    }
+
+    /**
+     * Gets the wrapped socket.
+     */
+    public get socket(): simpleSocket.SimpleSocket {
+        return this._socket;
+    }
+
+    /** @inheritdoc */
+    public write(data: Buffer): PromiseLike<Buffer> {
+        return this._socket.write(data);
+    }
+}
+
+/**
+ * The (default) transport via TCP.
+ */
+export class TcpTransport implements db_contracts.ITransport {
+    /** @inheritdoc */
+    public connect(host: string, port: number): PromiseLike<db_contracts.ITransportSocket> {
+        return simpleSocket.connect(port, host).then((socket) => {
+            return new SimpleSocketTransportSocket(socket);
+        });
+    }
+
+    /** @inheritdoc */
+    public listen(port: number, callback: db_contracts.TransportListenCallback): PromiseLike<db_contracts.ITransportServer> {
+        return simpleSocket.listen(port, (err, socket) => {
+            callback(err, socket ? new SimpleSocketTransportSocket(socket) : null);
+        });
+    }
+}
+
+/**
+ * A transport via Unix domain sockets (named pipes on Windows) for processes on the same machine.
+ * The port is mapped to a socket file, so the host is ignored.
+ */
+export class UnixSocketTransport implements db_contracts.ITransport {
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {string} [dir] The directory for the socket files. Default: The temp directory.
+     */
+    constructor(dir?: string) {
+        dir = simpleSocketHelpers.toStringSafe(dir).trim();
+        if (!dir) {
+            dir = os.tmpdir();
+        }
+
+        this.dir = path.resolve(dir);
+    }
+
+    /** @inheritdoc */
+    public connect(host: string, port: number): PromiseLike<db_contracts.ITransportSocket> {
+        let me = this;
+
+        return new Promise<db_contracts.ITransportSocket>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let socketPath = me.getPath(port);
+
+                let socket = net.connect(socketPath, () => {
+                    socket.removeListener('error', completed);
+
+                    completed(null,
+                              new SimpleSocketTransportSocket(simpleSocket.createClient(socket), `unix:${socketPath}`));
+                });
+                socket.once('error', completed);
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Gets the directory for the socket files.
+     */
+    public readonly dir: string;
+
+    /**
+     * Returns the path of the socket for a port.
+     * 
+     * @param {number} port The port.
+     * 
+     * @return {string} The path.
+     */
+    public getPath(port: number): string {
+        if ('win32' === process.platform) {
+            return path.join('\\\\?\\pipe', this.dir, `delivery-boy-${port}`);
+        }
+
+        return path.join(this.dir, `delivery-boy-${port}.sock`);
+    }
+
+    /** @inheritdoc */
+    public listen(port: number, callback: db_contracts.TransportListenCallback): PromiseLike<db_contracts.ITransportServer> {
+        let me = this;
+
+        return new Promise<db_contracts.ITransportServer>((resolve, reject) => {
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let socketPath = me.getPath(port);
+
+                let server = net.createServer((socket) => {
+                    try {
+                        callback(null,
+                                 new SimpleSocketTransportSocket(simpleSocket.createServer(socket), 'unix:'));
+                    }
+                    catch (e) {
+                        callback(e);
+                    }
+                });
+
+                let startListening = (removeStaleFile: boolean) => {
+                    server.once('error', (err: any) => {
+                        if (!removeStaleFile || !err || 'EADDRINUSE' !== err.code) {
+                            completed(err);
+                            return;
+                        }
+
+                        // a file of a crashed process
+                        // is removed, but not a used one
+                        let probe = net.connect(socketPath, () => {
+                            probe.end();
+
+                            completed(err);
+                        });
+                        probe.once('error', () => {
+                            fs.unlink(socketPath, () => {
+                                startListening(false);
+                            });
+                        });
+                    });
+
+                    server.listen(socketPath, () => {
+                        server.removeAllListeners('error');
+
+                        completed(null, server);
+                    });
+                };
+
+                startListening('win32' !== process.platform);
+            }
+            catch (e) {
+                completed(e);
+            }
+        });
+    }
+}
+
+
+/**
+ * Creates two in-memory sockets, that are connected with each other.
+ * 
+ * @param {string} [address1] The address of the first socket, as seen by the second one.
+ * @param {string} [address2] The address of the second socket, as seen by the first one.
+ * 
+ * @return {MemorySocket[]} The two sockets.
+ */
+export function createMemoryPair(address1 = 'memory:1', address2 = 'memory:2'): MemorySocket[] {
+    let x = new MemorySocket(address2);
+    let y = new MemorySocket(address1);
+
+    MemorySocket.pair(x, y);
+
+    return [ x, y ];
+}
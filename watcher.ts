@@ -0,0 +1,452 @@
+/// <reference types="node" />
+
+// delivery-boy (https://github.com/mkloubert/delivery-boy)
+// Copyright (C) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+// 
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+// 
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+// 
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+import * as db_contracts from './contracts';
+import * as db_library from './library';
+import * as db_messages from './messages';
+import * as db_shares from './shares';
+import * as events from 'events';
+import * as fs from 'fs';
+import * as simpleSocketHelpers from 'node-simple-socket/helpers';
+
+
+/**
+ * Capability: Pushing changes of the library to subscribers.
+ */
+export const CAPABILITY_WATCH = 'watch';
+/**
+ * The default time, in milliseconds, between two scans, if the file system cannot be watched.
+ */
+export const DEFAULT_POLL_INTERVAL = 30000;
+/**
+ * The default time, in milliseconds, to wait for further file system events before the library is scanned.
+ */
+export const DEFAULT_WATCH_DELAY = 1000;
+/**
+ * The maximum size, in bytes, of the entries of a change message. Larger changes are sent in several messages.
+ */
+export const MAX_CHANGES_SIZE = 1048576;
+
+let subscribers = new WeakMap<db_contracts.IConnection, boolean>();
+
+
+/**
+ * Watches the directories of the shares of a library and emits its changes.
+ */
+export class LibraryWatcher extends events.EventEmitter {
+    /**
+     * Stores the entries of the last scan by ID.
+     */
+    protected _entries: { [id: string]: db_contracts.ILibraryEntry };
+    /**
+     * Stores if a scan is running or not.
+     */
+    protected _isChecking = false;
+    /**
+     * Stores if another scan has been requested while one is running or not.
+     */
+    protected _isCheckPending = false;
+    /**
+     * Stores if the watcher is running or not.
+     */
+    protected _isRunning = false;
+    /**
+     * Stores the library.
+     */
+    protected _library: db_library.Library;
+    /**
+     * Stores the timer for polling.
+     */
+    protected _pollTimer: NodeJS.Timer;
+    /**
+     * Stores the timer, that delays the next scan.
+     */
+    protected _timer: NodeJS.Timer;
+    /**
+     * Stores the watchers of the directories.
+     */
+    protected _watchers: fs.FSWatcher[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {db_library.Library} library The library.
+     */
+    constructor(library: db_library.Library) {
+        super();
+
+        this._library = library;
+    }
+
+    /**
+     * Scans the library and emits its changes.
+     */
+    public check() {
+        let me = this;
+
+        if (me._isChecking) {
+            me._isCheckPending = true;
+            return;
+        }
+        me._isChecking = true;
+
+        let finished = () => {
+            me._isChecking = false;
+
+            if (me._isCheckPending) {
+                me._isCheckPending = false;
+
+                me.check();
+            }
+        };
+
+        me._library.refresh().then((entries) => {
+            let previousEntries = me._entries || {};
+            let currentEntries: { [id: string]: db_contracts.ILibraryEntry } = {};
+
+            let changes: db_contracts.ILibraryChanges = {
+                added: [],
+                changed: [],
+                removed: [],
+            };
+
+            entries.forEach((x) => {
+                currentEntries[x.id] = x;
+
+                let previousEntry = previousEntries[x.id];
+                if (!previousEntry) {
+                    changes.added.push(x);
+                }
+                // a content ID, that has been calculated in background, is no change
+                else if (previousEntry.size !== x.size || previousEntry.mtime !== x.mtime ||
+                         (previousEntry.hash && x.hash && previousEntry.hash !== x.hash)) {
+                    changes.changed.push(x);
+                }
+            });
+
+            Object.keys(previousEntries).filter(x => !currentEntries[x]).forEach((x) => {
+                changes.removed.push(previousEntries[x]);
+            });
+
+            let isFirstScan = !me._entries;
+            me._entries = currentEntries;
+
+            if (!isFirstScan && hasChanges(changes)) {
+                me.emit('library.changed',
+                        changes);
+            }
+
+            finished();
+        }, (err) => {
+            me.emit('error.watcher',
+                    err);
+
+            finished();
+        });
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, to wait for further file system events before the library is scanned.
+     */
+    public delay = DEFAULT_WATCH_DELAY;
+
+    /**
+     * Gets if the directories are polled, because they cannot be watched.
+     */
+    public get isPolling(): boolean {
+        return !!this._pollTimer;
+    }
+
+    /**
+     * Gets if the watcher is running or not.
+     */
+    public get isRunning(): boolean {
+        return this._isRunning;
+    }
+
+    /**
+     * Gets or sets the time, in milliseconds, between two scans, if the file system cannot be watched.
+     */
+    public pollInterval = DEFAULT_POLL_INTERVAL;
+
+    /**
+     * Starts watching. Call 'stop()' and 'start()' again, if the shares have been changed.
+     * 
+     * @return {PromiseLike<boolean>} The promise that indicates if the watcher has been started by that call or not.
+     */
+    public start(): PromiseLike<boolean> {
+        let me = this;
+
+        return new Promise<boolean>((resolve, reject) => {
+            if (me._isRunning) {
+                resolve(false);
+                return;
+            }
+            me._isRunning = true;
+
+            let completed = simpleSocketHelpers.createSimplePromiseCompletedAction(resolve, reject);
+
+            try {
+                let canWatch = true;
+
+                me._library.getShares().forEach((x) => {
+                    if (!canWatch) {
+                        return;
+                    }
+
+                    try {
+                        let watcher = fs.watch(x.path, {
+                            persistent: false,
+                            recursive: true,
+                        }, () => {
+                            me.trigger();
+                        });
+
+                        watcher.on('error', (err: any) => {
+                            me.emit('error.watcher',
+                                    err);
+
+                            me.startPolling();
+                        });
+
+                        me._watchers.push(watcher);
+                    }
+                    catch (e) {
+                        canWatch = false;  // recursive watching is not supported
+                    }
+                });
+
+                if (!canWatch) {
+                    me.startPolling();
+                }
+
+                // the first scan only creates the snapshot
+                me.check();
+
+                completed(null, true);
+            }
+            catch (e) {
+                me._isRunning = false;
+
+                completed(e);
+            }
+        });
+    }
+
+    /**
+     * Replaces the watchers of the directories by polling.
+     */
+    protected startPolling() {
+        let me = this;
+
+        if (!me._isRunning || me._pollTimer) {
+            return;
+        }
+
+        me.stopWatchers();
+
+        let interval = parseInt(simpleSocketHelpers.toStringSafe(me.pollInterval).trim());
+        if (isNaN(interval) || interval < 1) {
+            interval = DEFAULT_POLL_INTERVAL;
+        }
+
+        me._pollTimer = setInterval(() => {
+            me.check();
+        }, interval);
+        me._pollTimer.unref();
+    }
+
+    /**
+     * Stops watching.
+     * 
+     * @return {boolean} Has been stopped or not.
+     */
+    public stop(): boolean {
+        let me = this;
+
+        if (!me._isRunning) {
+            return false;
+        }
+        me._isRunning = false;
+
+        me.stopWatchers();
+
+        if (me._pollTimer) {
+            clearInterval(me._pollTimer);
+            me._pollTimer = null;
+        }
+        if (me._timer) {
+            clearTimeout(me._timer);
+            me._timer = null;
+        }
+
+        me._entries = null;
+
+        return true;
+    }
+
+    /**
+     * Closes the watchers of the directories.
+     */
+    protected stopWatchers() {
+        let watchers = this._watchers;
+        this._watchers = [];
+
+        watchers.forEach((x) => {
+            try {
+                x.close();
+            }
+            catch (e) { /* ignore */ }
+        });
+    }
+
+    /**
+     * Schedules a scan, after there have been no further file system events for 'delay' milliseconds.
+     */
+    protected trigger() {
+        let me = this;
+
+        if (!me._isRunning) {
+            return;
+        }
+
+        if (me._timer) {
+            clearTimeout(me._timer);
+        }
+
+        let delay = parseInt(simpleSocketHelpers.toStringSafe(me.delay).trim());
+        if (isNaN(delay) || delay < 0) {
+            delay = DEFAULT_WATCH_DELAY;
+        }
+
+        me._timer = setTimeout(() => {
+            me._timer = null;
+
+            me.check();
+        }, delay);
+        me._timer.unref();
+    }
+}
+
+
+/**
+ * Checks if a connection has subscribed to the changes of the library or not.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * 
+ * @return {boolean} Has subscribed or not.
+ */
+export function isSubscribed(conn: db_contracts.IConnection): boolean {
+    return !!subscribers.get(conn);
+}
+
+/**
+ * Sends changes of the library to all subscribed connections, filtered by the shares, they can access.
+ * 
+ * @param {db_contracts.IConnection[]} connections The connections.
+ * @param {db_contracts.IShare[]} shares The shares of the library.
+ * @param {db_contracts.ILibraryChanges} changes The changes.
+ */
+export function notifySubscribers(connections: db_contracts.IConnection[], shares: db_contracts.IShare[],
+                                  changes: db_contracts.ILibraryChanges) {
+    let getShare = (entry: db_contracts.ILibraryEntry) => {
+        return shares.filter(x => 0 === entry.path.indexOf(x.name + '/'))[0];
+    };
+
+    (connections || []).filter(x => !x.isClosed && isSubscribed(x)).forEach((conn) => {
+        let filter = db_shares.createFilter(conn);
+        let isVisible = (entry: db_contracts.ILibraryEntry) => filter(getShare(entry));
+
+        let visibleChanges: db_contracts.ILibraryChanges = {
+            added: changes.added.filter(isVisible),
+            changed: changes.changed.filter(isVisible),
+            removed: changes.removed.filter(isVisible),
+        };
+
+        if (!hasChanges(visibleChanges)) {
+            return;
+        }
+
+        // a message must not exceed the limit of a frame
+        splitChanges(visibleChanges).forEach((x) => {
+            conn.sendMessage(<db_messages.ILibraryChangedMessage>{
+                type: 44,
+                added: x.added,
+                changed: x.changed,
+                removed: x.removed,
+            }).then(() => { }, () => {
+                // connection has been closed
+            });
+        });
+    });
+}
+
+/**
+ * Handles a subscribe message of a remote.
+ * 
+ * @param {db_contracts.IConnection} conn The connection.
+ * @param {db_messages.ISubscribeLibraryMessage} msg The message.
+ * 
+ * @return {db_messages.IOKMessage} The reply.
+ */
+export function subscribe(conn: db_contracts.IConnection, msg: db_messages.ISubscribeLibraryMessage): db_messages.IOKMessage {
+    if (simpleSocketHelpers.toBooleanSafe(msg.enabled, true)) {
+        subscribers.set(conn, true);
+    }
+    else {
+        subscribers.delete(conn);
+    }
+
+    return {
+        type: 1,
+    };
+}
+
+
+function hasChanges(changes: db_contracts.ILibraryChanges): boolean {
+    return changes.added.length > 0 ||
+           changes.changed.length > 0 ||
+           changes.removed.length > 0;
+}
+
+function splitChanges(changes: db_contracts.ILibraryChanges): db_contracts.ILibraryChanges[] {
+    let batches: db_contracts.ILibraryChanges[] = [];
+
+    let batch: db_contracts.ILibraryChanges;
+    let batchSize = 0;
+
+    [ 'added', 'changed', 'removed' ].forEach((kind) => {
+        (<db_contracts.ILibraryEntry[]>(<any>changes)[kind]).forEach((x) => {
+            let size = Buffer.byteLength(JSON.stringify(x), 'utf8');
+
+            if (!batch || (batchSize > 0 && batchSize + size > MAX_CHANGES_SIZE)) {
+                batches.push(batch = {
+                    added: [],
+                    changed: [],
+                    removed: [],
+                });
+                batchSize = 0;
+            }
+
+            (<db_contracts.ILibraryEntry[]>(<any>batch)[kind]).push(x);
+            batchSize += size;
+        });
+    });
+
+    return batches;
+}